@@ -0,0 +1,177 @@
+-- Replace plaintext password checks with salted bcrypt hashes and signed session tokens
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Private schema is not exposed through the Supabase REST API
+CREATE SCHEMA IF NOT EXISTS private;
+
+-- Signing secret for session tokens (generated once, never leaves the database)
+CREATE TABLE IF NOT EXISTS private.auth_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  token_secret TEXT NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+  session_ttl INTERVAL NOT NULL DEFAULT INTERVAL '30 days'
+);
+
+INSERT INTO private.auth_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+-- Issued sessions, so tokens can be revoked on logout
+CREATE TABLE IF NOT EXISTS private.user_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON private.user_sessions(user_id);
+
+-- Never send password hashes to the browser
+REVOKE SELECT ON public.users FROM anon, authenticated;
+GRANT SELECT (user_id, username, name, role, created_at) ON public.users TO anon, authenticated;
+-- Clients only ever read users; every write goes through the SECURITY DEFINER
+-- functions below. A column-level revoke wouldn't be enough, since Supabase
+-- grants table-level writes to anon and authenticated by default.
+REVOKE INSERT, UPDATE, DELETE ON public.users FROM anon, authenticated;
+
+-- Token format: <session id>.<expiry epoch>.<hex hmac-sha256 of the first two parts>
+CREATE OR REPLACE FUNCTION private.sign_session(p_session_id UUID, p_expires_at TIMESTAMPTZ)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_session_id::text || '.' || floor(extract(epoch FROM p_expires_at))::bigint::text || '.' ||
+    encode(hmac(p_session_id::text || '.' || floor(extract(epoch FROM p_expires_at))::bigint::text,
+                (SELECT token_secret FROM private.auth_settings), 'sha256'), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION private.issue_session(p_user_id UUID)
+RETURNS TABLE (session_token TEXT, expires_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_session private.user_sessions;
+BEGIN
+  INSERT INTO private.user_sessions (user_id, expires_at)
+  VALUES (p_user_id, date_trunc('second', NOW() + (SELECT session_ttl FROM private.auth_settings)))
+  RETURNING * INTO v_session;
+
+  RETURN QUERY SELECT private.sign_session(v_session.id, v_session.expires_at), v_session.expires_at;
+END;
+$$;
+
+-- Returns the session id for a valid, unexpired, unrevoked token, or NULL
+CREATE OR REPLACE FUNCTION private.verify_session(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_parts TEXT[];
+  v_session private.user_sessions;
+BEGIN
+  v_parts := string_to_array(coalesce(p_token, ''), '.');
+  IF array_length(v_parts, 1) IS DISTINCT FROM 3 THEN
+    RETURN NULL;
+  END IF;
+
+  BEGIN
+    SELECT * INTO v_session FROM private.user_sessions WHERE id = v_parts[1]::uuid;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN NULL;
+  END;
+
+  IF v_session.id IS NULL
+    OR v_session.revoked_at IS NOT NULL
+    OR v_session.expires_at <= NOW()
+    OR private.sign_session(v_session.id, v_session.expires_at) <> p_token THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_session.id;
+END;
+$$;
+
+-- Verifies credentials server-side and returns the user with a fresh session token.
+-- Rows still holding a plaintext password are rehashed on their next successful login.
+CREATE OR REPLACE FUNCTION public.authenticate_user(p_username TEXT, p_password TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  name TEXT,
+  role TEXT,
+  session_token TEXT,
+  expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user public.users;
+  v_valid BOOLEAN := FALSE;
+BEGIN
+  SELECT * INTO v_user FROM public.users u WHERE u.username = p_username;
+
+  IF v_user.user_id IS NULL OR v_user.password_hash IS NULL OR v_user.password_hash = '' THEN
+    RETURN;
+  END IF;
+
+  IF v_user.password_hash LIKE '$2%' THEN
+    v_valid := crypt(p_password, v_user.password_hash) = v_user.password_hash;
+  ELSE
+    -- Legacy plaintext row: compare once, then upgrade to bcrypt
+    v_valid := v_user.password_hash = p_password;
+    IF v_valid THEN
+      UPDATE public.users u
+      SET password_hash = crypt(p_password, gen_salt('bf', 10))
+      WHERE u.user_id = v_user.user_id;
+    END IF;
+  END IF;
+
+  IF NOT v_valid THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT v_user.user_id, v_user.username, v_user.name, v_user.role, s.session_token, s.expires_at
+  FROM private.issue_session(v_user.user_id) s;
+END;
+$$;
+
+-- Resolves a session token to its user; returns no rows when the token is invalid
+CREATE OR REPLACE FUNCTION public.validate_session(p_token TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  name TEXT,
+  role TEXT,
+  expires_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+  SELECT u.user_id, u.username, u.name, u.role, s.expires_at
+  FROM private.user_sessions s
+  JOIN public.users u ON u.user_id = s.user_id
+  WHERE s.id = private.verify_session(p_token);
+$$;
+
+-- Revokes a session token (logout)
+CREATE OR REPLACE FUNCTION public.revoke_session(p_token TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+  UPDATE private.user_sessions
+  SET revoked_at = NOW()
+  WHERE id = private.verify_session(p_token);
+$$;
+
+REVOKE ALL ON FUNCTION public.authenticate_user(TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.validate_session(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.revoke_session(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.authenticate_user(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.validate_session(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_session(TEXT) TO anon, authenticated;
@@ -0,0 +1,117 @@
+-- Allow fines to be edited and voided, and record every change in an audit table
+ALTER TABLE fines
+  ADD COLUMN IF NOT EXISTS is_void BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS void_reason TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES users(user_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_fines_is_void ON fines(is_void);
+
+CREATE TYPE fine_event_type_enum AS ENUM ('created', 'edited', 'voided', 'restored');
+
+-- Audit trail: one row per change with the old and new values of the changed columns
+CREATE TABLE fine_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fine_id UUID NOT NULL REFERENCES fines(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  event_type fine_event_type_enum NOT NULL,
+  old_values JSONB,
+  new_values JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_fine_events_fine_id ON fine_events(fine_id);
+CREATE INDEX idx_fine_events_created_at ON fine_events(created_at);
+
+-- Enable Row Level Security
+ALTER TABLE fine_events ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can read the history; rows are only ever written by the trigger below
+CREATE POLICY "Fine events are viewable by everyone" ON fine_events
+  FOR SELECT USING (true);
+
+-- Keep updated_at / voided_at in sync on every update
+CREATE OR REPLACE FUNCTION touch_fine()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+
+  IF NEW.is_void AND NOT OLD.is_void THEN
+    NEW.voided_at := NOW();
+  ELSIF NOT NEW.is_void THEN
+    NEW.voided_at := NULL;
+    NEW.void_reason := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER fines_touch
+  BEFORE UPDATE ON fines
+  FOR EACH ROW EXECUTE FUNCTION touch_fine();
+
+-- Writes a fine_events row for inserts and for updates that change a tracked column.
+-- The actor is the fine's updated_by (set by the app on edits), falling back to the proposer.
+CREATE OR REPLACE FUNCTION log_fine_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tracked TEXT[] := ARRAY['subject_id', 'proposer_id', 'description', 'amount', 'fine_type', 'date', 'is_void', 'void_reason'];
+  col TEXT;
+  old_row JSONB;
+  new_row JSONB;
+  old_diff JSONB := '{}'::jsonb;
+  new_diff JSONB := '{}'::jsonb;
+  kind fine_event_type_enum;
+BEGIN
+  new_row := to_jsonb(NEW);
+
+  IF TG_OP = 'INSERT' THEN
+    FOREACH col IN ARRAY tracked LOOP
+      new_diff := new_diff || jsonb_build_object(col, new_row -> col);
+    END LOOP;
+
+    INSERT INTO fine_events (fine_id, actor_id, event_type, old_values, new_values)
+    VALUES (NEW.id, NEW.proposer_id, 'created', NULL, new_diff);
+    RETURN NEW;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+
+  FOREACH col IN ARRAY tracked LOOP
+    IF old_row -> col IS DISTINCT FROM new_row -> col THEN
+      old_diff := old_diff || jsonb_build_object(col, old_row -> col);
+      new_diff := new_diff || jsonb_build_object(col, new_row -> col);
+    END IF;
+  END LOOP;
+
+  IF new_diff = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  kind := CASE
+    WHEN NEW.is_void AND NOT OLD.is_void THEN 'voided'
+    WHEN OLD.is_void AND NOT NEW.is_void THEN 'restored'
+    ELSE 'edited'
+  END;
+
+  INSERT INTO fine_events (fine_id, actor_id, event_type, old_values, new_values)
+  VALUES (NEW.id, COALESCE(NEW.updated_by, NEW.proposer_id), kind, old_diff, new_diff);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER fines_audit
+  AFTER INSERT OR UPDATE ON fines
+  FOR EACH ROW EXECUTE FUNCTION log_fine_event();
+
+-- Enable real-time for the audit table
+ALTER PUBLICATION supabase_realtime ADD TABLE fine_events;
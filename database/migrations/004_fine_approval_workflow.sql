@@ -0,0 +1,130 @@
+-- Proposal lifecycle for fines: members vote, a threshold or an admin decides,
+-- and only approved fines count towards totals
+CREATE TYPE fine_status_enum AS ENUM ('pending', 'approved', 'rejected', 'contested');
+CREATE TYPE fine_vote_enum AS ENUM ('approve', 'reject');
+
+-- Existing fines were already in effect, so they are backfilled as approved
+ALTER TABLE fines
+  ADD COLUMN IF NOT EXISTS status fine_status_enum NOT NULL DEFAULT 'approved',
+  ADD COLUMN IF NOT EXISTS approve_votes INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS reject_votes INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS decided_by UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS decided_at TIMESTAMPTZ;
+
+ALTER TABLE fines ALTER COLUMN status SET DEFAULT 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_fines_status ON fines(status);
+
+-- One vote per member per fine; changing your mind updates the row
+CREATE TABLE fine_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fine_id UUID NOT NULL REFERENCES fines(id) ON DELETE CASCADE,
+  voter_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  vote fine_vote_enum NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (fine_id, voter_id)
+);
+
+CREATE INDEX idx_fine_votes_fine_id ON fine_votes(fine_id);
+CREATE INDEX idx_fine_votes_voter_id ON fine_votes(voter_id);
+
+-- Number of matching votes needed to settle a proposal
+CREATE TABLE fine_approval_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  approval_threshold INTEGER NOT NULL DEFAULT 3 CHECK (approval_threshold > 0)
+);
+
+INSERT INTO fine_approval_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+-- Enable Row Level Security
+ALTER TABLE fine_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fine_approval_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Fine votes are viewable by everyone" ON fine_votes
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can cast votes" ON fine_votes
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Users can change votes" ON fine_votes
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Users can retract votes" ON fine_votes
+  FOR DELETE USING (true);
+
+CREATE POLICY "Approval settings are viewable by everyone" ON fine_approval_settings
+  FOR SELECT USING (true);
+
+-- Recounts a fine's votes and settles its status.
+-- Admin decisions (decided_by set) are final and are not overridden by later votes.
+CREATE OR REPLACE FUNCTION resolve_fine_status(p_fine_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_threshold INTEGER;
+  v_approve INTEGER;
+  v_reject INTEGER;
+BEGIN
+  SELECT approval_threshold INTO v_threshold FROM fine_approval_settings;
+
+  SELECT
+    COUNT(*) FILTER (WHERE vote = 'approve'),
+    COUNT(*) FILTER (WHERE vote = 'reject')
+  INTO v_approve, v_reject
+  FROM fine_votes
+  WHERE fine_id = p_fine_id;
+
+  UPDATE fines
+  SET approve_votes = v_approve,
+      reject_votes = v_reject,
+      status = CASE
+        WHEN decided_by IS NOT NULL THEN status
+        WHEN v_approve >= v_threshold AND v_reject >= v_threshold THEN 'contested'
+        WHEN v_approve >= v_threshold THEN 'approved'
+        WHEN v_reject >= v_threshold THEN 'rejected'
+        ELSE 'pending'
+      END::fine_status_enum
+  WHERE id = p_fine_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION on_fine_vote_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM resolve_fine_status(COALESCE(NEW.fine_id, OLD.fine_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER fine_votes_resolve
+  AFTER INSERT OR UPDATE OR DELETE ON fine_votes
+  FOR EACH ROW EXECUTE FUNCTION on_fine_vote_change();
+
+-- Proposing a fine counts as the proposer's approve vote
+CREATE OR REPLACE FUNCTION add_proposer_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'pending' THEN
+    INSERT INTO fine_votes (fine_id, voter_id, vote)
+    VALUES (NEW.id, NEW.proposer_id, 'approve')
+    ON CONFLICT (fine_id, voter_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER fines_proposer_vote
+  AFTER INSERT ON fines
+  FOR EACH ROW EXECUTE FUNCTION add_proposer_vote();
+
+-- Vote tallies reach clients through the fines realtime channel
+ALTER PUBLICATION supabase_realtime ADD TABLE fine_votes;
@@ -0,0 +1,32 @@
+-- Payments ledger: money players have actually handed over to the pot
+CREATE TYPE payment_method_enum AS ENUM ('Cash', 'Bank Transfer', 'Card', 'Other');
+
+CREATE TABLE payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  method payment_method_enum NOT NULL DEFAULT 'Cash',
+  paid_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT,
+  recorded_by UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_payments_player_id ON payments(player_id);
+CREATE INDEX idx_payments_paid_at ON payments(paid_at);
+
+-- Enable Row Level Security
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+-- Recording payments is limited to admins in the app (see lib/permissions.ts)
+CREATE POLICY "Payments are viewable by everyone" ON payments
+  FOR SELECT USING (true);
+
+CREATE POLICY "Payments can be recorded" ON payments
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Payments can be removed" ON payments
+  FOR DELETE USING (true);
+
+-- Enable real-time so balances update as payments are recorded
+ALTER PUBLICATION supabase_realtime ADD TABLE payments;
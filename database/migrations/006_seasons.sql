@@ -0,0 +1,159 @@
+-- Seasons: fines, payments and totals are scoped to a season, and closed
+-- seasons are kept as a read-only archive
+CREATE TABLE seasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date > start_date),
+  -- A closed season can't be the one new fines go into
+  CHECK (NOT (is_active AND closed_at IS NOT NULL))
+);
+
+-- At most one season takes new fines at a time
+CREATE UNIQUE INDEX idx_seasons_single_active ON seasons(is_active) WHERE is_active;
+
+-- Everything recorded so far belongs to the current season
+INSERT INTO seasons (name, start_date, end_date, is_active)
+VALUES ('2025-2026', '2025-08-01', '2026-07-31', TRUE);
+
+ALTER TABLE fines ADD COLUMN IF NOT EXISTS season_id UUID REFERENCES seasons(id);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS season_id UUID REFERENCES seasons(id);
+
+UPDATE fines SET season_id = (SELECT id FROM seasons WHERE is_active) WHERE season_id IS NULL;
+UPDATE payments SET season_id = (SELECT id FROM seasons WHERE is_active) WHERE season_id IS NULL;
+
+ALTER TABLE fines ALTER COLUMN season_id SET NOT NULL;
+ALTER TABLE payments ALTER COLUMN season_id SET NOT NULL;
+
+CREATE INDEX idx_fines_season_id ON fines(season_id);
+CREATE INDEX idx_payments_season_id ON payments(season_id);
+
+-- Enable Row Level Security
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Seasons are viewable by everyone" ON seasons
+  FOR SELECT USING (true);
+
+CREATE POLICY "Seasons can be created" ON seasons
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Seasons can be updated" ON seasons
+  FOR UPDATE USING (true);
+
+-- New fines and payments default to the active season
+CREATE OR REPLACE FUNCTION assign_active_season()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.season_id IS NULL THEN
+    SELECT id INTO NEW.season_id FROM seasons WHERE is_active;
+    IF NEW.season_id IS NULL THEN
+      RAISE EXCEPTION 'There is no active season';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER fines_assign_season
+  BEFORE INSERT ON fines
+  FOR EACH ROW EXECUTE FUNCTION assign_active_season();
+
+CREATE TRIGGER payments_assign_season
+  BEFORE INSERT ON payments
+  FOR EACH ROW EXECUTE FUNCTION assign_active_season();
+
+-- Closed seasons are read-only: no new, changed or removed fines, payments,
+-- votes or comments
+CREATE OR REPLACE FUNCTION assert_season_open(p_season_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM seasons WHERE id = p_season_id AND closed_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'This season is closed and read-only';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION prevent_closed_season_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row RECORD;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  IF TG_TABLE_NAME IN ('fines', 'payments') THEN
+    PERFORM assert_season_open(v_row.season_id);
+    IF TG_OP = 'UPDATE' THEN
+      PERFORM assert_season_open(OLD.season_id);
+    END IF;
+  ELSE
+    -- comments and fine_votes hang off a fine
+    PERFORM assert_season_open((SELECT season_id FROM fines WHERE id = v_row.fine_id));
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER fines_season_open
+  BEFORE INSERT OR UPDATE OR DELETE ON fines
+  FOR EACH ROW EXECUTE FUNCTION prevent_closed_season_changes();
+
+CREATE TRIGGER payments_season_open
+  BEFORE INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW EXECUTE FUNCTION prevent_closed_season_changes();
+
+CREATE TRIGGER comments_season_open
+  BEFORE INSERT OR UPDATE OR DELETE ON comments
+  FOR EACH ROW EXECUTE FUNCTION prevent_closed_season_changes();
+
+CREATE TRIGGER fine_votes_season_open
+  BEFORE INSERT OR UPDATE OR DELETE ON fine_votes
+  FOR EACH ROW EXECUTE FUNCTION prevent_closed_season_changes();
+
+-- Makes a season the one new fines go into
+CREATE OR REPLACE FUNCTION activate_season(p_season_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_season_open(p_season_id);
+
+  UPDATE seasons SET is_active = FALSE WHERE is_active AND id <> p_season_id;
+  UPDATE seasons SET is_active = TRUE WHERE id = p_season_id;
+END;
+$$;
+
+-- Archives a season; it stays viewable but can no longer be changed
+CREATE OR REPLACE FUNCTION close_season(p_season_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE seasons
+  SET is_active = FALSE,
+      closed_at = NOW()
+  WHERE id = p_season_id
+    AND closed_at IS NULL;
+END;
+$$;
@@ -0,0 +1,57 @@
+-- Per-player totals computed in the database so /totals doesn't have to
+-- download every fine of the season
+CREATE OR REPLACE FUNCTION get_player_totals(p_season_id UUID, p_player_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  player_id UUID,
+  name TEXT,
+  fined NUMERIC,
+  credited NUMERIC,
+  paid NUMERIC,
+  outstanding NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH fine_totals AS (
+    SELECT
+      subject_id AS player_id,
+      COALESCE(SUM(amount) FILTER (WHERE fine_type <> 'Credit'), 0) AS fined,
+      COALESCE(SUM(amount) FILTER (WHERE fine_type = 'Credit'), 0) AS credited
+    FROM fines
+    WHERE season_id = p_season_id
+      AND status = 'approved'
+      AND NOT is_void
+      AND (p_player_id IS NULL OR subject_id = p_player_id)
+    GROUP BY subject_id
+  ),
+  payment_totals AS (
+    SELECT player_id, SUM(amount) AS paid
+    FROM payments
+    WHERE season_id = p_season_id
+      AND (p_player_id IS NULL OR player_id = p_player_id)
+    GROUP BY player_id
+  )
+  SELECT
+    u.user_id AS player_id,
+    u.name,
+    COALESCE(f.fined, 0) AS fined,
+    COALESCE(f.credited, 0) AS credited,
+    COALESCE(p.paid, 0) AS paid,
+    COALESCE(f.fined, 0) - COALESCE(f.credited, 0) - COALESCE(p.paid, 0) AS outstanding
+  FROM users u
+  LEFT JOIN fine_totals f ON f.player_id = u.user_id
+  LEFT JOIN payment_totals p ON p.player_id = u.user_id
+  WHERE f.player_id IS NOT NULL OR p.player_id IS NOT NULL
+  ORDER BY u.name;
+$$;
+
+-- Covers the aggregate above
+CREATE INDEX IF NOT EXISTS idx_fines_season_subject_counted
+  ON fines(season_id, subject_id)
+  WHERE status = 'approved' AND NOT is_void;
+
+-- Realtime UPDATE/DELETE payloads must carry the previous row so the
+-- totals page can subtract it when applying deltas
+ALTER TABLE fines REPLICA IDENTITY FULL;
+ALTER TABLE payments REPLICA IDENTITY FULL;
@@ -0,0 +1,67 @@
+-- Money is stored as integer cents everywhere. Until now fines.amount and
+-- payments.amount held dollars, so existing rows are scaled by 100.
+-- The legacy "fines-old" table is left in dollars; it is only read when importing.
+
+ALTER TABLE fines
+  ALTER COLUMN amount TYPE INTEGER USING ROUND(amount * 100)::INTEGER;
+
+ALTER TABLE payments
+  ALTER COLUMN amount TYPE INTEGER USING ROUND(amount * 100)::INTEGER;
+
+-- Keep the audit trail in the same unit as the fines it describes
+UPDATE fine_events
+SET old_values = jsonb_set(old_values, '{amount}', to_jsonb(ROUND((old_values ->> 'amount')::NUMERIC * 100)::INTEGER))
+WHERE old_values ? 'amount' AND jsonb_typeof(old_values -> 'amount') = 'number';
+
+UPDATE fine_events
+SET new_values = jsonb_set(new_values, '{amount}', to_jsonb(ROUND((new_values ->> 'amount')::NUMERIC * 100)::INTEGER))
+WHERE new_values ? 'amount' AND jsonb_typeof(new_values -> 'amount') = 'number';
+
+-- Totals are now whole cents; the return type changes, so the function is recreated
+DROP FUNCTION IF EXISTS get_player_totals(UUID, UUID);
+
+CREATE FUNCTION get_player_totals(p_season_id UUID, p_player_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  player_id UUID,
+  name TEXT,
+  fined BIGINT,
+  credited BIGINT,
+  paid BIGINT,
+  outstanding BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH fine_totals AS (
+    SELECT
+      subject_id AS player_id,
+      COALESCE(SUM(amount) FILTER (WHERE fine_type <> 'Credit'), 0) AS fined,
+      COALESCE(SUM(amount) FILTER (WHERE fine_type = 'Credit'), 0) AS credited
+    FROM fines
+    WHERE season_id = p_season_id
+      AND status = 'approved'
+      AND NOT is_void
+      AND (p_player_id IS NULL OR subject_id = p_player_id)
+    GROUP BY subject_id
+  ),
+  payment_totals AS (
+    SELECT player_id, SUM(amount) AS paid
+    FROM payments
+    WHERE season_id = p_season_id
+      AND (p_player_id IS NULL OR player_id = p_player_id)
+    GROUP BY player_id
+  )
+  SELECT
+    u.user_id AS player_id,
+    u.name,
+    COALESCE(f.fined, 0)::BIGINT AS fined,
+    COALESCE(f.credited, 0)::BIGINT AS credited,
+    COALESCE(p.paid, 0)::BIGINT AS paid,
+    (COALESCE(f.fined, 0) - COALESCE(f.credited, 0) - COALESCE(p.paid, 0))::BIGINT AS outstanding
+  FROM users u
+  LEFT JOIN fine_totals f ON f.player_id = u.user_id
+  LEFT JOIN payment_totals p ON p.player_id = u.user_id
+  WHERE f.player_id IS NOT NULL OR p.player_id IS NOT NULL
+  ORDER BY u.name;
+$$;
@@ -0,0 +1,50 @@
+-- Bulk fine entry: one description fined to several players at once.
+-- Rows created together share a batch_id so the feed can show them as one message.
+ALTER TABLE fines ADD COLUMN IF NOT EXISTS batch_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_fines_batch_id ON fines(batch_id) WHERE batch_id IS NOT NULL;
+
+-- Inserts every entry or none of them. p_entries is a JSON array of
+-- {"subject_id": uuid, "amount": cents}; the usual per-row triggers
+-- (season, audit trail, proposer vote) still run for each fine.
+CREATE OR REPLACE FUNCTION add_fines_bulk(
+  p_proposer_id UUID,
+  p_description TEXT,
+  p_fine_type fine_type_enum,
+  p_entries JSONB,
+  p_season_id UUID DEFAULT NULL
+)
+RETURNS SETOF fines
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch_id UUID := gen_random_uuid();
+  v_now TIMESTAMPTZ := NOW();
+BEGIN
+  IF jsonb_typeof(p_entries) <> 'array' OR jsonb_array_length(p_entries) = 0 THEN
+    RAISE EXCEPTION 'At least one player is required';
+  END IF;
+
+  IF COALESCE(TRIM(p_description), '') = '' THEN
+    RAISE EXCEPTION 'Description is required';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO fines (subject_id, proposer_id, description, amount, fine_type, date, replies, season_id, batch_id)
+  SELECT
+    (entry ->> 'subject_id')::UUID,
+    p_proposer_id,
+    TRIM(p_description),
+    CASE WHEN p_fine_type = 'Warning' THEN 0 ELSE (entry ->> 'amount')::INTEGER END,
+    p_fine_type,
+    v_now,
+    0,
+    p_season_id,
+    v_batch_id
+  FROM jsonb_array_elements(p_entries) AS entry
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION add_fines_bulk(UUID, TEXT, fine_type_enum, JSONB, UUID) TO anon, authenticated;
@@ -0,0 +1,124 @@
+-- Rule book: the offences the team fines for, each with a standard price
+CREATE TABLE fine_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9-]{1,12}$'),
+  title TEXT NOT NULL CHECK (LENGTH(TRIM(title)) > 0),
+  default_amount INTEGER NOT NULL DEFAULT 0 CHECK (default_amount >= 0), -- cents
+  default_type fine_type_enum NOT NULL DEFAULT 'Fine',
+  -- Retired rules stay so past fines keep their reference, but aren't offered any more
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE fines ADD COLUMN IF NOT EXISTS rule_id UUID REFERENCES fine_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_fines_rule_id ON fines(rule_id) WHERE rule_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE fine_rules ENABLE ROW LEVEL SECURITY;
+
+-- Managing the rule book is limited to admins in the app (see lib/permissions.ts)
+CREATE POLICY "Fine rules are viewable by everyone" ON fine_rules
+  FOR SELECT USING (true);
+
+CREATE POLICY "Fine rules can be created" ON fine_rules
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Fine rules can be updated" ON fine_rules
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Fine rules can be deleted" ON fine_rules
+  FOR DELETE USING (true);
+
+CREATE OR REPLACE FUNCTION touch_fine_rule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER fine_rules_touch
+  BEFORE UPDATE ON fine_rules
+  FOR EACH ROW EXECUTE FUNCTION touch_fine_rule();
+
+-- Bulk entries can be made from a rule too
+DROP FUNCTION IF EXISTS add_fines_bulk(UUID, TEXT, fine_type_enum, JSONB, UUID);
+
+CREATE FUNCTION add_fines_bulk(
+  p_proposer_id UUID,
+  p_description TEXT,
+  p_fine_type fine_type_enum,
+  p_entries JSONB,
+  p_season_id UUID DEFAULT NULL,
+  p_rule_id UUID DEFAULT NULL
+)
+RETURNS SETOF fines
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch_id UUID := gen_random_uuid();
+  v_now TIMESTAMPTZ := NOW();
+BEGIN
+  IF jsonb_typeof(p_entries) <> 'array' OR jsonb_array_length(p_entries) = 0 THEN
+    RAISE EXCEPTION 'At least one player is required';
+  END IF;
+
+  IF COALESCE(TRIM(p_description), '') = '' THEN
+    RAISE EXCEPTION 'Description is required';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO fines (subject_id, proposer_id, description, amount, fine_type, date, replies, season_id, batch_id, rule_id)
+  SELECT
+    (entry ->> 'subject_id')::UUID,
+    p_proposer_id,
+    TRIM(p_description),
+    CASE WHEN p_fine_type = 'Warning' THEN 0 ELSE (entry ->> 'amount')::INTEGER END,
+    p_fine_type,
+    v_now,
+    0,
+    p_season_id,
+    v_batch_id,
+    p_rule_id
+  FROM jsonb_array_elements(p_entries) AS entry
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION add_fines_bulk(UUID, TEXT, fine_type_enum, JSONB, UUID, UUID) TO anon, authenticated;
+
+-- How often each rule was applied in a season, most common first.
+-- Counts approved, non-void fines, like get_player_totals.
+CREATE OR REPLACE FUNCTION get_rule_stats(p_season_id UUID)
+RETURNS TABLE (
+  rule_id UUID,
+  code TEXT,
+  title TEXT,
+  fine_count BIGINT,
+  total_amount BIGINT,
+  player_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    r.id AS rule_id,
+    r.code,
+    r.title,
+    COUNT(f.id) AS fine_count,
+    COALESCE(SUM(f.amount), 0)::BIGINT AS total_amount,
+    COUNT(DISTINCT f.subject_id) AS player_count
+  FROM fine_rules r
+  JOIN fines f ON f.rule_id = r.id
+  WHERE f.season_id = p_season_id
+    AND f.status = 'approved'
+    AND NOT f.is_void
+  GROUP BY r.id, r.code, r.title
+  ORDER BY fine_count DESC, total_amount DESC, r.code;
+$$;
@@ -0,0 +1,60 @@
+-- Emoji reactions on fines and on comments.
+-- Every reaction carries the fine it belongs to, so one realtime filter on
+-- fine_id delivers reactions to the fine and to all of its comments.
+CREATE TABLE reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fine_id UUID NOT NULL REFERENCES fines(id) ON DELETE CASCADE,
+  -- NULL when the reaction is on the fine itself
+  comment_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- A member can use each emoji once per fine or comment
+CREATE UNIQUE INDEX idx_reactions_unique_fine
+  ON reactions(fine_id, user_id, emoji)
+  WHERE comment_id IS NULL;
+CREATE UNIQUE INDEX idx_reactions_unique_comment
+  ON reactions(comment_id, user_id, emoji)
+  WHERE comment_id IS NOT NULL;
+
+CREATE INDEX idx_reactions_fine_id ON reactions(fine_id);
+
+-- Comment reactions take their fine from the comment
+CREATE OR REPLACE FUNCTION set_reaction_fine_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.comment_id IS NOT NULL THEN
+    SELECT fine_id INTO NEW.fine_id FROM comments WHERE id = NEW.comment_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reactions_set_fine_id
+  BEFORE INSERT ON reactions
+  FOR EACH ROW EXECUTE FUNCTION set_reaction_fine_id();
+
+CREATE TRIGGER reactions_season_open
+  BEFORE INSERT OR DELETE ON reactions
+  FOR EACH ROW EXECUTE FUNCTION prevent_closed_season_changes();
+
+-- Enable Row Level Security
+ALTER TABLE reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reactions are viewable by everyone" ON reactions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can add reactions" ON reactions
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Users can remove reactions" ON reactions
+  FOR DELETE USING (true);
+
+-- Reactions reach clients through the comments realtime channels; DELETE
+-- payloads need the whole row to know which fine and comment lost a reaction
+ALTER TABLE reactions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE reactions;
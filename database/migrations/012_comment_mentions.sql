@@ -0,0 +1,92 @@
+-- @mentions in comments. The content stores each mention as "@[Name](user-id)";
+-- a trigger keeps comment_mentions in step with it and notifies whoever is
+-- newly mentioned.
+CREATE TABLE comment_mentions (
+  comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (comment_id, user_id)
+);
+
+CREATE INDEX idx_comment_mentions_user_id ON comment_mentions(user_id);
+
+-- In-app notifications, one row per recipient
+CREATE TYPE notification_type_enum AS ENUM ('mention');
+
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  -- Who caused it; NULL once that user is removed
+  actor_id UUID REFERENCES users(user_id) ON DELETE SET NULL,
+  type notification_type_enum NOT NULL,
+  fine_id UUID REFERENCES fines(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE comment_mentions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Comment mentions are viewable by everyone" ON comment_mentions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Notifications are viewable by everyone" ON notifications
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can mark notifications read" ON notifications
+  FOR UPDATE USING (true);
+
+CREATE OR REPLACE FUNCTION sync_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mentioned UUID[];
+BEGIN
+  SELECT COALESCE(array_agg(DISTINCT u.user_id), '{}')
+  INTO v_mentioned
+  FROM regexp_matches(
+    NEW.content,
+    '@\[[^\]]+\]\(([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})\)',
+    'g'
+  ) AS m
+  JOIN users u ON u.user_id = m[1]::UUID;
+
+  -- Mentions removed by an edit (or by deleting the comment)
+  DELETE FROM comment_mentions
+  WHERE comment_id = NEW.id
+    AND (NEW.is_deleted OR NOT (user_id = ANY (v_mentioned)));
+
+  IF NEW.is_deleted THEN
+    RETURN NULL;
+  END IF;
+
+  -- Only people who weren't already mentioned are notified, so edits don't re-notify
+  WITH added AS (
+    INSERT INTO comment_mentions (comment_id, user_id)
+    SELECT NEW.id, unnest(v_mentioned)
+    ON CONFLICT DO NOTHING
+    RETURNING user_id
+  )
+  INSERT INTO notifications (user_id, actor_id, type, fine_id, comment_id)
+  SELECT added.user_id, NEW.author_id, 'mention', NEW.fine_id, NEW.id
+  FROM added
+  WHERE added.user_id <> NEW.author_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER comments_sync_mentions
+  AFTER INSERT OR UPDATE OF content, is_deleted ON comments
+  FOR EACH ROW EXECUTE FUNCTION sync_comment_mentions();
+
+-- The notification center listens for new rows
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
@@ -0,0 +1,64 @@
+-- Notification center: players hear about fines given to them and about
+-- comments and replies on their fines and comments. Mentions (012) already
+-- write their own notifications.
+ALTER TYPE notification_type_enum ADD VALUE IF NOT EXISTS 'fine';
+ALTER TYPE notification_type_enum ADD VALUE IF NOT EXISTS 'comment';
+ALTER TYPE notification_type_enum ADD VALUE IF NOT EXISTS 'reply';
+
+-- The fined (or credited, or warned) player, unless they entered it themselves
+CREATE OR REPLACE FUNCTION notify_fine_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.subject_id IS DISTINCT FROM NEW.proposer_id THEN
+    INSERT INTO notifications (user_id, actor_id, type, fine_id)
+    VALUES (NEW.subject_id, NEW.proposer_id, 'fine', NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER fines_notify
+  AFTER INSERT ON fines
+  FOR EACH ROW EXECUTE FUNCTION notify_fine_created();
+
+-- A reply notifies the author of the comment replied to; a new thread notifies
+-- the fine's subject and proposer. Nobody is notified of their own comment, and
+-- anyone mentioned in it gets the mention notification instead.
+CREATE OR REPLACE FUNCTION notify_comment_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type notification_type_enum;
+  v_recipients UUID[];
+BEGIN
+  IF NEW.parent_comment_id IS NOT NULL THEN
+    v_type := 'reply';
+    SELECT ARRAY[author_id] INTO v_recipients
+    FROM comments WHERE id = NEW.parent_comment_id;
+  ELSE
+    v_type := 'comment';
+    SELECT ARRAY[subject_id, proposer_id] INTO v_recipients
+    FROM fines WHERE id = NEW.fine_id;
+  END IF;
+
+  INSERT INTO notifications (user_id, actor_id, type, fine_id, comment_id)
+  SELECT DISTINCT recipient, NEW.author_id, v_type, NEW.fine_id, NEW.id
+  FROM unnest(v_recipients) AS recipient
+  WHERE recipient IS NOT NULL
+    AND recipient <> NEW.author_id
+    AND position('](' || recipient::TEXT || ')' IN NEW.content) = 0;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER comments_notify
+  AFTER INSERT ON comments
+  FOR EACH ROW EXECUTE FUNCTION notify_comment_created();
@@ -0,0 +1,24 @@
+-- Fines a player has saved to come back to, e.g. to dispute or raise at the
+-- next team meeting. Bookmarks are private to their owner's feed and, unlike
+-- reactions, can still be added once a season has closed.
+CREATE TABLE bookmarks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  fine_id UUID NOT NULL REFERENCES fines(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, fine_id)
+);
+
+CREATE INDEX idx_bookmarks_user_id ON bookmarks(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE bookmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Bookmarks are viewable by everyone" ON bookmarks
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can add bookmarks" ON bookmarks
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Users can remove bookmarks" ON bookmarks
+  FOR DELETE USING (true);
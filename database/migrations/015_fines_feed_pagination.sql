@@ -0,0 +1,8 @@
+-- The fines feed loads a page at a time, newest first, continuing from the
+-- (date, id) of the last fine already shown. These indexes let each page be
+-- read straight off the index instead of sorting the whole season.
+CREATE INDEX IF NOT EXISTS idx_fines_feed_cursor
+  ON fines(date DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_fines_season_feed_cursor
+  ON fines(season_id, date DESC, id DESC);
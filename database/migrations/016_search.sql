@@ -0,0 +1,95 @@
+-- Full-text search over fine descriptions and comments.
+--
+-- Comments store a mention as "@[Name](user-id)"; search_text reads it as
+-- "@Name" so the name is searchable and the id never shows up in a snippet.
+CREATE OR REPLACE FUNCTION search_text(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(COALESCE(p_text, ''), '@\[([^\]]+)\]\([0-9a-fA-F-]{36}\)', '@\1', 'g');
+$$;
+
+-- Expression indexes rather than stored columns, so `select('*')` on fines
+-- and comments is unchanged. Queries must use the same expression to hit them.
+CREATE INDEX IF NOT EXISTS idx_fines_search
+  ON fines USING GIN (to_tsvector('english', search_text(description)));
+
+CREATE INDEX IF NOT EXISTS idx_comments_search
+  ON comments USING GIN (to_tsvector('english', search_text(content)));
+
+-- Fines and comments matching a query, best match first. A fine hit has a
+-- NULL comment_id. Fines in a batch share their description, so a batch
+-- matches once. Snippets mark matched words with <mark>…</mark>; the client
+-- splits on the markers and renders the rest as text.
+CREATE OR REPLACE FUNCTION search_fines(
+  p_query TEXT,
+  p_season_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  fine_id UUID,
+  comment_id UUID,
+  snippet TEXT,
+  rank REAL,
+  fine_date TIMESTAMPTZ,
+  fine_type fine_type_enum,
+  amount INTEGER,
+  subject_name TEXT,
+  author_name TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q
+  ),
+  fine_hits AS (
+    SELECT DISTINCT ON (COALESCE(f.batch_id, f.id))
+      f.id AS fine_id,
+      NULL::UUID AS comment_id,
+      search_text(f.description) AS body,
+      ts_rank(to_tsvector('english', search_text(f.description)), query.q) AS rank,
+      f.proposer_id AS author_id
+    FROM fines f, query
+    WHERE to_tsvector('english', search_text(f.description)) @@ query.q
+      AND (p_season_id IS NULL OR f.season_id = p_season_id)
+    ORDER BY COALESCE(f.batch_id, f.id), f.id
+  ),
+  comment_hits AS (
+    SELECT
+      c.fine_id,
+      c.id AS comment_id,
+      search_text(c.content) AS body,
+      ts_rank(to_tsvector('english', search_text(c.content)), query.q) AS rank,
+      c.author_id
+    FROM comments c
+    JOIN fines f ON f.id = c.fine_id, query
+    WHERE NOT c.is_deleted
+      AND to_tsvector('english', search_text(c.content)) @@ query.q
+      AND (p_season_id IS NULL OR f.season_id = p_season_id)
+  )
+  SELECT
+    h.fine_id,
+    h.comment_id,
+    ts_headline(
+      'english',
+      h.body,
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet,
+    h.rank,
+    f.date::TIMESTAMPTZ AS fine_date,
+    f.fine_type,
+    f.amount::INTEGER,
+    subject.name AS subject_name,
+    author.name AS author_name
+  FROM (SELECT * FROM fine_hits UNION ALL SELECT * FROM comment_hits) h
+  CROSS JOIN query
+  JOIN fines f ON f.id = h.fine_id
+  LEFT JOIN users subject ON subject.user_id = f.subject_id
+  LEFT JOIN users author ON author.user_id = h.author_id
+  ORDER BY h.rank DESC, f.date DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
@@ -0,0 +1,214 @@
+-- Imports last season's history from the legacy "fines-old" and "users-old"
+-- tables. Legacy fines point at "users-old".id through subject_id and
+-- proposed_by, and hold dollars; current fines point at users.user_id and hold
+-- cents (see 008).
+--
+-- Run it from the SQL editor, as often as needed:
+--   SELECT * FROM private.import_legacy_fines();            -- season picked by each fine's date
+--   SELECT * FROM private.import_legacy_fines('<season id>'); -- everything into one season
+--
+-- Each run maps any legacy users it can, imports the legacy fines not imported
+-- before, and reports what it imported and what it could not match. Legacy
+-- users it can't match can be mapped by hand, then the import run again:
+--   INSERT INTO private.legacy_user_map (legacy_user_id, user_id, matched_by)
+--   VALUES ('<users-old id>', '<users user_id>', 'manual');
+--
+-- Everything lives in the private schema, so none of it is callable through
+-- the REST API.
+
+-- Which current user each legacy user is
+CREATE TABLE IF NOT EXISTS private.legacy_user_map (
+  legacy_user_id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  matched_by TEXT NOT NULL CHECK (matched_by IN ('username', 'name', 'manual')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Legacy fines already imported. Kept when the imported fine is later deleted,
+-- so a re-run doesn't bring back a fine someone removed on purpose.
+CREATE TABLE IF NOT EXISTS private.legacy_fine_imports (
+  legacy_fine_id UUID PRIMARY KEY,
+  fine_id UUID REFERENCES public.fines(id) ON DELETE SET NULL,
+  imported_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- An import writes into a closed season and recreates history, so it skips
+-- the closed-season lock and the "you were fined" notification. The flag is
+-- set for the importing transaction only.
+CREATE OR REPLACE FUNCTION private.is_legacy_import()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(current_setting('app.legacy_import', true), '') = 'on';
+$$;
+
+CREATE OR REPLACE FUNCTION prevent_closed_season_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row RECORD;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'fines' AND TG_OP = 'INSERT' AND private.is_legacy_import() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME IN ('fines', 'payments') THEN
+    PERFORM assert_season_open(v_row.season_id);
+    IF TG_OP = 'UPDATE' THEN
+      PERFORM assert_season_open(OLD.season_id);
+    END IF;
+  ELSE
+    -- comments and fine_votes hang off a fine
+    PERFORM assert_season_open((SELECT season_id FROM fines WHERE id = v_row.fine_id));
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_fine_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.subject_id IS DISTINCT FROM NEW.proposer_id AND NOT private.is_legacy_import() THEN
+    INSERT INTO notifications (user_id, actor_id, type, fine_id)
+    VALUES (NEW.subject_id, NEW.proposer_id, 'fine', NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Reports one row per legacy user it can't map and per legacy fine it looked
+-- at: outcome is 'imported', 'skipped' (imported by an earlier run) or
+-- 'unmatched' (detail says why).
+--
+-- Legacy users are matched on username, then on name, case-insensitively and
+-- only when exactly one current user matches. Legacy fines carry no type: a
+-- negative amount is imported as a credit, zero as a warning, anything else as
+-- a fine. They were already in effect, so they come in approved.
+CREATE OR REPLACE FUNCTION private.import_legacy_fines(p_season_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  kind TEXT,
+  legacy_id UUID,
+  outcome TEXT,
+  detail TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public, private
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_legacy RECORD;
+  v_date TIMESTAMPTZ;
+  v_season_id UUID;
+  v_subject_id UUID;
+  v_proposer_id UUID;
+  v_fine_id UUID;
+BEGIN
+  IF p_season_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM seasons WHERE id = p_season_id) THEN
+    RAISE EXCEPTION 'Season % does not exist', p_season_id;
+  END IF;
+
+  INSERT INTO private.legacy_user_map (legacy_user_id, user_id, matched_by)
+  SELECT o.id, (array_agg(u.user_id))[1], 'username'
+  FROM "users-old" o
+  JOIN users u ON lower(trim(u.username)) = lower(trim(o.username))
+  WHERE NOT EXISTS (SELECT 1 FROM private.legacy_user_map m WHERE m.legacy_user_id = o.id)
+  GROUP BY o.id
+  HAVING COUNT(*) = 1
+  ON CONFLICT (legacy_user_id) DO NOTHING;
+
+  INSERT INTO private.legacy_user_map (legacy_user_id, user_id, matched_by)
+  SELECT o.id, (array_agg(u.user_id))[1], 'name'
+  FROM "users-old" o
+  JOIN users u ON lower(trim(u.name)) = lower(trim(o.name))
+  WHERE NOT EXISTS (SELECT 1 FROM private.legacy_user_map m WHERE m.legacy_user_id = o.id)
+  GROUP BY o.id
+  HAVING COUNT(*) = 1
+  ON CONFLICT (legacy_user_id) DO NOTHING;
+
+  RETURN QUERY
+  SELECT
+    'user'::TEXT,
+    o.id,
+    'unmatched'::TEXT,
+    format('No single current user with username "%s" or name "%s"', o.username, o.name)
+  FROM "users-old" o
+  WHERE NOT EXISTS (SELECT 1 FROM private.legacy_user_map m WHERE m.legacy_user_id = o.id)
+  ORDER BY o.username;
+
+  PERFORM set_config('app.legacy_import', 'on', true);
+
+  FOR v_legacy IN
+    SELECT * FROM "fines-old" ORDER BY date, id
+  LOOP
+    kind := 'fine';
+    legacy_id := v_legacy.id;
+
+    IF EXISTS (SELECT 1 FROM private.legacy_fine_imports i WHERE i.legacy_fine_id = v_legacy.id) THEN
+      outcome := 'skipped';
+      detail := 'Imported by an earlier run';
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    v_date := COALESCE(v_legacy.date::TIMESTAMPTZ, v_legacy.created_at::TIMESTAMPTZ);
+    v_season_id := COALESCE(
+      p_season_id,
+      (SELECT s.id FROM seasons s WHERE v_date::DATE BETWEEN s.start_date AND s.end_date ORDER BY s.start_date LIMIT 1)
+    );
+    v_subject_id := (SELECT m.user_id FROM private.legacy_user_map m WHERE m.legacy_user_id = v_legacy.subject_id);
+    v_proposer_id := (SELECT m.user_id FROM private.legacy_user_map m WHERE m.legacy_user_id = v_legacy.proposed_by);
+
+    IF v_subject_id IS NULL OR v_proposer_id IS NULL OR v_season_id IS NULL THEN
+      outcome := 'unmatched';
+      detail := concat_ws('; ',
+        CASE WHEN v_subject_id IS NULL THEN format('subject %s is not mapped', COALESCE(v_legacy.subject_id::TEXT, '(none)')) END,
+        CASE WHEN v_proposer_id IS NULL THEN format('proposer %s is not mapped', COALESCE(v_legacy.proposed_by::TEXT, '(none)')) END,
+        CASE WHEN v_season_id IS NULL THEN format('no season covers %s', v_date::DATE) END
+      );
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO fines (subject_id, proposer_id, description, amount, fine_type, date, replies, season_id, status)
+    VALUES (
+      v_subject_id,
+      v_proposer_id,
+      v_legacy.description,
+      ROUND(ABS(v_legacy.amount) * 100)::INTEGER,
+      CASE
+        WHEN v_legacy.amount < 0 THEN 'Credit'
+        WHEN v_legacy.amount = 0 THEN 'Warning'
+        ELSE 'Fine'
+      END::fine_type_enum,
+      v_date,
+      0,
+      v_season_id,
+      'approved'
+    )
+    RETURNING id INTO v_fine_id;
+
+    INSERT INTO private.legacy_fine_imports (legacy_fine_id, fine_id)
+    VALUES (v_legacy.id, v_fine_id);
+
+    outcome := 'imported';
+    detail := format('Imported as fine %s', v_fine_id);
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
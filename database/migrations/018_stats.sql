@@ -0,0 +1,187 @@
+-- Aggregates behind the /stats page, so it never downloads whole tables.
+--
+-- Like get_player_totals and get_rule_stats, the fine figures count approved,
+-- non-void fines only. Functions that bucket by time take the viewer's IANA
+-- time zone (e.g. 'Europe/London') so weeks, weekdays and hours match their
+-- calendar; fines.date is stored in UTC.
+
+-- Fines given per week of the season, with running totals for the cumulative
+-- chart. Weeks start on Monday and run from the season's first week to the
+-- current one (or its last, once it is over); weeks without fines are zero.
+CREATE OR REPLACE FUNCTION get_fine_weekly_stats(p_season_id UUID, p_time_zone TEXT DEFAULT 'UTC')
+RETURNS TABLE (
+  week_start DATE,
+  fine_count BIGINT,
+  total_amount BIGINT,
+  cumulative_count BIGINT,
+  cumulative_amount BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH weekly AS (
+    SELECT
+      date_trunc('week', f.date AT TIME ZONE p_time_zone)::DATE AS week_start,
+      COUNT(*) AS fine_count,
+      SUM(f.amount)::BIGINT AS total_amount
+    FROM fines f
+    WHERE f.season_id = p_season_id
+      AND f.fine_type = 'Fine'
+      AND f.status = 'approved'
+      AND NOT f.is_void
+    GROUP BY 1
+  ),
+  -- Widened to any fines dated outside the season, e.g. imported ones
+  bounds AS (
+    SELECT
+      LEAST(
+        date_trunc('week', s.start_date::TIMESTAMP)::DATE,
+        (SELECT MIN(w.week_start) FROM weekly w)
+      ) AS first_week,
+      GREATEST(
+        date_trunc('week', LEAST(s.end_date, (NOW() AT TIME ZONE p_time_zone)::DATE)::TIMESTAMP)::DATE,
+        (SELECT MAX(w.week_start) FROM weekly w)
+      ) AS last_week
+    FROM seasons s
+    WHERE s.id = p_season_id
+  ),
+  weeks AS (
+    SELECT generate_series(b.first_week::TIMESTAMP, b.last_week::TIMESTAMP, INTERVAL '1 week')::DATE AS week_start
+    FROM bounds b
+  )
+  SELECT
+    wk.week_start,
+    COALESCE(w.fine_count, 0) AS fine_count,
+    COALESCE(w.total_amount, 0) AS total_amount,
+    (SUM(COALESCE(w.fine_count, 0)) OVER (ORDER BY wk.week_start))::BIGINT AS cumulative_count,
+    (SUM(COALESCE(w.total_amount, 0)) OVER (ORDER BY wk.week_start))::BIGINT AS cumulative_amount
+  FROM weeks wk
+  LEFT JOIN weekly w ON w.week_start = wk.week_start
+  ORDER BY wk.week_start;
+$$;
+
+-- How many fines, credits and warnings were given, and for how much
+CREATE OR REPLACE FUNCTION get_fine_type_stats(p_season_id UUID)
+RETURNS TABLE (
+  fine_type fine_type_enum,
+  fine_count BIGINT,
+  total_amount BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    f.fine_type,
+    COUNT(*) AS fine_count,
+    COALESCE(SUM(f.amount), 0)::BIGINT AS total_amount
+  FROM fines f
+  WHERE f.season_id = p_season_id
+    AND f.status = 'approved'
+    AND NOT f.is_void
+  GROUP BY f.fine_type
+  ORDER BY f.fine_type;
+$$;
+
+-- Per player: fines received and what they came to, and fines proposed for
+-- someone else. Players with neither are left out.
+CREATE OR REPLACE FUNCTION get_player_fine_stats(p_season_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  fines_received BIGINT,
+  amount_received BIGINT,
+  fines_proposed BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH counted AS (
+    SELECT f.subject_id, f.proposer_id, f.amount
+    FROM fines f
+    WHERE f.season_id = p_season_id
+      AND f.fine_type = 'Fine'
+      AND f.status = 'approved'
+      AND NOT f.is_void
+  ),
+  received AS (
+    SELECT c.subject_id AS user_id, COUNT(*) AS fines_received, SUM(c.amount)::BIGINT AS amount_received
+    FROM counted c
+    GROUP BY c.subject_id
+  ),
+  proposed AS (
+    SELECT c.proposer_id AS user_id, COUNT(*) AS fines_proposed
+    FROM counted c
+    WHERE c.proposer_id <> c.subject_id
+    GROUP BY c.proposer_id
+  )
+  SELECT
+    u.user_id,
+    u.name,
+    COALESCE(r.fines_received, 0) AS fines_received,
+    COALESCE(r.amount_received, 0) AS amount_received,
+    COALESCE(p.fines_proposed, 0) AS fines_proposed
+  FROM users u
+  LEFT JOIN received r ON r.user_id = u.user_id
+  LEFT JOIN proposed p ON p.user_id = u.user_id
+  WHERE r.user_id IS NOT NULL OR p.user_id IS NOT NULL
+  ORDER BY u.name;
+$$;
+
+-- The fines with the most comments. Any fine counts here, pending and voided
+-- ones included, since those are often the most argued over; deleted comments
+-- don't.
+CREATE OR REPLACE FUNCTION get_most_commented_fines(p_season_id UUID, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  fine_id UUID,
+  description TEXT,
+  fine_type fine_type_enum,
+  amount INTEGER,
+  subject_name TEXT,
+  comment_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    f.id AS fine_id,
+    f.description,
+    f.fine_type,
+    f.amount,
+    s.name AS subject_name,
+    COUNT(c.id) AS comment_count
+  FROM fines f
+  JOIN comments c ON c.fine_id = f.id AND NOT c.is_deleted
+  LEFT JOIN users s ON s.user_id = f.subject_id
+  WHERE f.season_id = p_season_id
+  GROUP BY f.id, s.name
+  ORDER BY comment_count DESC, f.date DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+-- Fines given per weekday (0 = Sunday) and hour of the day, for the heatmaps.
+-- Only buckets with fines are returned.
+CREATE OR REPLACE FUNCTION get_fine_activity_stats(p_season_id UUID, p_time_zone TEXT DEFAULT 'UTC')
+RETURNS TABLE (
+  day_of_week INTEGER,
+  hour INTEGER,
+  fine_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    EXTRACT(DOW FROM f.date AT TIME ZONE p_time_zone)::INTEGER AS day_of_week,
+    EXTRACT(HOUR FROM f.date AT TIME ZONE p_time_zone)::INTEGER AS hour,
+    COUNT(*) AS fine_count
+  FROM fines f
+  WHERE f.season_id = p_season_id
+    AND f.status = 'approved'
+    AND NOT f.is_void
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
@@ -0,0 +1,307 @@
+-- Lets admins manage accounts from /admin/users instead of editing the users
+-- table by hand: create users, rename them, change roles, reset passwords and
+-- deactivate accounts.
+--
+-- Each admin function takes the caller's session token (see 002) and checks
+-- that it belongs to an active admin, since the browser talks to the database
+-- with the anon key.
+
+-- Deactivated players can't sign in and drop out of the player pickers, but
+-- their fines, comments and payments stay
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ;
+GRANT SELECT (deactivated_at) ON public.users TO anon, authenticated;
+
+-- Returns the admin behind a session token, or raises
+CREATE OR REPLACE FUNCTION private.require_admin(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT u.user_id INTO v_user_id
+  FROM private.user_sessions s
+  JOIN public.users u ON u.user_id = s.user_id
+  WHERE s.id = private.verify_session(p_token)
+    AND u.role = 'Admin'
+    AND u.deactivated_at IS NULL;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Only admins can manage users' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN v_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION private.assert_valid_password(p_password TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF length(coalesce(p_password, '')) < 8 THEN
+    RAISE EXCEPTION 'Password must be at least 8 characters' USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+-- Usernames are what people sign in with: no spaces, unique ignoring case
+CREATE OR REPLACE FUNCTION private.assert_valid_username(p_username TEXT, p_user_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF coalesce(p_username, '') !~ '^[A-Za-z0-9._-]{2,32}$' THEN
+    RAISE EXCEPTION 'Username must be 2-32 letters, digits, dots, dashes or underscores' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE lower(u.username) = lower(p_username)
+      AND u.user_id IS DISTINCT FROM p_user_id
+  ) THEN
+    RAISE EXCEPTION 'Username "%" is already taken', p_username USING ERRCODE = '23505';
+  END IF;
+END;
+$$;
+
+-- Refuses to leave the team without an active admin
+CREATE OR REPLACE FUNCTION private.assert_other_admin(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE u.role = 'Admin'
+      AND u.deactivated_at IS NULL
+      AND u.user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'The team needs at least one active admin' USING ERRCODE = '23514';
+  END IF;
+END;
+$$;
+
+-- Deactivated users can no longer sign in
+CREATE OR REPLACE FUNCTION public.authenticate_user(p_username TEXT, p_password TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  name TEXT,
+  role TEXT,
+  session_token TEXT,
+  expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user public.users;
+  v_valid BOOLEAN := FALSE;
+BEGIN
+  SELECT * INTO v_user FROM public.users u WHERE u.username = p_username;
+
+  IF v_user.user_id IS NULL
+    OR v_user.deactivated_at IS NOT NULL
+    OR v_user.password_hash IS NULL
+    OR v_user.password_hash = '' THEN
+    RETURN;
+  END IF;
+
+  IF v_user.password_hash LIKE '$2%' THEN
+    v_valid := crypt(p_password, v_user.password_hash) = v_user.password_hash;
+  ELSE
+    -- Legacy plaintext row: compare once, then upgrade to bcrypt
+    v_valid := v_user.password_hash = p_password;
+    IF v_valid THEN
+      UPDATE public.users u
+      SET password_hash = crypt(p_password, gen_salt('bf', 10))
+      WHERE u.user_id = v_user.user_id;
+    END IF;
+  END IF;
+
+  IF NOT v_valid THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT v_user.user_id, v_user.username, v_user.name, v_user.role, s.session_token, s.expires_at
+  FROM private.issue_session(v_user.user_id) s;
+END;
+$$;
+
+-- ...and sessions they already hold stop working
+CREATE OR REPLACE FUNCTION public.validate_session(p_token TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  name TEXT,
+  role TEXT,
+  expires_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+  SELECT u.user_id, u.username, u.name, u.role, s.expires_at
+  FROM private.user_sessions s
+  JOIN public.users u ON u.user_id = s.user_id
+  WHERE s.id = private.verify_session(p_token)
+    AND u.deactivated_at IS NULL;
+$$;
+
+-- Creates an account and returns its user_id
+CREATE OR REPLACE FUNCTION public.admin_create_user(
+  p_token TEXT,
+  p_username TEXT,
+  p_name TEXT,
+  p_role role_enum,
+  p_password TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  PERFORM private.require_admin(p_token);
+  PERFORM private.assert_valid_username(trim(p_username));
+  PERFORM private.assert_valid_password(p_password);
+
+  IF trim(coalesce(p_name, '')) = '' THEN
+    RAISE EXCEPTION 'Name is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.users (username, name, role, password_hash)
+  VALUES (trim(p_username), trim(p_name), p_role::TEXT, crypt(p_password, gen_salt('bf', 10)))
+  RETURNING user_id INTO v_user_id;
+
+  RETURN v_user_id;
+END;
+$$;
+
+-- Renames a user or changes their role
+CREATE OR REPLACE FUNCTION public.admin_update_user(
+  p_token TEXT,
+  p_user_id UUID,
+  p_username TEXT,
+  p_name TEXT,
+  p_role role_enum
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user public.users;
+BEGIN
+  PERFORM private.require_admin(p_token);
+
+  SELECT * INTO v_user FROM public.users u WHERE u.user_id = p_user_id;
+  IF v_user.user_id IS NULL THEN
+    RAISE EXCEPTION 'User % does not exist', p_user_id USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM private.assert_valid_username(trim(p_username), p_user_id);
+
+  IF trim(coalesce(p_name, '')) = '' THEN
+    RAISE EXCEPTION 'Name is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_user.role = 'Admin' AND p_role <> 'Admin' AND v_user.deactivated_at IS NULL THEN
+    PERFORM private.assert_other_admin(p_user_id);
+  END IF;
+
+  UPDATE public.users u
+  SET username = trim(p_username),
+      name = trim(p_name),
+      role = p_role::TEXT
+  WHERE u.user_id = p_user_id;
+END;
+$$;
+
+-- Sets a new password and signs the user out everywhere
+CREATE OR REPLACE FUNCTION public.admin_reset_password(p_token TEXT, p_user_id UUID, p_password TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+BEGIN
+  PERFORM private.require_admin(p_token);
+  PERFORM private.assert_valid_password(p_password);
+
+  UPDATE public.users u
+  SET password_hash = crypt(p_password, gen_salt('bf', 10))
+  WHERE u.user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % does not exist', p_user_id USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE private.user_sessions s
+  SET revoked_at = NOW()
+  WHERE s.user_id = p_user_id
+    AND s.revoked_at IS NULL;
+END;
+$$;
+
+-- Deactivates (signing them out everywhere) or reactivates an account
+CREATE OR REPLACE FUNCTION public.admin_set_user_active(p_token TEXT, p_user_id UUID, p_active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_admin_id UUID;
+  v_user public.users;
+BEGIN
+  v_admin_id := private.require_admin(p_token);
+
+  SELECT * INTO v_user FROM public.users u WHERE u.user_id = p_user_id;
+  IF v_user.user_id IS NULL THEN
+    RAISE EXCEPTION 'User % does not exist', p_user_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_active THEN
+    UPDATE public.users u SET deactivated_at = NULL WHERE u.user_id = p_user_id;
+    RETURN;
+  END IF;
+
+  IF p_user_id = v_admin_id THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_user.role = 'Admin' THEN
+    PERFORM private.assert_other_admin(p_user_id);
+  END IF;
+
+  UPDATE public.users u
+  SET deactivated_at = COALESCE(u.deactivated_at, NOW())
+  WHERE u.user_id = p_user_id;
+
+  UPDATE private.user_sessions s
+  SET revoked_at = NOW()
+  WHERE s.user_id = p_user_id
+    AND s.revoked_at IS NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.admin_create_user(TEXT, TEXT, TEXT, role_enum, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.admin_update_user(TEXT, UUID, TEXT, TEXT, role_enum) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.admin_reset_password(TEXT, UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.admin_set_user_active(TEXT, UUID, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.admin_create_user(TEXT, TEXT, TEXT, role_enum, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_update_user(TEXT, UUID, TEXT, TEXT, role_enum) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_reset_password(TEXT, UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_user_active(TEXT, UUID, BOOLEAN) TO anon, authenticated;
@@ -0,0 +1,193 @@
+-- Self-service account settings for /settings: players change their own
+-- display name, avatar and password. Like the admin functions in 019, these
+-- take the caller's session token and only ever touch that user's row.
+
+-- Avatar overrides; when null the app derives both from the name.
+-- Colours are the app's avatar palette, see src/lib/avatar.ts.
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS avatar_color TEXT
+    CHECK (avatar_color IN ('purple', 'blue', 'green', 'yellow', 'red', 'indigo', 'pink', 'teal')),
+  ADD COLUMN IF NOT EXISTS avatar_initials TEXT
+    CHECK (avatar_initials ~ '^[A-Z0-9]{1,3}$');
+GRANT SELECT (avatar_color, avatar_initials) ON public.users TO anon, authenticated;
+
+-- Returns the active user behind a session token, or raises
+CREATE OR REPLACE FUNCTION private.require_session_user(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT u.user_id INTO v_user_id
+  FROM private.user_sessions s
+  JOIN public.users u ON u.user_id = s.user_id
+  WHERE s.id = private.verify_session(p_token)
+    AND u.deactivated_at IS NULL;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Your session has expired. Sign in again.' USING ERRCODE = '28000';
+  END IF;
+
+  RETURN v_user_id;
+END;
+$$;
+
+-- The signed-in user now comes back with their avatar, so the app can show it
+-- without another lookup. The result columns change, so both are recreated.
+DROP FUNCTION IF EXISTS public.authenticate_user(TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.validate_session(TEXT);
+
+CREATE FUNCTION public.authenticate_user(p_username TEXT, p_password TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  name TEXT,
+  role TEXT,
+  avatar_color TEXT,
+  avatar_initials TEXT,
+  session_token TEXT,
+  expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user public.users;
+  v_valid BOOLEAN := FALSE;
+BEGIN
+  SELECT * INTO v_user FROM public.users u WHERE u.username = p_username;
+
+  IF v_user.user_id IS NULL
+    OR v_user.deactivated_at IS NOT NULL
+    OR v_user.password_hash IS NULL
+    OR v_user.password_hash = '' THEN
+    RETURN;
+  END IF;
+
+  IF v_user.password_hash LIKE '$2%' THEN
+    v_valid := crypt(p_password, v_user.password_hash) = v_user.password_hash;
+  ELSE
+    -- Legacy plaintext row: compare once, then upgrade to bcrypt
+    v_valid := v_user.password_hash = p_password;
+    IF v_valid THEN
+      UPDATE public.users u
+      SET password_hash = crypt(p_password, gen_salt('bf', 10))
+      WHERE u.user_id = v_user.user_id;
+    END IF;
+  END IF;
+
+  IF NOT v_valid THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT v_user.user_id, v_user.username, v_user.name, v_user.role,
+    v_user.avatar_color, v_user.avatar_initials, s.session_token, s.expires_at
+  FROM private.issue_session(v_user.user_id) s;
+END;
+$$;
+
+CREATE FUNCTION public.validate_session(p_token TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  name TEXT,
+  role TEXT,
+  avatar_color TEXT,
+  avatar_initials TEXT,
+  expires_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+  SELECT u.user_id, u.username, u.name, u.role, u.avatar_color, u.avatar_initials, s.expires_at
+  FROM private.user_sessions s
+  JOIN public.users u ON u.user_id = s.user_id
+  WHERE s.id = private.verify_session(p_token)
+    AND u.deactivated_at IS NULL;
+$$;
+
+-- Changes the signed-in user's display name and avatar. A null colour or
+-- initials goes back to the ones derived from the name.
+CREATE OR REPLACE FUNCTION public.update_own_profile(
+  p_token TEXT,
+  p_name TEXT,
+  p_avatar_color TEXT DEFAULT NULL,
+  p_avatar_initials TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := private.require_session_user(p_token);
+
+  IF trim(coalesce(p_name, '')) = '' THEN
+    RAISE EXCEPTION 'Name is required' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.users u
+  SET name = trim(p_name),
+      avatar_color = p_avatar_color,
+      avatar_initials = NULLIF(upper(trim(coalesce(p_avatar_initials, ''))), '')
+  WHERE u.user_id = v_user_id;
+END;
+$$;
+
+-- Changes the signed-in user's password once the current one checks out, and
+-- signs out their other sessions; the one making the change stays signed in
+CREATE OR REPLACE FUNCTION public.change_own_password(
+  p_token TEXT,
+  p_current_password TEXT,
+  p_new_password TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user public.users;
+BEGIN
+  SELECT * INTO v_user FROM public.users u WHERE u.user_id = private.require_session_user(p_token);
+
+  IF v_user.password_hash IS NULL
+    OR v_user.password_hash = ''
+    OR CASE
+      WHEN v_user.password_hash LIKE '$2%' THEN crypt(p_current_password, v_user.password_hash) <> v_user.password_hash
+      -- Legacy plaintext row that hasn't signed in since 002
+      ELSE v_user.password_hash <> p_current_password
+    END THEN
+    RAISE EXCEPTION 'Current password is incorrect' USING ERRCODE = '28P01';
+  END IF;
+
+  PERFORM private.assert_valid_password(p_new_password);
+
+  UPDATE public.users u
+  SET password_hash = crypt(p_new_password, gen_salt('bf', 10))
+  WHERE u.user_id = v_user.user_id;
+
+  UPDATE private.user_sessions s
+  SET revoked_at = NOW()
+  WHERE s.user_id = v_user.user_id
+    AND s.revoked_at IS NULL
+    AND s.id IS DISTINCT FROM private.verify_session(p_token);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.authenticate_user(TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.validate_session(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.update_own_profile(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.change_own_password(TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.authenticate_user(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.validate_session(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_own_profile(TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.change_own_password(TEXT, TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,52 @@
+-- Earlier versions of edited comments. Editing overwrites comments.content, so
+-- a trigger keeps the text being replaced here; the comment row always holds
+-- the latest version. Nobody can write to this table directly, so a thread
+-- can't be quietly rewritten after the fact.
+CREATE TABLE comment_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  -- The text as it read before the edit, mentions encoded as in comments.content
+  content TEXT NOT NULL,
+  -- When that text was written: the edit before, or the comment's creation
+  written_at TIMESTAMPTZ NOT NULL,
+  -- When the edit replaced it
+  replaced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_comment_revisions_comment_id ON comment_revisions(comment_id, replaced_at);
+
+-- Enable Row Level Security
+ALTER TABLE comment_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Comment revisions are viewable by everyone" ON comment_revisions
+  FOR SELECT USING (true);
+
+-- Soft deletes and reactions don't touch content, so only real edits land here
+CREATE OR REPLACE FUNCTION record_comment_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO comment_revisions (comment_id, content, written_at)
+    VALUES (
+      OLD.id,
+      OLD.content,
+      COALESCE(
+        (SELECT MAX(r.replaced_at) FROM comment_revisions r WHERE r.comment_id = OLD.id),
+        -- First recorded edit; updated_at covers edits made before this table existed
+        OLD.updated_at,
+        OLD.created_at,
+        NOW()
+      )
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER comments_record_revision
+  AFTER UPDATE OF content ON comments
+  FOR EACH ROW EXECUTE FUNCTION record_comment_revision();
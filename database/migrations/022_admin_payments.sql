@@ -0,0 +1,85 @@
+-- Payments move money on the ledger, so recording and removing them is
+-- checked in the database rather than only in the app (lib/permissions.ts
+-- just hides the buttons). Like the admin functions in 019, both take the
+-- caller's session token; clients lose their direct writes on the table.
+
+-- require_admin now guards more than the users console
+CREATE OR REPLACE FUNCTION private.require_admin(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT u.user_id INTO v_user_id
+  FROM private.user_sessions s
+  JOIN public.users u ON u.user_id = s.user_id
+  WHERE s.id = private.verify_session(p_token)
+    AND u.role = 'Admin'
+    AND u.deactivated_at IS NULL;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Only admins can do that' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN v_user_id;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Payments can be recorded" ON payments;
+DROP POLICY IF EXISTS "Payments can be removed" ON payments;
+REVOKE INSERT, UPDATE, DELETE ON payments FROM anon, authenticated;
+
+-- Records a payment on behalf of a player. Without a season it goes into the
+-- active one; closed seasons still refuse it (see 006).
+CREATE OR REPLACE FUNCTION public.record_payment(
+  p_token TEXT,
+  p_player_id UUID,
+  p_amount INTEGER,
+  p_method payment_method_enum,
+  p_paid_at DATE,
+  p_note TEXT DEFAULT NULL,
+  p_season_id UUID DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_admin_id UUID;
+  v_payment payments;
+BEGIN
+  v_admin_id := private.require_admin(p_token);
+
+  INSERT INTO payments (player_id, amount, method, paid_at, note, recorded_by, season_id)
+  VALUES (p_player_id, p_amount, p_method, p_paid_at, NULLIF(trim(p_note), ''), v_admin_id, p_season_id)
+  RETURNING * INTO v_payment;
+
+  RETURN v_payment;
+END;
+$$;
+
+-- Removes a payment recorded in error
+CREATE OR REPLACE FUNCTION public.delete_payment(p_token TEXT, p_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+BEGIN
+  PERFORM private.require_admin(p_token);
+
+  DELETE FROM payments WHERE id = p_payment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % does not exist', p_payment_id USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_payment(TEXT, UUID, INTEGER, payment_method_enum, DATE, TEXT, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.delete_payment(TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_payment(TEXT, UUID, INTEGER, payment_method_enum, DATE, TEXT, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_payment(TEXT, UUID) TO anon, authenticated;
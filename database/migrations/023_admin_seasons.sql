@@ -0,0 +1,82 @@
+-- Starting and closing seasons is checked in the database, so an archived
+-- season can't be reopened or edited by writing to the table directly.
+-- Every change goes through these functions, which take the caller's session
+-- token and require an admin (see private.require_admin in 019).
+
+DROP POLICY IF EXISTS "Seasons can be created" ON seasons;
+DROP POLICY IF EXISTS "Seasons can be updated" ON seasons;
+REVOKE INSERT, UPDATE, DELETE ON seasons FROM anon, authenticated;
+
+-- The old versions took no token; they are replaced rather than overloaded
+DROP FUNCTION IF EXISTS public.activate_season(UUID);
+DROP FUNCTION IF EXISTS public.close_season(UUID);
+
+-- Creates a season; it only takes new fines once activated
+CREATE OR REPLACE FUNCTION public.create_season(
+  p_token TEXT,
+  p_name TEXT,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS seasons
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_season seasons;
+BEGIN
+  PERFORM private.require_admin(p_token);
+
+  IF trim(coalesce(p_name, '')) = '' THEN
+    RAISE EXCEPTION 'Name is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO seasons (name, start_date, end_date)
+  VALUES (trim(p_name), p_start_date, p_end_date)
+  RETURNING * INTO v_season;
+
+  RETURN v_season;
+END;
+$$;
+
+-- Makes a season the one new fines go into
+CREATE FUNCTION public.activate_season(p_token TEXT, p_season_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+BEGIN
+  PERFORM private.require_admin(p_token);
+  PERFORM assert_season_open(p_season_id);
+
+  UPDATE seasons SET is_active = FALSE WHERE is_active AND id <> p_season_id;
+  UPDATE seasons SET is_active = TRUE WHERE id = p_season_id;
+END;
+$$;
+
+-- Archives a season; it stays viewable but can no longer be changed
+CREATE FUNCTION public.close_season(p_token TEXT, p_season_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+BEGIN
+  PERFORM private.require_admin(p_token);
+
+  UPDATE seasons
+  SET is_active = FALSE,
+      closed_at = NOW()
+  WHERE id = p_season_id
+    AND closed_at IS NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_season(TEXT, TEXT, DATE, DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.activate_season(TEXT, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.close_season(TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_season(TEXT, TEXT, DATE, DATE) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.activate_season(TEXT, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.close_season(TEXT, UUID) TO anon, authenticated;
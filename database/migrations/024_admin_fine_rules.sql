@@ -0,0 +1,87 @@
+-- Managing the rule book is checked in the database rather than only in the
+-- app (lib/permissions.ts just hides the buttons). Rules are added and changed
+-- through these functions, which take the caller's session token and require
+-- an admin (see private.require_admin in 019). Rules are never deleted; they
+-- are retired so past fines keep their reference.
+
+DROP POLICY IF EXISTS "Fine rules can be created" ON fine_rules;
+DROP POLICY IF EXISTS "Fine rules can be updated" ON fine_rules;
+DROP POLICY IF EXISTS "Fine rules can be deleted" ON fine_rules;
+REVOKE INSERT, UPDATE, DELETE ON fine_rules FROM anon, authenticated;
+
+-- Adds a rule; codes are stored upper-case and warnings never cost anything
+CREATE OR REPLACE FUNCTION public.create_fine_rule(
+  p_token TEXT,
+  p_code TEXT,
+  p_title TEXT,
+  p_default_amount INTEGER,
+  p_default_type fine_type_enum
+)
+RETURNS fine_rules
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_rule fine_rules;
+BEGIN
+  PERFORM private.require_admin(p_token);
+
+  INSERT INTO fine_rules (code, title, default_amount, default_type)
+  VALUES (
+    upper(trim(p_code)),
+    trim(p_title),
+    CASE WHEN p_default_type = 'Warning' THEN 0 ELSE p_default_amount END,
+    p_default_type
+  )
+  RETURNING * INTO v_rule;
+
+  RETURN v_rule;
+END;
+$$;
+
+-- Changes a rule, or retires and restores it. Arguments left null keep their
+-- current value.
+CREATE OR REPLACE FUNCTION public.update_fine_rule(
+  p_token TEXT,
+  p_rule_id UUID,
+  p_code TEXT DEFAULT NULL,
+  p_title TEXT DEFAULT NULL,
+  p_default_amount INTEGER DEFAULT NULL,
+  p_default_type fine_type_enum DEFAULT NULL,
+  p_is_active BOOLEAN DEFAULT NULL
+)
+RETURNS fine_rules
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_rule fine_rules;
+BEGIN
+  PERFORM private.require_admin(p_token);
+
+  UPDATE fine_rules r
+  SET code = COALESCE(upper(trim(p_code)), r.code),
+      title = COALESCE(trim(p_title), r.title),
+      default_type = COALESCE(p_default_type, r.default_type),
+      default_amount = CASE
+        WHEN COALESCE(p_default_type, r.default_type) = 'Warning' THEN 0
+        ELSE COALESCE(p_default_amount, r.default_amount)
+      END,
+      is_active = COALESCE(p_is_active, r.is_active)
+  WHERE r.id = p_rule_id
+  RETURNING * INTO v_rule;
+
+  IF v_rule.id IS NULL THEN
+    RAISE EXCEPTION 'Rule % does not exist', p_rule_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_rule;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_fine_rule(TEXT, TEXT, TEXT, INTEGER, fine_type_enum) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.update_fine_rule(TEXT, UUID, TEXT, TEXT, INTEGER, fine_type_enum, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_fine_rule(TEXT, TEXT, TEXT, INTEGER, fine_type_enum) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_fine_rule(TEXT, UUID, TEXT, TEXT, INTEGER, fine_type_enum, BOOLEAN) TO anon, authenticated;
@@ -0,0 +1,106 @@
+-- Notifications are private to their recipient. The app signs in with its own
+-- session tokens rather than Supabase auth, so row level security can't tell
+-- who is asking; instead the table is closed to clients and read and marked
+-- through these functions, which take the caller's session token (see
+-- private.require_session_user in 020) and only touch that user's rows.
+
+DROP POLICY IF EXISTS "Notifications are viewable by everyone" ON notifications;
+DROP POLICY IF EXISTS "Users can mark notifications read" ON notifications;
+REVOKE SELECT, INSERT, UPDATE, DELETE ON notifications FROM anon, authenticated;
+
+-- Clients can no longer read the rows, so there is nothing to stream. The
+-- bell refreshes when fines and comments, which cause notifications, change.
+ALTER PUBLICATION supabase_realtime DROP TABLE notifications;
+
+-- The signed-in user's most recent notifications, newest first. Returns the
+-- table type so the app can embed the actor and fine as with a table query.
+CREATE OR REPLACE FUNCTION public.get_my_notifications(p_token TEXT, p_limit INTEGER DEFAULT 20)
+RETURNS SETOF notifications
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := private.require_session_user(p_token);
+
+  RETURN QUERY
+  SELECT n.*
+  FROM notifications n
+  WHERE n.user_id = v_user_id
+  ORDER BY n.created_at DESC
+  LIMIT GREATEST(p_limit, 0);
+END;
+$$;
+
+-- Unread notifications, including ones older than the dropdown shows
+CREATE OR REPLACE FUNCTION public.count_my_unread_notifications(p_token TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := private.require_session_user(p_token);
+
+  RETURN (
+    SELECT COUNT(*)::INTEGER
+    FROM notifications n
+    WHERE n.user_id = v_user_id
+      AND n.read_at IS NULL
+  );
+END;
+$$;
+
+-- Marks one of the signed-in user's notifications read; others' are left alone
+CREATE OR REPLACE FUNCTION public.mark_my_notification_read(p_token TEXT, p_notification_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := private.require_session_user(p_token);
+
+  UPDATE notifications n
+  SET read_at = NOW()
+  WHERE n.id = p_notification_id
+    AND n.user_id = v_user_id
+    AND n.read_at IS NULL;
+END;
+$$;
+
+-- Marks all of the signed-in user's notifications read
+CREATE OR REPLACE FUNCTION public.mark_all_my_notifications_read(p_token TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := private.require_session_user(p_token);
+
+  UPDATE notifications n
+  SET read_at = NOW()
+  WHERE n.user_id = v_user_id
+    AND n.read_at IS NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_my_notifications(TEXT, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.count_my_unread_notifications(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.mark_my_notification_read(TEXT, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.mark_all_my_notifications_read(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_my_notifications(TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.count_my_unread_notifications(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_my_notification_read(TEXT, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_all_my_notifications_read(TEXT) TO anon, authenticated;
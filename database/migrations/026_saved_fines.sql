@@ -0,0 +1,21 @@
+-- The fines a player has saved, for the feed's Saved view. A bulk entry is
+-- saved through its first fine, so the rest of its batch comes along. The
+-- feed filters on these ids in its page query, so an empty Saved view is one
+-- request rather than a walk through every page of the season.
+CREATE OR REPLACE FUNCTION get_saved_fine_ids(p_user_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.fine_id
+  FROM bookmarks b
+  WHERE b.user_id = p_user_id
+  UNION
+  SELECT f.id
+  FROM bookmarks b
+  JOIN fines saved ON saved.id = b.fine_id
+  JOIN fines f ON f.batch_id = saved.batch_id
+  WHERE b.user_id = p_user_id
+    AND saved.batch_id IS NOT NULL;
+$$;
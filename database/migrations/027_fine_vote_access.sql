@@ -0,0 +1,116 @@
+-- Votes and admin decisions settle whether a fine counts towards totals, so
+-- they are checked in the database rather than only in the app
+-- (lib/permissions.ts just disables the buttons). Both go through these
+-- functions, which take the caller's session token (see
+-- private.require_session_user in 020 and private.require_admin in 022) and
+-- take the voter and the deciding admin from it.
+
+DROP POLICY IF EXISTS "Users can cast votes" ON fine_votes;
+DROP POLICY IF EXISTS "Users can change votes" ON fine_votes;
+DROP POLICY IF EXISTS "Users can retract votes" ON fine_votes;
+REVOKE INSERT, UPDATE, DELETE ON fine_votes FROM anon, authenticated;
+
+-- Returns a fine that is still open for votes, or raises
+CREATE OR REPLACE FUNCTION private.require_open_fine(p_fine_id UUID)
+RETURNS public.fines
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_fine public.fines;
+BEGIN
+  SELECT * INTO v_fine FROM public.fines f WHERE f.id = p_fine_id;
+
+  IF v_fine.id IS NULL THEN
+    RAISE EXCEPTION 'Fine % does not exist', p_fine_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_fine.is_void OR v_fine.status NOT IN ('pending', 'contested') THEN
+    RAISE EXCEPTION 'This fine is no longer open for votes' USING ERRCODE = '55000';
+  END IF;
+
+  RETURN v_fine;
+END;
+$$;
+
+-- Casts or changes the signed-in user's vote. The fined player doesn't get a
+-- say in their own fine.
+CREATE OR REPLACE FUNCTION public.cast_fine_vote(p_token TEXT, p_fine_id UUID, p_vote fine_vote_enum)
+RETURNS fine_votes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_voter_id UUID;
+  v_fine fines;
+  v_vote fine_votes;
+BEGIN
+  v_voter_id := private.require_session_user(p_token);
+  v_fine := private.require_open_fine(p_fine_id);
+
+  IF v_fine.subject_id = v_voter_id THEN
+    RAISE EXCEPTION 'You can''t vote on your own fine' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO fine_votes (fine_id, voter_id, vote)
+  VALUES (p_fine_id, v_voter_id, p_vote)
+  ON CONFLICT (fine_id, voter_id) DO UPDATE SET vote = EXCLUDED.vote
+  RETURNING * INTO v_vote;
+
+  RETURN v_vote;
+END;
+$$;
+
+-- Takes back the signed-in user's vote; a fine they haven't voted on is left alone
+CREATE OR REPLACE FUNCTION public.retract_fine_vote(p_token TEXT, p_fine_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_voter_id UUID;
+BEGIN
+  v_voter_id := private.require_session_user(p_token);
+  PERFORM private.require_open_fine(p_fine_id);
+
+  DELETE FROM fine_votes v
+  WHERE v.fine_id = p_fine_id
+    AND v.voter_id = v_voter_id;
+END;
+$$;
+
+-- Settles a proposal by admin decision; later votes no longer change it
+CREATE OR REPLACE FUNCTION public.decide_fine(p_token TEXT, p_fine_id UUID, p_status fine_status_enum)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_admin_id UUID;
+BEGIN
+  v_admin_id := private.require_admin(p_token);
+
+  IF p_status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'A fine can only be approved or rejected' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM private.require_open_fine(p_fine_id);
+
+  UPDATE fines f
+  SET status = p_status,
+      decided_by = v_admin_id,
+      decided_at = NOW(),
+      updated_by = v_admin_id
+  WHERE f.id = p_fine_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cast_fine_vote(TEXT, UUID, fine_vote_enum) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.retract_fine_vote(TEXT, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.decide_fine(TEXT, UUID, fine_status_enum) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.cast_fine_vote(TEXT, UUID, fine_vote_enum) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.retract_fine_vote(TEXT, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.decide_fine(TEXT, UUID, fine_status_enum) TO anon, authenticated;
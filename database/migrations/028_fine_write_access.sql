@@ -0,0 +1,195 @@
+-- Editing, voiding and restoring fines is checked in the database rather than
+-- only in the app (lib/permissions.ts just hides the menu items). These
+-- functions take the caller's session token (see private.require_session_user
+-- in 020): the proposer or an admin can edit a fine, only an admin can void or
+-- restore one. Clients lose direct UPDATE on fines; votes and decisions already
+-- go through 027.
+--
+-- The audit trail used to credit a change to the fine's updated_by, which the
+-- client wrote, so it could be forged and a write that didn't set it was
+-- credited to the previous editor. Now these functions name the actor for the
+-- current transaction only, and changes made without one (such as vote
+-- tallies) are recorded with no actor.
+
+REVOKE UPDATE ON fines FROM anon, authenticated;
+
+-- Names the user behind the fine changes in the current transaction
+CREATE OR REPLACE FUNCTION private.set_fine_actor(p_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  SELECT set_config('app.fine_actor', p_user_id::TEXT, true);
+$$;
+
+CREATE OR REPLACE FUNCTION log_fine_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tracked TEXT[] := ARRAY['subject_id', 'proposer_id', 'description', 'amount', 'fine_type', 'date', 'is_void', 'void_reason'];
+  col TEXT;
+  old_row JSONB;
+  new_row JSONB;
+  old_diff JSONB := '{}'::jsonb;
+  new_diff JSONB := '{}'::jsonb;
+  kind fine_event_type_enum;
+BEGIN
+  new_row := to_jsonb(NEW);
+
+  IF TG_OP = 'INSERT' THEN
+    FOREACH col IN ARRAY tracked LOOP
+      new_diff := new_diff || jsonb_build_object(col, new_row -> col);
+    END LOOP;
+
+    INSERT INTO fine_events (fine_id, actor_id, event_type, old_values, new_values)
+    VALUES (NEW.id, NEW.proposer_id, 'created', NULL, new_diff);
+    RETURN NEW;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+
+  FOREACH col IN ARRAY tracked LOOP
+    IF old_row -> col IS DISTINCT FROM new_row -> col THEN
+      old_diff := old_diff || jsonb_build_object(col, old_row -> col);
+      new_diff := new_diff || jsonb_build_object(col, new_row -> col);
+    END IF;
+  END LOOP;
+
+  IF new_diff = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  kind := CASE
+    WHEN NEW.is_void AND NOT OLD.is_void THEN 'voided'
+    WHEN OLD.is_void AND NOT NEW.is_void THEN 'restored'
+    ELSE 'edited'
+  END;
+
+  INSERT INTO fine_events (fine_id, actor_id, event_type, old_values, new_values)
+  VALUES (NEW.id, NULLIF(current_setting('app.fine_actor', true), '')::UUID, kind, old_diff, new_diff);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Corrects a fine's description, amount or type. Arguments left null keep
+-- their current value; warnings never cost anything.
+CREATE OR REPLACE FUNCTION public.update_fine(
+  p_token TEXT,
+  p_fine_id UUID,
+  p_description TEXT DEFAULT NULL,
+  p_amount INTEGER DEFAULT NULL,
+  p_fine_type fine_type_enum DEFAULT NULL
+)
+RETURNS fines
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_fine fines;
+BEGIN
+  v_user_id := private.require_session_user(p_token);
+
+  SELECT * INTO v_fine FROM fines f WHERE f.id = p_fine_id;
+
+  IF v_fine.id IS NULL THEN
+    RAISE EXCEPTION 'Fine % does not exist', p_fine_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_fine.proposer_id IS DISTINCT FROM v_user_id
+    AND NOT EXISTS (SELECT 1 FROM users u WHERE u.user_id = v_user_id AND u.role = 'Admin') THEN
+    RAISE EXCEPTION 'Only the proposer or an admin can edit this fine' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_fine.is_void THEN
+    RAISE EXCEPTION 'Restore this fine before editing it' USING ERRCODE = '55000';
+  END IF;
+
+  IF p_description IS NOT NULL AND trim(p_description) = '' THEN
+    RAISE EXCEPTION 'Description is required' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM private.set_fine_actor(v_user_id);
+
+  UPDATE fines f
+  SET description = COALESCE(trim(p_description), f.description),
+      fine_type = COALESCE(p_fine_type, f.fine_type),
+      amount = CASE
+        WHEN COALESCE(p_fine_type, f.fine_type) = 'Warning' THEN 0
+        ELSE COALESCE(p_amount, f.amount)
+      END,
+      updated_by = v_user_id
+  WHERE f.id = p_fine_id
+  RETURNING * INTO v_fine;
+
+  RETURN v_fine;
+END;
+$$;
+
+-- Voids a fine: the row is kept for history but no longer counts
+CREATE OR REPLACE FUNCTION public.void_fine(p_token TEXT, p_fine_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS fines
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_admin_id UUID;
+  v_fine fines;
+BEGIN
+  v_admin_id := private.require_admin(p_token);
+  PERFORM private.set_fine_actor(v_admin_id);
+
+  UPDATE fines f
+  SET is_void = TRUE,
+      void_reason = NULLIF(trim(p_reason), ''),
+      updated_by = v_admin_id
+  WHERE f.id = p_fine_id
+  RETURNING * INTO v_fine;
+
+  IF v_fine.id IS NULL THEN
+    RAISE EXCEPTION 'Fine % does not exist', p_fine_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_fine;
+END;
+$$;
+
+-- Restores a voided fine so it counts again
+CREATE OR REPLACE FUNCTION public.restore_fine(p_token TEXT, p_fine_id UUID)
+RETURNS fines
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_admin_id UUID;
+  v_fine fines;
+BEGIN
+  v_admin_id := private.require_admin(p_token);
+  PERFORM private.set_fine_actor(v_admin_id);
+
+  UPDATE fines f
+  SET is_void = FALSE,
+      updated_by = v_admin_id
+  WHERE f.id = p_fine_id
+  RETURNING * INTO v_fine;
+
+  IF v_fine.id IS NULL THEN
+    RAISE EXCEPTION 'Fine % does not exist', p_fine_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_fine;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_fine(TEXT, UUID, TEXT, INTEGER, fine_type_enum) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.void_fine(TEXT, UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.restore_fine(TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.update_fine(TEXT, UUID, TEXT, INTEGER, fine_type_enum) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.void_fine(TEXT, UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_fine(TEXT, UUID) TO anon, authenticated;
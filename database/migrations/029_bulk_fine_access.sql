@@ -0,0 +1,55 @@
+-- Bulk entries took their proposer from the client, so anyone could file
+-- fines as another player, and with it that player's automatic approve vote
+-- (see add_proposer_vote in 004). Like the other write functions, the bulk
+-- add now takes the caller's session token (see private.require_session_user
+-- in 020) and records the signed-in user as the proposer.
+DROP FUNCTION IF EXISTS add_fines_bulk(UUID, TEXT, fine_type_enum, JSONB, UUID, UUID);
+
+CREATE FUNCTION public.add_fines_bulk(
+  p_token TEXT,
+  p_description TEXT,
+  p_fine_type fine_type_enum,
+  p_entries JSONB,
+  p_season_id UUID DEFAULT NULL,
+  p_rule_id UUID DEFAULT NULL
+)
+RETURNS SETOF fines
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_proposer_id UUID;
+  v_batch_id UUID := gen_random_uuid();
+  v_now TIMESTAMPTZ := NOW();
+BEGIN
+  v_proposer_id := private.require_session_user(p_token);
+
+  IF jsonb_typeof(p_entries) <> 'array' OR jsonb_array_length(p_entries) = 0 THEN
+    RAISE EXCEPTION 'At least one player is required';
+  END IF;
+
+  IF COALESCE(TRIM(p_description), '') = '' THEN
+    RAISE EXCEPTION 'Description is required';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO fines (subject_id, proposer_id, description, amount, fine_type, date, replies, season_id, batch_id, rule_id)
+  SELECT
+    (entry ->> 'subject_id')::UUID,
+    v_proposer_id,
+    TRIM(p_description),
+    CASE WHEN p_fine_type = 'Warning' THEN 0 ELSE (entry ->> 'amount')::INTEGER END,
+    p_fine_type,
+    v_now,
+    0,
+    p_season_id,
+    v_batch_id,
+    p_rule_id
+  FROM jsonb_array_elements(p_entries) AS entry
+  RETURNING *;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.add_fines_bulk(TEXT, TEXT, fine_type_enum, JSONB, UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.add_fines_bulk(TEXT, TEXT, fine_type_enum, JSONB, UUID, UUID) TO anon, authenticated;
@@ -0,0 +1,63 @@
+-- Reactions took their user_id from the client and any reaction could be
+-- deleted by anyone, so members could react as someone else or clear other
+-- people's reactions. They are now added and removed through these functions,
+-- which take the caller's session token (see private.require_session_user in
+-- 020) and only act as that user.
+
+DROP POLICY IF EXISTS "Users can add reactions" ON reactions;
+DROP POLICY IF EXISTS "Users can remove reactions" ON reactions;
+REVOKE INSERT, UPDATE, DELETE ON reactions FROM anon, authenticated;
+
+-- Reacts to a fine, or to one of its comments when p_comment_id is set.
+-- Returns the table type so the app can embed the member as with a table query.
+CREATE OR REPLACE FUNCTION public.add_reaction(
+  p_token TEXT,
+  p_fine_id UUID,
+  p_emoji TEXT,
+  p_comment_id UUID DEFAULT NULL
+)
+RETURNS reactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_reaction reactions;
+BEGIN
+  v_user_id := private.require_session_user(p_token);
+
+  INSERT INTO reactions (fine_id, comment_id, user_id, emoji)
+  VALUES (p_fine_id, p_comment_id, v_user_id, p_emoji)
+  RETURNING * INTO v_reaction;
+
+  RETURN v_reaction;
+END;
+$$;
+
+-- Takes back one of the signed-in user's reactions
+CREATE OR REPLACE FUNCTION public.remove_reaction(p_token TEXT, p_reaction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := private.require_session_user(p_token);
+
+  DELETE FROM reactions r
+  WHERE r.id = p_reaction_id
+    AND r.user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reaction % does not exist', p_reaction_id USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.add_reaction(TEXT, UUID, TEXT, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.remove_reaction(TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.add_reaction(TEXT, UUID, TEXT, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_reaction(TEXT, UUID) TO anon, authenticated;
@@ -0,0 +1,108 @@
+-- Bookmarks are private to their owner, but the table was open to every
+-- client and get_saved_fine_ids (026) returned any player's saved fines for
+-- the user id it was given. Like notifications (025), the table is closed to
+-- clients and bookmarks are read and changed through these functions, which
+-- take the caller's session token (see private.require_session_user in 020)
+-- and only touch that user's rows.
+
+DROP POLICY IF EXISTS "Bookmarks are viewable by everyone" ON bookmarks;
+DROP POLICY IF EXISTS "Users can add bookmarks" ON bookmarks;
+DROP POLICY IF EXISTS "Users can remove bookmarks" ON bookmarks;
+REVOKE SELECT, INSERT, UPDATE, DELETE ON bookmarks FROM anon, authenticated;
+
+DROP FUNCTION IF EXISTS get_saved_fine_ids(UUID);
+
+-- The fines the signed-in user has saved, most recently saved first
+CREATE OR REPLACE FUNCTION public.get_my_bookmarked_fine_ids(p_token TEXT)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := private.require_session_user(p_token);
+
+  RETURN QUERY
+  SELECT b.fine_id
+  FROM bookmarks b
+  WHERE b.user_id = v_user_id
+  ORDER BY b.created_at DESC;
+END;
+$$;
+
+-- The signed-in user's saved fines for the feed's Saved view, plus the rest
+-- of any saved bulk entry's batch (see 026)
+CREATE OR REPLACE FUNCTION public.get_my_saved_fine_ids(p_token TEXT)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := private.require_session_user(p_token);
+
+  RETURN QUERY
+  SELECT b.fine_id
+  FROM bookmarks b
+  WHERE b.user_id = v_user_id
+  UNION
+  SELECT f.id
+  FROM bookmarks b
+  JOIN fines saved ON saved.id = b.fine_id
+  JOIN fines f ON f.batch_id = saved.batch_id
+  WHERE b.user_id = v_user_id
+    AND saved.batch_id IS NOT NULL;
+END;
+$$;
+
+-- Saves a fine for the signed-in user; saving it twice, e.g. from two tabs,
+-- is not an error
+CREATE OR REPLACE FUNCTION public.add_my_bookmark(p_token TEXT, p_fine_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := private.require_session_user(p_token);
+
+  INSERT INTO bookmarks (user_id, fine_id)
+  VALUES (v_user_id, p_fine_id)
+  ON CONFLICT (user_id, fine_id) DO NOTHING;
+END;
+$$;
+
+-- Removes a fine from the signed-in user's saved fines
+CREATE OR REPLACE FUNCTION public.remove_my_bookmark(p_token TEXT, p_fine_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, private, extensions
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := private.require_session_user(p_token);
+
+  DELETE FROM bookmarks b
+  WHERE b.user_id = v_user_id
+    AND b.fine_id = p_fine_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_my_bookmarked_fine_ids(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_my_saved_fine_ids(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.add_my_bookmark(TEXT, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.remove_my_bookmark(TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_my_bookmarked_fine_ids(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_saved_fine_ids(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_my_bookmark(TEXT, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_my_bookmark(TEXT, UUID) TO anon, authenticated;
@@ -0,0 +1,153 @@
+"use client"
+
+import { Header } from "@/components/layout";
+import { ProtectedRoute } from "@/components/features/auth";
+import { ResetPasswordDialog, UserDialog } from "@/components/features/users";
+import { useCallback, useEffect, useState } from "react";
+import { getUserAccounts, setUserActive } from "@/lib/api/users";
+import { useAuth } from "@/contexts/auth-context";
+import type { UserAccount } from "@/types/models";
+
+export default function AdminUsers() {
+  const [accounts, setAccounts] = useState<UserAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<UserAccount | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [resetting, setResetting] = useState<UserAccount | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const { user, token } = useAuth();
+
+  const fetchAccounts = useCallback(async () => {
+    const { data, error } = await getUserAccounts();
+    if (error) {
+      alert('Error loading users: ' + error);
+    }
+    setAccounts(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const openDialog = (account: UserAccount | null) => {
+    setNotice(null);
+    setEditing(account);
+    setDialogOpen(true);
+  };
+
+  const handleToggleActive = async (account: UserAccount) => {
+    if (!token) return;
+    const deactivating = !account.deactivated_at;
+    if (deactivating && !confirm(`Deactivate ${account.name}? They will be signed out and can't sign in again until reactivated. Their fines and comments stay.`)) {
+      return;
+    }
+
+    const { error } = await setUserActive(token, account.user_id, !deactivating);
+    if (error) {
+      alert('Error updating user: ' + error);
+      return;
+    }
+    setNotice(`${account.name} ${deactivating ? "deactivated" : "reactivated"}.`);
+    fetchAccounts();
+  };
+
+  return (
+    <ProtectedRoute permission={{ action: "manage", resource: { type: "user" } }}>
+      <div className="min-h-screen bg-gray-50">
+        <Header username={user?.name || "User"} role={user?.role || "User"} />
+        <main className="container mx-auto px-4 py-8 max-w-5xl">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="text-center mb-8">
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Users</h1>
+              <div className="w-24 h-0.5 bg-amber-600 mx-auto"></div>
+              <p className="mt-2 text-sm text-gray-500">Accounts, roles and passwords</p>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <p role="status" className="text-sm text-green-700">{notice}</p>
+              <button
+                onClick={() => openDialog(null)}
+                className="rounded-md bg-[#7d6c64] hover:bg-[#6b4a41] px-4 py-2 text-sm font-semibold text-white shadow"
+              >
+                New user
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center items-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {accounts.map((account) => (
+                  <li
+                    key={account.user_id}
+                    className={`flex items-center justify-between px-4 py-3 text-sm ${account.deactivated_at ? "text-gray-400" : "text-gray-900"}`}
+                  >
+                    <span className="flex items-center gap-3 min-w-0">
+                      <span className="truncate font-medium">{account.name}</span>
+                      <span className="truncate text-gray-500">@{account.username}</span>
+                      {account.role === "Admin" && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-amber-800 bg-amber-100">
+                          Admin
+                        </span>
+                      )}
+                      {account.deactivated_at && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-gray-600 bg-gray-100">
+                          Deactivated
+                        </span>
+                      )}
+                    </span>
+                    <span className="ml-4 flex flex-shrink-0 items-center gap-3">
+                      <button
+                        onClick={() => openDialog(account)}
+                        aria-label={`Edit ${account.name}`}
+                        className="text-xs text-gray-500 hover:text-[#6b4a41] hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => {
+                          setNotice(null);
+                          setResetting(account);
+                        }}
+                        aria-label={`Reset password for ${account.name}`}
+                        className="text-xs text-gray-500 hover:text-[#6b4a41] hover:underline"
+                      >
+                        Reset password
+                      </button>
+                      {account.user_id !== user?.id && (
+                        <button
+                          onClick={() => handleToggleActive(account)}
+                          aria-label={`${account.deactivated_at ? "Reactivate" : "Deactivate"} ${account.name}`}
+                          className="text-xs text-gray-500 hover:text-red-600 hover:underline"
+                        >
+                          {account.deactivated_at ? "Reactivate" : "Deactivate"}
+                        </button>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </main>
+
+        <UserDialog
+          isOpen={dialogOpen}
+          user={editing}
+          token={token}
+          onClose={() => setDialogOpen(false)}
+          onSaved={fetchAccounts}
+        />
+        <ResetPasswordDialog
+          user={resetting}
+          token={token}
+          onClose={() => setResetting(null)}
+          onReset={(account) => setNotice(`Password reset for ${account.name}.`)}
+        />
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -1,117 +1,65 @@
 "use client"
 
 import { Header } from "@/components/layout";
-import { DataTable } from "@/components/shared";
-import { AddFineForm, columns } from "@/components/features/fines";
+import { AddFineForm } from "@/components/features/fines";
 import { ProtectedRoute } from "@/components/features/auth";
-import { useEffect, useState } from "react";
-import { createClient } from "@/lib/supabase/client";
-import type { DataTableRow } from "@/types/common";
-import type { FineWithUsersQuery } from "@/types/api";
+import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
 import { useAuth } from "@/contexts/auth-context";
+import { useSeason } from "@/contexts/season-context";
 import FinesSlackInterface from '@/components/messages/slack'
 
 
-// Transform function moved from API file for client-side use
-function transformFinesToDataTableRows(fines: FineWithUsersQuery[]): DataTableRow[] {
-  return fines.map((fine) => ({
-    id: fine.id,
-    date: fine.date,
-    fine_type: fine.fine_type,
-    subject: Array.isArray(fine.subject) ? fine.subject[0]?.name || 'Unknown' : fine.subject?.name || 'Unknown',
-    description: fine.description,
-    amount: fine.amount,
-    proposer: Array.isArray(fine.proposer) ? fine.proposer[0]?.name || 'Unknown' : fine.proposer?.name || 'Unknown',
-    replies: fine.replies
-  }));
+// Reading the query string needs a Suspense boundary in a static export
+export default function Home() {
+  return (
+    <Suspense fallback={null}>
+      <Dashboard />
+    </Suspense>
+  );
 }
 
-export default function Home() {
-  const [finesData, setFinesData] = useState<DataTableRow[]>([]);
-  const [loading, setLoading] = useState(true);
+function Dashboard() {
   const [slackRefreshKey, setSlackRefreshKey] = useState(0);
-  const { user } = useAuth();
-
-  const fetchFines = async () => {
-    try {
-      const supabase = createClient();
-      
-      const { data, error } = await supabase
-        .from('fines')
-        .select(`
-          id,
-          date,
-          fine_type,
-          description,
-          amount,
-          replies,
-          subject:users!fines_subject_id_fkey(name),
-          proposer:users!fines_proposer_id_fkey(name)
-        `)
-        .order('date', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching fines:', error);
-        return;
-      }
+  const { user, token } = useAuth();
+  const { currentSeason, isReadOnly } = useSeason();
+  const seasonId = currentSeason?.id;
+  // Notifications link here with ?fine=<id> to open that fine's comments;
+  // search results add &comment=<id> for a match in a comment
+  const searchParams = useSearchParams();
+  const focusFineId = searchParams.get("fine");
+  const focusCommentId = searchParams.get("comment");
 
-      const transformedData = transformFinesToDataTableRows(data || []);
-      setFinesData(transformedData);
-    } catch (error) {
-      console.error('Failed to fetch fines:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleFineAdded = async () => {
-    await fetchFines();
+  const handleFineAdded = () => {
     setSlackRefreshKey((key) => key + 1);
   };
 
-  useEffect(() => {
-    fetchFines();
-
-    // Set up real-time subscription
-    const supabase = createClient();
-    const channel = supabase
-      .channel('fines-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'fines'
-        },
-        () => {
-          // Refetch data when any change occurs
-          fetchFines();
-        }
-      )
-      .subscribe();
-
-    // Cleanup subscription on unmount
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
-
   return (
     <ProtectedRoute>
       <div className="min-h-screen bg-gray-50">
         <Header username={user?.name || "User"} role={user?.role || "User"} />
         <main className="container mx-auto px-4 py-8 max-w-7xl">
           <div className="space-y-8">
-            {/* Data Table Section */}
+            {/* Fines Feed Section */}
             <div className="bg-white rounded-lg shadow-sm border border-gray-200">
-              {/* <DataTable columns={columns} data={finesData} loading={loading} /> */}
-              <FinesSlackInterface refreshKey={slackRefreshKey} />
+              <FinesSlackInterface refreshKey={slackRefreshKey} seasonId={seasonId} readOnly={isReadOnly} focusFineId={focusFineId} focusCommentId={focusCommentId} />
             </div>
             
             {/* Add Fine Form Section */}
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <AddFineForm onFineAdded={handleFineAdded} currentUserObject={{ user_id: user?.id || '', name: user?.name || '' }} />
-            </div>
+            {isReadOnly ? (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 text-center text-gray-600">
+                The {currentSeason?.name} season is closed. Its fines are archived and can no longer be changed.
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <AddFineForm
+                  onFineAdded={handleFineAdded}
+                  currentUserObject={{ user_id: user?.id || '', name: user?.name || '', role: user?.role }}
+                  token={token}
+                  seasonId={seasonId}
+                />
+              </div>
+            )}
           </div>
         </main>
       </div>
@@ -0,0 +1,41 @@
+"use client"
+
+import { Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { Header } from "@/components/layout";
+import { ProtectedRoute } from "@/components/features/auth";
+import { PlayerProfile } from "@/components/features/players";
+import { useAuth } from "@/contexts/auth-context";
+
+// Reading the query string needs a Suspense boundary in a static export
+export default function Players() {
+  return (
+    <Suspense fallback={null}>
+      <PlayerPage />
+    </Suspense>
+  );
+}
+
+function PlayerPage() {
+  const { user } = useAuth();
+  // Profiles are linked as /players?id=<user id> and load in the browser, so a
+  // player added after the last deploy has one too
+  const playerId = useSearchParams().get("id");
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <Header username={user?.name || "User"} role={user?.role || "User"} />
+        <main className="container mx-auto px-4 py-8 max-w-5xl">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            {playerId ? (
+              <PlayerProfile playerId={playerId} />
+            ) : (
+              <p className="py-12 text-center text-gray-500">No player selected.</p>
+            )}
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
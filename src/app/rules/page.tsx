@@ -0,0 +1,136 @@
+"use client"
+
+import { Header } from "@/components/layout";
+import { ProtectedRoute } from "@/components/features/auth";
+import { FineRuleDialog } from "@/components/features/rules";
+import { useCallback, useEffect, useState } from "react";
+import { getFineRules, updateFineRule } from "@/lib/api/rules";
+import { formatMoney } from "@/lib/money";
+import { can } from "@/lib/permissions";
+import { useAuth } from "@/contexts/auth-context";
+import type { FineRule } from "@/types/models";
+
+export default function Rules() {
+  const [rules, setRules] = useState<FineRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<FineRule | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { user, token } = useAuth();
+  const canManageRules = can(user, "manage", { type: "rule" });
+
+  // Admins also see retired rules so they can bring them back
+  const fetchRules = useCallback(async () => {
+    const { data } = await getFineRules(canManageRules);
+    setRules(data || []);
+    setLoading(false);
+  }, [canManageRules]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const openDialog = (rule: FineRule | null) => {
+    setEditing(rule);
+    setDialogOpen(true);
+  };
+
+  const handleToggleActive = async (rule: FineRule) => {
+    if (!token) {
+      alert('Your session has expired. Sign in again.');
+      return;
+    }
+
+    const { error } = await updateFineRule(token, rule.id, { is_active: !rule.is_active });
+    if (error) {
+      alert('Error updating rule: ' + error);
+      return;
+    }
+    fetchRules();
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <Header username={user?.name || "User"} role={user?.role || "User"} />
+        <main className="container mx-auto px-4 py-8 max-w-5xl">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="text-center mb-8">
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Rule Book</h1>
+              <div className="w-24 h-0.5 bg-amber-600 mx-auto"></div>
+              <p className="mt-2 text-sm text-gray-500">Standard offences and what they cost</p>
+            </div>
+
+            {canManageRules && (
+              <div className="flex justify-end mb-4">
+                <button
+                  onClick={() => openDialog(null)}
+                  className="rounded-md bg-[#7d6c64] hover:bg-[#6b4a41] px-4 py-2 text-sm font-semibold text-white shadow"
+                >
+                  New rule
+                </button>
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex justify-center items-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+              </div>
+            ) : rules.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-8">The rule book is empty.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {rules.map((rule) => (
+                  <li
+                    key={rule.id}
+                    className={`flex items-center justify-between px-4 py-3 text-sm ${rule.is_active ? "text-gray-900" : "text-gray-400"}`}
+                  >
+                    <span className="flex items-center gap-3 min-w-0">
+                      <span className="font-mono text-xs font-semibold bg-gray-100 rounded px-2 py-0.5">{rule.code}</span>
+                      <span className="truncate">{rule.title}</span>
+                      {!rule.is_active && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-gray-600 bg-gray-100">
+                          Retired
+                        </span>
+                      )}
+                    </span>
+                    <span className="ml-4 flex flex-shrink-0 items-center gap-3">
+                      <span className="font-medium">
+                        {rule.default_type === "Warning"
+                          ? "Warning"
+                          : `${rule.default_type === "Credit" ? "Credit " : ""}${formatMoney(rule.default_amount)}`}
+                      </span>
+                      {canManageRules && (
+                        <>
+                          <button
+                            onClick={() => openDialog(rule)}
+                            className="text-xs text-gray-500 hover:text-[#6b4a41] hover:underline"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleActive(rule)}
+                            className="text-xs text-gray-500 hover:text-red-600 hover:underline"
+                          >
+                            {rule.is_active ? "Retire" : "Restore"}
+                          </button>
+                        </>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </main>
+
+        <FineRuleDialog
+          isOpen={dialogOpen}
+          rule={editing}
+          token={token}
+          onClose={() => setDialogOpen(false)}
+          onSaved={fetchRules}
+        />
+      </div>
+    </ProtectedRoute>
+  );
+}
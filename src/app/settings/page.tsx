@@ -0,0 +1,30 @@
+"use client"
+
+import { Header } from "@/components/layout";
+import { ProtectedRoute } from "@/components/features/auth";
+import { PasswordSettingsForm, ProfileSettingsForm } from "@/components/features/settings";
+import { useAuth } from "@/contexts/auth-context";
+
+export default function Settings() {
+  const { user } = useAuth();
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <Header username={user?.name || "User"} role={user?.role || "User"} />
+        <main className="container mx-auto px-4 py-8 max-w-2xl">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-8">
+            <div className="text-center">
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Settings</h1>
+              <div className="w-24 h-0.5 bg-amber-600 mx-auto"></div>
+              {user && <p className="mt-2 text-sm text-gray-500">Signed in as @{user.username}</p>}
+            </div>
+            <ProfileSettingsForm />
+            <div className="border-t border-gray-200" />
+            <PasswordSettingsForm />
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { Header } from "@/components/layout";
+import { ProtectedRoute } from "@/components/features/auth";
+import { StatsDashboard } from "@/components/features/stats";
+import { useAuth } from "@/contexts/auth-context";
+
+export default function Stats() {
+  const { user } = useAuth();
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <Header username={user?.name || "User"} role={user?.role || "User"} />
+        <main className="container mx-auto px-4 py-8 max-w-5xl">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <StatsDashboard />
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -2,85 +2,185 @@
 
 import { Header } from "@/components/layout";
 import { ProtectedRoute } from "@/components/features/auth";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { RecordPaymentForm } from "@/components/features/payments";
+import { ExportMenu } from "@/components/features/export";
+import { PlayerLink } from "@/components/features/players";
 import { createClient } from "@/lib/supabase/client";
-import type { FineWithUsersQuery } from "@/types/api";
+import { deletePayment, getPayments } from "@/lib/api/payments";
+import { applyFineChange, applyPaymentChange, getPlayerTotals, mergePlayerTotals } from "@/lib/api/totals";
+import { getRuleStats } from "@/lib/api/rules";
+import { can } from "@/lib/permissions";
+import { formatMoney } from "@/lib/money";
+import { downloadExport, exportFilename, totalsExportTable, type ExportFormat } from "@/lib/export";
 import { useAuth } from "@/contexts/auth-context";
+import { useSeason } from "@/contexts/season-context";
+import type { Fine, FineRuleStat, Payment, PaymentWithPlayer, PlayerBalance } from "@/types/models";
+import type { FineType } from "@/types/common";
 
-type UserFineTotal = {
-  name: string;
-  total: number;
+type VoidedFineQuery = {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+  fine_type: FineType;
+  subject: { name: string } | { name: string }[] | null;
 };
 
-type FineTotalQuery = {
+type VoidedFine = {
+  id: string;
+  date: string;
+  name: string;
+  description: string;
   amount: number;
   fine_type: string;
-  subject: { name: string } | { name: string }[] | null;
 };
 
 export default function Totals() {
-  const [userTotals, setUserTotals] = useState<UserFineTotal[]>([]);
+  const [balances, setBalances] = useState<PlayerBalance[]>([]);
+  const [payments, setPayments] = useState<PaymentWithPlayer[]>([]);
   const [loading, setLoading] = useState(true);
-  const [grandTotal, setGrandTotal] = useState(0);
-  const { user } = useAuth();
+  const [voidedFines, setVoidedFines] = useState<VoidedFine[]>([]);
+  const [ruleStats, setRuleStats] = useState<FineRuleStat[]>([]);
+  const balancesRef = useRef<PlayerBalance[]>([]);
+  const { user, token } = useAuth();
+  const { currentSeason, isReadOnly, loading: seasonsLoading } = useSeason();
+  const seasonId = currentSeason?.id;
+  const canManagePayments = !isReadOnly && can(user, "create", { type: "payment" });
+
+  useEffect(() => {
+    balancesRef.current = balances;
+  }, [balances]);
+
+  const fetchVoidedFines = useCallback(async () => {
+    if (!seasonId) return;
+
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from('fines')
+      .select(`
+        id,
+        date,
+        description,
+        amount,
+        fine_type,
+        subject:users!fines_subject_id_fkey(name)
+      `)
+      .eq('season_id', seasonId)
+      .eq('is_void', true);
+
+    if (error) {
+      console.error('Error fetching voided fines:', error);
+      return;
+    }
+
+    // Voided fines are listed separately and never counted
+    const voided = ((data as VoidedFineQuery[]) || []).map((fine) => {
+      const subject = Array.isArray(fine.subject) ? fine.subject[0] : fine.subject;
+      return {
+        id: fine.id,
+        date: fine.date,
+        name: subject?.name || 'Unknown',
+        description: fine.description,
+        amount: fine.amount,
+        fine_type: fine.fine_type
+      };
+    });
+
+    setVoidedFines(voided.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+  }, [seasonId]);
+
+  const fetchPayments = useCallback(async () => {
+    if (!seasonId) return;
+
+    const { data } = await getPayments(seasonId);
+    setPayments(data || []);
+  }, [seasonId]);
+
+  const fetchRuleStats = useCallback(async () => {
+    if (!seasonId) return;
+
+    const { data } = await getRuleStats(seasonId);
+    setRuleStats(data || []);
+  }, [seasonId]);
+
+  const fetchFineTotals = useCallback(async () => {
+    if (!seasonId) {
+      // Nothing to total until there is a season; don't spin forever when there isn't one
+      if (!seasonsLoading) {
+        setBalances([]);
+        setLoading(false);
+      }
+      return;
+    }
 
-  const fetchFineTotals = async () => {
     try {
-      const supabase = createClient();
-      
-      const { data, error } = await supabase
-        .from('fines')
-        .select(`
-          amount,
-          fine_type,
-          subject:users!fines_subject_id_fkey(name)
-        `);
-
-      if (error) {
-        console.error('Error fetching fines:', error);
+      // Balances are aggregated by get_player_totals, so only approved, non-void fines count
+      const [totalsResult] = await Promise.all([
+        getPlayerTotals(seasonId),
+        fetchPayments(),
+        fetchVoidedFines(),
+        fetchRuleStats()
+      ]);
+
+      if (totalsResult.error) {
         return;
       }
 
-      // Calculate totals per user
-      const totalsMap = new Map<string, number>();
-      
-      (data as FineTotalQuery[])?.forEach((fine) => {
-        let subjectName = 'Unknown';
-        
-        if (fine.subject) {
-          if (Array.isArray(fine.subject)) {
-            subjectName = fine.subject[0]?.name || 'Unknown';
-          } else {
-            subjectName = fine.subject.name || 'Unknown';
-          }
-        }
-        
-        const currentTotal = totalsMap.get(subjectName) || 0;
-        const amountToAdd = fine.fine_type === "Credit" ? -fine.amount : fine.amount;
-        totalsMap.set(subjectName, currentTotal + amountToAdd);
-      });
-
-      // Convert to array and sort by name
-      const totalsArray: UserFineTotal[] = Array.from(totalsMap.entries())
-        .map(([name, total]) => ({ name, total }))
-        .sort((a, b) => a.name.localeCompare(b.name));
-
-      setUserTotals(totalsArray);
-      
-      // Calculate grand total
-      const total = Array.from(totalsMap.values()).reduce((sum, amount) => sum + amount, 0);
-      setGrandTotal(total);
+      setBalances(totalsResult.data || []);
     } catch (error) {
       console.error('Failed to fetch fine totals:', error);
     } finally {
       setLoading(false);
     }
+  }, [seasonId, seasonsLoading, fetchPayments, fetchVoidedFines, fetchRuleStats]);
+
+  // Players without a balance row yet (e.g. their first fine) are fetched on their own
+  const fetchMissingPlayers = useCallback(async (playerIds: string[]) => {
+    if (!seasonId) return;
+
+    const results = await Promise.all(playerIds.map((playerId) => getPlayerTotals(seasonId, playerId)));
+    const rows = results.flatMap((result) => result.data || []);
+    if (rows.length > 0) {
+      setBalances((prev) => mergePlayerTotals(prev, rows));
+    }
+  }, [seasonId]);
+
+  const handleDeletePayment = async (paymentId: string) => {
+    if (!confirm('Remove this payment from the ledger?')) {
+      return;
+    }
+
+    if (!token) {
+      alert('Your session has expired. Sign in again.');
+      return;
+    }
+
+    const { error } = await deletePayment(token, paymentId);
+    if (error) {
+      alert('Error removing payment: ' + error);
+      return;
+    }
+    // The balance itself is adjusted by the realtime delta
+    setPayments((prev) => prev.filter((payment) => payment.id !== paymentId));
+  };
+
+  const handleExportTotals = async (format: ExportFormat) => {
+    downloadExport(totalsExportTable(balances), format, exportFilename("totals", format, currentSeason?.name));
+    return null;
   };
 
+  const totalFined = balances.reduce((sum, balance) => sum + balance.fined, 0);
+  const totalCredited = balances.reduce((sum, balance) => sum + balance.credited, 0);
+  const totalPaid = balances.reduce((sum, balance) => sum + balance.paid, 0);
+  const totalOutstanding = balances.reduce((sum, balance) => sum + balance.outstanding, 0);
+
   useEffect(() => {
     fetchFineTotals();
 
-    // Set up real-time subscription
+    if (!seasonId) return;
+
+    // Apply each change as a delta rather than re-aggregating the whole season
     const supabase = createClient();
     const channel = supabase
       .channel('fines-totals-changes')
@@ -91,9 +191,36 @@ export default function Totals() {
           schema: 'public',
           table: 'fines'
         },
-        () => {
-          // Refetch data when any change occurs
-          fetchFineTotals();
+        (payload: { old: Partial<Fine>; new: Partial<Fine> }) => {
+          const result = applyFineChange(balancesRef.current, payload, seasonId);
+          balancesRef.current = result.balances;
+          setBalances(result.balances);
+          if (result.missingPlayerIds.length > 0) {
+            fetchMissingPlayers(result.missingPlayerIds);
+          }
+          if (payload.old?.is_void || payload.new?.is_void) {
+            fetchVoidedFines();
+          }
+          if (payload.old?.rule_id || payload.new?.rule_id) {
+            fetchRuleStats();
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'payments'
+        },
+        (payload: { old: Partial<Payment>; new: Partial<Payment> }) => {
+          const result = applyPaymentChange(balancesRef.current, payload, seasonId);
+          balancesRef.current = result.balances;
+          setBalances(result.balances);
+          if (result.missingPlayerIds.length > 0) {
+            fetchMissingPlayers(result.missingPlayerIds);
+          }
+          fetchPayments();
         }
       )
       .subscribe();
@@ -102,7 +229,7 @@ export default function Totals() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
+  }, [seasonId, fetchFineTotals, fetchMissingPlayers, fetchPayments, fetchVoidedFines, fetchRuleStats]);
 
   return (
     <ProtectedRoute>
@@ -112,9 +239,23 @@ export default function Totals() {
           <div className="space-y-8">
             {/* Fine Totals Section */}
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <div className="text-center mb-8">
+              <div className="relative text-center mb-8">
+                {!loading && balances.length > 0 && (
+                  <div className="absolute right-0 top-0">
+                    <ExportMenu
+                      label="totals"
+                      onExport={handleExportTotals}
+                      buttonClassName="border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                    />
+                  </div>
+                )}
                 <h1 className="text-3xl font-bold text-gray-900 mb-2">Fine Totals</h1>
                 <div className="w-24 h-0.5 bg-amber-600 mx-auto"></div>
+                {currentSeason && (
+                  <p className="mt-2 text-sm text-gray-500">
+                    {currentSeason.name} season{isReadOnly ? " (archived)" : ""}
+                  </p>
+                )}
               </div>
 
               {loading ? (
@@ -123,35 +264,134 @@ export default function Totals() {
                 </div>
               ) : (
                 <>
-                  {/* User Totals Grid */}
-                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 mb-8">
-                    {userTotals.map((userTotal) => (
+                  {/* Player Balances Grid */}
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
+                    {balances.map((balance) => (
                       <div 
-                        key={userTotal.name}
+                        key={balance.player_id}
                         className="bg-gray-100 rounded-lg p-4 border border-gray-200"
                       >
-                        <div className="flex items-center justify-between">
-                          <span className="font-semibold text-gray-900 truncate">
-                            {userTotal.name}
-                          </span>
-                          <div className="w-px h-6 bg-red-500 mx-2"></div>
-                          <span className="font-bold text-red-600">
-                            ${userTotal.total.toFixed(2)}
+                        <div className="flex items-center justify-between mb-2">
+                          <PlayerLink playerId={balance.player_id} className="font-semibold text-gray-900 truncate">
+                            {balance.name}
+                          </PlayerLink>
+                          <span className={`font-bold ${balance.outstanding > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {formatMoney(balance.outstanding)}
                           </span>
                         </div>
+                        <dl className="grid grid-cols-3 gap-2 text-xs text-gray-600">
+                          <div>
+                            <dt>Fined</dt>
+                            <dd className="font-medium text-gray-900">{formatMoney(balance.fined)}</dd>
+                          </div>
+                          <div>
+                            <dt>Credited</dt>
+                            <dd className="font-medium text-gray-900">{formatMoney(balance.credited)}</dd>
+                          </div>
+                          <div>
+                            <dt>Paid</dt>
+                            <dd className="font-medium text-gray-900">{formatMoney(balance.paid)}</dd>
+                          </div>
+                        </dl>
                       </div>
                     ))}
                   </div>
 
-                  {/* Grand Total */}
-                  <div className="bg-blue-600 rounded-lg p-4 text-center">
-                    <span className="text-white font-bold text-lg">
-                      Total Fines: ${grandTotal.toFixed(2)}
-                    </span>
+                  {/* Grand Totals */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="bg-blue-600 rounded-lg p-4 text-center">
+                      <span className="text-white font-bold text-lg">
+                        Total Fines: {formatMoney(totalFined - totalCredited)}
+                      </span>
+                    </div>
+                    <div className="bg-[#7d6c64] rounded-lg p-4 text-center">
+                      <span className="text-white font-bold text-lg">
+                        Outstanding: {formatMoney(totalOutstanding)} · Paid: {formatMoney(totalPaid)}
+                      </span>
+                    </div>
                   </div>
+
+                  {/* Most common offences */}
+                  {ruleStats.length > 0 && (
+                    <div className="mt-8">
+                      <h2 className="text-lg font-semibold text-gray-900 mb-3">Most Common Offences</h2>
+                      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                        {ruleStats.map((stat) => (
+                          <li key={stat.rule_id} className="flex items-center justify-between px-4 py-2 text-sm text-gray-700">
+                            <span className="flex items-center gap-3 min-w-0">
+                              <span className="font-mono text-xs font-semibold bg-gray-100 rounded px-2 py-0.5">{stat.code}</span>
+                              <span className="truncate">{stat.title}</span>
+                            </span>
+                            <span className="ml-4 flex-shrink-0 text-gray-600">
+                              {stat.fine_count} {stat.fine_count === 1 ? 'time' : 'times'} · {stat.player_count} {stat.player_count === 1 ? 'player' : 'players'} · <span className="font-medium text-gray-900">{formatMoney(stat.total_amount)}</span>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {/* Payments */}
+                  {payments.length > 0 && (
+                    <div className="mt-8">
+                      <h2 className="text-lg font-semibold text-gray-900 mb-3">Payments</h2>
+                      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                        {payments.map((payment) => (
+                          <li key={payment.id} className="flex items-center justify-between px-4 py-2 text-sm text-gray-700">
+                            <span className="truncate">
+                              {new Date(`${payment.paid_at}T00:00:00`).toLocaleDateString('en-US')} · {payment.player?.name || 'Unknown'} · {payment.method}
+                              {payment.note ? ` - ${payment.note}` : ''}
+                            </span>
+                            <span className="ml-4 flex flex-shrink-0 items-center gap-3">
+                              <span className="font-medium text-green-700">{formatMoney(payment.amount)}</span>
+                              {canManagePayments && (
+                                <button
+                                  onClick={() => handleDeletePayment(payment.id)}
+                                  className="text-xs text-gray-500 hover:text-red-600 hover:underline"
+                                >
+                                  Remove
+                                </button>
+                              )}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {/* Voided Fines */}
+                  {voidedFines.length > 0 && (
+                    <div className="mt-8">
+                      <h2 className="text-lg font-semibold text-gray-900 mb-3">Voided Fines</h2>
+                      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                        {voidedFines.map((fine) => (
+                          <li key={fine.id} className="flex items-center justify-between px-4 py-2 text-sm text-gray-400 line-through">
+                            <span className="truncate">
+                              {new Date(fine.date).toLocaleDateString('en-US')} · {fine.name} - {fine.description}
+                            </span>
+                            <span className="ml-4 flex-shrink-0">
+                              {formatMoney(fine.fine_type === 'Credit' ? -fine.amount : fine.amount)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </>
               )}
             </div>
+
+            {/* Treasurer: record payments */}
+            {canManagePayments && user && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <RecordPaymentForm
+                  currentUserObject={{ user_id: user.id, role: user.role }}
+                  token={token}
+                  seasonId={seasonId}
+                  onPaymentRecorded={fetchPayments}
+                />
+              </div>
+            )}
           </div>
         </main>
       </div>
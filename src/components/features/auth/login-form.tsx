@@ -4,7 +4,7 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { createClient } from "@/lib/supabase/client";
+import { signIn } from "@/lib/api/auth";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/auth-context";
 
@@ -22,29 +22,16 @@ export function LoginForm() {
     setError("");
 
     try {
-      const supabase = createClient();
-      console.log("created client")
-      
-      // For demo purposes, we'll use a simple check against a users table
-      // In a real app, you'd use Supabase Auth or your own auth system
-      const { data, error } = await supabase
-        .from('users')
-        .select('user_id, name, username, password_hash,role')
-        .eq('username', username)
-        .eq('password_hash', password) // In production, use proper password hashing
-        .single();
+      // Credentials are verified in the database; only a signed session token comes back
+      const result = await signIn(username, password);
 
-      if (error || !data) {
+      if (result.error || !result.data) {
         setError("Invalid username or password");
         return;
       }
 
       // Use the auth context to login
-      login({
-        id: data.user_id,
-        name: data.name,
-        role: data.role
-      });
+      login(result.data);
 
       // Redirect to main page
       router.push('/');
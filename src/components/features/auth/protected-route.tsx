@@ -1,16 +1,23 @@
 "use client"
 
 import { useEffect } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/auth-context';
 import { LoadingSpinner } from '@/components/shared';
+import { can, type PermissionAction, type PermissionResource } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Optional permission the signed-in user must hold to see the page
+  permission?: {
+    action: PermissionAction;
+    resource: PermissionResource;
+  };
 }
 
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { isAuthenticated, loading } = useAuth();
+export function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+  const { user, isAuthenticated, loading } = useAuth();
   const router = useRouter();
 
   useEffect(() => {
@@ -31,5 +38,16 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     return null; // Will redirect to login
   }
 
+  if (permission && !can(user, permission.action, permission.resource)) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-gray-50">
+        <p className="text-gray-700 font-medium">You don&apos;t have permission to view this page.</p>
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+          Back to fines
+        </Link>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 }
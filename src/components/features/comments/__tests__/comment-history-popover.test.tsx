@@ -0,0 +1,100 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { CommentHistoryPopover } from '../comment-history-popover';
+import { getCommentRevisions } from '@/lib/api/comments';
+import type { CommentRevision } from '@/types/models';
+
+jest.mock('@/lib/api/comments', () => ({
+    getCommentRevisions: jest.fn()
+}));
+
+const mockGetCommentRevisions = getCommentRevisions as jest.MockedFunction<typeof getCommentRevisions>;
+
+const ALICE = '11111111-1111-4111-8111-111111111111';
+
+const comment = {
+    id: 'comment-1',
+    content: 'Pay up by Friday',
+    created_at: '2025-08-18T10:00:00Z',
+    updated_at: '2025-08-18T12:00:00Z'
+};
+
+const mockRevisions: CommentRevision[] = [
+    {
+        id: 'revision-1',
+        comment_id: 'comment-1',
+        content: `Pay up @[Alice](${ALICE})`,
+        written_at: '2025-08-18T10:00:00Z',
+        replaced_at: '2025-08-18T11:00:00Z'
+    },
+    {
+        id: 'revision-2',
+        comment_id: 'comment-1',
+        content: 'Pay up',
+        written_at: '2025-08-18T11:00:00Z',
+        replaced_at: '2025-08-18T12:00:00Z'
+    }
+];
+
+describe('CommentHistoryPopover', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('shows the edited marker without loading history', () => {
+        render(<CommentHistoryPopover comment={comment} />);
+
+        expect(screen.getByRole('button', { name: '(edited)' })).toHaveAttribute('aria-expanded', 'false');
+        expect(mockGetCommentRevisions).not.toHaveBeenCalled();
+    });
+
+    it('opens the history with each edit as a diff', async () => {
+        mockGetCommentRevisions.mockResolvedValue({
+            data: mockRevisions,
+            error: null
+        });
+
+        render(<CommentHistoryPopover comment={comment} />);
+        fireEvent.click(screen.getByRole('button', { name: '(edited)' }));
+
+        const dialog = await screen.findByRole('dialog', { name: 'Edit history' });
+        expect(mockGetCommentRevisions).toHaveBeenCalledWith('comment-1');
+        await waitFor(() => expect(dialog).toHaveTextContent('Original'));
+
+        // Mentions read as plain @Name
+        expect(dialog).toHaveTextContent('Pay up @Alice');
+        const removed = dialog.querySelectorAll('del');
+        const added = dialog.querySelectorAll('ins');
+        expect(Array.from(removed).map(node => node.textContent)).toEqual([' @Alice']);
+        expect(Array.from(added).map(node => node.textContent)).toEqual([' by Friday']);
+        expect(screen.queryByText(/weren't kept/)).not.toBeInTheDocument();
+    });
+
+    it('explains when no earlier versions were kept', async () => {
+        mockGetCommentRevisions.mockResolvedValue({ data: [], error: null });
+
+        render(<CommentHistoryPopover comment={comment} />);
+        fireEvent.click(screen.getByRole('button', { name: '(edited)' }));
+
+        expect(await screen.findByText("Earlier versions of this comment weren't kept.")).toBeInTheDocument();
+        expect(screen.getByRole('dialog')).toHaveTextContent('Pay up by Friday');
+    });
+
+    it('shows an error when the history cannot be loaded', async () => {
+        mockGetCommentRevisions.mockResolvedValue({ data: null, error: 'Network error' });
+
+        render(<CommentHistoryPopover comment={comment} />);
+        fireEvent.click(screen.getByRole('button', { name: '(edited)' }));
+
+        expect(await screen.findByText('Network error')).toBeInTheDocument();
+    });
+
+    it('closes from the close button', async () => {
+        mockGetCommentRevisions.mockResolvedValue({ data: [], error: null });
+
+        render(<CommentHistoryPopover comment={comment} />);
+        fireEvent.click(screen.getByRole('button', { name: '(edited)' }));
+        fireEvent.click(await screen.findByRole('button', { name: 'Close edit history' }));
+
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+});
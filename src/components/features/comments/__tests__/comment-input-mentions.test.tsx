@@ -0,0 +1,78 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { CommentInput } from '../comment-input';
+import { getUsers } from '@/lib/api/users';
+
+const BOB = '22222222-2222-4222-8222-222222222222';
+
+jest.mock('@/contexts/auth-context', () => ({
+    useAuth: () => ({ user: { id: 'user-1', name: 'Alice', username: 'alice', role: 'User' } })
+}));
+
+jest.mock('@/lib/api/users', () => ({
+    getUsers: jest.fn()
+}));
+
+const mockGetUsers = getUsers as jest.MockedFunction<typeof getUsers>;
+
+describe('CommentInput @mentions', () => {
+    beforeEach(() => {
+        mockGetUsers.mockResolvedValue([
+            { user_id: 'user-1', username: 'alice', name: 'Alice' },
+            { user_id: BOB, username: 'bob', name: 'Bob Jones' },
+            { user_id: 'user-3', username: 'carol', name: 'Carol' }
+        ]);
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('suggests teammates, but not yourself, after typing @', async () => {
+        const user = userEvent.setup();
+        render(<CommentInput fineId="fine-1" />);
+
+        await user.type(screen.getByRole('textbox'), '@');
+
+        const list = await screen.findByRole('listbox', { name: 'Mention a teammate' });
+        expect(list).toHaveTextContent('Bob Jones');
+        expect(list).toHaveTextContent('Carol');
+        expect(list).not.toHaveTextContent('Alice');
+        expect(screen.getByRole('status')).toHaveTextContent('2 teammates to mention');
+        expect(mockGetUsers).toHaveBeenCalledTimes(1);
+    });
+
+    it('stores the picked teammate as a mention on submit', async () => {
+        const user = userEvent.setup();
+        const onSubmit = jest.fn();
+        render(<CommentInput fineId="fine-1" onSubmit={onSubmit} />);
+
+        const textarea = screen.getByRole('textbox');
+        await user.type(textarea, 'nice one @bo');
+        await user.click(await screen.findByRole('option', { name: /Bob Jones/ }));
+
+        expect(textarea).toHaveValue('nice one @Bob Jones ');
+
+        await user.type(textarea, 'again');
+        await user.click(screen.getByRole('button', { name: 'Post Comment' }));
+
+        expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+            content: `nice one @[Bob Jones](${BOB}) again`
+        }));
+    });
+
+    it('picks the highlighted suggestion with the keyboard', async () => {
+        const user = userEvent.setup();
+        render(<CommentInput fineId="fine-1" />);
+
+        const textarea = screen.getByRole('textbox');
+        await user.type(textarea, '@');
+        await screen.findByRole('listbox');
+        await user.keyboard('{ArrowDown}');
+        expect(textarea).toHaveAttribute('aria-activedescendant', screen.getByRole('option', { name: /Carol/ }).id);
+        await user.keyboard('{Enter}');
+
+        expect(textarea).toHaveValue('@Carol ');
+        await waitFor(() => expect(screen.queryByRole('listbox')).not.toBeInTheDocument());
+    });
+});
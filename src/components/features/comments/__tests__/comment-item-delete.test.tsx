@@ -64,6 +64,20 @@ describe('CommentItem - Delete Functionality', () => {
         expect(screen.queryByRole('button', { name: /delete/i })).not.toBeInTheDocument();
     });
 
+    it('shows delete button to admins for other users\' comments', () => {
+        render(
+            <CommentItem
+                comment={mockComment}
+                currentUserId="admin-1"
+                currentUserRole="Admin"
+                canEdit={true}
+            />
+        );
+
+        expect(screen.getByRole('button', { name: /delete/i })).toBeInTheDocument();
+        expect(screen.queryByRole('button', { name: /edit/i })).not.toBeInTheDocument();
+    });
+
     it('does not show delete button when canEdit is false', () => {
         render(
             <CommentItem
@@ -433,4 +433,33 @@ describe('CommentItem - Edit Functionality', () => {
             expect(screen.getByText('Save')).toBeDisabled();
         });
     });
-});
\ No newline at end of file
+
+    it('validates the edit with its mentions encoded, as it will be saved', async () => {
+        const mention = '@[Bob Jones](22222222-2222-4222-8222-222222222222)';
+
+        render(
+            <CommentItem
+                comment={{ ...mockComment, content: `Thanks ${mention}` }}
+                currentUserId="user-1"
+                canEdit={true}
+                onEdit={mockOnEdit}
+            />
+        );
+
+        // Enter edit mode
+        fireEvent.mouseEnter(screen.getByText(/Thanks/).closest('.group')!);
+        fireEvent.click(screen.getByText('Edit'));
+
+        // Mentions are edited as the plain name, and count as typed
+        const textarea = screen.getByDisplayValue('Thanks @Bob Jones');
+        fireEvent.change(textarea, { target: { value: ' Thanks again @Bob Jones ' } });
+        expect(screen.getByText('23/2000 characters')).toBeInTheDocument();
+
+        fireEvent.click(screen.getByText('Save'));
+
+        await waitFor(() => {
+            expect(mockUpdateComment).toHaveBeenCalledWith('1', { content: `Thanks again ${mention}` });
+        });
+        expect(mockValidateCommentContent).toHaveBeenCalledWith(`Thanks again ${mention}`);
+    });
+});
@@ -0,0 +1,80 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { CommentMarkdown } from '../comment-markdown';
+import { CommentInput } from '../comment-input';
+
+const ALICE = '11111111-1111-4111-8111-111111111111';
+
+jest.mock('@/contexts/auth-context', () => ({
+    useAuth: () => ({ user: { id: ALICE, name: 'Alice', username: 'alice', role: 'User' } })
+}));
+
+describe('CommentMarkdown', () => {
+    it('renders plain comments as they were written', () => {
+        const { container } = render(<CommentMarkdown content={'Late again.\n\nSecond time this week'} />);
+
+        expect(container.textContent).toBe('Late again.\n\nSecond time this week');
+        expect(container.querySelectorAll('p')).toHaveLength(1);
+    });
+
+    it('renders formatting, lists and code', () => {
+        const { container } = render(<CommentMarkdown content={'**Pay up** by *Friday*\n- kit\n- boots\n\n`£5`'} />);
+
+        expect(screen.getByText('Pay up').tagName).toBe('STRONG');
+        expect(screen.getByText('Friday').tagName).toBe('EM');
+        expect(screen.getAllByRole('listitem').map(item => item.textContent)).toEqual(['kit', 'boots']);
+        expect(container.querySelector('code')).toHaveTextContent('£5');
+    });
+
+    it('opens safe links in a new tab', () => {
+        render(<CommentMarkdown content="See [the rules](https://example.com/rules)" />);
+
+        const link = screen.getByRole('link', { name: 'the rules' });
+        expect(link).toHaveAttribute('href', 'https://example.com/rules');
+        expect(link).toHaveAttribute('target', '_blank');
+        expect(link).toHaveAttribute('rel', 'noopener noreferrer nofollow');
+    });
+
+    it('never renders raw HTML or unsafe links', () => {
+        const { container } = render(
+            <CommentMarkdown content={'<img src=x onerror="alert(1)"> [click](javascript:alert%281%29)'} />
+        );
+
+        expect(container.querySelector('img')).toBeNull();
+        expect(screen.queryByRole('link')).not.toBeInTheDocument();
+        expect(container).toHaveTextContent('<img src=x onerror="alert(1)"> click');
+    });
+
+    it('highlights mentions', () => {
+        render(<CommentMarkdown content={`thanks @[Alice](${ALICE})`} currentUserId={ALICE} />);
+
+        expect(screen.getByText('@Alice')).toHaveAttribute('data-user-id', ALICE);
+    });
+});
+
+describe('CommentInput preview', () => {
+    it('previews the markdown and switches back to editing', async () => {
+        const user = userEvent.setup();
+        render(<CommentInput fineId="fine-1" />);
+
+        await user.type(screen.getByRole('textbox'), 'This is **bold**');
+        await user.click(screen.getByRole('tab', { name: 'Preview' }));
+
+        expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+        expect(screen.getByRole('tabpanel', { name: 'Preview' })).toHaveTextContent('This is bold');
+        expect(screen.getByText('bold').tagName).toBe('STRONG');
+
+        await user.click(screen.getByRole('tab', { name: 'Write' }));
+
+        expect(screen.getByRole('textbox')).toHaveValue('This is **bold**');
+    });
+
+    it('says when there is nothing to preview', async () => {
+        const user = userEvent.setup();
+        render(<CommentInput fineId="fine-1" />);
+
+        await user.click(screen.getByRole('tab', { name: 'Preview' }));
+
+        expect(screen.getByText('Nothing to preview')).toBeInTheDocument();
+    });
+});
@@ -13,6 +13,16 @@ jest.mock('@/lib/api/comments', () => ({
     validateCommentContent: jest.fn(() => ({ isValid: true, errors: [] }))
 }));
 
+jest.mock('@/contexts/auth-context', () => ({
+    useAuth: () => ({ user: { id: 'user-2', name: 'Current User', username: 'currentuser', role: 'User' } })
+}));
+
+// Reactions are loaded alongside the comments; none here
+jest.mock('@/lib/api/reactions', () => ({
+    ...jest.requireActual('@/lib/api/reactions'),
+    getReactions: jest.fn().mockResolvedValue({ data: [], error: null })
+}));
+
 // Mock the real-time hook
 jest.mock('@/hooks/use-realtime-comments', () => ({
     useRealtimeComments: jest.fn(),
@@ -199,6 +209,7 @@ describe('CommentsSection - Real-time Features', () => {
             fineId: 'fine-1',
             enabled: true,
             onCommentChange: expect.any(Function),
+            onReactionChange: expect.any(Function),
             onError: expect.any(Function)
         });
     });
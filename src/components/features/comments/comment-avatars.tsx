@@ -1,35 +1,17 @@
 "use client"
 
 import { useState } from "react";
-import type { UserSelect } from "@/types/models";
+import { avatarColorClass, avatarInitials } from "@/lib/avatar";
+import type { UserWithAvatar } from "@/types/models";
 
 interface CommentAvatarsProps {
-    users: UserSelect[];
+    users: UserWithAvatar[];
     maxVisible?: number;
     size?: "sm" | "md" | "lg";
     showCount?: boolean;
     className?: string;
 }
 
-/**
- * Generates avatar initials from a name
- */
-function generateAvatar(name: string): string {
-    return name.split(' ').map(n => n[0]).join('').toUpperCase();
-}
-
-/**
- * Gets a consistent color for an avatar based on the name
- */
-function getAvatarColor(name: string): string {
-    const colors = [
-        'bg-purple-500', 'bg-blue-500', 'bg-green-500', 'bg-yellow-500',
-        'bg-red-500', 'bg-indigo-500', 'bg-pink-500', 'bg-teal-500'
-    ];
-    const hash = name.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    return colors[hash % colors.length];
-}
-
 /**
  * Gets the size classes for the avatar
  */
@@ -67,8 +49,8 @@ export function CommentAvatars({
         <div className={`flex items-center space-x-1 ${className}`}>
             {/* Visible user avatars */}
             {visibleUsers.map((user, index) => {
-                const avatarColor = getAvatarColor(user.name);
-                const avatarInitials = generateAvatar(user.name);
+                const avatarColor = avatarColorClass(user);
+                const initials = avatarInitials(user);
                 
                 return (
                     <div
@@ -80,7 +62,7 @@ export function CommentAvatars({
                         }}
                         title={user.name}
                     >
-                        {avatarInitials}
+                        {initials}
                     </div>
                 );
             })}
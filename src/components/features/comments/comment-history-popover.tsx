@@ -0,0 +1,157 @@
+"use client"
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import { getCommentRevisions } from "@/lib/api/comments";
+import { diffWords } from "@/lib/diff";
+import { mentionsToText } from "@/lib/mentions";
+import type { Comment, CommentRevision } from "@/types/models";
+
+interface CommentHistoryPopoverProps {
+    comment: Pick<Comment, "id" | "content" | "created_at" | "updated_at">;
+}
+
+// One version of the comment and when it was written
+type Version = {
+    content: string;
+    writtenAt: string;
+};
+
+const formatWhen = (timestamp: string) =>
+    new Date(timestamp).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+    });
+
+/**
+ * Every version of the comment, oldest first, ending with the current text
+ */
+function buildVersions(comment: CommentHistoryPopoverProps["comment"], revisions: CommentRevision[]): Version[] {
+    const versions = revisions.map(revision => ({
+        content: mentionsToText(revision.content),
+        writtenAt: revision.written_at
+    }));
+    const lastReplacedAt = revisions[revisions.length - 1]?.replaced_at;
+
+    versions.push({
+        content: mentionsToText(comment.content),
+        writtenAt: lastReplacedAt ?? comment.updated_at
+    });
+
+    return versions;
+}
+
+/**
+ * The "(edited)" marker on a comment. Clicking it opens the comment's earlier
+ * versions, each edit shown as a diff against the one before.
+ */
+export function CommentHistoryPopover({ comment }: CommentHistoryPopoverProps) {
+    const [open, setOpen] = useState(false);
+    const [revisions, setRevisions] = useState<CommentRevision[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Fetched on every open, so an edit made since the last look shows up
+    const loadRevisions = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const result = await getCommentRevisions(comment.id);
+            if (result.error) {
+                setError(result.error);
+                return;
+            }
+            setRevisions(result.data || []);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleToggle = () => {
+        if (!open) {
+            loadRevisions();
+        }
+        setOpen(isOpen => !isOpen);
+    };
+
+    const versions = buildVersions(comment, revisions);
+
+    return (
+        <span className="relative">
+            <button
+                type="button"
+                className="text-xs text-gray-400 italic hover:text-gray-600 hover:underline"
+                onClick={handleToggle}
+                title="Show edit history"
+                aria-haspopup="dialog"
+                aria-expanded={open}
+            >
+                (edited)
+            </button>
+
+            {open && (
+                <>
+                    {/* Click-away layer */}
+                    <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+                    <div
+                        role="dialog"
+                        aria-label="Edit history"
+                        className="absolute left-0 z-20 mt-1 w-80 max-w-[90vw] rounded-md border border-gray-200 bg-white p-3 shadow-lg text-left not-italic"
+                    >
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="text-sm font-semibold text-gray-900">Edit history</span>
+                            <button
+                                type="button"
+                                className="p-1 rounded hover:bg-gray-100 text-gray-500"
+                                onClick={() => setOpen(false)}
+                                aria-label="Close edit history"
+                            >
+                                <X size={14} />
+                            </button>
+                        </div>
+
+                        {loading ? (
+                            <div className="text-xs text-gray-500 py-2">Loading history...</div>
+                        ) : error ? (
+                            <div className="text-red-600 text-xs bg-red-50 border border-red-200 rounded-md px-2 py-1">
+                                {error}
+                            </div>
+                        ) : (
+                            <ol className="space-y-3 max-h-80 overflow-y-auto">
+                                {versions.map((version, index) => (
+                                    <li key={index} className="border-l-2 border-gray-200 pl-2">
+                                        <div className="text-xs text-gray-500">
+                                            {index === 0 && versions.length > 1 ? "Original" : "Edited"} · {formatWhen(version.writtenAt)}
+                                        </div>
+                                        <p className="mt-0.5 text-sm text-gray-800 whitespace-pre-wrap break-words">
+                                            {index === 0
+                                                ? version.content
+                                                : diffWords(versions[index - 1].content, version.content).map((segment, segmentIndex) =>
+                                                    segment.type === "added" ? (
+                                                        <ins key={segmentIndex} className="bg-green-100 text-green-800 no-underline">{segment.text}</ins>
+                                                    ) : segment.type === "removed" ? (
+                                                        <del key={segmentIndex} className="bg-red-100 text-red-700">{segment.text}</del>
+                                                    ) : (
+                                                        <span key={segmentIndex}>{segment.text}</span>
+                                                    )
+                                                )}
+                                        </p>
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+
+                        {/* Comments edited before history was kept only have their latest text */}
+                        {!loading && !error && revisions.length === 0 && (
+                            <p className="mt-2 text-xs text-gray-500">
+                                Earlier versions of this comment weren&apos;t kept.
+                            </p>
+                        )}
+                    </div>
+                </>
+            )}
+        </span>
+    );
+}
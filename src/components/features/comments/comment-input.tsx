@@ -1,10 +1,13 @@
 "use client"
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { validateCommentContent } from "@/lib/api/comments";
+import { getUsers } from "@/lib/api/users";
+import { encodeMentions, findMentionQuery, mentionFor, type Mention } from "@/lib/mentions";
 import { useAuth } from "@/contexts/auth-context";
-import type { CommentInsert, CommentFormData } from "@/types/models";
+import { CommentMarkdown } from "./comment-markdown";
+import type { CommentInsert, CommentFormData, UserSelect } from "@/types/models";
 
 interface CommentInputProps {
     fineId: string;
@@ -18,6 +21,8 @@ interface CommentInputProps {
 
 // Removed submitComment function - parent component handles database insertion
 
+const MAX_SUGGESTIONS = 6;
+
 export function CommentInput({
     fineId,
     parentCommentId,
@@ -30,8 +35,80 @@ export function CommentInput({
     const [content, setContent] = useState("");
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // People picked from the autocomplete; encoded as mentions on submit
+    const [mentions, setMentions] = useState<Mention[]>([]);
+    // Loaded the first time someone types "@"
+    const [users, setUsers] = useState<UserSelect[] | null>(null);
+    const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null);
+    const [activeSuggestion, setActiveSuggestion] = useState(0);
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
     const { user } = useAuth();
 
+    const suggestions = mentionQuery && users
+        ? users
+            .filter(candidate => candidate.user_id !== user?.id)
+            .filter(candidate => {
+                const query = mentionQuery.query.toLowerCase();
+                return candidate.name.toLowerCase().includes(query) || candidate.username.toLowerCase().includes(query);
+            })
+            .slice(0, MAX_SUGGESTIONS)
+        : [];
+    const showSuggestions = suggestions.length > 0;
+
+    const loadUsers = async () => {
+        setUsers([]);
+        setUsers(await getUsers());
+    };
+
+    const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        const value = e.target.value;
+        setContent(value);
+
+        const query = findMentionQuery(value, e.target.selectionStart ?? value.length);
+        setMentionQuery(query);
+        setActiveSuggestion(0);
+        if (query && users === null) {
+            loadUsers();
+        }
+    };
+
+    // Replace the "@partial" being typed with the picked name
+    const handleSelectMention = (picked: UserSelect) => {
+        if (!mentionQuery) return;
+
+        const mention = mentionFor(picked);
+        const caret = mentionQuery.start + mentionQuery.query.length + 1;
+        const inserted = `@${mention.label} `;
+        setContent(content.slice(0, mentionQuery.start) + inserted + content.slice(caret));
+        setMentions(prev => prev.some(existing => existing.userId === mention.userId) ? prev : [...prev, mention]);
+        setMentionQuery(null);
+
+        const nextCaret = mentionQuery.start + inserted.length;
+        setTimeout(() => {
+            textareaRef.current?.focus();
+            textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+        }, 0);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (!showSuggestions) return;
+
+        if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setActiveSuggestion(index => (index + 1) % suggestions.length);
+        } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setActiveSuggestion(index => (index - 1 + suggestions.length) % suggestions.length);
+        } else if (e.key === "Enter" || e.key === "Tab") {
+            e.preventDefault();
+            handleSelectMention(suggestions[activeSuggestion] ?? suggestions[0]);
+        } else if (e.key === "Escape") {
+            e.preventDefault();
+            setMentionQuery(null);
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
@@ -55,7 +132,7 @@ export function CommentInput({
             }
 
             const commentData: CommentInsert = {
-                content: content.trim(),
+                content: encodeMentions(content.trim(), mentions),
                 fine_id: fineId,
                 author_id: user.id,
                 parent_comment_id: parentCommentId || null,
@@ -66,6 +143,9 @@ export function CommentInput({
 
             // Success - clear form
             setContent("");
+            setMentions([]);
+            setMentionQuery(null);
+            setIsPreviewing(false);
 
         } catch (err) {
             setError(err instanceof Error ? err.message : "Failed to submit comment");
@@ -76,6 +156,9 @@ export function CommentInput({
 
     const handleCancel = () => {
         setContent("");
+        setMentions([]);
+        setMentionQuery(null);
+        setIsPreviewing(false);
         setError(null);
         onCancel?.();
     };
@@ -85,19 +168,102 @@ export function CommentInput({
     return (
         <form onSubmit={handleSubmit} className={`space-y-3 ${className}`} role="form">
             <div className="space-y-2">
-                <textarea
-                    value={content}
-                    onChange={(e) => setContent(e.target.value)}
-                    placeholder={placeholder}
-                    autoFocus={autoFocus}
-                    rows={3}
-                    className="w-full px-3 py-2 border border-[#7d6c64] rounded-md resize-none focus:outline-none focus:border-[#6b4a41] focus:ring-1 focus:ring-[#6b4a41] placeholder:text-gray-400"
-                    disabled={isSubmitting}
-                />
+                <div role="tablist" aria-label="Comment editor" className="flex gap-1 text-xs">
+                    {[false, true].map(preview => (
+                        <button
+                            key={preview ? "preview" : "write"}
+                            type="button"
+                            role="tab"
+                            aria-selected={isPreviewing === preview}
+                            onClick={() => {
+                                setIsPreviewing(preview);
+                                setMentionQuery(null);
+                            }}
+                            className={`rounded px-2 py-1 font-medium transition-colors ${
+                                isPreviewing === preview
+                                    ? "bg-[#7d6c64] text-white"
+                                    : "text-gray-600 hover:bg-gray-100"
+                            }`}
+                        >
+                            {preview ? "Preview" : "Write"}
+                        </button>
+                    ))}
+                </div>
+
+                {isPreviewing ? (
+                    <div
+                        role="tabpanel"
+                        aria-label="Preview"
+                        className="min-h-[5.5rem] w-full px-3 py-2 border border-[#7d6c64] rounded-md text-sm leading-relaxed whitespace-pre-wrap text-gray-900"
+                    >
+                        {content.trim() ? (
+                            <CommentMarkdown content={encodeMentions(content.trim(), mentions)} currentUserId={user?.id} />
+                        ) : (
+                            <span className="text-gray-400">Nothing to preview</span>
+                        )}
+                    </div>
+                ) : (
+                    <div className="relative">
+                        <textarea
+                            ref={textareaRef}
+                            value={content}
+                            onChange={handleContentChange}
+                            onKeyDown={handleKeyDown}
+                            onBlur={() => setMentionQuery(null)}
+                            placeholder={placeholder}
+                            autoFocus={autoFocus}
+                            rows={3}
+                            aria-autocomplete="list"
+                            aria-controls={showSuggestions ? `mention-suggestions-${fineId}` : undefined}
+                            aria-activedescendant={showSuggestions ? `mention-suggestion-${fineId}-${activeSuggestion}` : undefined}
+                            className="w-full px-3 py-2 border border-[#7d6c64] rounded-md resize-none focus:outline-none focus:border-[#6b4a41] focus:ring-1 focus:ring-[#6b4a41] placeholder:text-gray-400"
+                            disabled={isSubmitting}
+                        />
+
+                        {/* A textarea can't be a combobox, so the list is announced when it opens */}
+                        <span role="status" className="sr-only">
+                            {showSuggestions
+                                ? `${suggestions.length} ${suggestions.length === 1 ? "teammate" : "teammates"} to mention. Use the up and down arrows to choose one.`
+                                : ""}
+                        </span>
+
+                        {/* @mention autocomplete */}
+                        {showSuggestions && (
+                            <ul
+                                id={`mention-suggestions-${fineId}`}
+                                role="listbox"
+                                aria-label="Mention a teammate"
+                                className="absolute left-0 z-20 mt-1 w-64 rounded-md border border-gray-200 bg-white py-1 shadow-lg"
+                            >
+                                {suggestions.map((suggestion, index) => (
+                                    <li
+                                        key={suggestion.user_id}
+                                        id={`mention-suggestion-${fineId}-${index}`}
+                                        role="option"
+                                        aria-selected={index === activeSuggestion}
+                                        className={`cursor-pointer px-3 py-1.5 text-sm ${index === activeSuggestion ? "bg-amber-50 text-[#6b4a41]" : "text-gray-700"}`}
+                                        // Keep focus in the textarea so the blur doesn't close the list first
+                                        onMouseDown={(e) => {
+                                            e.preventDefault();
+                                            handleSelectMention(suggestion);
+                                        }}
+                                        onMouseEnter={() => setActiveSuggestion(index)}
+                                    >
+                                        <span className="font-medium">{suggestion.name}</span>
+                                        <span className="ml-2 text-xs text-gray-500">@{suggestion.username}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
 
                 {/* Character count */}
                 <div className="flex justify-between items-center text-sm text-gray-500">
                     <span>{content.length}/2000 characters</span>
+                    {content.length <= 2000 && (
+                        <span className="text-xs text-gray-400">**bold**, *italic*, `code`, lists and links</span>
+                    )}
                     {content.length > 2000 && (
                         <span className="text-red-500">Character limit exceeded</span>
                     )}
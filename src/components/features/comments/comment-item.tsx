@@ -7,19 +7,30 @@ import { updateComment, validateCommentContent, deleteComment, extractThreadUser
 import { DeleteCommentDialog } from "./delete-comment-dialog";
 import { ButtonLoadingState } from "./loading-states";
 import { CommentAvatars } from "./comment-avatars";
+import { CommentMarkdown } from "./comment-markdown";
+import { CommentHistoryPopover } from "./comment-history-popover";
+import { EmojiPicker, ReactionChips } from "@/components/features/reactions";
+import { PlayerLink } from "@/components/features/players";
+import { avatarColorClass, avatarInitials } from "@/lib/avatar";
 import { useErrorHandler } from "@/lib/error-handling";
-import type { CommentWithAuthor, CommentWithReplies } from "@/types/models";
+import { can } from "@/lib/permissions";
+import { encodeMentions, getMentions, mentionsToText } from "@/lib/mentions";
+import type { CommentWithAuthor, CommentWithReplies, ReactionSummary } from "@/types/models";
 import type { OptimisticComment } from "@/hooks/use-optimistic-comments";
 
 interface CommentItemProps {
     comment: CommentWithAuthor | CommentWithReplies | OptimisticComment;
     currentUserId?: string;
+    currentUserRole?: string;
     canEdit?: boolean;
     onReply?: (commentId: string) => void;
     onEdit?: (commentId: string) => void;
     onDelete?: (commentId: string) => void;
     onCommentUpdated?: (updatedComment: CommentWithAuthor) => void;
     onCommentDeleted?: (commentId: string) => void;
+    reactions?: ReactionSummary[];
+    // Omitted when the viewer can't react; existing reactions are still shown
+    onToggleReaction?: (commentId: string, emoji: string) => void;
     hasReplies?: boolean;
     showParticipantAvatars?: boolean;
     className?: string;
@@ -71,41 +82,26 @@ function formatRelativeTime(timestamp: string): string {
     });
 }
 
-/**
- * Generates avatar initials from a name
- */
-function generateAvatar(name: string): string {
-    return name.split(' ').map(n => n[0]).join('').toUpperCase();
-}
-
-/**
- * Gets a consistent color for an avatar based on the name
- */
-function getAvatarColor(name: string): string {
-    const colors = [
-        'bg-purple-500', 'bg-blue-500', 'bg-green-500', 'bg-yellow-500',
-        'bg-red-500', 'bg-indigo-500', 'bg-pink-500', 'bg-teal-500'
-    ];
-    const hash = name.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    return colors[hash % colors.length];
-}
-
 export function CommentItem({
     comment,
     currentUserId,
+    currentUserRole,
     canEdit = false,
     onReply,
     onEdit,
     onDelete,
     onCommentUpdated,
     onCommentDeleted,
+    reactions = [],
+    onToggleReaction,
     hasReplies = false,
     showParticipantAvatars = false,
     className = ""
 }: CommentItemProps) {
     const [showActions, setShowActions] = useState(false);
     const [isEditing, setIsEditing] = useState(false);
-    const [editContent, setEditContent] = useState(comment.content);
+    // Mentions are edited as plain "@Name" and re-encoded on save
+    const [editContent, setEditContent] = useState(mentionsToText(comment.content));
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [editError, setEditError] = useState<string | null>(null);
     const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -113,10 +109,19 @@ export function CommentItem({
     
     const { handleError } = useErrorHandler();
 
-    // Check if current user can edit/delete this comment
-    const isOwner = currentUserId === comment.author_id;
-    const canEditComment = canEdit && isOwner && !comment.is_deleted;
-    const canDeleteComment = canEdit && isOwner && !comment.is_deleted;
+    // Check if current user can edit/delete this comment (admins can delete others' comments)
+    const currentUser = currentUserId ? { id: currentUserId, role: currentUserRole } : null;
+    const commentResource = { type: 'comment' as const, authorId: comment.author_id, isDeleted: comment.is_deleted };
+    const canEditComment = canEdit && can(currentUser, 'edit', commentResource);
+    const canDeleteComment = canEdit && can(currentUser, 'delete', commentResource);
+    const isOptimistic = 'isOptimistic' in comment && Boolean(comment.isOptimistic);
+    const canReact = Boolean(onToggleReaction) && !comment.is_deleted && !isOptimistic;
+    const handleToggleReaction = (emoji: string) => onToggleReaction?.(comment.id, emoji);
+
+    // The edit as it will be saved, with the original mentions re-encoded, and
+    // its length counted the way validateCommentContent counts it
+    const newContent = encodeMentions(editContent.trim(), getMentions(comment.content));
+    const editLength = mentionsToText(newContent).length;
 
     // Show edited indicator if comment was modified
     const wasEdited = comment.updated_at !== comment.created_at;
@@ -124,7 +129,7 @@ export function CommentItem({
     // Handle edit button click
     const handleEditClick = () => {
         setIsEditing(true);
-        setEditContent(comment.content);
+        setEditContent(mentionsToText(comment.content));
         setEditError(null);
         if (onEdit) {
             onEdit(comment.id);
@@ -134,7 +139,7 @@ export function CommentItem({
     // Handle edit cancel
     const handleEditCancel = () => {
         setIsEditing(false);
-        setEditContent(comment.content);
+        setEditContent(mentionsToText(comment.content));
         setEditError(null);
     };
 
@@ -142,15 +147,15 @@ export function CommentItem({
     const handleEditSave = async () => {
         setEditError(null);
 
-        // Validate content
-        const validation = validateCommentContent(editContent);
+        // Validate what will be saved, as a new comment is
+        const validation = validateCommentContent(newContent);
         if (!validation.isValid) {
             setEditError(validation.errors[0]?.message || "Invalid comment content");
             return;
         }
 
         // Check if content actually changed
-        if (editContent.trim() === comment.content.trim()) {
+        if (newContent === comment.content.trim()) {
             setIsEditing(false);
             return;
         }
@@ -159,7 +164,7 @@ export function CommentItem({
 
         try {
             const result = await updateComment(comment.id, {
-                content: editContent.trim()
+                content: newContent
             });
 
             if (result.error) {
@@ -240,7 +245,7 @@ export function CommentItem({
     // Render deleted comment placeholder
     if (comment.is_deleted) {
         return (
-            <div className={`group -mx-2 px-2 py-2 rounded transition-colors ${className}`}>
+            <div id={`comment-${comment.id}`} className={`group -mx-2 px-2 py-2 rounded transition-colors ${className}`}>
                 <div className="flex space-x-3">
                     {/* Deleted comment avatar */}
                     <div className="w-8 h-8 rounded-lg bg-gray-300 flex items-center justify-center text-gray-500 font-semibold text-xs flex-shrink-0">
@@ -268,31 +273,30 @@ export function CommentItem({
 
     return (
         <div>
-            <div 
+            <div
+                id={`comment-${comment.id}`}
                 className={`group hover:bg-gray-50 -mx-2 px-2 py-2 rounded transition-colors ${className}`}
                 onMouseEnter={() => setShowActions(true)}
                 onMouseLeave={() => setShowActions(false)}
             >
                 <div className="flex space-x-3">
                     {/* Avatar */}
-                    <div className={`w-8 h-8 rounded-lg ${getAvatarColor(comment.author.name)} flex items-center justify-center text-white font-semibold text-xs flex-shrink-0`}>
-                        {generateAvatar(comment.author.name)}
+                    <div className={`w-8 h-8 rounded-lg ${avatarColorClass(comment.author)} flex items-center justify-center text-white font-semibold text-xs flex-shrink-0`}>
+                        {avatarInitials(comment.author)}
                     </div>
 
                     {/* Comment Content */}
                     <div className="flex-1 min-w-0">
                         {/* Header with author and timestamp */}
                         <div className="flex items-baseline space-x-2">
-                            <span className="font-semibold text-gray-900 text-sm">
+                            <PlayerLink playerId={comment.author.user_id} className="font-semibold text-gray-900 text-sm">
                                 {comment.author.name}
-                            </span>
+                            </PlayerLink>
                             <span className="text-xs text-gray-500">
                                 {formatRelativeTime(comment.created_at)}
                             </span>
                             {wasEdited && (
-                                <span className="text-xs text-gray-400 italic">
-                                    (edited)
-                                </span>
+                                <CommentHistoryPopover comment={comment} />
                             )}
                         </div>
 
@@ -310,8 +314,8 @@ export function CommentItem({
                                 
                                 {/* Character count */}
                                 <div className="flex justify-between items-center text-xs text-gray-500">
-                                    <span>{editContent.length}/2000 characters</span>
-                                    {editContent.length > 2000 && (
+                                    <span>{editLength}/2000 characters</span>
+                                    {editLength > 2000 && (
                                         <span className="text-red-500">Character limit exceeded</span>
                                     )}
                                 </div>
@@ -328,7 +332,7 @@ export function CommentItem({
                                     <Button
                                         size="sm"
                                         onClick={handleEditSave}
-                                        disabled={isSubmitting || editContent.length > 2000 || editContent.trim().length === 0}
+                                        disabled={isSubmitting || editLength > 2000 || editLength === 0}
                                         className="h-7 px-3 text-xs bg-blue-600 hover:bg-blue-700 text-white"
                                     >
                                         <ButtonLoadingState
@@ -358,7 +362,7 @@ export function CommentItem({
                                         ? 'text-gray-600' 
                                         : 'text-gray-900'
                                 }`}>
-                                    {comment.content}
+                                    <CommentMarkdown content={comment.content} currentUserId={currentUserId} />
                                 </div>
                                 
                                 {/* Optimistic state indicator */}
@@ -377,6 +381,13 @@ export function CommentItem({
                                     </div>
                                 )}
                                 
+                                {/* Reactions */}
+                                <ReactionChips
+                                    reactions={reactions}
+                                    onToggle={canReact ? handleToggleReaction : undefined}
+                                    className="mt-1"
+                                />
+
                                 {/* Participant avatars for comments with replies */}
                                 {showParticipantAvatars && hasReplies && 'replies' in comment && comment.replies && comment.replies.length > 0 && (
                                     (() => {
@@ -423,6 +434,16 @@ export function CommentItem({
                                     </Button>
                                 )}
 
+                                {/* Reaction picker */}
+                                {canReact && (
+                                    <EmojiPicker
+                                        onSelect={handleToggleReaction}
+                                        selected={reactions.filter(reaction => reaction.reactedByMe).map(reaction => reaction.emoji)}
+                                        buttonClassName="h-6 w-6 flex items-center justify-center rounded text-gray-500 hover:text-gray-700 hover:bg-gray-200"
+                                        iconSize={12}
+                                    />
+                                )}
+
                                 {/* Edit button - only for comment owner */}
                                 {canEditComment && (
                                     <Button
@@ -436,7 +457,7 @@ export function CommentItem({
                                     </Button>
                                 )}
 
-                                {/* Delete button - only for comment owner */}
+                                {/* Delete button - comment owner or admin */}
                                 {canDeleteComment && (
                                     <Button
                                         variant="ghost"
@@ -0,0 +1,93 @@
+"use client"
+
+import { Fragment, type ReactNode } from "react";
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "@/lib/markdown";
+
+interface CommentMarkdownProps {
+    content: string;
+    // Mentions of the viewer stand out more
+    currentUserId?: string;
+}
+
+function renderInline(inlines: MarkdownInline[], currentUserId?: string): ReactNode[] {
+    return inlines.map((inline, index) => {
+        switch (inline.type) {
+            case "text":
+                return <Fragment key={index}>{inline.text}</Fragment>;
+            case "strong":
+                return <strong key={index} className="font-semibold">{renderInline(inline.children, currentUserId)}</strong>;
+            case "em":
+                return <em key={index}>{renderInline(inline.children, currentUserId)}</em>;
+            case "code":
+                return (
+                    <code key={index} className="rounded bg-gray-100 px-1 py-0.5 font-mono text-[0.85em] text-[#3b2a22]">
+                        {inline.text}
+                    </code>
+                );
+            case "link":
+                return (
+                    <a
+                        key={index}
+                        href={inline.href}
+                        target="_blank"
+                        rel="noopener noreferrer nofollow"
+                        className="text-[#6b4a41] underline hover:text-[#3b2a22]"
+                    >
+                        {renderInline(inline.children, currentUserId)}
+                    </a>
+                );
+            case "mention":
+                return (
+                    <span
+                        key={index}
+                        data-user-id={inline.userId}
+                        className={`rounded px-0.5 font-medium ${
+                            inline.userId === currentUserId
+                                ? "bg-amber-200 text-[#3b2a22]"
+                                : "bg-amber-50 text-[#6b4a41]"
+                        }`}
+                    >
+                        @{inline.label}
+                    </span>
+                );
+        }
+    });
+}
+
+function renderBlock(block: MarkdownBlock, index: number, currentUserId?: string): ReactNode {
+    switch (block.type) {
+        case "text":
+            return <p key={index}>{renderInline(block.children, currentUserId)}</p>;
+        case "code":
+            return (
+                <pre key={index} className="my-1 overflow-x-auto rounded bg-gray-100 p-2 font-mono text-xs text-[#3b2a22]">
+                    <code>{block.text}</code>
+                </pre>
+            );
+        case "list": {
+            const ListTag = block.ordered ? "ol" : "ul";
+            return (
+                <ListTag key={index} className={`my-1 pl-5 ${block.ordered ? "list-decimal" : "list-disc"}`}>
+                    {block.items.map((item, itemIndex) => (
+                        <li key={itemIndex}>{renderInline(item, currentUserId)}</li>
+                    ))}
+                </ListTag>
+            );
+        }
+        case "quote":
+            return (
+                <blockquote key={index} className="my-1 border-l-2 border-gray-300 pl-2 text-gray-600">
+                    {renderInline(block.children, currentUserId)}
+                </blockquote>
+            );
+    }
+}
+
+/**
+ * Renders comment content as markdown with its @mentions highlighted. Content
+ * is only ever turned into React elements, never HTML, so any markup in a
+ * comment shows as typed.
+ */
+export function CommentMarkdown({ content, currentUserId }: CommentMarkdownProps) {
+    return <>{parseMarkdown(content).map((block, index) => renderBlock(block, index, currentUserId))}</>;
+}
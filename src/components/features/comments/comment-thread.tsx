@@ -7,7 +7,8 @@ import { CommentItem } from "./comment-item";
 import { CommentInput } from "./comment-input";
 import { CommentAvatars } from "./comment-avatars";
 import { extractThreadUsers } from "@/lib/api/comments";
-import type { CommentWithReplies } from "@/types/models";
+import { summarizeReactions } from "@/lib/api/reactions";
+import type { CommentWithReplies, ReactionWithUser } from "@/types/models";
 import type { OptimisticCommentWithReplies } from "@/hooks/use-optimistic-comments";
 
 interface CommentThreadProps {
@@ -15,11 +16,15 @@ interface CommentThreadProps {
     depth?: number;
     maxDepth?: number;
     currentUserId?: string;
+    currentUserRole?: string;
     canEdit?: boolean;
     onReply?: (parentId: string, content: string) => void;
     onEdit?: (commentId: string) => void;
     onDelete?: (commentId: string) => void;
     onCommentUpdated?: (updatedComment: CommentWithReplies) => void;
+    // Reactions on every comment of the fine; each comment picks out its own
+    reactions?: ReactionWithUser[];
+    onToggleReaction?: (commentId: string, emoji: string) => void;
     className?: string;
 }
 
@@ -77,11 +82,14 @@ export function CommentThread({
     depth = 0,
     maxDepth = 10,
     currentUserId,
+    currentUserRole,
     canEdit = false,
     onReply,
     onEdit,
     onDelete,
     onCommentUpdated,
+    reactions = [],
+    onToggleReaction,
     className = ""
 }: CommentThreadProps) {
     const [showReplyInput, setShowReplyInput] = useState(false);
@@ -170,8 +178,9 @@ export function CommentThread({
             <CommentItem
                 comment={comment}
                 currentUserId={currentUserId}
+                currentUserRole={currentUserRole}
                 canEdit={canEdit}
-                onReply={handleReplyClick}
+                onReply={onReply ? handleReplyClick : undefined}
                 onEdit={onEdit}
                 onDelete={onDelete}
                 onCommentUpdated={(updatedComment) => {
@@ -192,6 +201,8 @@ export function CommentThread({
                         });
                     }
                 }}
+                reactions={summarizeReactions(reactions, { fineId: comment.fine_id, commentId: comment.id }, currentUserId)}
+                onToggleReaction={onToggleReaction}
                 hasReplies={hasReplies}
                 showParticipantAvatars={depth === 0 && hasReplies}
                 className={depth > 0 ? "border-l-2 border-gray-100 pl-4" : ""}
@@ -222,11 +233,14 @@ export function CommentThread({
                             depth={depth + 1}
                             maxDepth={maxDepth}
                             currentUserId={currentUserId}
+                            currentUserRole={currentUserRole}
                             canEdit={canEdit}
                             onReply={onReply}
                             onEdit={onEdit}
                             onDelete={onDelete}
                             onCommentUpdated={onCommentUpdated}
+                            reactions={reactions}
+                            onToggleReaction={onToggleReaction}
                         />
                     ))}
                 </div>
@@ -8,6 +8,8 @@ import { CommentThread } from "./comment-thread";
 import { getCommentsHierarchy, createComment, updateComment, deleteComment } from "@/lib/api/comments";
 import { useRealtimeComments, applyRealtimeUpdateToComments } from "@/hooks/use-realtime-comments";
 import { useOptimisticComments } from "@/hooks/use-optimistic-comments";
+import { useReactions } from "@/hooks/use-reactions";
+import { useAuth } from "@/contexts/auth-context";
 import { useApiRetry } from "@/hooks/use-retry";
 import { CommentErrorBoundary } from "./error-boundary";
 import {
@@ -24,21 +26,29 @@ import type { CommentWithReplies, CommentInsert, CommentUpdate, CommentWithAutho
 interface CommentsSectionProps {
     fineId: string;
     currentUserId?: string;
+    currentUserRole?: string;
     currentUserName?: string;
     currentUserUsername?: string;
     canEdit?: boolean;
+    // Archived seasons: comments are shown but can't be added, replied to or changed
+    readOnly?: boolean;
     className?: string;
     enableRealtime?: boolean;
+    // Scrolled to once the comments load, e.g. when opening a search result
+    focusCommentId?: string | null;
 }
 
 export function CommentsSection({
     fineId,
     currentUserId,
+    currentUserRole,
     currentUserName = "Unknown User",
     currentUserUsername = "unknown",
     canEdit = false,
+    readOnly = false,
     className = "",
-    enableRealtime = true
+    enableRealtime = true,
+    focusCommentId
 }: CommentsSectionProps) {
     const [baseComments, setBaseComments] = useState<CommentWithReplies[]>([]);
     const [totalCount, setTotalCount] = useState(0);
@@ -90,6 +100,15 @@ export function CommentsSection({
         }
     });
 
+    // Reactions on this fine's comments, made with the signed-in member's session
+    const { token } = useAuth();
+    const {
+        reactions,
+        loadReactions,
+        toggleReaction,
+        handleRealtimeChange: handleReactionChange
+    } = useReactions(currentUserId, token);
+
     // Real-time subscription hook
     const { isSubscribed } = useRealtimeComments({
         fineId,
@@ -117,6 +136,7 @@ export function CommentsSection({
                 }
             }, 0);
         }, [setOptimisticComments]),
+        onReactionChange: handleReactionChange,
         onError: useCallback((error: Error) => {
             const appError = handleError(error, { context: 'realtime_connection' });
             setRealtimeError(appError.userMessage || appError.message);
@@ -184,6 +204,32 @@ export function CommentsSection({
         }
     }, [fineId]);
 
+    useEffect(() => {
+        if (fineId) {
+            loadReactions([fineId]);
+        }
+    }, [fineId, loadReactions]);
+
+    // Scroll to the focused comment once, when it has loaded
+    const focusedCommentRef = useRef<string | null>(null);
+    useEffect(() => {
+        if (isLoading || !focusCommentId || focusedCommentRef.current === focusCommentId) return;
+
+        const element = document.getElementById(`comment-${focusCommentId}`);
+        if (element && containerRef.current?.contains(element)) {
+            focusedCommentRef.current = focusCommentId;
+            element.scrollIntoView({ block: 'center' });
+        }
+    }, [isLoading, focusCommentId, comments]);
+
+    // Handle adding or taking back a reaction on a comment
+    const handleToggleReaction = useCallback(async (commentId: string, emoji: string) => {
+        const reactionError = await toggleReaction({ fineId, commentId }, emoji);
+        if (reactionError) {
+            showError('Failed to Update Reaction', reactionError);
+        }
+    }, [fineId, toggleReaction, showError]);
+
     // Handle new top-level comment submission with optimistic updates and retry
     const handleCommentSubmit = useCallback(async (commentData: CommentInsert) => {
         if (!currentUserId) return;
@@ -518,14 +564,20 @@ export function CommentsSection({
                 )}
 
                 {/* New comment input */}
-                <div className="mb-6">
-                    <CommentInput
-                        fineId={fineId}
-                        placeholder="Add a comment..."
-                        onSubmit={handleCommentSubmit}
-                        className="bg-white border border-gray-200 rounded-lg p-4"
-                    />
-                </div>
+                {readOnly ? (
+                    <div className="mb-6 text-sm text-gray-500">
+                        Comments are closed because this season has been archived.
+                    </div>
+                ) : (
+                    <div className="mb-6">
+                        <CommentInput
+                            fineId={fineId}
+                            placeholder="Add a comment..."
+                            onSubmit={handleCommentSubmit}
+                            className="bg-white border border-gray-200 rounded-lg p-4"
+                        />
+                    </div>
+                )}
 
                 {/* Comments list */}
                 {comments.length === 0 ? (
@@ -540,10 +592,13 @@ export function CommentsSection({
                                 comment={comment}
                                 depth={0}
                                 currentUserId={currentUserId}
-                                canEdit={canEdit}
-                                onReply={handleReplySubmit}
+                                currentUserRole={currentUserRole}
+                                canEdit={canEdit && !readOnly}
+                                onReply={readOnly ? undefined : handleReplySubmit}
                                 onEdit={handleCommentEdit}
                                 onDelete={handleCommentDelete}
+                                reactions={reactions}
+                                onToggleReaction={readOnly || !currentUserId ? undefined : handleToggleReaction}
                                 onCommentUpdated={(updatedComment) => {
                                     // Handle legacy comment update format
                                     if ('content' in updatedComment && 'updated_at' in updatedComment) {
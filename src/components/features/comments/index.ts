@@ -1,6 +1,7 @@
 export { CommentInput } from "./comment-input";
 export { CommentAvatars } from "./comment-avatars";
 export { CommentItem } from "./comment-item";
+export { CommentHistoryPopover } from "./comment-history-popover";
 export { CommentThread } from "./comment-thread";
 export { CommentsSection } from "./comments-section";
 export { DeleteCommentDialog } from "./delete-comment-dialog";
\ No newline at end of file
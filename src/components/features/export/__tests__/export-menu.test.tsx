@@ -0,0 +1,41 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { ExportMenu } from "../export-menu";
+
+describe("ExportMenu", () => {
+  it("exports in the chosen format", async () => {
+    const user = userEvent.setup();
+    const onExport = jest.fn().mockResolvedValue(null);
+    render(<ExportMenu label="fines" onExport={onExport} />);
+
+    await user.click(screen.getByRole("button", { name: "Export fines" }));
+    await user.click(screen.getByRole("menuitem", { name: "JSON" }));
+
+    expect(onExport).toHaveBeenCalledWith("json");
+    expect(screen.queryByText("Export failed")).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Export fines" })).toBeEnabled();
+  });
+
+  it("shows the error returned by the export", async () => {
+    const user = userEvent.setup();
+    render(<ExportMenu label="fines" onExport={jest.fn().mockResolvedValue("Network error")} />);
+
+    await user.click(screen.getByRole("button", { name: "Export fines" }));
+    await user.click(screen.getByRole("menuitem", { name: "CSV (spreadsheet)" }));
+
+    expect(await screen.findByText("Export failed")).toBeInTheDocument();
+    expect(screen.getByText("Network error")).toBeInTheDocument();
+  });
+
+  it("recovers when the export throws", async () => {
+    const user = userEvent.setup();
+    render(<ExportMenu label="totals" onExport={jest.fn().mockRejectedValue(new Error("Out of memory"))} />);
+
+    await user.click(screen.getByRole("button", { name: "Export totals" }));
+    await user.click(screen.getByRole("menuitem", { name: "CSV (spreadsheet)" }));
+
+    expect(await screen.findByText("Out of memory")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Export totals" })).toBeEnabled();
+    expect(screen.getByText("Export")).toBeInTheDocument();
+  });
+});
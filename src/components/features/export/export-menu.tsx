@@ -0,0 +1,79 @@
+"use client"
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { ToastContainer, useToast } from "@/components/features/comments/error-toast";
+import type { ExportFormat } from "@/lib/export";
+
+interface ExportMenuProps {
+  // What is exported, e.g. "fines"; used in the button's accessible name
+  label: string;
+  // Builds and downloads the export; resolves to an error message on failure
+  onExport: (format: ExportFormat) => Promise<string | null>;
+  buttonClassName?: string;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV (spreadsheet)" },
+  { format: "json", label: "JSON" },
+];
+
+export function ExportMenu({ label, onExport, buttonClassName = "" }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const { toasts, dismissToast, error: showError } = useToast();
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setExporting(true);
+    try {
+      const error = await onExport(format);
+      if (error) {
+        showError("Export failed", error);
+      }
+    } catch (err) {
+      showError("Export failed", err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((isOpen) => !isOpen)}
+        disabled={exporting}
+        aria-label={`Export ${label}`}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className={`flex items-center space-x-1 rounded border px-3 py-1 text-sm transition-colors disabled:opacity-60 ${buttonClassName}`}
+      >
+        <Download size={14} />
+        <span>{exporting ? "Exporting..." : "Export"}</span>
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div role="menu" aria-label={`Export ${label}`} className="absolute right-0 z-20 mt-1 w-44 rounded-md border border-gray-200 bg-white py-1 text-gray-900 shadow-lg">
+            {FORMATS.map(({ format, label: formatLabel }) => (
+              <button
+                key={format}
+                type="button"
+                role="menuitem"
+                onClick={() => handleExport(format)}
+                className="block w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100"
+              >
+                {formatLabel}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <ToastContainer toasts={toasts} onDismiss={dismissToast} />
+    </div>
+  );
+}
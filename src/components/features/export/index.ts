@@ -0,0 +1,2 @@
+// Export feature components
+export { ExportMenu } from "./export-menu";
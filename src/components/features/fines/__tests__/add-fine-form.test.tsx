@@ -9,6 +9,8 @@ jest.mock("@/lib/supabase/client", () => ({
       if (table === "users") {
         return {
           select: jest.fn().mockReturnThis(),
+          // Deactivated players are filtered out of the picker
+          is: jest.fn().mockReturnThis(),
           order: jest.fn().mockResolvedValue({
             data: [
               { user_id: "1", name: "Alice", username: "alice" },
@@ -27,6 +29,7 @@ jest.mock("@/lib/supabase/client", () => ({
 }));
 
 
+const currentUser = { user_id: "1", name: "Alice", role: "User" };
 
  describe("AddFineForm", () => {
    beforeEach(() => {
@@ -34,7 +37,7 @@ jest.mock("@/lib/supabase/client", () => ({
    });
 
    it("renders form elements correctly", async () => {
-     render(<AddFineForm />);
+     render(<AddFineForm currentUserObject={currentUser} token="token-1" />);
  
      // Wait for users to load
      await waitFor(() => {
@@ -52,7 +55,7 @@ jest.mock("@/lib/supabase/client", () => ({
    });
 
    it("fills form and submits data", async () => {
-     render(<AddFineForm />);
+     render(<AddFineForm currentUserObject={currentUser} token="token-1" />);
  
      const user = userEvent.setup();
  
@@ -81,7 +84,7 @@ jest.mock("@/lib/supabase/client", () => ({
    it("shows validation errors for empty form submission", async () => {
      const mockAlert = jest.spyOn(window, 'alert').mockImplementation(() => {});
      
-     render(<AddFineForm />);
+     render(<AddFineForm currentUserObject={currentUser} token="token-1" />);
  
      const user = userEvent.setup();
  
@@ -101,7 +104,7 @@ jest.mock("@/lib/supabase/client", () => ({
    });
 
    it("changes fine type and updates button text", async () => {
-     render(<AddFineForm />);
+     render(<AddFineForm currentUserObject={currentUser} token="token-1" />);
  
      const user = userEvent.setup();
  
@@ -125,6 +128,18 @@ jest.mock("@/lib/supabase/client", () => ({
    });
  });
 
+ describe("AddFineForm permissions", () => {
+   it("disables submission when there is no signed-in user", async () => {
+     render(<AddFineForm currentUserObject={{ user_id: "", name: "" }} token={null} />);
+
+     await waitFor(() => {
+       expect(screen.getByText("Add New Fine")).toBeInTheDocument();
+     });
+
+     expect(screen.getByRole("button", { name: /Add Fine/i })).toBeDisabled();
+   });
+ });
+
  describe("validateFineForm", () => {
    it("validates required fields correctly", () => {
      const validForm = {
@@ -0,0 +1,125 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { BulkFineForm, validateBulkFineForm } from "../bulk-fine-form";
+import { addFinesBulk } from "@/lib/api/fines";
+
+jest.mock("@/lib/api/fines", () => ({
+  addFinesBulk: jest.fn(),
+}));
+
+jest.mock("@/lib/api/rules", () => ({
+  getFineRules: jest.fn().mockResolvedValue({ data: [], error: null }),
+}));
+
+const mockAddFinesBulk = addFinesBulk as jest.MockedFunction<typeof addFinesBulk>;
+
+const users = [
+  { user_id: "1", name: "Alice", username: "alice" },
+  { user_id: "2", name: "Bob", username: "bob" },
+  { user_id: "3", name: "Carol", username: "carol" },
+];
+
+function renderForm(onFineAdded = jest.fn()) {
+  render(
+    <BulkFineForm
+      users={users}
+      loading={false}
+      canCreateFine
+      token="token-1"
+      seasonId="season-1"
+      onFineAdded={onFineAdded}
+    />
+  );
+  return onFineAdded;
+}
+
+describe("BulkFineForm", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("previews a shared amount and submits every player in one call", async () => {
+    mockAddFinesBulk.mockResolvedValue({ data: [], error: null });
+    const user = userEvent.setup();
+    const onFineAdded = renderForm();
+
+    await user.click(screen.getByLabelText("Alice"));
+    await user.click(screen.getByLabelText("Carol"));
+    await user.type(screen.getByPlaceholderText("Enter description"), "Late to practice");
+    await user.type(screen.getByLabelText("Amount for every player"), "5");
+    await user.click(screen.getByRole("button", { name: "Preview" }));
+
+    const preview = screen.getByRole("list", { name: "Fines to add" });
+    expect(preview).toHaveTextContent("Alice$5.00");
+    expect(preview).toHaveTextContent("Carol$5.00");
+    expect(screen.getByText("$10.00")).toBeInTheDocument();
+    expect(mockAddFinesBulk).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole("button", { name: "Add 2 Fines" }));
+
+    await waitFor(() => {
+      expect(mockAddFinesBulk).toHaveBeenCalledWith(
+        "token-1",
+        {
+          description: "Late to practice",
+          fine_type: "Fine",
+          rule_id: null,
+          entries: [
+            { subject_id: "1", amount: 500 },
+            { subject_id: "3", amount: 500 },
+          ],
+        },
+        "season-1"
+      );
+      expect(onFineAdded).toHaveBeenCalled();
+    });
+  });
+
+  it("takes a separate amount for each player", async () => {
+    mockAddFinesBulk.mockResolvedValue({ data: [], error: null });
+    const user = userEvent.setup();
+    renderForm();
+
+    await user.click(screen.getByLabelText("Alice"));
+    await user.click(screen.getByLabelText("Bob"));
+    await user.type(screen.getByPlaceholderText("Enter description"), "Missed the bus");
+    await user.click(screen.getByRole("radio", { name: "Per player" }));
+    await user.type(screen.getByLabelText("Amount for Alice"), "2");
+    await user.type(screen.getByLabelText("Amount for Bob"), "3.50");
+    await user.click(screen.getByRole("button", { name: "Preview" }));
+    await user.click(screen.getByRole("button", { name: "Add 2 Fines" }));
+
+    await waitFor(() => {
+      expect(mockAddFinesBulk).toHaveBeenCalledWith(
+        "token-1",
+        expect.objectContaining({
+          entries: [
+            { subject_id: "1", amount: 200 },
+            { subject_id: "2", amount: 350 },
+          ],
+        }),
+        "season-1"
+      );
+    });
+  });
+
+  it("shows validation errors instead of previewing", async () => {
+    const user = userEvent.setup();
+    renderForm();
+
+    await user.click(screen.getByRole("button", { name: "Preview" }));
+
+    expect(screen.getByText(/Select at least one player\./)).toBeInTheDocument();
+    expect(screen.queryByRole("list", { name: "Fines to add" })).not.toBeInTheDocument();
+  });
+});
+
+describe("validateBulkFineForm", () => {
+  it("requires an amount for every player unless it's a warning", () => {
+    const entries = [{ subject_id: "1", amount: 500 }, { subject_id: "2", amount: 0 }];
+
+    expect(validateBulkFineForm({ description: "Late", fine_type: "Fine", entries }).errors.amount)
+      .toBe("Every player needs an amount greater than zero.");
+    expect(validateBulkFineForm({ description: "Late", fine_type: "Warning", entries }).valid).toBe(true);
+  });
+});
@@ -0,0 +1,154 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { FineActionsMenu } from "../fine-actions-menu";
+import { describeFineEventChanges } from "../fine-history-dialog";
+import { getFineEvents, updateFine, voidFine } from "@/lib/api/fines";
+
+jest.mock("@/lib/api/fines", () => ({
+  getFineEvents: jest.fn(),
+  updateFine: jest.fn(),
+  voidFine: jest.fn(),
+  restoreFine: jest.fn(),
+}));
+
+const mockGetFineEvents = getFineEvents as jest.MockedFunction<typeof getFineEvents>;
+const mockUpdateFine = updateFine as jest.MockedFunction<typeof updateFine>;
+const mockVoidFine = voidFine as jest.MockedFunction<typeof voidFine>;
+
+const fine = {
+  id: "fine-1",
+  proposer_id: "user-1",
+  is_void: false,
+  description: "Late to practice",
+  amount: 500,
+  fine_type: "Fine",
+};
+
+describe("FineActionsMenu", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("shows edit but not void to the proposer", async () => {
+    const user = userEvent.setup();
+    render(<FineActionsMenu fine={fine} currentUser={{ id: "user-1", role: "User" }} token="token-user-1" />);
+
+    await user.click(screen.getByTitle("More actions"));
+
+    expect(screen.getByRole("menuitem", { name: /Edit/ })).toBeInTheDocument();
+    expect(screen.queryByRole("menuitem", { name: /Void/ })).not.toBeInTheDocument();
+    expect(screen.getByRole("menuitem", { name: /History/ })).toBeInTheDocument();
+  });
+
+  it("only shows history to other members", async () => {
+    const user = userEvent.setup();
+    render(<FineActionsMenu fine={fine} currentUser={{ id: "user-2", role: "User" }} token="token-user-2" />);
+
+    await user.click(screen.getByTitle("More actions"));
+
+    expect(screen.queryByRole("menuitem", { name: /Edit/ })).not.toBeInTheDocument();
+    expect(screen.queryByRole("menuitem", { name: /Void/ })).not.toBeInTheDocument();
+    expect(screen.getByRole("menuitem", { name: /History/ })).toBeInTheDocument();
+  });
+
+  it("offers restore instead of edit on a voided fine for admins", async () => {
+    const user = userEvent.setup();
+    render(<FineActionsMenu fine={{ ...fine, is_void: true }} currentUser={{ id: "admin-1", role: "Admin" }} token="token-admin-1" />);
+
+    await user.click(screen.getByTitle("More actions"));
+
+    expect(screen.queryByRole("menuitem", { name: /Edit/ })).not.toBeInTheDocument();
+    expect(screen.getByRole("menuitem", { name: /Restore/ })).toBeInTheDocument();
+  });
+
+  it("only offers history in an archived season", async () => {
+    const user = userEvent.setup();
+    render(<FineActionsMenu fine={fine} currentUser={{ id: "admin-1", role: "Admin" }} token="token-admin-1" readOnly />);
+
+    await user.click(screen.getByTitle("More actions"));
+
+    expect(screen.queryByRole("menuitem", { name: /Edit/ })).not.toBeInTheDocument();
+    expect(screen.queryByRole("menuitem", { name: /Void/ })).not.toBeInTheDocument();
+    expect(screen.getByRole("menuitem", { name: /History/ })).toBeInTheDocument();
+  });
+
+  it("saves only the changed fields when editing", async () => {
+    mockUpdateFine.mockResolvedValue({ data: null, error: null });
+    const onFineChanged = jest.fn();
+    const user = userEvent.setup();
+    render(<FineActionsMenu fine={fine} currentUser={{ id: "user-1", role: "User" }} token="token-user-1" onFineChanged={onFineChanged} />);
+
+    await user.click(screen.getByTitle("More actions"));
+    await user.click(screen.getByRole("menuitem", { name: /Edit/ }));
+
+    const amountInput = screen.getByLabelText("Amount ($)");
+    await user.clear(amountInput);
+    await user.type(amountInput, "10");
+    await user.click(screen.getByRole("button", { name: "Save Changes" }));
+
+    await waitFor(() => {
+      expect(mockUpdateFine).toHaveBeenCalledWith("token-user-1", "fine-1", { amount: 1000 });
+      expect(onFineChanged).toHaveBeenCalled();
+    });
+  });
+
+  it("voids a fine with a reason", async () => {
+    mockVoidFine.mockResolvedValue({ data: null, error: null });
+    const user = userEvent.setup();
+    render(<FineActionsMenu fine={fine} currentUser={{ id: "admin-1", role: "Admin" }} token="token-admin-1" />);
+
+    await user.click(screen.getByTitle("More actions"));
+    await user.click(screen.getByRole("menuitem", { name: /Void/ }));
+    await user.type(screen.getByLabelText("Reason (optional)"), "Wrong player");
+    await user.click(screen.getByRole("button", { name: "Void Fine" }));
+
+    await waitFor(() => {
+      expect(mockVoidFine).toHaveBeenCalledWith("token-admin-1", "fine-1", "Wrong player");
+    });
+  });
+
+  it("loads the audit history", async () => {
+    mockGetFineEvents.mockResolvedValue({
+      data: [
+        {
+          id: "event-1",
+          fine_id: "fine-1",
+          actor_id: "user-1",
+          event_type: "edited",
+          old_values: { amount: 500 },
+          new_values: { amount: 1000 },
+          created_at: "2025-08-18T10:00:00Z",
+          actor: { user_id: "user-1", username: "sam", name: "Sam Feldman" },
+        },
+      ],
+      error: null,
+    });
+    const user = userEvent.setup();
+    render(<FineActionsMenu fine={fine} currentUser={{ id: "user-2", role: "User" }} token="token-user-2" />);
+
+    await user.click(screen.getByTitle("More actions"));
+    await user.click(screen.getByRole("menuitem", { name: /History/ }));
+
+    expect(await screen.findByText("Sam Feldman")).toBeInTheDocument();
+    expect(screen.getByText("edited this fine")).toBeInTheDocument();
+    expect(screen.getByText("amount: $5.00 → $10.00")).toBeInTheDocument();
+  });
+});
+
+describe("describeFineEventChanges", () => {
+  it("lists each changed field with old and new values", () => {
+    expect(describeFineEventChanges({
+      event_type: "edited",
+      old_values: { description: "Late", amount: 500 },
+      new_values: { description: "Very late", amount: 1000 },
+    })).toEqual(["description: Late → Very late", "amount: $5.00 → $10.00"]);
+  });
+
+  it("includes the reason for voided fines", () => {
+    expect(describeFineEventChanges({
+      event_type: "voided",
+      old_values: { is_void: false },
+      new_values: { is_void: true, void_reason: "Duplicate" },
+    })).toEqual(["Reason: Duplicate"]);
+  });
+});
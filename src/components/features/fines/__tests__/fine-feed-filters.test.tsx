@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FineFeedFilterBar, FineFilterChips } from '../fine-feed-filters';
+import type { FineFeedFilters } from '@/types/common';
+
+const players = [
+  { user_id: 'user-1', username: 'alice', name: 'Alice' },
+  { user_id: 'user-2', username: 'bob', name: 'Bob' }
+];
+
+// Holds the filters like the feed does, so inputs see their own changes
+function StatefulFilterBar({ onChange }: { onChange: (filters: FineFeedFilters) => void }) {
+  const [filters, setFilters] = useState<FineFeedFilters>({});
+  return (
+    <FineFeedFilterBar
+      filters={filters}
+      onChange={(next) => {
+        setFilters(next);
+        onChange(next);
+      }}
+      players={players}
+    />
+  );
+}
+
+describe('FineFeedFilterBar', () => {
+  it('toggles fine types, keeping them in order', async () => {
+    const user = userEvent.setup();
+    const onChange = jest.fn();
+    render(<FineFeedFilterBar filters={{ fineTypes: ['Warning'] }} onChange={onChange} players={players} />);
+
+    expect(screen.getByRole('button', { name: 'Warning' })).toHaveAttribute('aria-pressed', 'true');
+
+    await user.click(screen.getByRole('button', { name: 'Fine' }));
+    expect(onChange).toHaveBeenLastCalledWith({ fineTypes: ['Fine', 'Warning'] });
+
+    await user.click(screen.getByRole('button', { name: 'Warning' }));
+    expect(onChange).toHaveBeenLastCalledWith({ fineTypes: [] });
+  });
+
+  it('filters on a player who was fined or did the fining', async () => {
+    const user = userEvent.setup();
+    const onChange = jest.fn();
+    render(<FineFeedFilterBar filters={{ playerId: 'user-1' }} onChange={onChange} players={players} />);
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Player role' }), 'Fined by');
+    expect(onChange).toHaveBeenLastCalledWith({ playerId: 'user-1', playerRole: 'proposer' });
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Player' }), 'Bob');
+    expect(onChange).toHaveBeenLastCalledWith({ playerId: 'user-2' });
+  });
+
+  it('sets date, amount and comment filters', async () => {
+    const user = userEvent.setup();
+    const onChange = jest.fn();
+    render(<StatefulFilterBar onChange={onChange} />);
+
+    await user.type(screen.getByLabelText('From date'), '2024-03-01');
+    const dateRange = { from: new Date(2024, 2, 1), to: undefined };
+    expect(onChange).toHaveBeenLastCalledWith({ dateRange });
+
+    await user.type(screen.getByRole('textbox', { name: 'Minimum amount' }), '12.5');
+    expect(onChange).toHaveBeenLastCalledWith({ dateRange, minAmount: 1250 });
+    expect(screen.getByRole('textbox', { name: 'Minimum amount' })).toHaveValue('12.5');
+
+    await user.click(screen.getByRole('checkbox', { name: 'Has comments' }));
+    expect(onChange).toHaveBeenLastCalledWith({ dateRange, minAmount: 1250, hasComments: true });
+  });
+});
+
+describe('FineFilterChips', () => {
+  it('renders nothing without active filters', () => {
+    const { container } = render(<FineFilterChips filters={{ fineTypes: [] }} onChange={jest.fn()} players={players} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('removes one filter or all of them', async () => {
+    const user = userEvent.setup();
+    const onChange = jest.fn();
+    render(
+      <FineFilterChips
+        filters={{ fineTypes: ['Fine'], playerId: 'user-2', playerRole: 'proposer', hasComments: true }}
+        onChange={onChange}
+        players={players}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Remove filter Fined by: Bob' }));
+    expect(onChange).toHaveBeenLastCalledWith({ fineTypes: ['Fine'], playerId: null, playerRole: 'proposer', hasComments: true });
+
+    await user.click(screen.getByRole('button', { name: 'Clear all' }));
+    expect(onChange).toHaveBeenLastCalledWith({ playerRole: 'proposer' });
+  });
+});
@@ -0,0 +1,133 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { FineVoteBar } from "../fine-vote-bar";
+import { applyVoteToTallies, castVote, decideFine, retractVote } from "@/lib/api/votes";
+
+jest.mock("@/lib/api/votes", () => ({
+  ...jest.requireActual("@/lib/api/votes"),
+  castVote: jest.fn(),
+  retractVote: jest.fn(),
+  decideFine: jest.fn(),
+}));
+
+const mockCastVote = castVote as jest.MockedFunction<typeof castVote>;
+const mockRetractVote = retractVote as jest.MockedFunction<typeof retractVote>;
+const mockDecideFine = decideFine as jest.MockedFunction<typeof decideFine>;
+
+const fine = {
+  id: "fine-1",
+  subject_id: "user-1",
+  status: "pending" as const,
+  approve_votes: 1,
+  reject_votes: 0,
+  is_void: false,
+};
+
+describe("FineVoteBar", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("renders nothing for approved fines", () => {
+    const { container } = render(
+      <FineVoteBar fine={{ ...fine, status: "approved" }} currentUser={{ id: "user-2", role: "User" }} token="token-2" threshold={3} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("shows the status and tallies against the threshold", () => {
+    render(<FineVoteBar fine={fine} currentUser={{ id: "user-2", role: "User" }} token="token-2" threshold={3} />);
+
+    expect(screen.getByText("Pending")).toBeInTheDocument();
+    expect(screen.getByText("1/3")).toBeInTheDocument();
+    expect(screen.getByText("0/3")).toBeInTheDocument();
+  });
+
+  it("stops the fined player voting on their own fine", () => {
+    render(<FineVoteBar fine={fine} currentUser={{ id: "user-1", role: "User" }} token="token-1" threshold={3} />);
+
+    screen.getAllByTitle("You can't vote on this fine").forEach((button) => {
+      expect(button).toBeDisabled();
+    });
+  });
+
+  it("casts a vote and reports it for an optimistic update", async () => {
+    mockCastVote.mockResolvedValue({ data: null, error: null });
+    const onVoteChange = jest.fn();
+    const user = userEvent.setup();
+    render(<FineVoteBar fine={fine} currentUser={{ id: "user-2", role: "User" }} token="token-2" threshold={3} onVoteChange={onVoteChange} />);
+
+    await user.click(screen.getByTitle("Vote to reject"));
+
+    await waitFor(() => {
+      expect(mockCastVote).toHaveBeenCalledWith("token-2", "fine-1", "reject");
+    });
+    expect(onVoteChange).toHaveBeenCalledWith("fine-1", "reject");
+  });
+
+  it("retracts the vote when clicked again", async () => {
+    mockRetractVote.mockResolvedValue({ data: null, error: null });
+    const user = userEvent.setup();
+    render(<FineVoteBar fine={fine} currentUser={{ id: "user-2", role: "User" }} token="token-2" myVote="approve" threshold={3} />);
+
+    await user.click(screen.getByTitle("Vote to approve"));
+
+    await waitFor(() => {
+      expect(mockRetractVote).toHaveBeenCalledWith("token-2", "fine-1");
+    });
+  });
+
+  it("rolls back the optimistic vote when saving fails", async () => {
+    mockCastVote.mockResolvedValue({ data: null, error: "Network error" });
+    const onVoteChange = jest.fn();
+    const user = userEvent.setup();
+    render(<FineVoteBar fine={fine} currentUser={{ id: "user-2", role: "User" }} token="token-2" threshold={3} onVoteChange={onVoteChange} />);
+
+    await user.click(screen.getByTitle("Vote to approve"));
+
+    expect(await screen.findByText("Network error")).toBeInTheDocument();
+    expect(onVoteChange).toHaveBeenLastCalledWith("fine-1", null);
+  });
+
+  it("lets admins settle a contested fine", async () => {
+    mockDecideFine.mockResolvedValue({ data: null, error: null });
+    const onFineChanged = jest.fn();
+    const user = userEvent.setup();
+    render(
+      <FineVoteBar
+        fine={{ ...fine, status: "contested", approve_votes: 3, reject_votes: 3 }}
+        currentUser={{ id: "admin-1", role: "Admin" }}
+        token="token-admin"
+        threshold={3}
+        onFineChanged={onFineChanged}
+      />
+    );
+
+    expect(screen.getByText("Contested")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: /Approve/ }));
+
+    await waitFor(() => {
+      expect(mockDecideFine).toHaveBeenCalledWith("token-admin", "fine-1", "approved");
+      expect(onFineChanged).toHaveBeenCalled();
+    });
+  });
+
+  it("hides the decision buttons from members", () => {
+    render(<FineVoteBar fine={fine} currentUser={{ id: "user-2", role: "User" }} token="token-2" threshold={3} />);
+
+    expect(screen.queryByRole("button", { name: /Approve/ })).not.toBeInTheDocument();
+  });
+});
+
+describe("applyVoteToTallies", () => {
+  it("moves a vote from one side to the other", () => {
+    expect(applyVoteToTallies({ approve_votes: 2, reject_votes: 1 }, "approve", "reject"))
+      .toEqual({ approve_votes: 1, reject_votes: 2 });
+  });
+
+  it("removes a retracted vote", () => {
+    expect(applyVoteToTallies({ approve_votes: 2, reject_votes: 0 }, "approve", null))
+      .toEqual({ approve_votes: 1, reject_votes: 0 });
+  });
+});
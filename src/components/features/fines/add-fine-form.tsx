@@ -5,25 +5,15 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
 import { createClient } from "@/lib/supabase/client";
 import { useEffect, useState } from "react";
-import { UserSelect, FineInsert } from "@/types/models";
+import { UserSelect, FineInsert, FineRule } from "@/types/models";
 import { FineFormValues, FineType } from "@/types/common";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { FineTypeToggle } from "./fine-type-toggle";
-
-async function getUsers(): Promise<UserSelect[]> {
-  const supabase = createClient();
-
-  const { data, error } = await supabase
-    .from('users')
-    .select('user_id, username, name')
-    .order('username');
-
-  if (error) {
-    console.error('Error fetching users:', error);
-    return [];
-  }
-
-  return data || [];
-}
+import { BulkFineForm } from "./bulk-fine-form";
+import { FineRulePicker } from "./fine-rule-picker";
+import { can } from "@/lib/permissions";
+import { getUsers } from "@/lib/api/users";
+import { centsToInput, currencySymbol, parseMoney } from "@/lib/money";
 
 async function addFine(fine: FineInsert) {
   const supabase = createClient();
@@ -65,21 +55,34 @@ export function validateFineForm(values: FineFormValues, fineType: FineType): {
 
 type AddFineFormProps = {
   onFineAdded?: () => void;
-  currentUserObject: {name: string, user_id: string}; 
+  currentUserObject: {name: string, user_id: string, role?: string}; 
+  // The signed-in user's session token, for entering fines in bulk
+  token: string | null;
+  // Season to record the fine in; the database falls back to the active season
+  seasonId?: string;
 };
 
 
 // To add to the parameter type, expand the object type in the function parameter.
 // For example, to add a new prop called `title` of type string:
 
-export function AddFineForm({ onFineAdded, currentUserObject }: AddFineFormProps) {
+export function AddFineForm({ onFineAdded, currentUserObject, token, seasonId }: AddFineFormProps) {
   const [users, setUsers] = useState<UserSelect[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedUser, setSelectedUser] = useState<string>("");
   const [description, setDescription] = useState<string>("");
-  const [amount, setAmount] = useState<number>(0);
+  const [amountInput, setAmountInput] = useState<string>("");
   const [submitting, setSubmitting] = useState(false);
   const [fineType, setFineType] = useState<FineType>("Fine");
+  // Rule book entry the form was filled from, if any
+  const [ruleId, setRuleId] = useState<string | null>(null);
+  // Bulk mode fines several players for the same thing at once
+  const [bulk, setBulk] = useState(false);
+  const canCreateFine = can(
+    { id: currentUserObject.user_id, role: currentUserObject.role },
+    "create",
+    { type: "fine" }
+  );
 
   useEffect(() => {
     async function fetchUsers() {
@@ -96,6 +99,16 @@ export function AddFineForm({ onFineAdded, currentUserObject }: AddFineFormProps
     fetchUsers();
   }, []);
 
+  // Picking a rule fills in its standard description, amount and type; they stay editable
+  const handleRuleSelect = (rule: FineRule | null) => {
+    setRuleId(rule?.id ?? null);
+    if (rule) {
+      setDescription(rule.title);
+      setFineType(rule.default_type);
+      setAmountInput(centsToInput(rule.default_amount));
+    }
+  };
+
   return (
     <div className="space-y-4">
       {/* Form Header */}
@@ -103,114 +116,153 @@ export function AddFineForm({ onFineAdded, currentUserObject }: AddFineFormProps
         <h3 className="text-lg font-semibold">Add New Fine</h3>
       </div>
 
-      <div className="space-y-4">
-        <div>
-          <label className="block text-[#3b2a22] font-medium mb-2">Player</label>
-          <Select value={selectedUser || ""} onValueChange={(value: string) => setSelectedUser(value)}>
-            <SelectTrigger className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]">
-              <SelectValue placeholder={loading ? "Loading users..." : "Select player"} />
-            </SelectTrigger>
-            <SelectContent>
-              {users.map((user) => (
-                <SelectItem key={user.user_id} value={user.user_id}>
-                  {user.name || user.username}
-                </SelectItem>
-              ))}
-              {users.length === 0 && !loading && (
-                <SelectItem value="" disabled>
-                  No users found
-                </SelectItem>
-              )}
-            </SelectContent>
-          </Select>
-        </div>
-        <div>
-        <div className="space-y-2">
-          <label className="text-sm font-medium">Fine Type</label>
-          <FineTypeToggle value={fineType} onChange={setFineType} />
-        </div>
-        </div>
-        <div>
-          <label className="block text-[#3b2a22] font-medium mb-2">Description</label>
-          <Input
-            placeholder="Enter description"
-            className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400"
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-          />
-        </div>
-        <div>
-          {/* gray out box if fine is a warning */}
-          <label className={`block font-medium mb-2 ${fineType === "Warning" ? "text-gray-400" : "text-[#3b2a22]"}`}>
-            Amount ($)
-          </label>
-          <Input
-            type="number"
-            placeholder={fineType === "Warning" ? "" : "Enter amount"}
-            className={`border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400 ${
-              fineType === "Warning" 
-                ? "bg-gray-100 text-gray-500 cursor-not-allowed opacity-60" 
-                : ""
-            }`}
-            value={fineType === "Warning" ? "" : amount.toString()}
-            onChange={(e) => {
-              if (fineType !== "Warning") {
-                setAmount(Number(e.target.value.toString()));
-              }
-            }}
-            disabled={fineType === "Warning"}
-          />
-        </div>
-        <div className="flex justify-end">
-          <Button
-            className="bg-[#7d6c64] hover:bg-[#6b4a41] text-white font-semibold px-6 py-2 shadow"
-            disabled={submitting}
-            onClick={async () => {
-              const validation = validateFineForm({
-                subject_id: selectedUser,
-                description,
-                amount
-              }, fineType);
-              
-              if (!validation.valid) {
-                alert(Object.values(validation.errors).join('\n'));
-                return;
-              }
-
-              setSubmitting(true);
-              try {
-                const result = await addFine({
-                  amount: fineType === "Warning" ? 0 : amount,
-                  date: new Date().toISOString(),
-                  fine_type: fineType,
-                  description: description,
+      <ToggleGroup
+        type="single"
+        value={bulk ? "bulk" : "single"}
+        onValueChange={(value) => {
+          if (value) setBulk(value === "bulk");
+        }}
+        className="grid grid-cols-2 gap-2"
+      >
+        <ToggleGroupItem value="single" aria-label="One player">
+          One player
+        </ToggleGroupItem>
+        <ToggleGroupItem value="bulk" aria-label="Several players">
+          Several players
+        </ToggleGroupItem>
+      </ToggleGroup>
+
+      {bulk ? (
+        <BulkFineForm
+          users={users}
+          loading={loading}
+          canCreateFine={canCreateFine}
+          token={token}
+          seasonId={seasonId}
+          onFineAdded={onFineAdded}
+        />
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-[#3b2a22] font-medium mb-2">Player</label>
+            <Select value={selectedUser || ""} onValueChange={(value: string) => setSelectedUser(value)}>
+              <SelectTrigger className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]">
+                <SelectValue placeholder={loading ? "Loading users..." : "Select player"} />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map((user) => (
+                  <SelectItem key={user.user_id} value={user.user_id}>
+                    {user.name || user.username}
+                  </SelectItem>
+                ))}
+                {users.length === 0 && !loading && (
+                  <SelectItem value="" disabled>
+                    No users found
+                  </SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+          <FineRulePicker value={ruleId} onSelect={handleRuleSelect} />
+          <div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Fine Type</label>
+            <FineTypeToggle value={fineType} onChange={setFineType} />
+          </div>
+          </div>
+          <div>
+            <label className="block text-[#3b2a22] font-medium mb-2">Description</label>
+            <Input
+              placeholder="Enter description"
+              className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div>
+            {/* gray out box if fine is a warning */}
+            <label className={`block font-medium mb-2 ${fineType === "Warning" ? "text-gray-400" : "text-[#3b2a22]"}`}>
+              Amount ({currencySymbol()})
+            </label>
+            <Input
+              type="number"
+              step="0.01"
+              placeholder={fineType === "Warning" ? "" : "Enter amount"}
+              className={`border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400 ${
+                fineType === "Warning" 
+                  ? "bg-gray-100 text-gray-500 cursor-not-allowed opacity-60" 
+                  : ""
+              }`}
+              value={fineType === "Warning" ? "" : amountInput}
+              onChange={(e) => {
+                if (fineType !== "Warning") {
+                  setAmountInput(e.target.value);
+                }
+              }}
+              disabled={fineType === "Warning"}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              className="bg-[#7d6c64] hover:bg-[#6b4a41] text-white font-semibold px-6 py-2 shadow"
+              disabled={submitting || !canCreateFine}
+              onClick={async () => {
+                if (!canCreateFine) {
+                  alert("You don't have permission to add fines.");
+                  return;
+                }
+
+                // Amounts are stored in cents; anything unparseable fails validation as zero
+                const amount = parseMoney(amountInput) ?? 0;
+                const validation = validateFineForm({
                   subject_id: selectedUser,
-                  proposer_id: currentUserObject.user_id,
-                  replies: 0,
-                });
-
-                if (result.error) {
-                  alert('Error adding fine: ' + result.error);
-                } else {
-                  // Clear form
-                  setSelectedUser("");
-                  setDescription("");
-                  setAmount(0);
+                  description,
+                  amount
+                }, fineType);
+              
+                if (!validation.valid) {
+                  alert(Object.values(validation.errors).join('\n'));
+                  return;
+                }
+
+                setSubmitting(true);
+                try {
+                  const result = await addFine({
+                    amount: fineType === "Warning" ? 0 : amount,
+                    date: new Date().toISOString(),
+                    fine_type: fineType,
+                    description: description,
+                    subject_id: selectedUser,
+                    proposer_id: currentUserObject.user_id,
+                    replies: 0,
+                    rule_id: ruleId,
+                    ...(seasonId ? { season_id: seasonId } : {}),
+                  });
+
+                  if (result.error) {
+                    alert('Error adding fine: ' + result.error);
+                  } else {
+                    // Clear form
+                    setSelectedUser("");
+                    setDescription("");
+                    setAmountInput("");
+                    setRuleId(null);
                   
-                  // Call callback to refresh table
-                  onFineAdded?.();
+                    // Call callback to refresh table
+                    onFineAdded?.();
+                  }
+                } catch (error) {
+                  alert('Error adding fine: ' + error);
+                } finally {
+                  setSubmitting(false);
                 }
-              } catch (error) {
-                alert('Error adding fine: ' + error);
-              } finally {
-                setSubmitting(false);
-              }
-            }}
-          >
-            {submitting ? "Adding..." : `Add ${fineType}`}
-          </Button>
+              }}
+            >
+              {submitting ? "Adding..." : `Add ${fineType}`}
+            </Button>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,299 @@
+"use client"
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { addFinesBulk } from "@/lib/api/fines";
+import { centsToInput, currencySymbol, formatMoney, parseMoney } from "@/lib/money";
+import type { AddBulkFinesFormData, FineRule, UserSelect } from "@/types/models";
+import type { FineType } from "@/types/common";
+import { FineTypeToggle } from "./fine-type-toggle";
+import { FineRulePicker } from "./fine-rule-picker";
+
+type AmountMode = "shared" | "per-player";
+
+export function validateBulkFineForm(values: AddBulkFinesFormData): { valid: boolean; errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+
+  if (values.entries.length === 0) {
+    errors.entries = "Select at least one player.";
+  }
+
+  if (!values.description || values.description.trim() === "") {
+    errors.description = "Description is required.";
+  }
+
+  // Warnings carry no amount
+  if (values.fine_type !== "Warning" && values.entries.some((entry) => !(entry.amount > 0))) {
+    errors.amount = "Every player needs an amount greater than zero.";
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+type BulkFineFormProps = {
+  users: UserSelect[];
+  loading: boolean;
+  canCreateFine: boolean;
+  // The proposer's session token; the database takes the proposer from it
+  token: string | null;
+  seasonId?: string;
+  onFineAdded?: () => void;
+};
+
+export function BulkFineForm({ users, loading, canCreateFine, token, seasonId, onFineAdded }: BulkFineFormProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [description, setDescription] = useState("");
+  const [fineType, setFineType] = useState<FineType>("Fine");
+  const [ruleId, setRuleId] = useState<string | null>(null);
+  const [amountMode, setAmountMode] = useState<AmountMode>("shared");
+  const [sharedAmount, setSharedAmount] = useState("");
+  const [playerAmounts, setPlayerAmounts] = useState<Record<string, string>>({});
+  const [previewing, setPreviewing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const nameOf = (userId: string) => {
+    const user = users.find((candidate) => candidate.user_id === userId);
+    return user?.name || user?.username || "Unknown";
+  };
+
+  // Keep the selection in the same order as the player list
+  const selectedPlayers = users.filter((user) => selected.includes(user.user_id));
+
+  const values: AddBulkFinesFormData = {
+    description,
+    fine_type: fineType,
+    rule_id: ruleId,
+    entries: selectedPlayers.map((user) => ({
+      subject_id: user.user_id,
+      amount: fineType === "Warning"
+        ? 0
+        : parseMoney(amountMode === "shared" ? sharedAmount : playerAmounts[user.user_id] ?? "") ?? 0,
+    })),
+  };
+  const total = values.entries.reduce((sum, entry) => sum + entry.amount, 0);
+
+  const togglePlayer = (userId: string) => {
+    setPreviewing(false);
+    setSelected((prev) => prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]);
+  };
+
+  // A rule's price applies to everyone; switch to per-player amounts to vary it
+  const handleRuleSelect = (rule: FineRule | null) => {
+    setRuleId(rule?.id ?? null);
+    if (rule) {
+      setDescription(rule.title);
+      setFineType(rule.default_type);
+      setAmountMode("shared");
+      setSharedAmount(centsToInput(rule.default_amount));
+    }
+  };
+
+  const handlePreview = () => {
+    const validation = validateBulkFineForm(values);
+    if (!validation.valid) {
+      setError(Object.values(validation.errors).join(" "));
+      return;
+    }
+    setError(null);
+    setPreviewing(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const result = await addFinesBulk(token, values, seasonId);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+
+      setSelected([]);
+      setDescription("");
+      setSharedAmount("");
+      setPlayerAmounts({});
+      setRuleId(null);
+      setPreviewing(false);
+      onFineAdded?.();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (previewing) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <h4 className="font-medium text-[#3b2a22]">Preview</h4>
+          <p className="text-sm text-gray-600">
+            {fineType} · {description.trim()}
+          </p>
+        </div>
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md" aria-label="Fines to add">
+          {values.entries.map((entry) => (
+            <li key={entry.subject_id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span>{nameOf(entry.subject_id)}</span>
+              <span className="font-medium">{fineType === "Warning" ? "Warning" : formatMoney(entry.amount)}</span>
+            </li>
+          ))}
+        </ul>
+        {fineType !== "Warning" && (
+          <p className="text-sm text-right text-gray-700">Total: <span className="font-semibold">{formatMoney(total)}</span></p>
+        )}
+
+        {error && (
+          <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={() => setPreviewing(false)} disabled={submitting}>
+            Back
+          </Button>
+          <Button
+            className="bg-[#7d6c64] hover:bg-[#6b4a41] text-white font-semibold px-6 py-2 shadow"
+            disabled={submitting || !canCreateFine}
+            onClick={handleSubmit}
+          >
+            {submitting ? "Adding..." : `Add ${values.entries.length} ${values.entries.length === 1 ? fineType : `${fineType}s`}`}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="block text-[#3b2a22] font-medium">Players</span>
+          <div className="space-x-3 text-xs">
+            <button
+              type="button"
+              className="text-gray-500 hover:text-[#6b4a41] hover:underline"
+              onClick={() => setSelected(users.map((user) => user.user_id))}
+            >
+              Select all
+            </button>
+            <button
+              type="button"
+              className="text-gray-500 hover:text-[#6b4a41] hover:underline"
+              onClick={() => setSelected([])}
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading users...</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-1 max-h-48 overflow-y-auto border border-[#7d6c64] rounded-md p-2">
+            {users.map((user) => (
+              <label key={user.user_id} className="flex items-center space-x-2 text-sm text-[#3b2a22]">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(user.user_id)}
+                  onChange={() => togglePlayer(user.user_id)}
+                />
+                <span className="truncate">{user.name || user.username}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        <p className="mt-1 text-xs text-gray-500">{selected.length} selected</p>
+      </div>
+      <FineRulePicker value={ruleId} onSelect={handleRuleSelect} />
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Fine Type</label>
+        <FineTypeToggle value={fineType} onChange={setFineType} />
+      </div>
+      <div>
+        <label htmlFor="bulk-fine-description" className="block text-[#3b2a22] font-medium mb-2">Description</label>
+        <Input
+          id="bulk-fine-description"
+          placeholder="Enter description"
+          className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+      {fineType !== "Warning" && (
+        <div className="space-y-2">
+          <label className="block text-[#3b2a22] font-medium">Amount ({currencySymbol()})</label>
+          <ToggleGroup
+            type="single"
+            value={amountMode}
+            onValueChange={(value) => {
+              if (value) setAmountMode(value as AmountMode);
+            }}
+            className="grid grid-cols-2 gap-2"
+          >
+            <ToggleGroupItem value="shared" aria-label="Same amount">
+              Same amount
+            </ToggleGroupItem>
+            <ToggleGroupItem value="per-player" aria-label="Per player">
+              Per player
+            </ToggleGroupItem>
+          </ToggleGroup>
+          {amountMode === "shared" ? (
+            <Input
+              type="number"
+              step="0.01"
+              aria-label="Amount for every player"
+              placeholder="Enter amount"
+              className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400"
+              value={sharedAmount}
+              onChange={(e) => setSharedAmount(e.target.value)}
+            />
+          ) : selectedPlayers.length === 0 ? (
+            <p className="text-sm text-gray-500">Select players to set their amounts.</p>
+          ) : (
+            <div className="space-y-2">
+              {selectedPlayers.map((user) => (
+                <div key={user.user_id} className="flex items-center space-x-3">
+                  <span className="flex-1 truncate text-sm text-[#3b2a22]">{user.name || user.username}</span>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    aria-label={`Amount for ${user.name || user.username}`}
+                    className="w-32 border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+                    value={playerAmounts[user.user_id] ?? ""}
+                    onChange={(e) => setPlayerAmounts((prev) => ({ ...prev, [user.user_id]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          className="bg-[#7d6c64] hover:bg-[#6b4a41] text-white font-semibold px-6 py-2 shadow"
+          disabled={!canCreateFine}
+          onClick={handlePreview}
+        >
+          Preview
+        </Button>
+      </div>
+    </div>
+  );
+}
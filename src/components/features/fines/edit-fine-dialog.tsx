@@ -0,0 +1,162 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { updateFine } from "@/lib/api/fines";
+import { centsToInput, currencySymbol, parseMoney } from "@/lib/money";
+import type { EditFineFormData } from "@/types/models";
+import type { FineType } from "@/types/common";
+import { FineTypeToggle } from "./fine-type-toggle";
+import { validateFineForm } from "./add-fine-form";
+
+interface EditFineDialogProps {
+  isOpen: boolean;
+  fineId: string;
+  initialValues: EditFineFormData;
+  // The editor's session token; the database checks it and credits the change to them
+  token: string | null;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+export function EditFineDialog({
+  isOpen,
+  fineId,
+  initialValues,
+  token,
+  onClose,
+  onSaved
+}: EditFineDialogProps) {
+  const [description, setDescription] = useState(initialValues.description);
+  const [amountInput, setAmountInput] = useState(centsToInput(initialValues.amount));
+  const [fineType, setFineType] = useState<FineType>(initialValues.fine_type);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog is reopened
+  useEffect(() => {
+    if (isOpen) {
+      setDescription(initialValues.description);
+      setAmountInput(centsToInput(initialValues.amount));
+      setFineType(initialValues.fine_type);
+      setError(null);
+    }
+  }, [isOpen, initialValues.description, initialValues.amount, initialValues.fine_type]);
+
+  if (!isOpen) return null;
+
+  const handleSave = async () => {
+    const amount = parseMoney(amountInput) ?? 0;
+    const validation = validateFineForm({ subject_id: fineId, description, amount }, fineType);
+    if (!validation.valid) {
+      setError(Object.values(validation.errors).join(' '));
+      return;
+    }
+
+    const changes: Partial<EditFineFormData> = {};
+    if (description.trim() !== initialValues.description) changes.description = description.trim();
+    const nextAmount = fineType === "Warning" ? 0 : amount;
+    if (nextAmount !== initialValues.amount) changes.amount = nextAmount;
+    if (fineType !== initialValues.fine_type) changes.fine_type = fineType;
+
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await updateFine(token, fineId, changes);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      onSaved?.();
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div role="dialog" aria-labelledby="edit-fine-dialog-title" className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+        <div className="p-6 space-y-4">
+          {/* Header */}
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-amber-100 rounded-full flex items-center justify-center">
+              <Pencil className="w-5 h-5 text-amber-700" />
+            </div>
+            <div>
+              <h3 id="edit-fine-dialog-title" className="text-lg font-semibold text-gray-900">
+                Edit Fine
+              </h3>
+              <p className="text-sm text-gray-500">Changes are recorded in the fine&apos;s history</p>
+            </div>
+          </div>
+
+          {/* Form */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Fine Type</label>
+            <FineTypeToggle value={fineType} onChange={setFineType} />
+          </div>
+          <div>
+            <label htmlFor="edit-fine-description" className="block text-[#3b2a22] font-medium mb-2">Description</label>
+            <Input
+              id="edit-fine-description"
+              className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="edit-fine-amount"
+              className={`block font-medium mb-2 ${fineType === "Warning" ? "text-gray-400" : "text-[#3b2a22]"}`}
+            >
+              Amount ({currencySymbol()})
+            </label>
+            <Input
+              id="edit-fine-amount"
+              type="number"
+              step="0.01"
+              className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+              value={fineType === "Warning" ? "" : amountInput}
+              onChange={(e) => setAmountInput(e.target.value)}
+              disabled={saving || fineType === "Warning"}
+            />
+          </div>
+
+          {error && (
+            <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-3">
+            <Button variant="outline" onClick={onClose} disabled={saving} className="px-4 py-2">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-[#7d6c64] hover:bg-[#6b4a41] text-white"
+            >
+              {saving ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { useState } from "react";
+import { Ban, History, MoreVertical, Pencil, RotateCcw } from "lucide-react";
+import { can, type PermissionSubject } from "@/lib/permissions";
+import type { FineWithUsersQuery } from "@/types/api";
+import type { FineType } from "@/types/common";
+import { EditFineDialog } from "./edit-fine-dialog";
+import { VoidFineDialog } from "./void-fine-dialog";
+import { FineHistoryDialog } from "./fine-history-dialog";
+
+interface FineActionsMenuProps {
+  fine: Pick<FineWithUsersQuery, "id" | "proposer_id" | "is_void" | "description" | "amount" | "fine_type">;
+  currentUser: PermissionSubject;
+  // The signed-in user's session token, passed on to the edit and void dialogs
+  token: string | null;
+  // Archived seasons only offer the history
+  readOnly?: boolean;
+  onFineChanged?: () => void;
+}
+
+type OpenDialog = "edit" | "void" | "history" | null;
+
+export function FineActionsMenu({ fine, currentUser, token, readOnly = false, onFineChanged }: FineActionsMenuProps) {
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [openDialog, setOpenDialog] = useState<OpenDialog>(null);
+
+  const resource = { type: "fine" as const, proposerId: fine.proposer_id };
+  const canEditFine = !readOnly && !fine.is_void && can(currentUser, "edit", resource);
+  const canVoidFine = !readOnly && can(currentUser, "void", resource);
+
+  const openFromMenu = (dialog: OpenDialog) => {
+    setMenuOpen(false);
+    setOpenDialog(dialog);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        className="p-1 rounded hover:bg-gray-200 text-gray-500"
+        onClick={() => setMenuOpen((open) => !open)}
+        title="More actions"
+        aria-haspopup="menu"
+        aria-expanded={menuOpen}
+      >
+        <MoreVertical size={16} />
+      </button>
+
+      {menuOpen && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-10" onClick={() => setMenuOpen(false)} />
+          <div role="menu" className="absolute left-0 z-20 mt-1 w-40 rounded-md border border-gray-200 bg-white py-1 shadow-lg">
+            {canEditFine && (
+              <button role="menuitem" className="flex w-full items-center px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100" onClick={() => openFromMenu("edit")}>
+                <Pencil size={14} className="mr-2" />
+                Edit
+              </button>
+            )}
+            {canVoidFine && (
+              <button role="menuitem" className="flex w-full items-center px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100" onClick={() => openFromMenu("void")}>
+                {fine.is_void ? <RotateCcw size={14} className="mr-2" /> : <Ban size={14} className="mr-2" />}
+                {fine.is_void ? "Restore" : "Void"}
+              </button>
+            )}
+            <button role="menuitem" className="flex w-full items-center px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100" onClick={() => openFromMenu("history")}>
+              <History size={14} className="mr-2" />
+              History
+            </button>
+          </div>
+        </>
+      )}
+
+      <EditFineDialog
+        isOpen={openDialog === "edit"}
+        fineId={fine.id}
+        initialValues={{
+          description: fine.description,
+          amount: fine.amount,
+          fine_type: fine.fine_type as FineType,
+        }}
+        token={token}
+        onClose={() => setOpenDialog(null)}
+        onSaved={onFineChanged}
+      />
+      <VoidFineDialog
+        isOpen={openDialog === "void"}
+        fineId={fine.id}
+        isVoid={fine.is_void}
+        token={token}
+        onClose={() => setOpenDialog(null)}
+        onSaved={onFineChanged}
+      />
+      <FineHistoryDialog
+        isOpen={openDialog === "history"}
+        fineId={fine.id}
+        onClose={() => setOpenDialog(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+"use client"
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import { getFilterChips, removeFilter } from "@/lib/fine-filters";
+import { centsToInput, currencySymbol, parseMoney } from "@/lib/money";
+import type { FineFeedFilters, FinePlayerRole, FineType } from "@/types/common";
+import type { UserSelect } from "@/types/models";
+
+const FINE_TYPES: FineType[] = ["Fine", "Credit", "Warning"];
+
+const fieldClassName =
+  "rounded border border-gray-600 bg-gray-700 px-2 py-1 text-sm text-white focus:border-blue-500 focus:outline-none";
+
+// <input type="date"> works in local yyyy-mm-dd
+const toDateInput = (date?: Date) =>
+  date
+    ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+    : "";
+
+const fromDateInput = (value: string) => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+interface AmountInputProps {
+  label: string;
+  value?: number | null;
+  onChange: (value: number | null) => void;
+}
+
+// Keeps what is typed, e.g. "12.", and reports the amount once it parses
+function AmountInput({ label, value, onChange }: AmountInputProps) {
+  const [draft, setDraft] = useState(typeof value === "number" ? centsToInput(value) : "");
+  // An amount typed here but no longer filtered on was cleared from outside, e.g. by its chip
+  const shown = typeof value === "number" || parseMoney(draft) === null ? draft : "";
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      aria-label={label}
+      placeholder={label.startsWith("Minimum") ? "Min" : "Max"}
+      value={shown}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const cents = e.target.value.trim() ? parseMoney(e.target.value) : null;
+        if (cents === null || cents >= 0) {
+          onChange(cents);
+        }
+      }}
+      className={`${fieldClassName} w-20`}
+    />
+  );
+}
+
+interface FineFeedFilterBarProps {
+  filters: FineFeedFilters;
+  onChange: (filters: FineFeedFilters) => void;
+  players: UserSelect[];
+}
+
+/**
+ * The fines feed filters: type, dates, amount, a player who was fined or did
+ * the fining, and whether a fine has comments
+ */
+export function FineFeedFilterBar({ filters, onChange, players }: FineFeedFilterBarProps) {
+  const selectedTypes = filters.fineTypes ?? [];
+
+  const toggleType = (type: FineType) =>
+    onChange({
+      ...filters,
+      fineTypes: selectedTypes.includes(type)
+        ? selectedTypes.filter((selected) => selected !== type)
+        : FINE_TYPES.filter((candidate) => candidate === type || selectedTypes.includes(candidate)),
+    });
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 border-b border-gray-700 bg-gray-800 px-6 pb-3 text-sm text-gray-200">
+      <div role="group" aria-label="Fine type" className="flex gap-1">
+        {FINE_TYPES.map((type) => (
+          <button
+            key={type}
+            type="button"
+            aria-pressed={selectedTypes.includes(type)}
+            onClick={() => toggleType(type)}
+            className={`rounded border px-2 py-1 transition-colors ${
+              selectedTypes.includes(type)
+                ? "border-blue-500 bg-blue-600 text-white"
+                : "border-gray-600 bg-gray-700 hover:bg-gray-600"
+            }`}
+          >
+            {type}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <input
+          type="date"
+          aria-label="From date"
+          value={toDateInput(filters.dateRange?.from)}
+          max={toDateInput(filters.dateRange?.to) || undefined}
+          onChange={(e) => onChange({ ...filters, dateRange: { from: fromDateInput(e.target.value), to: filters.dateRange?.to } })}
+          className={fieldClassName}
+        />
+        <span>–</span>
+        <input
+          type="date"
+          aria-label="To date"
+          value={toDateInput(filters.dateRange?.to)}
+          min={toDateInput(filters.dateRange?.from) || undefined}
+          onChange={(e) => onChange({ ...filters, dateRange: { from: filters.dateRange?.from, to: fromDateInput(e.target.value) } })}
+          className={fieldClassName}
+        />
+      </div>
+
+      <div className="flex items-center gap-1">
+        <span>{currencySymbol()}</span>
+        <AmountInput
+          label="Minimum amount"
+          value={filters.minAmount}
+          onChange={(minAmount) => onChange({ ...filters, minAmount })}
+        />
+        <span>–</span>
+        <AmountInput
+          label="Maximum amount"
+          value={filters.maxAmount}
+          onChange={(maxAmount) => onChange({ ...filters, maxAmount })}
+        />
+      </div>
+
+      <div className="flex items-center gap-1">
+        <select
+          aria-label="Player role"
+          value={filters.playerRole ?? "subject"}
+          onChange={(e) => onChange({ ...filters, playerRole: e.target.value as FinePlayerRole })}
+          className={fieldClassName}
+        >
+          <option value="subject">Fined</option>
+          <option value="proposer">Fined by</option>
+        </select>
+        <select
+          aria-label="Player"
+          value={filters.playerId ?? ""}
+          onChange={(e) => onChange({ ...filters, playerId: e.target.value || null })}
+          className={fieldClassName}
+        >
+          <option value="">Anyone</option>
+          {players.map((player) => (
+            <option key={player.user_id} value={player.user_id}>
+              {player.name || player.username}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center gap-1.5">
+        <input
+          type="checkbox"
+          checked={Boolean(filters.hasComments)}
+          onChange={(e) => onChange({ ...filters, hasComments: e.target.checked })}
+          className="h-4 w-4 accent-blue-600"
+        />
+        Has comments
+      </label>
+    </div>
+  );
+}
+
+interface FineFilterChipsProps {
+  filters: FineFeedFilters;
+  onChange: (filters: FineFeedFilters) => void;
+  players: UserSelect[];
+}
+
+/**
+ * One removable chip per active filter, plus "Clear all"
+ */
+export function FineFilterChips({ filters, onChange, players }: FineFilterChipsProps) {
+  const chips = getFilterChips(filters, players);
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-b border-gray-200 bg-gray-50 px-4 py-2">
+      {chips.map((chip) => (
+        <span
+          key={chip.key}
+          className="inline-flex items-center gap-1 rounded-full border border-blue-200 bg-blue-50 py-0.5 pl-3 pr-1 text-xs font-medium text-blue-800"
+        >
+          {chip.label}
+          <button
+            type="button"
+            onClick={() => onChange(removeFilter(filters, chip.key))}
+            aria-label={`Remove filter ${chip.label}`}
+            className="rounded-full p-0.5 hover:bg-blue-100"
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange({ playerRole: filters.playerRole })}
+        className="text-xs text-gray-500 hover:text-blue-600 hover:underline"
+      >
+        Clear all
+      </button>
+    </div>
+  );
+}
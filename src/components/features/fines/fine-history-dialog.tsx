@@ -0,0 +1,153 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { History, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getFineEvents } from "@/lib/api/fines";
+import { formatMoney } from "@/lib/money";
+import type { FineEventWithActor } from "@/types/models";
+import type { Json } from "@/types/supabase";
+
+interface FineHistoryDialogProps {
+  isOpen: boolean;
+  fineId: string;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  description: "description",
+  amount: "amount",
+  fine_type: "type",
+  subject_id: "player",
+  proposer_id: "proposer",
+  date: "date",
+  void_reason: "void reason",
+};
+
+function formatValue(field: string, value: Json | undefined): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "amount") return formatMoney(Number(value));
+  if (field === "date") return new Date(String(value)).toLocaleString("en-US");
+  return String(value);
+}
+
+function asRecord(values: Json | null): Record<string, Json | undefined> {
+  return values && typeof values === "object" && !Array.isArray(values) ? values : {};
+}
+
+/**
+ * Turns an audit event into human readable change lines,
+ * e.g. `amount: $5.00 → $10.00`
+ */
+export function describeFineEventChanges(event: Pick<FineEventWithActor, "event_type" | "old_values" | "new_values">): string[] {
+  const oldValues = asRecord(event.old_values);
+  const newValues = asRecord(event.new_values);
+
+  if (event.event_type === "created") {
+    return [`${formatValue("amount", newValues.amount)} ${newValues.fine_type ?? ""} — ${newValues.description ?? ""}`.trim()];
+  }
+
+  if (event.event_type === "voided") {
+    return newValues.void_reason ? [`Reason: ${newValues.void_reason}`] : [];
+  }
+
+  return Object.keys(newValues)
+    .filter((field) => field in FIELD_LABELS)
+    .filter((field) => field !== "subject_id" && field !== "proposer_id")
+    .map((field) => `${FIELD_LABELS[field]}: ${formatValue(field, oldValues[field])} → ${formatValue(field, newValues[field])}`)
+    .concat(
+      ["subject_id", "proposer_id"]
+        .filter((field) => field in newValues)
+        .map((field) => `${FIELD_LABELS[field]} changed`)
+    );
+}
+
+const EVENT_LABELS: Record<FineEventWithActor["event_type"], string> = {
+  created: "created this fine",
+  edited: "edited this fine",
+  voided: "voided this fine",
+  restored: "restored this fine",
+};
+
+export function FineHistoryDialog({ isOpen, fineId, onClose }: FineHistoryDialogProps) {
+  const [events, setEvents] = useState<FineEventWithActor[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getFineEvents(fineId).then((result) => {
+      if (cancelled) return;
+      if (result.error) {
+        setError(result.error);
+      } else {
+        setEvents(result.data || []);
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, fineId]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div role="dialog" aria-labelledby="fine-history-dialog-title" className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4">
+        <div className="p-6 space-y-4">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+                <History className="w-5 h-5 text-blue-600" />
+              </div>
+              <h3 id="fine-history-dialog-title" className="text-lg font-semibold text-gray-900">
+                Fine History
+              </h3>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close history">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {/* Timeline */}
+          <div className="max-h-96 overflow-y-auto">
+            {loading ? (
+              <div className="text-sm text-gray-500 py-4 text-center">Loading history...</div>
+            ) : error ? (
+              <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+                {error}
+              </div>
+            ) : events.length === 0 ? (
+              <div className="text-sm text-gray-500 py-4 text-center">No changes recorded yet</div>
+            ) : (
+              <ol className="space-y-3">
+                {events.map((event) => (
+                  <li key={event.id} className="border-l-2 border-gray-200 pl-3">
+                    <div className="text-sm">
+                      <span className="font-semibold text-gray-900">{event.actor?.name || "Someone"}</span>{" "}
+                      <span className="text-gray-700">{EVENT_LABELS[event.event_type]}</span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(event.created_at).toLocaleString("en-US")}
+                    </div>
+                    {describeFineEventChanges(event).map((line) => (
+                      <div key={line} className="text-xs text-gray-700 mt-0.5">{line}</div>
+                    ))}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
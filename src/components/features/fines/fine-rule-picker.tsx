@@ -0,0 +1,57 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
+import { getFineRules } from "@/lib/api/rules";
+import { formatMoney } from "@/lib/money";
+import type { FineRule } from "@/types/models";
+
+// Radix Select items can't use an empty value
+const NO_RULE = "none";
+
+type FineRulePickerProps = {
+  value: string | null;
+  onSelect: (rule: FineRule | null) => void;
+  disabled?: boolean;
+};
+
+/**
+ * Lets the user start a fine from the rule book. Renders nothing while the rule book is empty.
+ */
+export function FineRulePicker({ value, onSelect, disabled }: FineRulePickerProps) {
+  const [rules, setRules] = useState<FineRule[]>([]);
+
+  useEffect(() => {
+    async function fetchRules() {
+      const { data } = await getFineRules();
+      setRules(data || []);
+    }
+
+    fetchRules();
+  }, []);
+
+  if (rules.length === 0) return null;
+
+  return (
+    <div>
+      <label className="block text-[#3b2a22] font-medium mb-2">Rule (optional)</label>
+      <Select
+        value={value || NO_RULE}
+        onValueChange={(ruleId: string) => onSelect(rules.find((rule) => rule.id === ruleId) || null)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]" aria-label="Rule">
+          <SelectValue placeholder="Pick from the rule book" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_RULE}>No rule</SelectItem>
+          {rules.map((rule) => (
+            <SelectItem key={rule.id} value={rule.id}>
+              {rule.code} · {rule.title} ({rule.default_type === "Warning" ? "Warning" : formatMoney(rule.default_amount)})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
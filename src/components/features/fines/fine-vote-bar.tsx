@@ -0,0 +1,159 @@
+"use client"
+
+import { useState } from "react";
+import { Check, ThumbsDown, ThumbsUp, X } from "lucide-react";
+import { can, type PermissionSubject } from "@/lib/permissions";
+import { castVote, decideFine, retractVote } from "@/lib/api/votes";
+import type { FineWithUsersQuery } from "@/types/api";
+import type { FineStatus, VoteChoice } from "@/types/models";
+
+interface FineVoteBarProps {
+  fine: Pick<FineWithUsersQuery, "id" | "subject_id" | "status" | "approve_votes" | "reject_votes" | "is_void">;
+  currentUser: PermissionSubject;
+  // The signed-in user's session token; the database takes the voter from it
+  token: string | null;
+  myVote?: VoteChoice | null;
+  threshold: number;
+  // Archived seasons show the outcome but take no more votes
+  readOnly?: boolean;
+  // Called before the request so the feed can update tallies optimistically
+  onVoteChange?: (fineId: string, vote: VoteChoice | null) => void;
+  onFineChanged?: () => void;
+}
+
+const statusStyles: Record<FineStatus, string> = {
+  pending: "text-amber-700 bg-amber-50",
+  approved: "text-green-700 bg-green-50",
+  rejected: "text-gray-600 bg-gray-100",
+  contested: "text-red-700 bg-red-50",
+};
+
+const statusLabels: Record<FineStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  contested: "Contested",
+};
+
+export function FineVoteBar({ fine, currentUser, token, myVote, threshold, readOnly = false, onVoteChange, onFineChanged }: FineVoteBarProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Settled fines read like any other message in the feed
+  if (!fine.status || fine.status === "approved" || fine.is_void) {
+    return null;
+  }
+
+  const resource = { type: "fine" as const, subjectId: fine.subject_id };
+  const open = !readOnly && (fine.status === "pending" || fine.status === "contested");
+  const canVote = open && can(currentUser, "vote", resource);
+  const canDecide = open && can(currentUser, "moderate", resource);
+
+  const handleVote = async (choice: VoteChoice) => {
+    if (!currentUser?.id || saving) return;
+
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+
+    // Clicking your current vote again takes it back
+    const next = myVote === choice ? null : choice;
+    setSaving(true);
+    setError(null);
+    onVoteChange?.(fine.id, next);
+
+    const { error } = next
+      ? await castVote(token, fine.id, next)
+      : await retractVote(token, fine.id);
+
+    if (error) {
+      // Roll the optimistic tally back
+      onVoteChange?.(fine.id, myVote ?? null);
+      setError(error);
+    }
+    setSaving(false);
+  };
+
+  const handleDecide = async (status: "approved" | "rejected") => {
+    if (!currentUser?.id || saving) return;
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const { error } = await decideFine(token, fine.id, status);
+    if (error) {
+      setError(error);
+    } else {
+      onFineChanged?.();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+      <span className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${statusStyles[fine.status]}`}>
+        {statusLabels[fine.status]}
+      </span>
+
+      {open && (
+        <>
+          <button
+            type="button"
+            onClick={() => handleVote("approve")}
+            disabled={!canVote || saving}
+            aria-pressed={myVote === "approve"}
+            title={canVote ? "Vote to approve" : "You can't vote on this fine"}
+            className={`inline-flex items-center gap-1 rounded border px-1.5 py-0.5 disabled:cursor-not-allowed disabled:opacity-60 ${
+              myVote === "approve" ? "border-green-300 bg-green-50 text-green-700" : "border-gray-200 text-gray-600 hover:bg-gray-100"
+            }`}
+          >
+            <ThumbsUp size={12} />
+            <span>{fine.approve_votes}/{threshold}</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => handleVote("reject")}
+            disabled={!canVote || saving}
+            aria-pressed={myVote === "reject"}
+            title={canVote ? "Vote to reject" : "You can't vote on this fine"}
+            className={`inline-flex items-center gap-1 rounded border px-1.5 py-0.5 disabled:cursor-not-allowed disabled:opacity-60 ${
+              myVote === "reject" ? "border-red-300 bg-red-50 text-red-700" : "border-gray-200 text-gray-600 hover:bg-gray-100"
+            }`}
+          >
+            <ThumbsDown size={12} />
+            <span>{fine.reject_votes}/{threshold}</span>
+          </button>
+        </>
+      )}
+
+      {canDecide && (
+        <>
+          <button
+            type="button"
+            onClick={() => handleDecide("approved")}
+            disabled={saving}
+            className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-green-700 hover:bg-green-50 disabled:opacity-60"
+          >
+            <Check size={12} />
+            Approve
+          </button>
+          <button
+            type="button"
+            onClick={() => handleDecide("rejected")}
+            disabled={saving}
+            className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-red-700 hover:bg-red-50 disabled:opacity-60"
+          >
+            <X size={12} />
+            Reject
+          </button>
+        </>
+      )}
+
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
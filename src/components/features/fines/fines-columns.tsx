@@ -3,6 +3,7 @@
 import { Button } from "@/components/ui/button"
 import { ColumnDef } from "@tanstack/react-table"
 import { ArrowUpDown } from "lucide-react"
+import { formatMoney } from "@/lib/money"
 import type { DataTableRow } from "@/types/common"
 
 export const columns: ColumnDef<DataTableRow>[] = [
@@ -108,11 +109,7 @@ export const columns: ColumnDef<DataTableRow>[] = [
       )
     },
     cell: ({ row }) => {
-      const amount = parseFloat(row.getValue("amount"))
-      const formatted = new Intl.NumberFormat("en-US", {
-        style: "currency",
-        currency: "USD",
-      }).format(amount)
+      const formatted = formatMoney(row.getValue("amount") as number)
 
       return <div className="text-right font-medium">{formatted}</div>
     },
@@ -1,4 +1,12 @@
 // Fines feature components
 export { AddFineForm } from "./add-fine-form";
 export { columns } from "./fines-columns";
-export { FineTypeToggle } from "./fine-type-toggle";
\ No newline at end of file
+export { FineTypeToggle } from "./fine-type-toggle";
+export { FineActionsMenu } from "./fine-actions-menu";
+export { EditFineDialog } from "./edit-fine-dialog";
+export { VoidFineDialog } from "./void-fine-dialog";
+export { FineHistoryDialog } from "./fine-history-dialog";
+export { FineVoteBar } from "./fine-vote-bar";
+export { BulkFineForm } from "./bulk-fine-form";
+export { FineRulePicker } from "./fine-rule-picker";
+export { FineFeedFilterBar, FineFilterChips } from "./fine-feed-filters";
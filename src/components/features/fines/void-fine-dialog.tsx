@@ -0,0 +1,119 @@
+"use client"
+
+import { useState } from "react";
+import { Ban, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { restoreFine, voidFine } from "@/lib/api/fines";
+
+interface VoidFineDialogProps {
+  isOpen: boolean;
+  fineId: string;
+  isVoid: boolean;
+  // The acting admin's session token
+  token: string | null;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+export function VoidFineDialog({
+  isOpen,
+  fineId,
+  isVoid,
+  token,
+  onClose,
+  onSaved
+}: VoidFineDialogProps) {
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleConfirm = async () => {
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const result = isVoid
+        ? await restoreFine(token, fineId)
+        : await voidFine(token, fineId, reason);
+
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      setReason("");
+      onSaved?.();
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div role="dialog" aria-labelledby="void-fine-dialog-title" className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+        <div className="p-6 space-y-4">
+          {/* Header */}
+          <div className="flex items-center space-x-3">
+            <div className={`w-10 h-10 rounded-full flex items-center justify-center ${isVoid ? "bg-green-100" : "bg-red-100"}`}>
+              {isVoid
+                ? <RotateCcw className="w-5 h-5 text-green-600" />
+                : <Ban className="w-5 h-5 text-red-600" />}
+            </div>
+            <div>
+              <h3 id="void-fine-dialog-title" className="text-lg font-semibold text-gray-900">
+                {isVoid ? "Restore Fine" : "Void Fine"}
+              </h3>
+              <p className="text-sm text-gray-500">
+                {isVoid
+                  ? "The fine will count towards totals again"
+                  : "The fine stays in the feed but no longer counts towards totals"}
+              </p>
+            </div>
+          </div>
+
+          {!isVoid && (
+            <div>
+              <label htmlFor="void-fine-reason" className="block text-sm font-medium text-gray-700 mb-2">
+                Reason (optional)
+              </label>
+              <Input
+                id="void-fine-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Entered for the wrong player"
+                disabled={saving}
+              />
+            </div>
+          )}
+
+          {error && (
+            <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-3">
+            <Button variant="outline" onClick={onClose} disabled={saving} className="px-4 py-2">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={saving}
+              className={`px-4 py-2 text-white ${isVoid ? "bg-green-600 hover:bg-green-700" : "bg-red-600 hover:bg-red-700"}`}
+            >
+              {saving ? "Saving..." : isVoid ? "Restore Fine" : "Void Fine"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
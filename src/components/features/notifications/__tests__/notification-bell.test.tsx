@@ -0,0 +1,105 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { NotificationBell } from '../notification-bell';
+import { useNotifications } from '@/hooks/use-notifications';
+import type { NotificationWithDetails } from '@/types/models';
+
+jest.mock('@/hooks/use-notifications', () => ({
+  useNotifications: jest.fn()
+}));
+
+const mockUseNotifications = useNotifications as jest.MockedFunction<typeof useNotifications>;
+
+const notifications: NotificationWithDetails[] = [
+  {
+    id: 'notification-1',
+    user_id: 'user-2',
+    actor_id: 'user-1',
+    type: 'fine',
+    fine_id: 'fine-1',
+    comment_id: null,
+    read_at: null,
+    created_at: '2024-01-02T10:00:00Z',
+    actor: { user_id: 'user-1', username: 'alice', name: 'Alice' },
+    fine: { id: 'fine-1', description: 'Late to training', fine_type: 'Fine', amount: 500 }
+  },
+  {
+    id: 'notification-2',
+    user_id: 'user-2',
+    actor_id: 'user-3',
+    type: 'reply',
+    fine_id: 'fine-2',
+    comment_id: 'comment-1',
+    read_at: '2024-01-01T12:00:00Z',
+    created_at: '2024-01-01T10:00:00Z',
+    actor: { user_id: 'user-3', username: 'carol', name: 'Carol' },
+    fine: { id: 'fine-2', description: 'Wrong kit', fine_type: 'Fine', amount: 200 }
+  }
+];
+
+describe('NotificationBell', () => {
+  const markRead = jest.fn();
+  const markAllRead = jest.fn();
+
+  beforeEach(() => {
+    mockUseNotifications.mockReturnValue({
+      notifications,
+      unreadCount: 1,
+      isLoading: false,
+      markRead,
+      markAllRead
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the unread count on the bell', () => {
+    render(<NotificationBell token="token-2" />);
+
+    expect(screen.getByRole('button', { name: 'Notifications (1 unread)' })).toHaveTextContent('1');
+    expect(mockUseNotifications).toHaveBeenCalledWith('token-2');
+  });
+
+  it('lists notifications that link to their fine', async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell token="token-2" />);
+
+    await user.click(screen.getByRole('button', { name: /Notifications/ }));
+
+    const fined = screen.getByRole('menuitem', { name: /Alice fined you \$5\.00/ });
+    expect(fined).toHaveAttribute('href', '/dashboard?fine=fine-1');
+    expect(screen.getByRole('menuitem', { name: /Carol replied to your comment/ })).toHaveAttribute('href', '/dashboard?fine=fine-2');
+  });
+
+  it('marks a single notification and all notifications read', async () => {
+    const user = userEvent.setup();
+    render(<NotificationBell token="token-2" />);
+
+    await user.click(screen.getByRole('button', { name: /Notifications/ }));
+    // Only the unread notification offers "Mark read"
+    await user.click(screen.getByRole('button', { name: 'Mark read' }));
+    expect(markRead).toHaveBeenCalledWith('notification-1');
+
+    await user.click(screen.getByRole('button', { name: 'Mark all read' }));
+    expect(markAllRead).toHaveBeenCalled();
+  });
+
+  it('says when there is nothing new', async () => {
+    mockUseNotifications.mockReturnValue({
+      notifications: [],
+      unreadCount: 0,
+      isLoading: false,
+      markRead,
+      markAllRead
+    });
+    const user = userEvent.setup();
+    render(<NotificationBell token="token-2" />);
+
+    await user.click(screen.getByRole('button', { name: 'Notifications' }));
+
+    expect(screen.getByText("You're all caught up.")).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Mark all read' })).not.toBeInTheDocument();
+  });
+});
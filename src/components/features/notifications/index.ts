@@ -0,0 +1,2 @@
+// Notification feature components
+export { NotificationBell } from "./notification-bell";
@@ -0,0 +1,104 @@
+"use client"
+
+import { useState } from "react";
+import Link from "next/link";
+import { Bell } from "lucide-react";
+import { useNotifications } from "@/hooks/use-notifications";
+import { describeNotification } from "@/lib/api/notifications";
+
+interface NotificationBellProps {
+  // The signed-in player's session token; notifications are only served against it
+  token?: string | null;
+}
+
+const formatWhen = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export function NotificationBell({ token }: NotificationBellProps) {
+  const [open, setOpen] = useState(false);
+  const { notifications, unreadCount, isLoading, markRead, markAllRead } = useNotifications(token);
+
+  const handleOpenNotification = (notificationId: string) => {
+    setOpen(false);
+    markRead(notificationId);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((isOpen) => !isOpen)}
+        className="relative rounded-md p-2 text-white hover:bg-white/20 transition-colors duration-200"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Bell size={20} />
+        {unreadCount > 0 && (
+          <span className="absolute -right-0.5 -top-0.5 flex h-5 min-w-5 items-center justify-center rounded-full bg-red-600 px-1 text-xs font-semibold text-white">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div role="menu" aria-label="Notifications" className="absolute right-0 z-20 mt-2 w-80 rounded-md border border-gray-200 bg-white text-gray-900 shadow-lg">
+            <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+              <span className="font-semibold text-[#3b2a22]">Notifications</span>
+              {unreadCount > 0 && (
+                <button
+                  onClick={markAllRead}
+                  className="text-xs text-gray-500 hover:text-[#6b4a41] hover:underline"
+                >
+                  Mark all read
+                </button>
+              )}
+            </div>
+
+            {isLoading ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500">Loading...</p>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500">You&apos;re all caught up.</p>
+            ) : (
+              <ul className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+                {notifications.map((notification) => (
+                  <li key={notification.id} className={`flex items-start gap-2 px-4 py-3 ${notification.read_at ? "" : "bg-amber-50"}`}>
+                    <Link
+                      role="menuitem"
+                      href={notification.fine_id ? `/dashboard?fine=${notification.fine_id}` : "/dashboard"}
+                      onClick={() => handleOpenNotification(notification.id)}
+                      className="min-w-0 flex-1"
+                    >
+                      <p className={`text-sm ${notification.read_at ? "text-gray-700" : "font-medium text-gray-900"}`}>
+                        {describeNotification(notification)}
+                      </p>
+                      {notification.fine && (
+                        <p className="truncate text-xs text-gray-500">{notification.fine.description}</p>
+                      )}
+                      <p className="mt-0.5 text-xs text-gray-400">{formatWhen(notification.created_at)}</p>
+                    </Link>
+                    {!notification.read_at && (
+                      <button
+                        onClick={() => markRead(notification.id)}
+                        className="flex-shrink-0 text-xs text-gray-500 hover:text-[#6b4a41] hover:underline"
+                      >
+                        Mark read
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { RecordPaymentForm, validatePaymentForm } from "../record-payment-form";
+import { recordPayment } from "@/lib/api/payments";
+
+jest.mock("@/lib/supabase/client", () => ({
+  createClient: () => ({
+    from: jest.fn(() => ({
+      select: jest.fn().mockReturnThis(),
+      order: jest.fn().mockResolvedValue({
+        data: [{ user_id: "1", name: "Alice", username: "alice" }],
+        error: null,
+      }),
+    })),
+  }),
+}));
+
+jest.mock("@/lib/api/payments", () => ({
+  recordPayment: jest.fn(),
+}));
+
+const mockRecordPayment = recordPayment as jest.MockedFunction<typeof recordPayment>;
+
+describe("RecordPaymentForm", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("renders the payment fields", async () => {
+    render(<RecordPaymentForm currentUserObject={{ user_id: "admin-1", role: "Admin" }} token="token-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Select player")).toBeInTheDocument();
+    });
+    expect(screen.getByText("Method")).toBeInTheDocument();
+    expect(screen.getByLabelText("Amount ($)")).toBeInTheDocument();
+    expect(screen.getByLabelText("Date")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Record Payment" })).toBeEnabled();
+  });
+
+  it("disables recording for members", () => {
+    render(<RecordPaymentForm currentUserObject={{ user_id: "user-1", role: "User" }} token="token-1" />);
+
+    expect(screen.getByRole("button", { name: "Record Payment" })).toBeDisabled();
+  });
+
+  it("shows validation errors instead of saving an incomplete payment", async () => {
+    const user = userEvent.setup();
+    render(<RecordPaymentForm currentUserObject={{ user_id: "admin-1", role: "Admin" }} token="token-1" />);
+
+    await user.type(screen.getByLabelText("Amount ($)"), "20");
+    await user.click(screen.getByRole("button", { name: "Record Payment" }));
+
+    expect(await screen.findByText("Player is required.")).toBeInTheDocument();
+    expect(mockRecordPayment).not.toHaveBeenCalled();
+  });
+});
+
+describe("validatePaymentForm", () => {
+  it("accepts a complete payment", () => {
+    expect(validatePaymentForm({ player_id: "1", amount: 20, method: "Cash", paid_at: "2025-09-01" }).valid).toBe(true);
+  });
+
+  it("rejects non-positive amounts and future dates", () => {
+    const result = validatePaymentForm({ player_id: "1", amount: 0, method: "Card", paid_at: "2999-01-01" });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.amount).toBe("Amount must be greater than zero.");
+    expect(result.errors.paid_at).toBe("Date can't be in the future.");
+  });
+});
@@ -0,0 +1,2 @@
+// Payments feature components
+export { RecordPaymentForm } from "./record-payment-form";
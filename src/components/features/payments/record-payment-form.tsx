@@ -0,0 +1,222 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
+import { createClient } from "@/lib/supabase/client";
+import { recordPayment } from "@/lib/api/payments";
+import { can } from "@/lib/permissions";
+import { currencySymbol, parseMoney } from "@/lib/money";
+import { Constants } from "@/types/supabase";
+import type { PaymentMethod, RecordPaymentFormData, UserSelect } from "@/types/models";
+
+const paymentMethods = Constants.public.Enums.payment_method_enum;
+
+async function getPlayers(): Promise<UserSelect[]> {
+  const supabase = createClient();
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('user_id, username, name')
+    .order('username');
+
+  if (error) {
+    console.error('Error fetching users:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+// Today's date in the yyyy-mm-dd form a date input expects
+function today(): string {
+  const now = new Date();
+  const offset = now.getTimezoneOffset() * 60000;
+  return new Date(now.getTime() - offset).toISOString().slice(0, 10);
+}
+
+export function validatePaymentForm(values: RecordPaymentFormData): { valid: boolean; errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+
+  if (!values.player_id || values.player_id.trim() === "") {
+    errors.player_id = "Player is required.";
+  }
+
+  if (!(values.amount > 0)) {
+    errors.amount = "Amount must be greater than zero.";
+  }
+
+  if (!values.paid_at) {
+    errors.paid_at = "Date is required.";
+  } else if (values.paid_at > today()) {
+    errors.paid_at = "Date can't be in the future.";
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+type RecordPaymentFormProps = {
+  onPaymentRecorded?: () => void;
+  currentUserObject: { user_id: string, role?: string };
+  // The signed-in admin's session token; the database checks it before recording
+  token: string | null;
+  seasonId?: string;
+};
+
+export function RecordPaymentForm({ onPaymentRecorded, currentUserObject, token, seasonId }: RecordPaymentFormProps) {
+  const [players, setPlayers] = useState<UserSelect[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [playerId, setPlayerId] = useState("");
+  const [amountInput, setAmountInput] = useState("");
+  const [method, setMethod] = useState<PaymentMethod>("Cash");
+  const [paidAt, setPaidAt] = useState(today());
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canRecordPayment = can(
+    { id: currentUserObject.user_id, role: currentUserObject.role },
+    "create",
+    { type: "payment" }
+  );
+
+  useEffect(() => {
+    async function fetchPlayers() {
+      try {
+        setPlayers(await getPlayers());
+      } catch (error) {
+        console.error('Failed to fetch users:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchPlayers();
+  }, []);
+
+  const handleSubmit = async () => {
+    const values: RecordPaymentFormData = { player_id: playerId, amount: parseMoney(amountInput) ?? 0, method, paid_at: paidAt, note };
+    const validation = validatePaymentForm(values);
+    if (!validation.valid) {
+      setError(Object.values(validation.errors).join(" "));
+      return;
+    }
+
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const result = await recordPayment(token, values, seasonId);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+
+      // Keep the method and date; treasurers tend to enter a batch at once
+      setPlayerId("");
+      setAmountInput("");
+      setNote("");
+      onPaymentRecorded?.();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Form Header */}
+      <div className="bg-[#7d6c64] text-white px-4 py-3 rounded-md">
+        <h3 className="text-lg font-semibold">Record Payment</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-[#3b2a22] font-medium mb-2">Player</label>
+          <Select value={playerId} onValueChange={(value: string) => setPlayerId(value)}>
+            <SelectTrigger className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]">
+              <SelectValue placeholder={loading ? "Loading users..." : "Select player"} />
+            </SelectTrigger>
+            <SelectContent>
+              {players.map((player) => (
+                <SelectItem key={player.user_id} value={player.user_id}>
+                  {player.name || player.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="block text-[#3b2a22] font-medium mb-2">Method</label>
+          <Select value={method} onValueChange={(value: string) => setMethod(value as PaymentMethod)}>
+            <SelectTrigger className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {paymentMethods.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label htmlFor="payment-amount" className="block text-[#3b2a22] font-medium mb-2">Amount ({currencySymbol()})</label>
+          <Input
+            id="payment-amount"
+            type="number"
+            step="0.01"
+            placeholder="Enter amount"
+            className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400"
+            value={amountInput}
+            onChange={(e) => setAmountInput(e.target.value)}
+          />
+        </div>
+        <div>
+          <label htmlFor="payment-date" className="block text-[#3b2a22] font-medium mb-2">Date</label>
+          <Input
+            id="payment-date"
+            type="date"
+            max={today()}
+            className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+            value={paidAt}
+            onChange={(e) => setPaidAt(e.target.value)}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label htmlFor="payment-note" className="block text-[#3b2a22] font-medium mb-2">Note (optional)</label>
+          <Input
+            id="payment-note"
+            placeholder="e.g. paid at training"
+            className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          className="bg-[#7d6c64] hover:bg-[#6b4a41] text-white font-semibold px-6 py-2 shadow"
+          disabled={submitting || !canRecordPayment}
+          onClick={handleSubmit}
+        >
+          {submitting ? "Recording..." : "Record Payment"}
+        </Button>
+      </div>
+    </div>
+  );
+}
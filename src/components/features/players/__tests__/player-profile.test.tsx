@@ -0,0 +1,132 @@
+import { render, screen, within } from '@testing-library/react';
+import { PlayerProfile } from '../player-profile';
+import { useSeason } from '@/contexts/season-context';
+import { getPayments } from '@/lib/api/payments';
+import { getPlayer, getPlayerComments, getPlayerFines } from '@/lib/api/players';
+import type { FineWithUsersQuery } from '@/types/api';
+
+jest.mock('@/contexts/season-context', () => ({
+  useSeason: jest.fn()
+}));
+
+jest.mock('@/lib/api/payments', () => ({
+  getPayments: jest.fn()
+}));
+
+jest.mock('@/lib/api/players', () => ({
+  ...jest.requireActual('@/lib/api/players'),
+  getPlayer: jest.fn(),
+  getPlayerFines: jest.fn(),
+  getPlayerComments: jest.fn()
+}));
+
+// Mock data for testing
+const mockFines: FineWithUsersQuery[] = [
+  {
+    id: 'fine-1',
+    date: '2024-03-01T10:00:00Z',
+    fine_type: 'Fine',
+    description: 'Late to training',
+    amount: 500,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 1,
+    reject_votes: 0,
+    subject_id: 'bob',
+    proposer_id: 'alice',
+    subject: { name: 'Bob' },
+    proposer: { name: 'Alice' }
+  },
+  {
+    id: 'credit-1',
+    date: '2024-03-01T10:00:00Z',
+    fine_type: 'Credit',
+    description: 'Man of the match',
+    amount: 200,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 1,
+    reject_votes: 0,
+    subject_id: 'bob',
+    proposer_id: 'alice',
+    subject: { name: 'Bob' },
+    proposer: { name: 'Alice' }
+  },
+  {
+    id: 'fine-2',
+    date: '2024-03-01T10:00:00Z',
+    fine_type: 'Fine',
+    description: 'Wrong kit',
+    amount: 500,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 1,
+    reject_votes: 0,
+    subject_id: 'carol',
+    proposer_id: 'bob',
+    subject: { name: 'Carol' },
+    proposer: { name: 'Bob' }
+  }
+];
+
+describe('PlayerProfile', () => {
+  beforeEach(() => {
+    (useSeason as jest.Mock).mockReturnValue({ currentSeason: { id: 'season-1', name: '2024' } });
+    (getPlayer as jest.Mock).mockResolvedValue({ data: { user_id: 'bob', username: 'bob', name: 'Bob' }, error: null });
+    (getPlayerFines as jest.Mock).mockResolvedValue({
+      data: mockFines,
+      error: null
+    });
+    (getPayments as jest.Mock).mockResolvedValue({
+      data: [{ id: 'payment-1', amount: 100, paid_at: '2024-03-02', method: 'Cash', player_id: 'bob' }],
+      error: null
+    });
+    (getPlayerComments as jest.Mock).mockResolvedValue({
+      data: {
+        comments: [{ id: 'comment-1', fine_id: 'fine-2', content: 'Ask @[Carol](c0ffee00-0000-4000-8000-000000000000)', created_at: '2024-03-02T10:00:00Z', fine: { id: 'fine-2', description: 'Wrong kit' } }],
+        total: 4
+      },
+      error: null
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the season totals and the fines by kind', async () => {
+    render(<PlayerProfile playerId="bob" />);
+
+    expect(await screen.findByRole('heading', { name: 'Bob' })).toBeInTheDocument();
+    expect(getPayments).toHaveBeenCalledWith('season-1', 'bob');
+    expect(screen.getByText('Outstanding').nextSibling).toHaveTextContent('$2.00');
+
+    const received = screen.getByRole('region', { name: 'Fines received' });
+    expect(within(received).getByRole('link', { name: 'Late to training' })).toHaveAttribute('href', '/dashboard?fine=fine-1');
+    expect(within(received).getByRole('link', { name: 'Alice' })).toHaveAttribute('href', '/players?id=alice');
+
+    expect(within(screen.getByRole('region', { name: 'Credits' })).getByText('Man of the match')).toBeInTheDocument();
+    const proposed = screen.getByRole('region', { name: 'Fines proposed' });
+    expect(within(proposed).getByRole('link', { name: 'Carol' })).toHaveAttribute('href', '/players?id=carol');
+  });
+
+  it('charts the balance and lists recent comments', async () => {
+    render(<PlayerProfile playerId="bob" />);
+
+    expect(await screen.findByRole('img', { name: 'Balance over time, now $2.00' })).toBeInTheDocument();
+    const comments = screen.getByRole('region', { name: 'Comments' });
+    expect(comments).toHaveTextContent('(4)');
+    expect(within(comments).getByRole('link', { name: 'Ask @Carol' })).toHaveAttribute('href', '/dashboard?fine=fine-2&comment=comment-1');
+  });
+
+  it('says when the player could not be loaded', async () => {
+    (getPlayer as jest.Mock).mockResolvedValue({ data: null, error: 'JSON object requested, multiple (or no) rows returned' });
+
+    render(<PlayerProfile playerId="nobody" />);
+
+    expect(await screen.findByText(/Could not load this player/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,93 @@
+import { formatMoney } from "@/lib/money";
+import type { BalancePoint } from "@/lib/api/players";
+
+interface BalanceChartProps {
+  points: BalancePoint[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 64 };
+
+const formatDay = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+/**
+ * The outstanding balance over time as a step line: it holds until the next
+ * fine, credit or payment moves it
+ */
+export function BalanceChart({ points }: BalanceChartProps) {
+  if (points.length === 0) {
+    return <p className="py-8 text-center text-sm text-gray-500">No fines or payments yet this season.</p>;
+  }
+
+  const times = points.map((point) => new Date(point.date).getTime());
+  const balances = points.map((point) => point.balance);
+  const first = times[0];
+  const last = times[times.length - 1];
+  const low = Math.min(0, ...balances);
+  const high = Math.max(0, ...balances);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  // A single day still gets a visible line
+  const x = (time: number) => PADDING.left + (last === first ? plotWidth : ((time - first) / (last - first)) * plotWidth);
+  const y = (balance: number) => PADDING.top + (high === low ? plotHeight : ((high - balance) / (high - low)) * plotHeight);
+
+  const path = points.reduce(
+    (d, point, index) => `${d} H ${x(times[index])} V ${y(point.balance)}`,
+    `M ${PADDING.left} ${y(0)}`
+  );
+  const current = points[points.length - 1].balance;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="h-auto w-full"
+      role="img"
+      aria-label={`Balance over time, now ${formatMoney(current)}`}
+    >
+      {/* Axis labels */}
+      <text x={PADDING.left - 8} y={y(high) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+        {formatMoney(high)}
+      </text>
+      {low < 0 && (
+        <text x={PADDING.left - 8} y={y(low) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {formatMoney(low)}
+        </text>
+      )}
+      <text x={PADDING.left} y={HEIGHT - 6} className="fill-gray-500 text-[10px]">
+        {formatDay(points[0].date)}
+      </text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-[10px]">
+        {formatDay(points[points.length - 1].date)}
+      </text>
+
+      {/* Zero line */}
+      <line
+        x1={PADDING.left}
+        x2={WIDTH - PADDING.right}
+        y1={y(0)}
+        y2={y(0)}
+        className="stroke-gray-300"
+        strokeDasharray="4 4"
+      />
+
+      <path d={path} fill="none" className="stroke-[#6b4a41]" strokeWidth={2} />
+
+      {points.map((point, index) => (
+        <circle
+          key={index}
+          cx={x(times[index])}
+          cy={y(point.balance)}
+          r={3}
+          className={point.change < 0 ? "fill-green-600" : "fill-red-600"}
+        >
+          <title>
+            {`${formatDay(point.date)}: ${point.label} (${point.change < 0 ? "-" : "+"}${formatMoney(point.change, { signed: false })}), balance ${formatMoney(point.balance)}`}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
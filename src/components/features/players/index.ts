@@ -0,0 +1,4 @@
+// Player feature components
+export { PlayerLink } from "./player-link";
+export { PlayerProfile } from "./player-profile";
+export { BalanceChart } from "./balance-chart";
@@ -0,0 +1,22 @@
+import Link from "next/link";
+
+interface PlayerLinkProps {
+  playerId?: string | null;
+  children: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * A player's name linking to their profile; plain text when the player is unknown
+ */
+export function PlayerLink({ playerId, children, className = "" }: PlayerLinkProps) {
+  if (!playerId) {
+    return <span className={className}>{children}</span>;
+  }
+
+  return (
+    <Link href={`/players?id=${playerId}`} className={`hover:underline ${className}`}>
+      {children}
+    </Link>
+  );
+}
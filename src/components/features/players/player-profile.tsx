@@ -0,0 +1,222 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useSeason } from "@/contexts/season-context";
+import { getPayments } from "@/lib/api/payments";
+import {
+  buildBalanceTimeline,
+  getPlayer,
+  getPlayerComments,
+  getPlayerFines,
+  summarizePlayerFines,
+} from "@/lib/api/players";
+import { mentionsToText } from "@/lib/mentions";
+import { formatMoney } from "@/lib/money";
+import { BalanceChart } from "./balance-chart";
+import { PlayerLink } from "./player-link";
+import type { FineWithUsersQuery } from "@/types/api";
+import type { PaymentWithPlayer, PlayerComment, UserSelect } from "@/types/models";
+
+interface PlayerProfileProps {
+  playerId: string;
+}
+
+type ProfileData = {
+  player: UserSelect;
+  fines: FineWithUsersQuery[];
+  payments: PaymentWithPlayer[];
+  comments: PlayerComment[];
+  commentTotal: number;
+};
+
+const formatDay = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+const relatedName = (related: FineWithUsersQuery["subject"]) =>
+  (Array.isArray(related) ? related[0]?.name : related?.name) || "Unknown";
+
+interface FineListProps {
+  title: string;
+  fines: FineWithUsersQuery[];
+  // Who to name next to each fine: the proposer on received fines, the subject on proposed ones
+  show: "proposer" | "subject";
+}
+
+function FineList({ title, fines, show }: FineListProps) {
+  return (
+    <section aria-label={title}>
+      <h2 className="mb-2 text-lg font-semibold text-gray-900">
+        {title} <span className="text-sm font-normal text-gray-500">({fines.length})</span>
+      </h2>
+      {fines.length === 0 ? (
+        <p className="rounded-lg border border-gray-200 px-4 py-3 text-sm text-gray-500">None this season.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200">
+          {fines.map((fine) => {
+            const other = show === "proposer"
+              ? { id: fine.proposer_id, name: relatedName(fine.proposer), prefix: "by" }
+              : { id: fine.subject_id, name: relatedName(fine.subject), prefix: "for" };
+            const muted = fine.is_void || fine.status === "rejected";
+
+            return (
+              <li key={fine.id} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                <div className="min-w-0">
+                  <Link
+                    href={`/dashboard?fine=${fine.id}`}
+                    className={`block truncate hover:underline ${muted ? "text-gray-400 line-through" : "text-gray-900"}`}
+                  >
+                    {fine.description}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    {formatDay(fine.date)} · {other.prefix} <PlayerLink playerId={other.id}>{other.name}</PlayerLink>
+                    {fine.status !== "approved" && ` · ${fine.status}`}
+                    {fine.is_void && " · voided"}
+                  </p>
+                </div>
+                {fine.fine_type !== "Warning" && (
+                  <span className={`flex-shrink-0 font-medium ${fine.fine_type === "Credit" ? "text-green-700" : "text-gray-900"}`}>
+                    {formatMoney(fine.amount)}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+/**
+ * A player's season: what they were fined, credited and warned for, what they
+ * proposed, their running balance and their comments
+ */
+export function PlayerProfile({ playerId }: PlayerProfileProps) {
+  const { currentSeason } = useSeason();
+  const seasonId = currentSeason?.id;
+  const [profile, setProfile] = useState<ProfileData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!seasonId) return;
+
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      const [playerResult, finesResult, paymentsResult, commentsResult] = await Promise.all([
+        getPlayer(playerId),
+        getPlayerFines(playerId, seasonId),
+        getPayments(seasonId, playerId),
+        getPlayerComments(playerId, seasonId),
+      ]);
+      if (cancelled) return;
+
+      const failed = [playerResult, finesResult, paymentsResult, commentsResult].find((result) => result.error);
+      if (failed || !playerResult.data) {
+        setError(failed?.error || "Player not found");
+        setProfile(null);
+      } else {
+        setError(null);
+        setProfile({
+          player: playerResult.data,
+          fines: finesResult.data || [],
+          payments: paymentsResult.data || [],
+          comments: commentsResult.data?.comments || [],
+          commentTotal: commentsResult.data?.total || 0,
+        });
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId, seasonId]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return <p className="py-12 text-center text-red-600">Could not load this player: {error}</p>;
+  }
+
+  const { player, fines, payments, comments, commentTotal } = profile;
+  const summary = summarizePlayerFines(fines, playerId);
+  const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  const outstanding = summary.fined - summary.credited - paid;
+  const timeline = buildBalanceTimeline(fines, payments, playerId);
+
+  const stats = [
+    { label: "Fined", value: formatMoney(summary.fined) },
+    { label: "Credited", value: formatMoney(summary.credited) },
+    { label: "Paid", value: formatMoney(paid) },
+    { label: "Outstanding", value: formatMoney(outstanding), tone: outstanding > 0 ? "text-red-600" : "text-green-600" },
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">{player.name || player.username}</h1>
+        <div className="w-24 h-0.5 bg-amber-600 mx-auto"></div>
+        <p className="mt-2 text-sm text-gray-500">
+          @{player.username}
+          {currentSeason && ` · ${currentSeason.name} season`}
+        </p>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-lg border border-gray-200 bg-gray-100 p-4 text-center">
+            <dt className="text-xs text-gray-600">{stat.label}</dt>
+            <dd className={`text-xl font-bold ${stat.tone ?? "text-gray-900"}`}>{stat.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <section aria-label="Balance over time">
+        <h2 className="mb-2 text-lg font-semibold text-gray-900">Balance over time</h2>
+        <div className="rounded-lg border border-gray-200 p-4">
+          <BalanceChart points={timeline} />
+        </div>
+      </section>
+
+      <div className="grid grid-cols-1 gap-8 lg:grid-cols-2">
+        <FineList title="Fines received" fines={summary.fines} show="proposer" />
+        <FineList title="Credits" fines={summary.credits} show="proposer" />
+        <FineList title="Warnings" fines={summary.warnings} show="proposer" />
+        <FineList title="Fines proposed" fines={summary.proposed} show="subject" />
+      </div>
+
+      <section aria-label="Comments">
+        <h2 className="mb-2 text-lg font-semibold text-gray-900">
+          Comments <span className="text-sm font-normal text-gray-500">({commentTotal})</span>
+        </h2>
+        {comments.length === 0 ? (
+          <p className="rounded-lg border border-gray-200 px-4 py-3 text-sm text-gray-500">No comments this season.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200">
+            {comments.map((comment) => (
+              <li key={comment.id} className="px-4 py-2 text-sm">
+                <Link href={`/dashboard?fine=${comment.fine_id}&comment=${comment.id}`} className="block hover:underline">
+                  <span className="line-clamp-2 text-gray-900">{mentionsToText(comment.content)}</span>
+                </Link>
+                <p className="text-xs text-gray-500">
+                  {formatDay(comment.created_at)}
+                  {comment.fine && ` · on "${comment.fine.description}"`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ReactionChips, describeReactors } from '../reaction-chips';
+import { EmojiPicker } from '../emoji-picker';
+
+const thumbsUp = { emoji: '👍', count: 3, names: ['Alice', 'Bob', 'Carol'], reactedByMe: true };
+const laughing = { emoji: '😂', count: 1, names: ['Dave'], reactedByMe: false };
+
+describe('ReactionChips', () => {
+  it('shows each emoji with its count and who reacted', () => {
+    render(<ReactionChips reactions={[thumbsUp, laughing]} onToggle={() => {}} />);
+
+    const chip = screen.getByRole('button', { name: 'Alice, Bob and Carol reacted with 👍' });
+    expect(chip).toHaveTextContent('👍3');
+    expect(chip).toHaveAttribute('title', 'Alice, Bob and Carol reacted with 👍');
+    expect(chip).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: 'Dave reacted with 😂' })).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('toggles the emoji when a chip is clicked', async () => {
+    const user = userEvent.setup();
+    const onToggle = jest.fn();
+    render(<ReactionChips reactions={[laughing]} onToggle={onToggle} />);
+
+    await user.click(screen.getByRole('button', { name: 'Dave reacted with 😂' }));
+
+    expect(onToggle).toHaveBeenCalledWith('😂');
+  });
+
+  it('is display-only without onToggle', () => {
+    render(<ReactionChips reactions={[laughing]} />);
+
+    expect(screen.getByRole('button', { name: 'Dave reacted with 😂' })).toBeDisabled();
+  });
+
+  it('renders nothing when there are no reactions', () => {
+    const { container } = render(<ReactionChips reactions={[]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('describes a single reactor', () => {
+    expect(describeReactors(laughing)).toBe('Dave reacted with 😂');
+  });
+});
+
+describe('EmojiPicker', () => {
+  it('opens the emoji menu and reports the chosen emoji', async () => {
+    const user = userEvent.setup();
+    const onSelect = jest.fn();
+    render(<EmojiPicker onSelect={onSelect} selected={['👍']} />);
+
+    await user.click(screen.getByRole('button', { name: 'Add reaction' }));
+    expect(screen.getByRole('menuitemcheckbox', { name: 'React with 👍' })).toHaveAttribute('aria-checked', 'true');
+
+    await user.click(screen.getByRole('menuitemcheckbox', { name: 'React with 🔥' }));
+
+    expect(onSelect).toHaveBeenCalledWith('🔥');
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,67 @@
+"use client"
+
+import { useState } from "react";
+import { Smile } from "lucide-react";
+
+// The emoji offered by the picker
+export const REACTION_EMOJIS = ["👍", "👎", "😂", "🔥", "😬", "👏", "💸", "🍺"];
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void;
+  // Emoji the viewer has already used, shown pressed; picking one again takes it back
+  selected?: string[];
+  buttonClassName?: string;
+  iconSize?: number;
+}
+
+export function EmojiPicker({
+  onSelect,
+  selected = [],
+  buttonClassName = "p-1 rounded hover:bg-gray-200 text-gray-500",
+  iconSize = 16,
+}: EmojiPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const handleSelect = (emoji: string) => {
+    setOpen(false);
+    onSelect(emoji);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className={buttonClassName}
+        onClick={() => setOpen((isOpen) => !isOpen)}
+        title="Add reaction"
+        aria-label="Add reaction"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Smile size={iconSize} />
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div role="menu" aria-label="Reactions" className="absolute left-0 z-20 mt-1 flex gap-1 rounded-md border border-gray-200 bg-white p-1 shadow-lg">
+            {REACTION_EMOJIS.map((emoji) => (
+              <button
+                key={emoji}
+                type="button"
+                role="menuitemcheckbox"
+                aria-checked={selected.includes(emoji)}
+                aria-label={`React with ${emoji}`}
+                className={`h-8 w-8 rounded text-lg leading-none hover:bg-gray-100 ${selected.includes(emoji) ? "bg-amber-50 ring-1 ring-amber-300" : ""}`}
+                onClick={() => handleSelect(emoji)}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+// Reaction feature components
+export { EmojiPicker, REACTION_EMOJIS } from "./emoji-picker";
+export { ReactionChips } from "./reaction-chips";
@@ -0,0 +1,51 @@
+"use client"
+
+import type { ReactionSummary } from "@/types/models";
+
+interface ReactionChipsProps {
+  reactions: ReactionSummary[];
+  // Omitted when reacting isn't allowed (signed out, archived season); chips are then display-only
+  onToggle?: (emoji: string) => void;
+  className?: string;
+}
+
+/**
+ * Tooltip text for a chip, e.g. "Alice, Bob and Carol reacted with 👍"
+ */
+export function describeReactors(reaction: ReactionSummary): string {
+  const { names, emoji } = reaction;
+  const who = names.length > 1
+    ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+    : names[0];
+  return `${who} reacted with ${emoji}`;
+}
+
+export function ReactionChips({ reactions, onToggle, className = "" }: ReactionChipsProps) {
+  if (reactions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 ${className}`}>
+      {reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          type="button"
+          title={describeReactors(reaction)}
+          aria-label={describeReactors(reaction)}
+          aria-pressed={reaction.reactedByMe}
+          disabled={!onToggle}
+          onClick={() => onToggle?.(reaction.emoji)}
+          className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+            reaction.reactedByMe
+              ? "border-amber-300 bg-amber-50 text-[#6b4a41]"
+              : "border-gray-200 bg-white text-gray-600"
+          } ${onToggle ? "hover:border-[#7d6c64]" : "cursor-default"}`}
+        >
+          <span>{reaction.emoji}</span>
+          <span className="font-medium">{reaction.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
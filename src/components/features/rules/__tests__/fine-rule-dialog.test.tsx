@@ -0,0 +1,80 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { FineRuleDialog, validateFineRuleForm } from "../fine-rule-dialog";
+import { createFineRule, updateFineRule } from "@/lib/api/rules";
+
+jest.mock("@/lib/api/rules", () => ({
+  createFineRule: jest.fn(),
+  updateFineRule: jest.fn(),
+}));
+
+const mockCreateFineRule = createFineRule as jest.MockedFunction<typeof createFineRule>;
+const mockUpdateFineRule = updateFineRule as jest.MockedFunction<typeof updateFineRule>;
+
+const rule = {
+  id: "rule-1",
+  code: "LATE",
+  title: "Late to practice",
+  default_amount: 500,
+  default_type: "Fine" as const,
+  is_active: true,
+  created_at: "2025-08-01T00:00:00Z",
+  updated_at: "2025-08-01T00:00:00Z",
+};
+
+describe("FineRuleDialog", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("creates a rule with its default amount in cents", async () => {
+    mockCreateFineRule.mockResolvedValue({ data: rule, error: null });
+    const onSaved = jest.fn();
+    const user = userEvent.setup();
+    render(<FineRuleDialog isOpen token="token-1" onClose={jest.fn()} onSaved={onSaved} />);
+
+    await user.type(screen.getByLabelText("Code"), "late");
+    await user.type(screen.getByLabelText("Title"), "Late to practice");
+    await user.type(screen.getByLabelText("Default amount ($)"), "5");
+    await user.click(screen.getByRole("button", { name: "Add Rule" }));
+
+    await waitFor(() => {
+      expect(mockCreateFineRule).toHaveBeenCalledWith("token-1", {
+        code: "late",
+        title: "Late to practice",
+        default_amount: 500,
+        default_type: "Fine",
+      });
+      expect(onSaved).toHaveBeenCalledWith(rule);
+    });
+  });
+
+  it("pre-fills and updates an existing rule", async () => {
+    mockUpdateFineRule.mockResolvedValue({ data: { ...rule, default_amount: 750 }, error: null });
+    const user = userEvent.setup();
+    render(<FineRuleDialog isOpen token="token-1" rule={rule} onClose={jest.fn()} />);
+
+    const amountInput = screen.getByLabelText("Default amount ($)");
+    expect(amountInput).toHaveValue(5);
+    await user.clear(amountInput);
+    await user.type(amountInput, "7.50");
+    await user.click(screen.getByRole("button", { name: "Save Rule" }));
+
+    await waitFor(() => {
+      expect(mockUpdateFineRule).toHaveBeenCalledWith("token-1", "rule-1", expect.objectContaining({ default_amount: 750 }));
+    });
+  });
+});
+
+describe("validateFineRuleForm", () => {
+  it("rejects codes with spaces and fines without an amount", () => {
+    const result = validateFineRuleForm({ code: "NO JERSEY", title: "Forgot jersey", default_amount: 0, default_type: "Fine" });
+
+    expect(result.errors.code).toBe("Code must be 1-12 letters, digits or dashes.");
+    expect(result.errors.default_amount).toBe("Amount must be greater than zero.");
+  });
+
+  it("lets warnings go without an amount", () => {
+    expect(validateFineRuleForm({ code: "PHONE", title: "Phone at dinner", default_amount: 0, default_type: "Warning" }).valid).toBe(true);
+  });
+});
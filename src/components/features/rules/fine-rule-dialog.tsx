@@ -0,0 +1,185 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { BookOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { FineTypeToggle } from "@/components/features/fines";
+import { createFineRule, updateFineRule } from "@/lib/api/rules";
+import { centsToInput, currencySymbol, parseMoney } from "@/lib/money";
+import type { FineRule, FineRuleFormData } from "@/types/models";
+import type { FineType } from "@/types/common";
+
+interface FineRuleDialogProps {
+  isOpen: boolean;
+  // Edits this rule; creates a new one when omitted
+  rule?: FineRule | null;
+  // The acting admin's session token
+  token: string | null;
+  onClose: () => void;
+  onSaved?: (rule: FineRule) => void;
+}
+
+export function validateFineRuleForm(values: FineRuleFormData): { valid: boolean; errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+
+  if (!/^[A-Z0-9-]{1,12}$/.test(values.code.trim().toUpperCase())) {
+    errors.code = "Code must be 1-12 letters, digits or dashes.";
+  }
+
+  if (!values.title || values.title.trim() === "") {
+    errors.title = "Title is required.";
+  }
+
+  if (values.default_type !== "Warning" && !(values.default_amount > 0)) {
+    errors.default_amount = "Amount must be greater than zero.";
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+export function FineRuleDialog({ isOpen, rule, token, onClose, onSaved }: FineRuleDialogProps) {
+  const [code, setCode] = useState("");
+  const [title, setTitle] = useState("");
+  const [amountInput, setAmountInput] = useState("");
+  const [defaultType, setDefaultType] = useState<FineType>("Fine");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog is reopened
+  useEffect(() => {
+    if (isOpen) {
+      setCode(rule?.code ?? "");
+      setTitle(rule?.title ?? "");
+      setAmountInput(centsToInput(rule?.default_amount ?? 0));
+      setDefaultType(rule?.default_type ?? "Fine");
+      setError(null);
+    }
+  }, [isOpen, rule]);
+
+  if (!isOpen) return null;
+
+  const handleSave = async () => {
+    const values: FineRuleFormData = {
+      code,
+      title,
+      default_amount: defaultType === "Warning" ? 0 : parseMoney(amountInput) ?? 0,
+      default_type: defaultType,
+    };
+    const validation = validateFineRuleForm(values);
+    if (!validation.valid) {
+      setError(Object.values(validation.errors).join(" "));
+      return;
+    }
+
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const result = rule ? await updateFineRule(token, rule.id, values) : await createFineRule(token, values);
+      if (result.error || !result.data) {
+        setError(result.error || "Failed to save rule");
+        return;
+      }
+      onSaved?.(result.data);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div role="dialog" aria-labelledby="fine-rule-dialog-title" className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 text-gray-900">
+        <div className="p-6 space-y-4">
+          {/* Header */}
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-amber-100 rounded-full flex items-center justify-center">
+              <BookOpen className="w-5 h-5 text-amber-700" />
+            </div>
+            <div>
+              <h3 id="fine-rule-dialog-title" className="text-lg font-semibold text-gray-900">
+                {rule ? "Edit Rule" : "New Rule"}
+              </h3>
+              <p className="text-sm text-gray-500">Fines already given keep their own amount</p>
+            </div>
+          </div>
+
+          {/* Form */}
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="rule-code" className="block text-[#3b2a22] font-medium mb-2">Code</label>
+              <Input
+                id="rule-code"
+                placeholder="e.g. LATE"
+                className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400 uppercase"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="rule-title" className="block text-[#3b2a22] font-medium mb-2">Title</label>
+              <Input
+                id="rule-title"
+                placeholder="e.g. Late to practice"
+                className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Default Type</label>
+            <FineTypeToggle value={defaultType} onChange={setDefaultType} />
+          </div>
+          <div>
+            <label
+              htmlFor="rule-amount"
+              className={`block font-medium mb-2 ${defaultType === "Warning" ? "text-gray-400" : "text-[#3b2a22]"}`}
+            >
+              Default amount ({currencySymbol()})
+            </label>
+            <Input
+              id="rule-amount"
+              type="number"
+              step="0.01"
+              className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+              value={defaultType === "Warning" ? "" : amountInput}
+              onChange={(e) => setAmountInput(e.target.value)}
+              disabled={saving || defaultType === "Warning"}
+            />
+          </div>
+
+          {error && (
+            <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-3">
+            <Button variant="outline" onClick={onClose} disabled={saving} className="px-4 py-2">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-[#7d6c64] hover:bg-[#6b4a41] text-white"
+            >
+              {saving ? "Saving..." : rule ? "Save Rule" : "Add Rule"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+// Rule book feature components
+export { FineRuleDialog } from "./fine-rule-dialog";
@@ -0,0 +1,91 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SearchBox } from '../search-box';
+import { searchFines } from '@/lib/api/search';
+import { useSeason } from '@/contexts/season-context';
+import type { SearchResult } from '@/types/models';
+
+jest.mock('@/lib/api/search', () => ({
+  ...jest.requireActual('@/lib/api/search'),
+  searchFines: jest.fn()
+}));
+
+jest.mock('@/contexts/season-context', () => ({
+  useSeason: jest.fn()
+}));
+
+const mockSearchFines = searchFines as jest.MockedFunction<typeof searchFines>;
+const mockUseSeason = useSeason as jest.MockedFunction<typeof useSeason>;
+
+const results: SearchResult[] = [
+  {
+    fine_id: 'fine-1',
+    comment_id: null,
+    snippet: 'Was <mark>late</mark> to training',
+    rank: 0.6,
+    fine_date: '2024-03-02T10:00:00Z',
+    fine_type: 'Fine',
+    amount: 500,
+    subject_name: 'Bob',
+    author_name: 'Alice'
+  },
+  {
+    fine_id: 'fine-2',
+    comment_id: 'comment-1',
+    snippet: 'He is always <mark>late</mark>',
+    rank: 0.3,
+    fine_date: '2024-03-01T10:00:00Z',
+    fine_type: 'Warning',
+    amount: 0,
+    subject_name: 'Carol',
+    author_name: 'Dave'
+  }
+];
+
+describe('SearchBox', () => {
+  beforeEach(() => {
+    mockUseSeason.mockReturnValue({
+      currentSeason: { id: 'season-1' }
+    } as unknown as ReturnType<typeof useSeason>);
+    mockSearchFines.mockResolvedValue({ data: results, error: null });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('searches the current season and highlights the matches', async () => {
+    const user = userEvent.setup();
+    render(<SearchBox />);
+
+    await user.type(screen.getByRole('searchbox', { name: 'Search fines and comments' }), 'late');
+
+    const region = await screen.findByRole('region', { name: 'Search results' });
+    const fineHit = await within(region).findByRole('link', { name: /Was late to training/ });
+    expect(mockSearchFines).toHaveBeenLastCalledWith('late', 'season-1');
+    expect(within(fineHit).getByText('late', { selector: 'mark' })).toBeInTheDocument();
+    expect(fineHit).toHaveTextContent('Fine for Bob ($5.00)');
+  });
+
+  it('links fine hits to the fine and comment hits to the comment', async () => {
+    const user = userEvent.setup();
+    render(<SearchBox />);
+
+    await user.type(screen.getByRole('searchbox'), 'late');
+
+    expect(await screen.findByRole('link', { name: /Was late to training/ })).toHaveAttribute('href', '/dashboard?fine=fine-1');
+    const commentHit = screen.getByRole('link', { name: /He is always late/ });
+    expect(commentHit).toHaveAttribute('href', '/dashboard?fine=fine-2&comment=comment-1');
+    expect(commentHit).toHaveTextContent('Dave commented on the warning for Carol');
+  });
+
+  it('says when nothing matches', async () => {
+    mockSearchFines.mockResolvedValue({ data: [], error: null });
+    const user = userEvent.setup();
+    render(<SearchBox />);
+
+    await user.type(screen.getByRole('searchbox'), 'zebra');
+
+    expect(await screen.findByText(/No fines or comments match/)).toHaveTextContent('zebra');
+  });
+});
@@ -0,0 +1,2 @@
+// Search feature components
+export { SearchBox } from "./search-box";
@@ -0,0 +1,141 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Search } from "lucide-react";
+import { useSeason } from "@/contexts/season-context";
+import { searchFines, searchResultHref, splitSnippet } from "@/lib/api/search";
+import { formatMoney } from "@/lib/money";
+import type { SearchResult } from "@/types/models";
+
+// Wait for a pause in typing before querying
+const SEARCH_DELAY_MS = 250;
+
+const formatDay = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+function describeResult(result: SearchResult): string {
+  const subject = result.subject_name || "Unknown player";
+  const fine = result.fine_type === "Warning"
+    ? `warning for ${subject}`
+    : `${result.fine_type.toLowerCase()} for ${subject} (${formatMoney(result.amount)})`;
+
+  return result.comment_id
+    ? `${result.author_name || "Someone"} commented on the ${fine}`
+    : fine.charAt(0).toUpperCase() + fine.slice(1);
+}
+
+function Snippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {splitSnippet(snippet).map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="rounded-sm bg-amber-200 px-0.5 text-gray-900">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Searches the current season's fines and comments. A result opens its fine
+ * in the feed, with the comments shown when the match is in a comment.
+ */
+export function SearchBox() {
+  const { currentSeason } = useSeason();
+  const seasonId = currentSeason?.id;
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searchedQuery, setSearchedQuery] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmed = query.trim();
+  const isSearching = trimmed !== "" && trimmed !== searchedQuery;
+
+  useEffect(() => {
+    if (!trimmed) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const { data, error: searchError } = await searchFines(trimmed, seasonId);
+      if (cancelled) return;
+      setResults(data || []);
+      setError(searchError);
+      setSearchedQuery(trimmed);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmed, seasonId]);
+
+  const close = () => setOpen(false);
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-2 rounded-lg bg-white/10 px-3 py-1.5 focus-within:bg-white/20">
+        <Search size={16} className="text-white/70" />
+        <input
+          type="search"
+          aria-label="Search fines and comments"
+          placeholder="Search fines and comments"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") close();
+          }}
+          className="w-56 bg-transparent text-sm text-white placeholder:text-white/60 focus:outline-none"
+        />
+      </div>
+
+      {open && trimmed && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-10" onClick={close} />
+          <div
+            role="region"
+            aria-label="Search results"
+            className="absolute left-0 z-20 mt-2 w-96 rounded-md border border-gray-200 bg-white text-gray-900 shadow-lg"
+          >
+            {isSearching ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500">Searching...</p>
+            ) : error ? (
+              <p className="px-4 py-6 text-center text-sm text-red-600">Search failed: {error}</p>
+            ) : results.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500">No fines or comments match &ldquo;{trimmed}&rdquo;.</p>
+            ) : (
+              <ul className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+                {results.map((result) => (
+                  <li key={result.comment_id ?? result.fine_id}>
+                    <Link
+                      href={searchResultHref(result)}
+                      onClick={close}
+                      className="block px-4 py-3 hover:bg-amber-50"
+                    >
+                      <p className="text-sm text-gray-800">
+                        <Snippet snippet={result.snippet} />
+                      </p>
+                      <p className="mt-0.5 text-xs text-gray-500">
+                        {describeResult(result)} · {formatDay(result.fine_date)}
+                      </p>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
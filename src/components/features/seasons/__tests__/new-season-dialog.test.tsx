@@ -0,0 +1,67 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { NewSeasonDialog, validateSeasonForm } from "../new-season-dialog";
+import { createSeason } from "@/lib/api/seasons";
+
+jest.mock("@/lib/api/seasons", () => ({
+  createSeason: jest.fn(),
+}));
+
+const mockCreateSeason = createSeason as jest.MockedFunction<typeof createSeason>;
+
+describe("NewSeasonDialog", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("creates the season and reports it back", async () => {
+    const season = {
+      id: "season-2",
+      name: "2026-2027",
+      start_date: "2026-08-01",
+      end_date: "2027-07-31",
+      is_active: false,
+      closed_at: null,
+      created_at: "2026-07-01T00:00:00Z",
+    };
+    mockCreateSeason.mockResolvedValue({ data: season, error: null });
+    const onCreated = jest.fn();
+    const onClose = jest.fn();
+    const user = userEvent.setup();
+    render(<NewSeasonDialog isOpen token="token-1" onClose={onClose} onCreated={onCreated} />);
+
+    await user.type(screen.getByLabelText("Name"), "2026-2027");
+    await user.type(screen.getByLabelText("Start date"), "2026-08-01");
+    await user.type(screen.getByLabelText("End date"), "2027-07-31");
+    await user.click(screen.getByRole("button", { name: "Create Season" }));
+
+    await waitFor(() => {
+      expect(mockCreateSeason).toHaveBeenCalledWith("token-1", {
+        name: "2026-2027",
+        start_date: "2026-08-01",
+        end_date: "2027-07-31",
+      });
+      expect(onCreated).toHaveBeenCalledWith(season);
+      expect(onClose).toHaveBeenCalled();
+    });
+  });
+
+  it("shows validation errors without saving", async () => {
+    const user = userEvent.setup();
+    render(<NewSeasonDialog isOpen token="token-1" onClose={jest.fn()} />);
+
+    await user.click(screen.getByRole("button", { name: "Create Season" }));
+
+    expect(screen.getByText(/Name is required\./)).toBeInTheDocument();
+    expect(mockCreateSeason).not.toHaveBeenCalled();
+  });
+});
+
+describe("validateSeasonForm", () => {
+  it("requires the end date to follow the start date", () => {
+    const result = validateSeasonForm({ name: "2026-2027", start_date: "2026-08-01", end_date: "2026-07-01" });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.dates).toBe("End date must be after the start date.");
+  });
+});
@@ -0,0 +1,3 @@
+// Seasons feature components
+export { SeasonSwitcher } from "./season-switcher";
+export { NewSeasonDialog } from "./new-season-dialog";
@@ -0,0 +1,154 @@
+"use client"
+
+import { useState } from "react";
+import { CalendarPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { createSeason } from "@/lib/api/seasons";
+import type { Season, SeasonFormData } from "@/types/models";
+
+interface NewSeasonDialogProps {
+  isOpen: boolean;
+  // The acting admin's session token
+  token: string | null;
+  onClose: () => void;
+  onCreated?: (season: Season) => void;
+}
+
+export function validateSeasonForm(values: SeasonFormData): { valid: boolean; errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+
+  if (!values.name || values.name.trim() === "") {
+    errors.name = "Name is required.";
+  }
+
+  if (!values.start_date || !values.end_date) {
+    errors.dates = "Start and end dates are required.";
+  } else if (values.end_date <= values.start_date) {
+    errors.dates = "End date must be after the start date.";
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+export function NewSeasonDialog({ isOpen, token, onClose, onCreated }: NewSeasonDialogProps) {
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleCreate = async () => {
+    const values = { name, start_date: startDate, end_date: endDate };
+    const validation = validateSeasonForm(values);
+    if (!validation.valid) {
+      setError(Object.values(validation.errors).join(" "));
+      return;
+    }
+
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await createSeason(token, values);
+      if (result.error || !result.data) {
+        setError(result.error || "Failed to create season");
+        return;
+      }
+      setName("");
+      setStartDate("");
+      setEndDate("");
+      onCreated?.(result.data);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div role="dialog" aria-labelledby="new-season-dialog-title" className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 text-gray-900">
+        <div className="p-6 space-y-4">
+          {/* Header */}
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-amber-100 rounded-full flex items-center justify-center">
+              <CalendarPlus className="w-5 h-5 text-amber-700" />
+            </div>
+            <div>
+              <h3 id="new-season-dialog-title" className="text-lg font-semibold text-gray-900">
+                New Season
+              </h3>
+              <p className="text-sm text-gray-500">Activate it once the previous season is wrapped up</p>
+            </div>
+          </div>
+
+          {/* Form */}
+          <div>
+            <label htmlFor="season-name" className="block text-[#3b2a22] font-medium mb-2">Name</label>
+            <Input
+              id="season-name"
+              placeholder="e.g. 2026-2027"
+              className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="season-start" className="block text-[#3b2a22] font-medium mb-2">Start date</label>
+              <Input
+                id="season-start"
+                type="date"
+                className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <label htmlFor="season-end" className="block text-[#3b2a22] font-medium mb-2">End date</label>
+              <Input
+                id="season-end"
+                type="date"
+                className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-3">
+            <Button variant="outline" onClick={onClose} disabled={saving} className="px-4 py-2">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={saving}
+              className="px-4 py-2 bg-[#7d6c64] hover:bg-[#6b4a41] text-white"
+            >
+              {saving ? "Creating..." : "Create Season"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
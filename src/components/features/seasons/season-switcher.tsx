@@ -0,0 +1,149 @@
+"use client"
+
+import { useState } from "react";
+import { Archive, CalendarPlus, Check, ChevronDown, Lock, Play } from "lucide-react";
+import { useAuth } from "@/contexts/auth-context";
+import { useSeason } from "@/contexts/season-context";
+import { activateSeason, closeSeason, isSeasonClosed } from "@/lib/api/seasons";
+import { can } from "@/lib/permissions";
+import { NewSeasonDialog } from "./new-season-dialog";
+
+export function SeasonSwitcher() {
+  const { user, token } = useAuth();
+  const { seasons, currentSeason, selectSeason, refreshSeasons } = useSeason();
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [newSeasonOpen, setNewSeasonOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canManageSeasons = can(user, "manage", { type: "season" });
+
+  const closeMenu = () => {
+    setMenuOpen(false);
+    setError(null);
+  };
+
+  const handleActivate = async () => {
+    if (!currentSeason) return;
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+    const { error } = await activateSeason(token, currentSeason.id);
+    if (error) {
+      setError(error);
+      return;
+    }
+    await refreshSeasons();
+    closeMenu();
+  };
+
+  const handleClose = async () => {
+    if (!currentSeason) return;
+    if (!confirm(`Close the ${currentSeason.name} season? It will be archived and can no longer be changed.`)) {
+      return;
+    }
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+    const { error } = await closeSeason(token, currentSeason.id);
+    if (error) {
+      setError(error);
+      return;
+    }
+    await refreshSeasons();
+    closeMenu();
+  };
+
+  const currentClosed = isSeasonClosed(currentSeason);
+
+  return (
+    <div className="relative">
+      <h1 className="text-2xl font-bold tracking-tight">
+        <button
+          className="flex items-center gap-2"
+          onClick={() => setMenuOpen((open) => !open)}
+          aria-haspopup="menu"
+          aria-expanded={menuOpen}
+        >
+          BMT Fines {currentSeason?.name ?? ""}
+          {currentClosed && <Lock size={18} className="text-white/70" aria-label="Archived" />}
+          <ChevronDown size={18} className="text-white/70" />
+        </button>
+      </h1>
+
+      {menuOpen && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-10" onClick={closeMenu} />
+          <div role="menu" className="absolute left-0 z-20 mt-2 w-64 rounded-md border border-gray-200 bg-white py-1 text-gray-700 shadow-lg">
+            {seasons.map((season) => (
+              <button
+                key={season.id}
+                role="menuitemradio"
+                aria-checked={season.id === currentSeason?.id}
+                className="flex w-full items-center justify-between px-3 py-1.5 text-sm hover:bg-gray-100"
+                onClick={() => {
+                  selectSeason(season.id);
+                  closeMenu();
+                }}
+              >
+                <span className="flex items-center">
+                  {season.id === currentSeason?.id
+                    ? <Check size={14} className="mr-2" />
+                    : <span className="mr-2 w-3.5" />}
+                  {season.name}
+                </span>
+                {season.is_active && (
+                  <span className="rounded-full bg-green-50 px-2 py-0.5 text-xs font-medium text-green-700">Active</span>
+                )}
+                {isSeasonClosed(season) && (
+                  <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">Archived</span>
+                )}
+              </button>
+            ))}
+
+            {canManageSeasons && (
+              <div className="mt-1 border-t border-gray-200 pt-1">
+                <button
+                  role="menuitem"
+                  className="flex w-full items-center px-3 py-1.5 text-sm hover:bg-gray-100"
+                  onClick={() => {
+                    closeMenu();
+                    setNewSeasonOpen(true);
+                  }}
+                >
+                  <CalendarPlus size={14} className="mr-2" />
+                  New season…
+                </button>
+                {currentSeason && !currentClosed && !currentSeason.is_active && (
+                  <button role="menuitem" className="flex w-full items-center px-3 py-1.5 text-sm hover:bg-gray-100" onClick={handleActivate}>
+                    <Play size={14} className="mr-2" />
+                    Make {currentSeason.name} active
+                  </button>
+                )}
+                {currentSeason && !currentClosed && (
+                  <button role="menuitem" className="flex w-full items-center px-3 py-1.5 text-sm text-red-600 hover:bg-red-50" onClick={handleClose}>
+                    <Archive size={14} className="mr-2" />
+                    Close {currentSeason.name}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {error && <div className="px-3 py-1.5 text-xs text-red-600">{error}</div>}
+          </div>
+        </>
+      )}
+
+      <NewSeasonDialog
+        isOpen={newSeasonOpen}
+        token={token}
+        onClose={() => setNewSeasonOpen(false)}
+        onCreated={async (season) => {
+          await refreshSeasons();
+          selectSeason(season.id);
+        }}
+      />
+    </div>
+  );
+}
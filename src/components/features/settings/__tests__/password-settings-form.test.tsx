@@ -0,0 +1,65 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { PasswordSettingsForm } from '../password-settings-form';
+import { useAuth } from '@/contexts/auth-context';
+import { changePassword } from '@/lib/api/auth';
+
+jest.mock('@/contexts/auth-context', () => ({
+  useAuth: jest.fn()
+}));
+
+jest.mock('@/lib/api/auth', () => ({
+  changePassword: jest.fn()
+}));
+
+const refreshUser = jest.fn();
+
+const fill = (current: string, next: string, confirm: string) => {
+  fireEvent.change(screen.getByLabelText('Current password'), { target: { value: current } });
+  fireEvent.change(screen.getByLabelText('New password'), { target: { value: next } });
+  fireEvent.change(screen.getByLabelText('Confirm new password'), { target: { value: confirm } });
+  fireEvent.click(screen.getByRole('button', { name: 'Change Password' }));
+};
+
+describe('PasswordSettingsForm', () => {
+  beforeEach(() => {
+    refreshUser.mockResolvedValue(undefined);
+    (useAuth as jest.Mock).mockReturnValue({ token: 'token-1', refreshUser });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('checks the new password before asking the database', () => {
+    render(<PasswordSettingsForm />);
+
+    fill('old password', 'short', 'short');
+    expect(screen.getByText('New password must be at least 8 characters.')).toBeInTheDocument();
+
+    fill('old password', 'new password', 'other password');
+    expect(screen.getByText("New passwords don't match.")).toBeInTheDocument();
+    expect(changePassword).not.toHaveBeenCalled();
+  });
+
+  it('changes the password with the current one and clears the form', async () => {
+    (changePassword as jest.Mock).mockResolvedValue({ data: null, error: null });
+
+    render(<PasswordSettingsForm />);
+    fill('old password', 'new password', 'new password');
+
+    expect(await screen.findByText(/Password changed/)).toBeInTheDocument();
+    expect(changePassword).toHaveBeenCalledWith('token-1', 'old password', 'new password');
+    expect(refreshUser).toHaveBeenCalled();
+    expect(screen.getByLabelText('Current password')).toHaveValue('');
+  });
+
+  it('says when the current password is wrong', async () => {
+    (changePassword as jest.Mock).mockResolvedValue({ data: null, error: 'Current password is incorrect' });
+
+    render(<PasswordSettingsForm />);
+    fill('wrong password', 'new password', 'new password');
+
+    expect(await screen.findByText('Current password is incorrect')).toBeInTheDocument();
+    expect(screen.getByLabelText('Current password')).toHaveValue('wrong password');
+  });
+});
@@ -0,0 +1,67 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ProfileSettingsForm, validateProfileForm } from '../profile-settings-form';
+import { useAuth } from '@/contexts/auth-context';
+import { updateOwnProfile } from '@/lib/api/users';
+
+jest.mock('@/contexts/auth-context', () => ({
+  useAuth: jest.fn()
+}));
+
+jest.mock('@/lib/api/users', () => ({
+  updateOwnProfile: jest.fn()
+}));
+
+const refreshUser = jest.fn();
+
+describe('ProfileSettingsForm', () => {
+  beforeEach(() => {
+    refreshUser.mockResolvedValue(undefined);
+    (useAuth as jest.Mock).mockReturnValue({
+      user: { id: 'bob', name: 'Bob Smith', username: 'bob', role: 'User', avatar_color: null, avatar_initials: null },
+      token: 'token-1',
+      refreshUser
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('validates the name and initials', () => {
+    expect(validateProfileForm(' ', 'ABCD').errors).toEqual({
+      name: 'Name is required.',
+      initials: 'Initials must be 1-3 letters or digits.'
+    });
+    expect(validateProfileForm('Bob', '').valid).toBe(true);
+  });
+
+  it('saves the name and avatar, then refreshes the signed-in user', async () => {
+    (updateOwnProfile as jest.Mock).mockResolvedValue({ data: null, error: null });
+
+    render(<ProfileSettingsForm />);
+
+    expect(screen.getByLabelText('Initials')).toHaveAttribute('placeholder', 'BS');
+    fireEvent.change(screen.getByLabelText('Display name'), { target: { value: 'Bobby Smith' } });
+    fireEvent.click(screen.getByLabelText('teal'));
+    fireEvent.change(screen.getByLabelText('Initials'), { target: { value: 'bs7' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Profile' }));
+
+    expect(await screen.findByText('Profile saved.')).toBeInTheDocument();
+    expect(updateOwnProfile).toHaveBeenCalledWith('token-1', {
+      name: 'Bobby Smith',
+      avatar_color: 'teal',
+      avatar_initials: 'bs7'
+    });
+    expect(refreshUser).toHaveBeenCalled();
+  });
+
+  it('keeps the form open with the error when saving fails', async () => {
+    (updateOwnProfile as jest.Mock).mockResolvedValue({ data: null, error: 'Your session has expired. Sign in again.' });
+
+    render(<ProfileSettingsForm />);
+    fireEvent.click(screen.getByRole('button', { name: 'Save Profile' }));
+
+    expect(await screen.findByText('Your session has expired. Sign in again.')).toBeInTheDocument();
+    expect(refreshUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,3 @@
+// Account settings components
+export { ProfileSettingsForm, validateProfileForm } from "./profile-settings-form";
+export { PasswordSettingsForm } from "./password-settings-form";
@@ -0,0 +1,121 @@
+"use client"
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MIN_PASSWORD_LENGTH } from "@/components/features/users";
+import { useAuth } from "@/contexts/auth-context";
+import { changePassword } from "@/lib/api/auth";
+
+/**
+ * Changes the signed-in user's password, once they confirm the current one
+ */
+export function PasswordSettingsForm() {
+  const { token, refreshUser } = useAuth();
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaved(false);
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+    if (current === "") {
+      setError("Enter your current password.");
+      return;
+    }
+    if (next.length < MIN_PASSWORD_LENGTH) {
+      setError(`New password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (next !== confirm) {
+      setError("New passwords don't match.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await changePassword(token, current, next);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      setCurrent("");
+      setNext("");
+      setConfirm("");
+      await refreshUser();
+      setSaved(true);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} aria-labelledby="password-settings-title" className="space-y-4">
+      <h2 id="password-settings-title" className="text-lg font-semibold text-gray-900">Password</h2>
+
+      <div>
+        <label htmlFor="settings-current-password" className="block text-[#3b2a22] font-medium mb-2">Current password</label>
+        <Input
+          id="settings-current-password"
+          type="password"
+          autoComplete="current-password"
+          className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+          value={current}
+          onChange={(e) => setCurrent(e.target.value)}
+          disabled={saving}
+        />
+      </div>
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="settings-new-password" className="block text-[#3b2a22] font-medium mb-2">New password</label>
+          <Input
+            id="settings-new-password"
+            type="password"
+            autoComplete="new-password"
+            className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+            value={next}
+            onChange={(e) => setNext(e.target.value)}
+            disabled={saving}
+          />
+        </div>
+        <div>
+          <label htmlFor="settings-confirm-password" className="block text-[#3b2a22] font-medium mb-2">Confirm new password</label>
+          <Input
+            id="settings-confirm-password"
+            type="password"
+            autoComplete="new-password"
+            className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            disabled={saving}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+          {error}
+        </div>
+      )}
+      {saved && (
+        <p role="status" className="text-sm text-green-700">
+          Password changed. Your other devices have been signed out.
+        </p>
+      )}
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={saving} className="px-4 py-2 bg-[#7d6c64] hover:bg-[#6b4a41] text-white">
+          {saving ? "Saving..." : "Change Password"}
+        </Button>
+      </div>
+    </form>
+  );
+}
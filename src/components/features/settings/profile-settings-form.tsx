@@ -0,0 +1,168 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { UserAvatar } from "@/components/features/users";
+import { useAuth } from "@/contexts/auth-context";
+import { updateOwnProfile } from "@/lib/api/users";
+import { AVATAR_COLORS, AVATAR_COLOR_NAMES, defaultAvatarInitials, isAvatarColor, type AvatarColor } from "@/lib/avatar";
+
+export function validateProfileForm(name: string, initials: string): { valid: boolean; errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+
+  if (name.trim() === "") {
+    errors.name = "Name is required.";
+  }
+
+  if (initials.trim() !== "" && !/^[A-Za-z0-9]{1,3}$/.test(initials.trim())) {
+    errors.initials = "Initials must be 1-3 letters or digits.";
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+/**
+ * The signed-in user's display name and avatar
+ */
+export function ProfileSettingsForm() {
+  const { user, token, refreshUser } = useAuth();
+  const [name, setName] = useState("");
+  // null means the colour is derived from the name
+  const [color, setColor] = useState<AvatarColor | null>(null);
+  const [initials, setInitials] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      setName(user.name);
+      setColor(isAvatarColor(user.avatar_color) ? user.avatar_color : null);
+      setInitials(user.avatar_initials ?? "");
+    }
+  }, [user]);
+
+  if (!user) return null;
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaved(false);
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+
+    const validation = validateProfileForm(name, initials);
+    if (!validation.valid) {
+      setError(Object.values(validation.errors).join(" "));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await updateOwnProfile(token, {
+        name,
+        avatar_color: color,
+        avatar_initials: initials.trim() || null,
+      });
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      await refreshUser();
+      setSaved(true);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const preview = { name: name.trim() || user.name, avatar_color: color, avatar_initials: initials.trim().toUpperCase() || null };
+
+  return (
+    <form onSubmit={handleSave} aria-labelledby="profile-settings-title" className="space-y-4">
+      <h2 id="profile-settings-title" className="text-lg font-semibold text-gray-900">Profile</h2>
+
+      <div className="flex items-center gap-4">
+        <UserAvatar user={preview} size="lg" />
+        <p className="text-sm text-gray-500">How you appear next to your comments and in the header.</p>
+      </div>
+
+      <div>
+        <label htmlFor="settings-name" className="block text-[#3b2a22] font-medium mb-2">Display name</label>
+        <Input
+          id="settings-name"
+          className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={saving}
+        />
+      </div>
+
+      <fieldset>
+        <legend className="block text-[#3b2a22] font-medium mb-2">Avatar colour</legend>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className={`flex h-8 items-center rounded-lg border px-2 text-xs cursor-pointer ${color === null ? "border-[#6b4a41] bg-amber-50" : "border-gray-300"}`}>
+            <input
+              type="radio"
+              name="avatar-color"
+              className="sr-only"
+              checked={color === null}
+              onChange={() => setColor(null)}
+              disabled={saving}
+            />
+            Automatic
+          </label>
+          {AVATAR_COLOR_NAMES.map((option) => (
+            <label
+              key={option}
+              title={option}
+              className={`h-8 w-8 rounded-lg cursor-pointer ${AVATAR_COLORS[option]} ${color === option ? "ring-2 ring-offset-2 ring-[#6b4a41]" : ""}`}
+            >
+              <input
+                type="radio"
+                name="avatar-color"
+                className="sr-only"
+                aria-label={option}
+                checked={color === option}
+                onChange={() => setColor(option)}
+                disabled={saving}
+              />
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div>
+        <label htmlFor="settings-initials" className="block text-[#3b2a22] font-medium mb-2">Initials</label>
+        <Input
+          id="settings-initials"
+          maxLength={3}
+          placeholder={defaultAvatarInitials(name.trim() || user.name)}
+          className="w-24 uppercase border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400"
+          value={initials}
+          onChange={(e) => setInitials(e.target.value)}
+          disabled={saving}
+        />
+        <p className="mt-1 text-xs text-gray-500">Leave blank to use the initials of your name.</p>
+      </div>
+
+      {error && (
+        <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+          {error}
+        </div>
+      )}
+      {saved && <p role="status" className="text-sm text-green-700">Profile saved.</p>}
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={saving} className="px-4 py-2 bg-[#7d6c64] hover:bg-[#6b4a41] text-white">
+          {saving ? "Saving..." : "Save Profile"}
+        </Button>
+      </div>
+    </form>
+  );
+}
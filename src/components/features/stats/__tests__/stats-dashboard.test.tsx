@@ -0,0 +1,106 @@
+import { render, screen, within } from '@testing-library/react';
+import { StatsDashboard } from '../stats-dashboard';
+import { useSeason } from '@/contexts/season-context';
+import {
+  getFineActivityStats,
+  getFineTypeStats,
+  getMostCommentedFines,
+  getPlayerFineStats,
+  getWeeklyFineStats
+} from '@/lib/api/stats';
+
+jest.mock('@/contexts/season-context', () => ({
+  useSeason: jest.fn()
+}));
+
+jest.mock('@/lib/api/stats', () => ({
+  ...jest.requireActual('@/lib/api/stats'),
+  getWeeklyFineStats: jest.fn(),
+  getFineTypeStats: jest.fn(),
+  getPlayerFineStats: jest.fn(),
+  getMostCommentedFines: jest.fn(),
+  getFineActivityStats: jest.fn()
+}));
+
+describe('StatsDashboard', () => {
+  beforeEach(() => {
+    (useSeason as jest.Mock).mockReturnValue({ currentSeason: { id: 'season-1', name: '2024' } });
+    (getWeeklyFineStats as jest.Mock).mockResolvedValue({
+      data: [
+        { week_start: '2024-03-04', fine_count: 2, total_amount: 1000, cumulative_count: 2, cumulative_amount: 1000 },
+        { week_start: '2024-03-11', fine_count: 0, total_amount: 0, cumulative_count: 2, cumulative_amount: 1000 },
+        { week_start: '2024-03-18', fine_count: 3, total_amount: 1500, cumulative_count: 5, cumulative_amount: 2500 }
+      ],
+      error: null
+    });
+    (getFineTypeStats as jest.Mock).mockResolvedValue({
+      data: [
+        { fine_type: 'Fine', fine_count: 5, total_amount: 2500 },
+        { fine_type: 'Warning', fine_count: 2, total_amount: 0 }
+      ],
+      error: null
+    });
+    (getPlayerFineStats as jest.Mock).mockResolvedValue({
+      data: [
+        { user_id: 'alice', name: 'Alice', fines_received: 1, amount_received: 500, fines_proposed: 4 },
+        { user_id: 'bob', name: 'Bob', fines_received: 4, amount_received: 2000, fines_proposed: 1 }
+      ],
+      error: null
+    });
+    (getMostCommentedFines as jest.Mock).mockResolvedValue({
+      data: [{ fine_id: 'fine-1', description: 'Late to training', fine_type: 'Fine', amount: 500, subject_name: 'Bob', comment_count: 7 }],
+      error: null
+    });
+    (getFineActivityStats as jest.Mock).mockResolvedValue({
+      data: [{ day_of_week: 2, hour: 19, fine_count: 5 }],
+      error: null
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('charts the season from the aggregate queries', async () => {
+    render(<StatsDashboard />);
+
+    expect(await screen.findByRole('img', { name: 'Fines over time, $25.00 in total' })).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Fines per week, most in the week of Mar 18 (3)' })).toBeInTheDocument();
+    expect(getWeeklyFineStats).toHaveBeenCalledWith('season-1');
+
+    const byType = screen.getByRole('region', { name: 'By type' });
+    expect(byType).toHaveTextContent('Fines5 · $25.00');
+    expect(byType).toHaveTextContent('Warnings2');
+  });
+
+  it('ranks offenders by amount and proposers by count, linking to their profiles', async () => {
+    render(<StatsDashboard />);
+
+    const offenders = await screen.findByRole('region', { name: 'Top offenders' });
+    expect(within(offenders).getAllByRole('link').map(link => link.textContent)).toEqual(['Bob', 'Alice']);
+    expect(within(offenders).getByRole('link', { name: 'Bob' })).toHaveAttribute('href', '/players?id=bob');
+    expect(offenders).toHaveTextContent('$20.00 (4 fines)');
+
+    const proposers = screen.getByRole('region', { name: 'Top proposers' });
+    expect(within(proposers).getAllByRole('link').map(link => link.textContent)).toEqual(['Alice', 'Bob']);
+
+    const commented = screen.getByRole('region', { name: 'Most commented' });
+    expect(within(commented).getByRole('link', { name: 'Late to training (Bob)' })).toHaveAttribute('href', '/dashboard?fine=fine-1');
+  });
+
+  it('shows the weekday and hour heatmap', async () => {
+    render(<StatsDashboard />);
+
+    const heatmap = await screen.findByRole('table', { name: 'Fines by weekday and hour' });
+    expect(within(heatmap).getByTitle('Tue 19:00: 5 fines')).toBeInTheDocument();
+    expect(within(within(heatmap).getByRole('row', { name: /^Tue/ })).getAllByRole('cell').at(-1)).toHaveTextContent('5');
+  });
+
+  it('says when the stats could not be loaded', async () => {
+    (getFineTypeStats as jest.Mock).mockResolvedValue({ data: null, error: 'permission denied' });
+
+    render(<StatsDashboard />);
+
+    expect(await screen.findByText('Could not load the stats: permission denied')).toBeInTheDocument();
+  });
+});
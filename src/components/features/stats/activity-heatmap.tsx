@@ -0,0 +1,79 @@
+import { activityGrid } from "@/lib/api/stats";
+import type { FineActivityStat } from "@/types/models";
+
+interface ActivityHeatmapProps {
+  stats: FineActivityStat[];
+}
+
+// Row order of activityGrid
+const DAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, "0")}:00`;
+
+// Five shades from no fines to the busiest slot
+const SHADES = ["bg-gray-100", "bg-amber-100", "bg-amber-300", "bg-amber-500", "bg-amber-700"];
+
+const shade = (count: number, high: number) =>
+  count === 0 ? SHADES[0] : SHADES[Math.min(SHADES.length - 1, Math.ceil((count / high) * (SHADES.length - 1)))];
+
+/**
+ * When fines get given: a weekday by hour grid, with a total per day and per hour
+ */
+export function ActivityHeatmap({ stats }: ActivityHeatmapProps) {
+  if (stats.length === 0) {
+    return <p className="py-8 text-center text-sm text-gray-500">No fines yet this season.</p>;
+  }
+
+  const grid = activityGrid(stats);
+  const high = Math.max(...grid.flat());
+  const dayTotals = grid.map((row) => row.reduce((sum, count) => sum + count, 0));
+  const hourTotals = HOURS.map((hour) => grid.reduce((sum, row) => sum + row[hour], 0));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="border-separate border-spacing-0.5 text-[10px] text-gray-500">
+        <caption className="sr-only">Fines by weekday and hour</caption>
+        <thead>
+          <tr>
+            <th scope="col"><span className="sr-only">Day</span></th>
+            {HOURS.map((hour) => (
+              <th key={hour} scope="col" className="w-5 font-normal">
+                {hour % 3 === 0 ? hour : <span className="sr-only">{hour}</span>}
+              </th>
+            ))}
+            <th scope="col" className="pl-2 font-normal">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {grid.map((row, day) => (
+            <tr key={DAYS[day]}>
+              <th scope="row" className="pr-2 text-right font-normal">{DAYS[day]}</th>
+              {row.map((count, hour) => (
+                <td
+                  key={hour}
+                  title={`${DAYS[day]} ${formatHour(hour)}: ${count} ${count === 1 ? "fine" : "fines"}`}
+                  className={`h-5 w-5 rounded-sm ${shade(count, high)}`}
+                >
+                  <span className="sr-only">{count}</span>
+                </td>
+              ))}
+              <td className="pl-2 text-right font-medium text-gray-700">{dayTotals[day]}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <th scope="row" className="pr-2 text-right font-normal">Total</th>
+            {hourTotals.map((count, hour) => (
+              <td key={hour} className="text-center font-medium text-gray-700">{count || ""}</td>
+            ))}
+            <td className="pl-2 text-right font-medium text-gray-700">
+              {dayTotals.reduce((sum, count) => sum + count, 0)}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import Link from "next/link";
+
+export type BarListItem = {
+  key: string;
+  label: string;
+  // Sizes the bar
+  value: number;
+  // Shown at the end of the row, e.g. "$12.00"
+  display: string;
+  href?: string;
+};
+
+interface BarListProps {
+  items: BarListItem[];
+  emptyText: string;
+}
+
+/**
+ * A ranked list with a bar behind each row, scaled to the largest value
+ */
+export function BarList({ items, emptyText }: BarListProps) {
+  if (items.length === 0) {
+    return <p className="py-4 text-center text-sm text-gray-500">{emptyText}</p>;
+  }
+
+  const high = Math.max(1, ...items.map((item) => item.value));
+
+  return (
+    <ol className="space-y-1.5">
+      {items.map((item) => (
+        <li key={item.key} className="relative overflow-hidden rounded">
+          <div
+            aria-hidden="true"
+            className="absolute inset-y-0 left-0 bg-amber-100"
+            style={{ width: `${(item.value / high) * 100}%` }}
+          />
+          <div className="relative flex items-center justify-between gap-4 px-2 py-1 text-sm">
+            {item.href ? (
+              <Link href={item.href} className="truncate text-gray-900 hover:underline">
+                {item.label}
+              </Link>
+            ) : (
+              <span className="truncate text-gray-900">{item.label}</span>
+            )}
+            <span className="flex-shrink-0 font-medium text-gray-700">{item.display}</span>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
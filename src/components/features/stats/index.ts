@@ -0,0 +1,5 @@
+// Stats feature components
+export { StatsDashboard } from "./stats-dashboard";
+export { CumulativeFinesChart, WeeklyFinesChart } from "./weekly-charts";
+export { BarList } from "./bar-list";
+export { ActivityHeatmap } from "./activity-heatmap";
@@ -0,0 +1,177 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { useSeason } from "@/contexts/season-context";
+import {
+  getFineActivityStats,
+  getFineTypeStats,
+  getMostCommentedFines,
+  getPlayerFineStats,
+  getWeeklyFineStats,
+  topPlayers,
+} from "@/lib/api/stats";
+import { formatMoney } from "@/lib/money";
+import { ActivityHeatmap } from "./activity-heatmap";
+import { BarList, type BarListItem } from "./bar-list";
+import { CumulativeFinesChart, WeeklyFinesChart } from "./weekly-charts";
+import type {
+  CommentedFineStat,
+  FineActivityStat,
+  FineTypeStat,
+  PlayerFineStat,
+  WeeklyFineStat,
+} from "@/types/models";
+
+type SeasonStats = {
+  weeks: WeeklyFineStat[];
+  types: FineTypeStat[];
+  players: PlayerFineStat[];
+  commented: CommentedFineStat[];
+  activity: FineActivityStat[];
+};
+
+const TYPE_LABELS: Record<FineTypeStat["fine_type"], string> = {
+  Fine: "Fines",
+  Credit: "Credits",
+  Warning: "Warnings",
+};
+
+const plural = (count: number, word: string) => `${count} ${count === 1 ? word : `${word}s`}`;
+
+function Panel({ title, children, wide = false }: { title: string; children: React.ReactNode; wide?: boolean }) {
+  return (
+    <section aria-label={title} className={`rounded-lg border border-gray-200 p-4 ${wide ? "lg:col-span-2" : ""}`}>
+      <h2 className="mb-3 text-lg font-semibold text-gray-900">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+/**
+ * Season-wide charts: fines over time and per week, the type breakdown, top
+ * offenders and proposers, the most argued-over fines and when fines get given
+ */
+export function StatsDashboard() {
+  const { currentSeason } = useSeason();
+  const seasonId = currentSeason?.id;
+  const [stats, setStats] = useState<SeasonStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!seasonId) return;
+
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      const [weeks, types, players, commented, activity] = await Promise.all([
+        getWeeklyFineStats(seasonId),
+        getFineTypeStats(seasonId),
+        getPlayerFineStats(seasonId),
+        getMostCommentedFines(seasonId),
+        getFineActivityStats(seasonId),
+      ]);
+      if (cancelled) return;
+
+      const failed = [weeks, types, players, commented, activity].find((result) => result.error);
+      if (failed) {
+        setError(failed.error);
+        setStats(null);
+      } else {
+        setError(null);
+        setStats({
+          weeks: weeks.data || [],
+          types: types.data || [],
+          players: players.data || [],
+          commented: commented.data || [],
+          activity: activity.data || [],
+        });
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [seasonId]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  if (error || !stats) {
+    return <p className="py-12 text-center text-red-600">Could not load the stats: {error}</p>;
+  }
+
+  const typeItems: BarListItem[] = stats.types.map((type) => ({
+    key: type.fine_type,
+    label: TYPE_LABELS[type.fine_type],
+    value: type.fine_count,
+    display: type.fine_type === "Warning"
+      ? `${type.fine_count}`
+      : `${type.fine_count} · ${formatMoney(type.total_amount)}`,
+  }));
+
+  const offenderItems: BarListItem[] = topPlayers(stats.players, "amount_received").map((player) => ({
+    key: player.user_id,
+    label: player.name,
+    value: player.amount_received,
+    display: `${formatMoney(player.amount_received)} (${plural(player.fines_received, "fine")})`,
+    href: `/players?id=${player.user_id}`,
+  }));
+
+  const proposerItems: BarListItem[] = topPlayers(stats.players, "fines_proposed").map((player) => ({
+    key: player.user_id,
+    label: player.name,
+    value: player.fines_proposed,
+    display: plural(player.fines_proposed, "fine"),
+    href: `/players?id=${player.user_id}`,
+  }));
+
+  const commentedItems: BarListItem[] = stats.commented.map((fine) => ({
+    key: fine.fine_id,
+    label: `${fine.description} (${fine.subject_name})`,
+    value: fine.comment_count,
+    display: plural(fine.comment_count, "comment"),
+    href: `/dashboard?fine=${fine.fine_id}`,
+  }));
+
+  return (
+    <div className="space-y-8">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Stats</h1>
+        <div className="w-24 h-0.5 bg-amber-600 mx-auto"></div>
+        {currentSeason && <p className="mt-2 text-sm text-gray-500">{currentSeason.name} season</p>}
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Panel title="Fines over time" wide>
+          <CumulativeFinesChart weeks={stats.weeks} />
+        </Panel>
+        <Panel title="Fines per week" wide>
+          <WeeklyFinesChart weeks={stats.weeks} />
+        </Panel>
+        <Panel title="By type">
+          <BarList items={typeItems} emptyText="Nothing given yet this season." />
+        </Panel>
+        <Panel title="Most commented">
+          <BarList items={commentedItems} emptyText="No comments yet this season." />
+        </Panel>
+        <Panel title="Top offenders">
+          <BarList items={offenderItems} emptyText="Nobody has been fined yet." />
+        </Panel>
+        <Panel title="Top proposers">
+          <BarList items={proposerItems} emptyText="Nobody has proposed a fine yet." />
+        </Panel>
+        <Panel title="When fines are given" wide>
+          <ActivityHeatmap stats={stats.activity} />
+        </Panel>
+      </div>
+    </div>
+  );
+}
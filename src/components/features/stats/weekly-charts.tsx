@@ -0,0 +1,127 @@
+import { formatMoney } from "@/lib/money";
+import type { WeeklyFineStat } from "@/types/models";
+
+interface WeeklyChartProps {
+  weeks: WeeklyFineStat[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 64 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+// week_start is a calendar date; read it as local midnight
+const formatWeek = (weekStart: string) =>
+  new Date(`${weekStart}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+function EmptyChart() {
+  return <p className="py-8 text-center text-sm text-gray-500">No fines yet this season.</p>;
+}
+
+function WeekAxis({ weeks }: WeeklyChartProps) {
+  return (
+    <>
+      <text x={PADDING.left} y={HEIGHT - 6} className="fill-gray-500 text-[10px]">
+        {formatWeek(weeks[0].week_start)}
+      </text>
+      {weeks.length > 1 && (
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {formatWeek(weeks[weeks.length - 1].week_start)}
+        </text>
+      )}
+    </>
+  );
+}
+
+/**
+ * Running total of fines given over the season, one point per week
+ */
+export function CumulativeFinesChart({ weeks }: WeeklyChartProps) {
+  if (weeks.length === 0) {
+    return <EmptyChart />;
+  }
+
+  const high = Math.max(...weeks.map((week) => week.cumulative_amount));
+  // A single week still gets a visible line
+  const x = (index: number) => PADDING.left + (weeks.length === 1 ? PLOT_WIDTH : (index / (weeks.length - 1)) * PLOT_WIDTH);
+  const y = (amount: number) => PADDING.top + (high === 0 ? PLOT_HEIGHT : ((high - amount) / high) * PLOT_HEIGHT);
+
+  const path = weeks.reduce(
+    (d, week, index) => `${d} L ${x(index)} ${y(week.cumulative_amount)}`,
+    `M ${PADDING.left} ${y(0)}`
+  );
+  const total = weeks[weeks.length - 1].cumulative_amount;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="h-auto w-full"
+      role="img"
+      aria-label={`Fines over time, ${formatMoney(total)} in total`}
+    >
+      <text x={PADDING.left - 8} y={y(high) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+        {formatMoney(high)}
+      </text>
+      <text x={PADDING.left - 8} y={y(0) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+        {formatMoney(0)}
+      </text>
+      <WeekAxis weeks={weeks} />
+
+      <path d={path} fill="none" className="stroke-[#6b4a41]" strokeWidth={2} />
+
+      {weeks.map((week, index) => (
+        <circle key={week.week_start} cx={x(index)} cy={y(week.cumulative_amount)} r={3} className="fill-[#6b4a41]">
+          <title>{`Week of ${formatWeek(week.week_start)}: ${formatMoney(week.cumulative_amount)} so far`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * How many fines were given each week, as bars
+ */
+export function WeeklyFinesChart({ weeks }: WeeklyChartProps) {
+  if (weeks.length === 0) {
+    return <EmptyChart />;
+  }
+
+  const high = Math.max(1, ...weeks.map((week) => week.fine_count));
+  const slot = PLOT_WIDTH / weeks.length;
+  const barWidth = Math.max(2, slot * 0.7);
+  const busiest = weeks.reduce((best, week) => (week.fine_count > best.fine_count ? week : best), weeks[0]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="h-auto w-full"
+      role="img"
+      aria-label={`Fines per week, most in the week of ${formatWeek(busiest.week_start)} (${busiest.fine_count})`}
+    >
+      <text x={PADDING.left - 8} y={PADDING.top + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+        {high}
+      </text>
+      <text x={PADDING.left - 8} y={PADDING.top + PLOT_HEIGHT + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+        0
+      </text>
+      <WeekAxis weeks={weeks} />
+
+      {weeks.map((week, index) => {
+        const height = (week.fine_count / high) * PLOT_HEIGHT;
+        return (
+          <rect
+            key={week.week_start}
+            x={PADDING.left + index * slot + (slot - barWidth) / 2}
+            y={PADDING.top + PLOT_HEIGHT - height}
+            width={barWidth}
+            height={height}
+            className="fill-amber-600"
+          >
+            <title>{`Week of ${formatWeek(week.week_start)}: ${week.fine_count} ${week.fine_count === 1 ? "fine" : "fines"}, ${formatMoney(week.total_amount)}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,82 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { UserDialog, validateUserForm } from '../user-dialog';
+import { createUser, updateUser } from '@/lib/api/users';
+import type { UserAccount } from '@/types/models';
+
+jest.mock('@/lib/api/users', () => ({
+  createUser: jest.fn(),
+  updateUser: jest.fn()
+}));
+
+const account: UserAccount = {
+  user_id: 'bob',
+  username: 'bob',
+  name: 'Bob',
+  role: 'User',
+  created_at: '2024-01-01T00:00:00Z',
+  deactivated_at: null
+};
+
+describe('validateUserForm', () => {
+  it('requires a sign-in friendly username, a name and a long enough password', () => {
+    const result = validateUserForm({ username: 'bob smith', name: ' ', role: 'User' }, 'short');
+
+    expect(result.valid).toBe(false);
+    expect(Object.keys(result.errors)).toEqual(['username', 'name', 'password']);
+  });
+
+  it('skips the password when editing', () => {
+    expect(validateUserForm({ username: 'bob.smith', name: 'Bob', role: 'Admin' }).valid).toBe(true);
+  });
+});
+
+describe('UserDialog', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('creates a user with a first password', async () => {
+    (createUser as jest.Mock).mockResolvedValue({ data: 'dave', error: null });
+    const onSaved = jest.fn();
+    const onClose = jest.fn();
+
+    render(<UserDialog isOpen token="token-1" onClose={onClose} onSaved={onSaved} />);
+
+    fireEvent.change(screen.getByLabelText('Username'), { target: { value: 'dave' } });
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Dave' } });
+    fireEvent.change(screen.getByLabelText('Role'), { target: { value: 'Admin' } });
+    fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'correct horse' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add User' }));
+
+    await waitFor(() => expect(onSaved).toHaveBeenCalled());
+    expect(createUser).toHaveBeenCalledWith('token-1', { username: 'dave', name: 'Dave', role: 'Admin' }, 'correct horse');
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('edits an account without asking for a password', async () => {
+    (updateUser as jest.Mock).mockResolvedValue({ data: null, error: null });
+
+    render(<UserDialog isOpen user={account} token="token-1" onClose={jest.fn()} />);
+
+    expect(screen.queryByLabelText('Password')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Bobby' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save User' }));
+
+    await waitFor(() =>
+      expect(updateUser).toHaveBeenCalledWith('token-1', 'bob', { username: 'bob', name: 'Bobby', role: 'User' })
+    );
+  });
+
+  it('shows why the database refused the change', async () => {
+    (updateUser as jest.Mock).mockResolvedValue({ data: null, error: 'Username "alice" is already taken' });
+    const onClose = jest.fn();
+
+    render(<UserDialog isOpen user={account} token="token-1" onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText('Username'), { target: { value: 'alice' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save User' }));
+
+    expect(await screen.findByText('Username "alice" is already taken')).toBeInTheDocument();
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,4 @@
+// User account components
+export { UserDialog, validateUserForm, MIN_PASSWORD_LENGTH } from "./user-dialog";
+export { ResetPasswordDialog } from "./reset-password-dialog";
+export { UserAvatar } from "./user-avatar";
@@ -0,0 +1,131 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { resetUserPassword } from "@/lib/api/users";
+import { MIN_PASSWORD_LENGTH } from "./user-dialog";
+import type { UserAccount } from "@/types/models";
+
+interface ResetPasswordDialogProps {
+  // Whose password is reset; the dialog is closed when null
+  user: UserAccount | null;
+  // The acting admin's session token
+  token: string | null;
+  onClose: () => void;
+  onReset?: (user: UserAccount) => void;
+}
+
+export function ResetPasswordDialog({ user, token, onClose, onReset }: ResetPasswordDialogProps) {
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      setPassword("");
+      setConfirm("");
+      setError(null);
+    }
+  }, [user]);
+
+  if (!user) return null;
+
+  const handleReset = async () => {
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (password !== confirm) {
+      setError("Passwords don't match.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await resetUserPassword(token, user.user_id, password);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      onReset?.(user);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div role="dialog" aria-labelledby="reset-password-dialog-title" className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 text-gray-900">
+        <div className="p-6 space-y-4">
+          {/* Header */}
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-amber-100 rounded-full flex items-center justify-center">
+              <KeyRound className="w-5 h-5 text-amber-700" />
+            </div>
+            <div>
+              <h3 id="reset-password-dialog-title" className="text-lg font-semibold text-gray-900">
+                Reset password for {user.name}
+              </h3>
+              <p className="text-sm text-gray-500">They will be signed out everywhere</p>
+            </div>
+          </div>
+
+          {/* Form */}
+          <div>
+            <label htmlFor="reset-password" className="block text-[#3b2a22] font-medium mb-2">New password</label>
+            <Input
+              id="reset-password"
+              type="password"
+              autoComplete="new-password"
+              className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label htmlFor="reset-password-confirm" className="block text-[#3b2a22] font-medium mb-2">Confirm password</label>
+            <Input
+              id="reset-password-confirm"
+              type="password"
+              autoComplete="new-password"
+              className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+
+          {error && (
+            <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-3">
+            <Button variant="outline" onClick={onClose} disabled={saving} className="px-4 py-2">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReset}
+              disabled={saving}
+              className="px-4 py-2 bg-[#7d6c64] hover:bg-[#6b4a41] text-white"
+            >
+              {saving ? "Saving..." : "Reset Password"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
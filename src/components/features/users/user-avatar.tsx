@@ -0,0 +1,27 @@
+import { avatarColorClass, avatarInitials, type AvatarSubject } from "@/lib/avatar";
+
+interface UserAvatarProps {
+  user: AvatarSubject;
+  size?: "sm" | "md" | "lg";
+  className?: string;
+}
+
+const SIZES = {
+  sm: "w-6 h-6 text-xs",
+  md: "w-8 h-8 text-sm",
+  lg: "w-14 h-14 text-xl",
+};
+
+/**
+ * A user's avatar: their initials on their colour, both picked in settings or derived from their name
+ */
+export function UserAvatar({ user, size = "md", className = "" }: UserAvatarProps) {
+  return (
+    <span
+      aria-hidden="true"
+      className={`${SIZES[size]} ${avatarColorClass(user)} inline-flex items-center justify-center rounded-lg font-semibold text-white flex-shrink-0 ${className}`}
+    >
+      {avatarInitials(user)}
+    </span>
+  );
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { UserCog } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { createUser, updateUser } from "@/lib/api/users";
+import { Constants } from "@/types/supabase";
+import type { UserAccount, UserFormData, UserRole } from "@/types/models";
+
+// Same limit the database enforces
+export const MIN_PASSWORD_LENGTH = 8;
+
+const ROLES = Constants.public.Enums.role_enum;
+
+interface UserDialogProps {
+  isOpen: boolean;
+  // Edits this account; creates a new one when omitted
+  user?: UserAccount | null;
+  // The acting admin's session token
+  token: string | null;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+export function validateUserForm(
+  values: UserFormData,
+  password?: string
+): { valid: boolean; errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+
+  if (!/^[A-Za-z0-9._-]{2,32}$/.test(values.username.trim())) {
+    errors.username = "Username must be 2-32 letters, digits, dots, dashes or underscores.";
+  }
+
+  if (values.name.trim() === "") {
+    errors.name = "Name is required.";
+  }
+
+  if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+    errors.password = `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+export function UserDialog({ isOpen, user, token, onClose, onSaved }: UserDialogProps) {
+  const [username, setUsername] = useState("");
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<UserRole>("User");
+  const [password, setPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog is reopened
+  useEffect(() => {
+    if (isOpen) {
+      setUsername(user?.username ?? "");
+      setName(user?.name ?? "");
+      setRole(user?.role === "Admin" ? "Admin" : "User");
+      setPassword("");
+      setError(null);
+    }
+  }, [isOpen, user]);
+
+  if (!isOpen) return null;
+
+  const handleSave = async () => {
+    if (!token) {
+      setError("Your session has expired. Sign in again.");
+      return;
+    }
+
+    const values: UserFormData = { username, name, role };
+    const validation = validateUserForm(values, user ? undefined : password);
+    if (!validation.valid) {
+      setError(Object.values(validation.errors).join(" "));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const result = user
+        ? await updateUser(token, user.user_id, values)
+        : await createUser(token, values, password);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      onSaved?.();
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div role="dialog" aria-labelledby="user-dialog-title" className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 text-gray-900">
+        <div className="p-6 space-y-4">
+          {/* Header */}
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-amber-100 rounded-full flex items-center justify-center">
+              <UserCog className="w-5 h-5 text-amber-700" />
+            </div>
+            <div>
+              <h3 id="user-dialog-title" className="text-lg font-semibold text-gray-900">
+                {user ? "Edit User" : "New User"}
+              </h3>
+              <p className="text-sm text-gray-500">
+                {user ? "They sign in with their username" : "Share the first password with them in person"}
+              </p>
+            </div>
+          </div>
+
+          {/* Form */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="user-username" className="block text-[#3b2a22] font-medium mb-2">Username</label>
+              <Input
+                id="user-username"
+                autoComplete="off"
+                className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <label htmlFor="user-name" className="block text-[#3b2a22] font-medium mb-2">Name</label>
+              <Input
+                id="user-name"
+                className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41] placeholder:text-gray-400"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="user-role" className="block text-[#3b2a22] font-medium mb-2">Role</label>
+            <select
+              id="user-role"
+              className="w-full rounded-md border border-[#7d6c64] px-3 py-2 text-sm focus:border-[#6b4a41] focus:outline-none focus:ring-1 focus:ring-[#6b4a41]"
+              value={role}
+              onChange={(e) => setRole(e.target.value as UserRole)}
+              disabled={saving}
+            >
+              {ROLES.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+          {!user && (
+            <div>
+              <label htmlFor="user-password" className="block text-[#3b2a22] font-medium mb-2">Password</label>
+              <Input
+                id="user-password"
+                type="password"
+                autoComplete="new-password"
+                className="border-[#7d6c64] focus:border-[#6b4a41] focus:ring-[#6b4a41]"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          )}
+
+          {error && (
+            <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-3">
+            <Button variant="outline" onClick={onClose} disabled={saving} className="px-4 py-2">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-[#7d6c64] hover:bg-[#6b4a41] text-white"
+            >
+              {saving ? "Saving..." : user ? "Save User" : "Add User"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
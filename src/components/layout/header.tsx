@@ -2,6 +2,11 @@
 
 import Link from "next/link";
 import { useAuth } from "@/contexts/auth-context";
+import { SeasonSwitcher } from "@/components/features/seasons";
+import { NotificationBell } from "@/components/features/notifications";
+import { SearchBox } from "@/components/features/search";
+import { UserAvatar } from "@/components/features/users";
+import { can } from "@/lib/permissions";
 
 
 type HeaderProps = {
@@ -10,18 +15,16 @@ type HeaderProps = {
 };
 
 export default function Header({ username, role }: HeaderProps) {
-    const { logout } = useAuth();
+    const { user, token, logout } = useAuth();
     
     return (
         <header className="bg-gradient-to-r from-[#3b2a22] to-[#4a3528] text-white shadow-lg border-b border-[#2a1a12]">
             <div className="mx-auto flex items-center justify-between px-6 py-4 max-w-7xl">
-                {/* Left: Title */}
-                <h1 className="text-2xl font-bold tracking-tight">
-                    BMT Fines 2025-2026
-                </h1>
+                {/* Left: Title + season switcher */}
+                <SeasonSwitcher />
 
-                {/* Middle: Navigation */}
-                <nav className="flex gap-3">
+                {/* Middle: Navigation + search */}
+                <nav className="flex items-center gap-3">
                     <Link
                         href="/dashboard"
                         className="rounded-lg bg-white/10 px-4 py-2 font-medium shadow-sm hover:bg-white/20 transition-colors duration-200"
@@ -34,13 +37,40 @@ export default function Header({ username, role }: HeaderProps) {
                     >
                         Totals
                     </Link>
+                    <Link
+                        href="/rules"
+                        className="rounded-lg bg-white/10 px-4 py-2 font-medium shadow-sm hover:bg-white/20 transition-colors duration-200"
+                    >
+                        Rules
+                    </Link>
+                    <Link
+                        href="/stats"
+                        className="rounded-lg bg-white/10 px-4 py-2 font-medium shadow-sm hover:bg-white/20 transition-colors duration-200"
+                    >
+                        Stats
+                    </Link>
+                    {can(user, "manage", { type: "user" }) && (
+                        <Link
+                            href="/admin/users"
+                            className="rounded-lg bg-white/10 px-4 py-2 font-medium shadow-sm hover:bg-white/20 transition-colors duration-200"
+                        >
+                            Users
+                        </Link>
+                    )}
+                    <SearchBox />
                 </nav>
 
-                {/* Right: User Info + Logout */}
+                {/* Right: Notifications + User Info + Logout */}
                 <div className="flex items-center gap-4 rounded-lg bg-white/10 px-4 py-2 backdrop-blur-sm">
-                    <span className="font-medium text-sm">
-                        {username} {role ? `(${role})` : ""}
-                    </span>
+                    <NotificationBell token={token} />
+                    <Link
+                        href="/settings"
+                        title="Account settings"
+                        className="flex items-center gap-2 font-medium text-sm hover:underline"
+                    >
+                        {user && <UserAvatar user={user} size="sm" />}
+                        <span>{username} {role ? `(${role})` : ""}</span>
+                    </Link>
                     <button
                         onClick={logout}
                         className="rounded-md bg-white/20 px-4 py-2 font-medium text-white shadow-sm hover:bg-white/30 transition-colors duration-200"
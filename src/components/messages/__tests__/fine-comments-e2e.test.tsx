@@ -75,6 +75,16 @@ jest.mock('@/components/features/comments', () => ({
 const mockUseAuth = useAuth as jest.MockedFunction<typeof useAuth>;
 const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
 
+// The feed reads fines a page at a time: select → order(date) → order(id) → limit → overrideTypes
+// Like the query, the page comes back newest first
+const finesPage = <T extends { date: string }>(fines: T[]) => {
+    const newestFirst = [...fines].sort((a, b) => b.date.localeCompare(a.date));
+    const query: Record<string, jest.Mock> = { overrideTypes: jest.fn(() => Promise.resolve({ data: newestFirst, error: null })) };
+    query.order = jest.fn(() => query);
+    query.limit = jest.fn(() => query);
+    return query.order;
+};
+
 // Mock fine data
 const mockFines = [
     {
@@ -126,14 +136,14 @@ describe('Fine Comments End-to-End Integration', () => {
                     eq: jest.fn(() => ({
                         eq: jest.fn(() => Promise.resolve({ data: [], error: null }))
                     })),
-                    order: jest.fn(() => Promise.resolve({ data: mockFines, error: null }))
-                }))
-            })),
-            channel: jest.fn(() => ({
-                on: jest.fn(() => ({
-                    subscribe: jest.fn()
+                    order: finesPage(mockFines)
                 }))
             })),
+            channel: jest.fn(() => {
+                const channel: Record<string, jest.Mock> = { subscribe: jest.fn() };
+                channel.on = jest.fn(() => channel);
+                return channel;
+            }),
             removeChannel: jest.fn()
         };
 
@@ -1,7 +1,9 @@
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { act, render, screen, fireEvent, waitFor } from '@testing-library/react';
 import FinesSlackInterface from '../slack';
 import { useAuth } from '@/contexts/auth-context';
 import { createClient } from '@/lib/supabase/client';
+import { FINES_PAGE_SIZE, getAllFines, getFine, getFinesPage } from '@/lib/api/fines';
+import { downloadExport } from '@/lib/export';
 
 // Mock the auth context
 jest.mock('@/contexts/auth-context', () => ({
@@ -13,6 +15,18 @@ jest.mock('@/lib/supabase/client', () => ({
     createClient: jest.fn()
 }));
 
+// Pages come from the mocked Supabase client unless a test queues its own
+jest.mock('@/lib/api/fines', () => {
+    const actual = jest.requireActual('@/lib/api/fines');
+    return { ...actual, getFinesPage: jest.fn(actual.getFinesPage), getAllFines: jest.fn(actual.getAllFines), getFine: jest.fn() };
+});
+
+// Exports are checked as tables rather than downloaded
+jest.mock('@/lib/export', () => ({
+    ...jest.requireActual('@/lib/export'),
+    downloadExport: jest.fn()
+}));
+
 // Mock the CommentsSection component
 jest.mock('@/components/features/comments', () => ({
     CommentsSection: ({ fineId, currentUserId }: { fineId: string; currentUserId?: string }) => (
@@ -25,6 +39,20 @@ jest.mock('@/components/features/comments', () => ({
 
 const mockUseAuth = useAuth as jest.MockedFunction<typeof useAuth>;
 const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockGetFinesPage = getFinesPage as jest.MockedFunction<typeof getFinesPage>;
+const mockGetAllFines = getAllFines as jest.MockedFunction<typeof getAllFines>;
+const mockGetFine = getFine as jest.MockedFunction<typeof getFine>;
+const mockDownloadExport = downloadExport as jest.MockedFunction<typeof downloadExport>;
+
+// The feed reads fines a page at a time: select → order(date) → order(id) → limit → overrideTypes
+// Like the query, the page comes back newest first
+const finesPage = <T extends { date: string }>(fines: T[]) => {
+    const newestFirst = [...fines].sort((a, b) => b.date.localeCompare(a.date));
+    const query: Record<string, jest.Mock> = { overrideTypes: jest.fn(() => Promise.resolve({ data: newestFirst, error: null })) };
+    query.order = jest.fn(() => query);
+    query.limit = jest.fn(() => query);
+    return query.order;
+};
 
 // Mock fine data
 const mockFines = [
@@ -77,14 +105,14 @@ describe('FinesSlackInterface - Comments Integration', () => {
                     eq: jest.fn(() => ({
                         eq: jest.fn(() => Promise.resolve({ data: [], error: null }))
                     })),
-                    order: jest.fn(() => Promise.resolve({ data: mockFines, error: null }))
-                }))
-            })),
-            channel: jest.fn(() => ({
-                on: jest.fn(() => ({
-                    subscribe: jest.fn()
+                    order: finesPage(mockFines)
                 }))
             })),
+            channel: jest.fn(() => {
+                const channel: Record<string, jest.Mock> = { subscribe: jest.fn() };
+                channel.on = jest.fn(() => channel);
+                return channel;
+            }),
             removeChannel: jest.fn()
         };
 
@@ -187,7 +215,7 @@ describe('FinesSlackInterface - Comments Integration', () => {
             // For fines table
             return {
                 select: jest.fn(() => ({
-                    order: jest.fn(() => Promise.resolve({ data: mockFines, error: null }))
+                    order: finesPage(mockFines)
                 }))
             };
         });
@@ -245,6 +273,184 @@ describe('FinesSlackInterface - Comments Integration', () => {
         });
     });
 
+    it('should strike through voided fines', async () => {
+        mockSupabase.from = jest.fn(() => ({
+            select: jest.fn(() => ({
+                in: jest.fn(() => ({
+                    eq: jest.fn(() => Promise.resolve({ data: [], error: null }))
+                })),
+                order: finesPage([{ ...mockFines[0], is_void: true }, mockFines[1]])
+            }))
+        }));
+
+        render(<FinesSlackInterface refreshKey={0} />);
+
+        await waitFor(() => {
+            expect(screen.getByText(/Test fine/)).toBeInTheDocument();
+        });
+
+        expect(screen.getByText(/Test fine/)).toHaveClass('line-through');
+        expect(screen.getByText(/Test credit/)).not.toHaveClass('line-through');
+        expect(screen.getAllByText('Voided')).toHaveLength(1);
+    });
+
+    it('should load older fines after the first page and keep them under their day', async () => {
+        type FinesPage = Awaited<ReturnType<typeof getFinesPage>>;
+        mockGetFinesPage
+            .mockResolvedValueOnce({
+                data: { data: [mockFines[1]], nextCursor: { date: mockFines[1].date, id: 'fine-2' }, hasMore: true },
+                error: null
+            } as FinesPage)
+            .mockResolvedValueOnce({
+                data: { data: [mockFines[0]], nextCursor: null, hasMore: false },
+                error: null
+            } as FinesPage);
+
+        render(<FinesSlackInterface refreshKey={0} seasonId="season-1" />);
+
+        await waitFor(() => {
+            expect(screen.getByText(/Test credit/)).toBeInTheDocument();
+        });
+        expect(screen.queryByText(/Test fine/)).not.toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Load older fines' }));
+
+        await waitFor(() => {
+            expect(screen.getByText(/Test fine/)).toBeInTheDocument();
+        });
+        expect(mockGetFinesPage).toHaveBeenLastCalledWith(
+            { limit: FINES_PAGE_SIZE, cursor: { date: mockFines[1].date, id: 'fine-2' } },
+            'season-1',
+            {}
+        );
+        // Both fines are from the same day, so the second page joins the first day's group
+        expect(screen.getAllByText(/Monday, August 18|Today|Yesterday/)).toHaveLength(1);
+        // Older fines are added above, so the feed reads oldest first
+        expect(screen.getByText(/Test fine/).compareDocumentPosition(screen.getByText(/Test credit/)))
+            .toBe(Node.DOCUMENT_POSITION_FOLLOWING);
+        expect(screen.queryByRole('button', { name: 'Load older fines' })).not.toBeInTheDocument();
+    });
+
+    it('should reload the feed with the chosen filters and clear them from the chips', async () => {
+        render(<FinesSlackInterface refreshKey={0} />);
+
+        await waitFor(() => {
+            expect(screen.getByText(/Test fine/)).toBeInTheDocument();
+        });
+
+        mockGetFinesPage.mockResolvedValueOnce({
+            data: { data: [mockFines[1]], nextCursor: null, hasMore: false },
+            error: null
+        } as Awaited<ReturnType<typeof getFinesPage>>);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Filters' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Credit' }));
+
+        await waitFor(() => {
+            expect(screen.queryByText(/Test fine/)).not.toBeInTheDocument();
+        });
+        expect(mockGetFinesPage).toHaveBeenLastCalledWith({ limit: FINES_PAGE_SIZE }, undefined, { fineTypes: ['Credit'] });
+        expect(screen.getByText(/Test credit/)).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Filters (1)' })).toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Remove filter Type: Credit' }));
+
+        await waitFor(() => {
+            expect(screen.getByText(/Test fine/)).toBeInTheDocument();
+        });
+        expect(mockGetFinesPage).toHaveBeenLastCalledWith({ limit: FINES_PAGE_SIZE }, undefined, { fineTypes: [] });
+        expect(screen.queryByRole('button', { name: /Remove filter/ })).not.toBeInTheDocument();
+    });
+
+    it('should show a failed load in the feed and clear it when the filters change', async () => {
+        render(<FinesSlackInterface refreshKey={0} />);
+
+        await waitFor(() => {
+            expect(screen.getByText(/Test fine/)).toBeInTheDocument();
+        });
+
+        mockGetFinesPage.mockResolvedValueOnce({ data: null, error: 'timeout' });
+
+        fireEvent.click(screen.getByRole('button', { name: 'Filters' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Credit' }));
+
+        await waitFor(() => {
+            expect(screen.getByRole('alert')).toHaveTextContent('Error: timeout');
+        });
+        expect(screen.queryByText(/Test fine/)).not.toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Remove filter Type: Credit' }));
+
+        await waitFor(() => {
+            expect(screen.getByText(/Test fine/)).toBeInTheDocument();
+        });
+        expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
+    it('should export every fine matching the filters', async () => {
+        render(<FinesSlackInterface refreshKey={0} />);
+
+        await waitFor(() => {
+            expect(screen.getByText(/Test fine/)).toBeInTheDocument();
+        });
+
+        mockGetFinesPage.mockResolvedValueOnce({
+            data: { data: [mockFines[1]], nextCursor: null, hasMore: false },
+            error: null
+        } as Awaited<ReturnType<typeof getFinesPage>>);
+        mockGetAllFines.mockResolvedValueOnce({ data: [mockFines[1]], error: null } as Awaited<ReturnType<typeof getAllFines>>);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Filters' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Credit' }));
+        await waitFor(() => {
+            expect(screen.queryByText(/Test fine/)).not.toBeInTheDocument();
+        });
+
+        fireEvent.click(screen.getByRole('button', { name: 'Export fines' }));
+        fireEvent.click(screen.getByRole('menuitem', { name: 'CSV (spreadsheet)' }));
+
+        await waitFor(() => {
+            expect(mockDownloadExport).toHaveBeenCalled();
+        });
+        expect(mockGetAllFines).toHaveBeenCalledWith(undefined, { fineTypes: ['Credit'] });
+        const [table, format, filename] = mockDownloadExport.mock.calls[0];
+        expect(table.rows).toEqual([
+            expect.objectContaining({ subject: 'Bob Wilson', proposer: 'Alice Brown', type: 'Credit', amount: 50, comments: 0 })
+        ]);
+        expect(format).toBe('csv');
+        expect(filename).toMatch(/^fines-\d{4}-\d{2}-\d{2}\.csv$/);
+    });
+
+    it('should add and drop fines live without reloading the feed', async () => {
+        render(<FinesSlackInterface refreshKey={0} />);
+
+        await waitFor(() => {
+            expect(screen.getByText(/Test fine/)).toBeInTheDocument();
+        });
+
+        // The handlers registered on the fines channel, by event
+        const finesChannel = mockSupabase.channel.mock.results
+            .find((result: { value: { on: jest.Mock } }) => result.value.on.mock.calls.some(([, filter]) => filter.table === 'fines'))
+            .value;
+        const handlerFor = (event: string) =>
+            finesChannel.on.mock.calls.find(([, filter]: [string, { event: string }]) => filter.event === event)[2];
+
+        mockGetFine.mockResolvedValueOnce({
+            data: { ...mockFines[0], id: 'fine-3', date: '2025-08-18T12:00:00Z', description: 'Live fine' },
+            error: null
+        } as Awaited<ReturnType<typeof getFine>>);
+        await act(() => handlerFor('INSERT')({ new: { id: 'fine-3' } }));
+
+        expect(mockGetFine).toHaveBeenCalledWith('fine-3');
+        expect(screen.getByText(/Live fine/)).toBeInTheDocument();
+
+        act(() => handlerFor('DELETE')({ old: { id: 'fine-1' } }));
+
+        expect(screen.queryByText(/Test fine/)).not.toBeInTheDocument();
+        expect(screen.getByText(/Live fine/)).toBeInTheDocument();
+        expect(mockGetFinesPage).toHaveBeenCalledTimes(1);
+    });
+
     it('should set up real-time subscription for comments', () => {
         render(<FinesSlackInterface refreshKey={0} />);
 
@@ -1,11 +1,25 @@
-import React, { useState, useEffect } from 'react';
-import { MessageCircle, MoreVertical, Smile, Reply, Bookmark, ChevronDown, ChevronRight } from 'lucide-react';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback } from 'react';
+import { MessageCircle, Reply, Bookmark, ChevronDown, ChevronRight, SlidersHorizontal } from 'lucide-react';
 import type { FineWithUsersQuery } from '@/types/api';
+import type { FineFeedFilters, PageCursor } from '@/types/common';
 import { createClient } from '@/lib/supabase/client';
 import { CommentsSection, CommentAvatars } from '@/components/features/comments';
+import { FineActionsMenu, FineFeedFilterBar, FineFilterChips, FineVoteBar } from '@/components/features/fines';
+import { EmojiPicker, ReactionChips } from '@/components/features/reactions';
+import { PlayerLink } from '@/components/features/players';
+import { ExportMenu } from '@/components/features/export';
 import { useAuth } from '@/contexts/auth-context';
-import { getCommentsHierarchy } from '@/lib/api/comments';
-import type { UserSelect } from '@/types/models';
+import { useBookmarks } from '@/hooks/use-bookmarks';
+import { useReactions, type RealtimeReactionPayload } from '@/hooks/use-reactions';
+import { getCommentCounts, getCommentsHierarchy } from '@/lib/api/comments';
+import { FINES_PAGE_SIZE, getAllFines, getFine, getFinesPage } from '@/lib/api/fines';
+import { getUsers } from '@/lib/api/users';
+import { downloadExport, exportFilename, finesExportTable, type ExportFormat } from '@/lib/export';
+import { getFilterChips, matchesNewFine } from '@/lib/fine-filters';
+import { formatMoney } from '@/lib/money';
+import { summarizeReactions } from '@/lib/api/reactions';
+import { applyVoteToTallies, DEFAULT_APPROVAL_THRESHOLD, getApprovalSettings, getVotesByUser } from '@/lib/api/votes';
+import type { Fine, UserSelect, VoteChoice } from '@/types/models';
 
 
 // You'll need to import this from your actual file
@@ -13,20 +27,88 @@ import type { UserSelect } from '@/types/models';
 
 type FinesSlackInterfaceProps = {
   refreshKey?: number;
+  // Only fines from this season are shown; all fines when omitted
+  seasonId?: string;
+  // Archived seasons can be browsed but not voted on, edited or commented on
+  readOnly?: boolean;
+  // Scrolls to this fine and opens its comments, e.g. when following a notification
+  focusFineId?: string | null;
+  // A comment on the focused fine to scroll to, e.g. a search hit
+  focusCommentId?: string | null;
 };
 
-const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
+// The fine columns the feed shows; realtime payloads carry the whole row
+const FEED_FINE_COLUMNS = [
+  'date', 'fine_type', 'description', 'amount', 'replies', 'is_void', 'status',
+  'approve_votes', 'reject_votes', 'subject_id', 'proposer_id', 'batch_id'
+] as const;
+
+const pickFineColumns = (row: Partial<Fine>): Partial<FineWithUsersQuery> =>
+  Object.fromEntries(FEED_FINE_COLUMNS.filter(column => column in row).map(column => [column, row[column]]));
+
+// Newest first, as the feed's pages are ordered
+const isNewerFine = (a: FineWithUsersQuery, b: FineWithUsersQuery) => {
+  const difference = new Date(a.date).getTime() - new Date(b.date).getTime();
+  return difference > 0 || (difference === 0 && a.id > b.id);
+};
+
+// Places a fine added since the feed loaded. One older than every fine loaded
+// is left for the page that will bring it.
+const insertFine = (list: FineWithUsersQuery[], fine: FineWithUsersQuery, hasMore: boolean) => {
+  if (list.some(loaded => loaded.id === fine.id)) return list;
+
+  const index = list.findIndex(loaded => isNewerFine(fine, loaded));
+  if (index === -1) {
+    return hasMore ? list : [...list, fine];
+  }
+  return [...list.slice(0, index), fine, ...list.slice(index)];
+};
+
+const FinesSlackInterface = ({ refreshKey, seasonId, readOnly = false, focusFineId, focusCommentId }: FinesSlackInterfaceProps) => {
   const [fines, setFines] = useState<FineWithUsersQuery[]>([]);
   const [loading, setLoading] = useState(true);
+  // Reloading with new filters keeps the current fines on screen until the new ones arrive
+  const [refreshing, setRefreshing] = useState(false);
+  const hasLoadedRef = useRef(false);
+  // Older fines are loaded a page at a time as the feed is scrolled up
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // While a page and its details render, the view is held this far from the
+  // bottom of the feed: 0 keeps the newest fines in view after a reload, and
+  // older fines added above don't push the ones being read out of view
+  const scrollAnchorRef = useRef<number | null>(null);
+  // Bumped on every reload so a page requested before it is dropped
+  const feedVersionRef = useRef(0);
   const [error, setError] = useState<string | null>(null);
-  const [filterPlayer, setFilterPlayer] = useState('');
+  const [filters, setFilters] = useState<FineFeedFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [players, setPlayers] = useState<UserSelect[]>([]);
+  const [showSaved, setShowSaved] = useState(false);
   const [expandedComments, setExpandedComments] = useState<Set<string>>(new Set());
   const [commentCounts, setCommentCounts] = useState<Record<string, number>>({});
   const [commentParticipants, setCommentParticipants] = useState<Record<string, UserSelect[]>>({});
-  const { user } = useAuth();
+  const [reloadKey, setReloadKey] = useState(0);
+  const [myVotes, setMyVotes] = useState<Record<string, VoteChoice>>({});
+  const [approvalThreshold, setApprovalThreshold] = useState(DEFAULT_APPROVAL_THRESHOLD);
+  const { user, token } = useAuth();
+  const {
+    reactions,
+    loadReactions,
+    toggleReaction,
+    handleRealtimeChange: handleReactionChange
+  } = useReactions(user?.id, token);
+  const { isBookmarked, toggleBookmark } = useBookmarks(token);
+  // The Saved view is one more filter in the query
+  const feedFilters = useMemo<FineFeedFilters>(
+    () => showSaved && token ? { ...filters, savedWithToken: token } : filters,
+    [filters, showSaved, token]
+  );
 
-  // Fetch comment counts and participants for all fines
-  const fetchCommentData = async (fineIds: string[]) => {
+  // Fetch comment counts and participants for a set of fines
+  const fetchCommentData = useCallback(async (fineIds: string[]) => {
     try {
       const supabase = createClient();
       
@@ -45,7 +127,7 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
       }
 
       // Count comments per fine and collect participants
-      const counts: Record<string, number> = {};
+      const counts: Record<string, number> = Object.fromEntries(fineIds.map(fineId => [fineId, 0]));
       const participants: Record<string, Set<string>> = {};
       
       data?.forEach(comment => {
@@ -71,103 +153,176 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
         participantsArray[fineId] = Array.from(participantSet).map(p => JSON.parse(p));
       });
 
-      setCommentCounts(counts);
-      setCommentParticipants(participantsArray);
+      setCommentCounts(prev => ({ ...prev, ...counts }));
+      setCommentParticipants(prev => ({
+        ...prev,
+        ...Object.fromEntries(fineIds.map(fineId => [fineId, participantsArray[fineId] || []]))
+      }));
     } catch (err) {
       console.error('Failed to fetch comment data:', err);
     }
+  }, []);
+
+  // Fetch the current user's votes on fines that are still open
+  // With append, the votes are added to those already loaded for earlier pages
+  const fetchVoteData = useCallback(async (finesData: FineWithUsersQuery[], voterId?: string, append = false) => {
+    const openIds = finesData
+      .filter(fine => fine.status === 'pending' || fine.status === 'contested')
+      .map(fine => fine.id);
+
+    if (!voterId || openIds.length === 0) {
+      if (!append) {
+        setMyVotes({});
+      }
+      return;
+    }
+
+    const [votes, settings] = await Promise.all([
+      getVotesByUser(openIds, voterId),
+      getApprovalSettings()
+    ]);
+
+    setMyVotes(prev => append ? { ...prev, ...votes.data } : votes.data || {});
+    if (settings.data) {
+      setApprovalThreshold(settings.data.approval_threshold);
+    }
+  }, []);
+
+  // Optimistically record the user's vote; the realtime update brings the real tallies
+  const handleVoteChange = (fineId: string, vote: VoteChoice | null) => {
+    const previous = myVotes[fineId];
+    setMyVotes(prev => {
+      const next = { ...prev };
+      if (vote) {
+        next[fineId] = vote;
+      } else {
+        delete next[fineId];
+      }
+      return next;
+    });
+    setFines(prev => prev.map(fine =>
+      fine.id === fineId ? { ...fine, ...applyVoteToTallies(fine, previous, vote) } : fine
+    ));
   };
 
+  // Comment counts, votes and reactions for a page of fines
+  const fetchFineDetails = useCallback(async (pageFines: FineWithUsersQuery[], append: boolean) => {
+    if (pageFines.length === 0) return;
+
+    const fineIds = pageFines.map(fine => fine.id);
+    await fetchCommentData(fineIds);
+    await fetchVoteData(pageFines, user?.id, append);
+    await loadReactions(fineIds, append);
+  }, [fetchCommentData, fetchVoteData, loadReactions, user?.id]);
+
+  // Read by the realtime handlers, which are subscribed once
+  const liveFeedRef = useRef({ fines, seasonId, filters: feedFilters, hasMore, fetchFineDetails });
+  useEffect(() => {
+    liveFeedRef.current = { fines, seasonId, filters: feedFilters, hasMore, fetchFineDetails };
+  });
+
+  // Adds the next page of older fines above those loaded. Days and bulk entries
+  // that straddle a page boundary are grouped from the whole list, so they join
+  // back up.
+  const loadOlderFines = useCallback(async () => {
+    if (!hasMore || !nextCursor || loadingMore) return;
+
+    const version = feedVersionRef.current;
+    setLoadingMore(true);
+    const { data, error } = await getFinesPage({ limit: FINES_PAGE_SIZE, cursor: nextCursor }, seasonId, feedFilters);
+    if (version !== feedVersionRef.current) return;
+
+    if (error || !data) {
+      // Leave the cursor where it was so the next scroll or click retries
+      setLoadingMore(false);
+      return;
+    }
+
+    const scroller = scrollerRef.current;
+    if (scroller) {
+      scrollAnchorRef.current = scroller.scrollHeight - scroller.clientHeight - scroller.scrollTop;
+    }
+    setFines(prev => [...prev, ...data.data.filter(fine => !prev.some(loaded => loaded.id === fine.id))]);
+    setNextCursor(data.nextCursor);
+    setHasMore(data.hasMore);
+    await fetchFineDetails(data.data, true);
+    setLoadingMore(false);
+  }, [hasMore, nextCursor, loadingMore, seasonId, feedFilters, fetchFineDetails]);
+
+  // Deactivated players stay filterable; their fines are still in the feed
+  useEffect(() => {
+    getUsers(true).then(setPlayers);
+  }, []);
+
   useEffect(() => {
     const fetchFines = async () => {
-      setLoading(true);
+      const version = ++feedVersionRef.current;
+      if (hasLoadedRef.current) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      setLoadingMore(false);
+      setError(null);
+
+      // The fines from the last load may not match the new filters, so they go too
+      const fail = (message: string) => {
+        setError(message);
+        setFines([]);
+        setNextCursor(null);
+        setHasMore(false);
+      };
+
       try {
-        const supabase = createClient();
-
-        const { data, error } = await supabase
-          .from('fines')
-          .select(`
-          id,
-          date,
-          fine_type,
-          description,
-          amount,
-          replies,
-          subject:users!fines_subject_id_fkey(name),
-          proposer:users!fines_proposer_id_fkey(name)
-        `)
-          .order('date', { ascending: false });
-
-        const sampleData: FineWithUsersQuery[] = [
-          {
-            id: '1',
-            date: '2025-08-17T15:52:00Z',
-            fine_type: 'Fine',
-            description: 'jittiness',
-            amount: 300, // assuming cents
-            replies: 0,
-            subject: { name: 'Toby Luo' },
-            proposer: { name: 'Sam Feldman' }
-          },
-          {
-            id: '2',
-            date: '2025-08-17T15:55:00Z',
-            fine_type: 'Credit',
-            description: 'haha',
-            amount: 100,
-            replies: 0,
-            subject: { name: 'Sam Feldman' },
-            proposer: { name: 'Sam Feldman' }
-          },
-          {
-            id: '3',
-            date: '2025-08-17T16:12:00Z',
-            fine_type: 'Credit',
-            description: 'dece',
-            amount: 100,
-            replies: 0,
-            subject: { name: 'James Lian' },
-            proposer: { name: 'Sam Feldman' }
-          },
-          {
-            id: '4',
-            date: '2025-08-17T16:18:00Z',
-            fine_type: 'Warning',
-            description: 'blah',
-            amount: 0,
-            replies: 0,
-            subject: { name: 'Sam Feldman' },
-            proposer: { name: 'James Lian' }
-          },
-          {
-            id: '5',
-            date: '2025-08-17T16:25:00Z',
-            fine_type: 'Fine',
-            description: 'being such a jitter critter that we had to go to your jitty ah room bugger cousin',
-            amount: 100,
-            replies: 1,
-            subject: { name: 'James Lian' },
-            proposer: { name: 'Sam Feldman' }
-          }
-        ];
-        // setFines(sampleData);
-        console.log('Fines data from database:', data);
-        const finesData = data || [];
-        setFines(finesData);
-        
-        // Fetch comment counts for all fines
-        if (finesData.length > 0) {
-          await fetchCommentData(finesData.map(fine => fine.id));
+        const { data, error } = await getFinesPage({ limit: FINES_PAGE_SIZE }, seasonId, feedFilters);
+        if (version !== feedVersionRef.current) return;
+
+        if (error || !data) {
+          fail(error || 'Failed to fetch fines');
+          return;
         }
+
+        scrollAnchorRef.current = 0;
+        setFines(data.data);
+        setNextCursor(data.nextCursor);
+        setHasMore(data.hasMore);
+        await fetchFineDetails(data.data, false);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'An error occurred');
+        if (version === feedVersionRef.current) {
+          fail(err instanceof Error ? err.message : 'An error occurred');
+        }
       } finally {
-        setLoading(false);
+        if (version === feedVersionRef.current) {
+          hasLoadedRef.current = true;
+          setLoading(false);
+          setRefreshing(false);
+        }
       }
     };
 
     fetchFines();
+  }, [refreshKey, reloadKey, seasonId, feedFilters, fetchFineDetails]);
+
+  // Holds the view in place until the page being loaded has fully rendered
+  useLayoutEffect(() => {
+    const scroller = scrollerRef.current;
+    if (scrollAnchorRef.current === null || !scroller) return;
+
+    scroller.scrollTop = scroller.scrollHeight - scroller.clientHeight - scrollAnchorRef.current;
+    if (!loading && !refreshing && !loadingMore) {
+      scrollAnchorRef.current = null;
+    }
+  });
 
+  // Scrolling while a page loads moves the held position with it
+  const handleFeedScroll = () => {
+    const scroller = scrollerRef.current;
+    if (scrollAnchorRef.current !== null && scroller) {
+      scrollAnchorRef.current = scroller.scrollHeight - scroller.clientHeight - scroller.scrollTop;
+    }
+  };
+
+  useEffect(() => {
     // Set up real-time subscription for comments
     const supabase = createClient();
     const commentsChannel = supabase
@@ -204,13 +359,147 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
           }
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'reactions'
+        },
+        (payload: RealtimeReactionPayload) => {
+          // Reactions on comments are kept up to date by the open comments section
+          const record = payload.eventType === 'DELETE' ? payload.old : payload.new;
+          if (!record?.comment_id) {
+            handleReactionChange(payload);
+          }
+        }
+      )
       .subscribe();
 
-    // Cleanup subscription on unmount
+    // New fines are placed in the feed and deleted ones dropped, without reloading it.
+    // Vote tallies, status changes, edits and voids arrive as updates to the fine row.
+    const finesChannel = supabase
+      .channel('fine-status-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'fines'
+        },
+        async (payload: { new?: Partial<Fine> }) => {
+          const inserted = payload.new;
+          const feedSeasonId = liveFeedRef.current.seasonId;
+          if (!inserted?.id || (feedSeasonId && inserted.season_id !== feedSeasonId)) return;
+
+          // The payload is the bare row, so fetch it with the player names
+          const version = feedVersionRef.current;
+          const { data } = await getFine(inserted.id);
+          const live = liveFeedRef.current;
+          if (!data || version !== feedVersionRef.current || !matchesNewFine(data, live.filters)) return;
+
+          // Someone reading the newest fines keeps seeing them as more arrive below
+          const scroller = scrollerRef.current;
+          if (scroller && scrollAnchorRef.current === null &&
+            scroller.scrollHeight - scroller.clientHeight - scroller.scrollTop < 1) {
+            scrollAnchorRef.current = 0;
+          }
+          setFines(prev => insertFine(prev, data, live.hasMore));
+          await live.fetchFineDetails([data], true);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'fines'
+        },
+        (payload: { old?: Partial<Fine> }) => {
+          const deletedId = payload.old?.id;
+          if (!deletedId) return;
+          setFines(prev => prev.filter(fine => fine.id !== deletedId));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'fines'
+        },
+        async (payload: { new?: Partial<Fine> }) => {
+          const updated = payload.new;
+          const loaded = liveFeedRef.current.fines.find(fine => fine.id === updated?.id);
+          if (!updated?.id || !loaded) return;
+
+          const columns = pickFineColumns(updated);
+          setFines(prev => prev.map(fine =>
+            fine.id === updated.id ? { ...fine, ...columns } : fine
+          ));
+
+          // The payload is the bare row; names come from the joined users, so refetch them
+          const moved = (columns.subject_id !== undefined && columns.subject_id !== loaded.subject_id) ||
+            (columns.proposer_id !== undefined && columns.proposer_id !== loaded.proposer_id);
+          if (moved) {
+            const { data } = await getFine(updated.id);
+            if (data) {
+              setFines(prev => prev.map(fine => fine.id === data.id ? data : fine));
+            }
+          }
+        }
+      )
+      .subscribe();
+
+    // Cleanup subscriptions on unmount
     return () => {
       supabase.removeChannel(commentsChannel);
+      supabase.removeChannel(finesChannel);
     };
-  }, [refreshKey]);
+  }, [handleReactionChange]);
+
+  // Bulk fines share one comment thread on the batch's first fine
+  const focusedFineRef = useRef<string | null>(null);
+  useEffect(() => {
+    const focusKey = `${focusFineId}:${focusCommentId ?? ''}`;
+    if (loading || !focusFineId || focusedFineRef.current === focusKey) return;
+
+    const focused = fines.find(fine => fine.id === focusFineId);
+    if (!focused) {
+      // It may be further back than the pages loaded so far
+      loadOlderFines();
+      return;
+    }
+
+    const lead = focused.batch_id
+      ? fines.find(fine => fine.batch_id === focused.batch_id) ?? focused
+      : focused;
+
+    focusedFineRef.current = focusKey;
+    setExpandedComments(prev => new Set(prev).add(lead.id));
+    // A focused comment is scrolled to by its CommentsSection once loaded
+    if (!focusCommentId) {
+      document.getElementById(`fine-${lead.id}`)?.scrollIntoView({ block: 'center' });
+    }
+  }, [focusFineId, focusCommentId, loading, fines, loadOlderFines]);
+
+  // Load the next page when the top of the feed scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (loading || !hasMore || loadingMore || !sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          loadOlderFines();
+        }
+      },
+      { root: scrollerRef.current, rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [loading, hasMore, loadingMore, loadOlderFines]);
 
   const getTypeColor = (type: string) => {
     console.log('Getting color for type:', type);
@@ -236,10 +525,6 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
     }
   };
 
-  const formatAmount = (amount: number) => {
-    return `${(amount / 100).toFixed(2)}`;
-  };
-
   const formatTimestamp = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString('en-US', {
@@ -275,6 +560,30 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
     });
   };
 
+  const handleToggleReaction = async (fineId: string, emoji: string) => {
+    const reactionError = await toggleReaction({ fineId }, emoji);
+    if (reactionError) {
+      alert('Error updating reaction: ' + reactionError);
+    }
+  };
+
+  const handleToggleBookmark = async (fineId: string) => {
+    const unsaving = isBookmarked(fineId);
+    const bookmarkError = await toggleBookmark(fineId);
+    if (bookmarkError) {
+      alert('Error saving fine: ' + bookmarkError);
+      return;
+    }
+
+    // An unsaved fine leaves the Saved view, with the rest of its bulk entry
+    if (showSaved && unsaving) {
+      setFines(prev => {
+        const batchId = prev.find(fine => fine.id === fineId)?.batch_id;
+        return prev.filter(fine => fine.id !== fineId && !(batchId && fine.batch_id === batchId));
+      });
+    }
+  };
+
   // Update comment count when comments change
   const handleCommentCountChange = (fineId: string, newCount: number) => {
     setCommentCounts(prev => ({
@@ -288,13 +597,27 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
     }
   };
 
-  const filteredFines = fines.filter(fine =>
-    (fine.subject && typeof fine.subject === 'object' && 'name' in fine.subject && fine.subject.name.toLowerCase().includes(filterPlayer.toLowerCase())) ||
-    (fine.proposer && typeof fine.proposer === 'object' && 'name' in fine.proposer && fine.proposer.name.toLowerCase().includes(filterPlayer.toLowerCase()))
-  );
+  const activeFilterCount = getFilterChips(filters).length;
 
-  // Group fines by date (render all fines; scrolling container will limit visible count)
-  const groupedFines = filteredFines.reduce((groups, fine) => {
+  // Exports every fine the filters match, not just the pages loaded so far
+  const handleExport = async (format: ExportFormat) => {
+    const { data, error: finesError } = await getAllFines(seasonId, feedFilters);
+    if (finesError || !data) {
+      return finesError || 'Failed to fetch fines';
+    }
+
+    const { data: counts, error: countsError } = await getCommentCounts(data.map(fine => fine.id));
+    if (countsError || !counts) {
+      return countsError || 'Failed to count comments';
+    }
+
+    downloadExport(finesExportTable(data, counts), format, exportFilename(showSaved ? 'saved-fines' : 'fines', format));
+    return null;
+  };
+
+  // Group fines by date (render all fines; scrolling container will limit visible count).
+  // Grouped newest first, as loaded, then shown oldest first like a chat.
+  const groupedFines = fines.reduce((groups, fine) => {
     const date = new Date(fine.date).toDateString();
     if (!groups[date]) {
       groups[date] = [];
@@ -303,6 +626,23 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
     return groups;
   }, {} as Record<string, FineWithUsersQuery[]>);
 
+  // Fines entered together in bulk share a batch_id and are shown as one message
+  const groupBatches = (dayFines: FineWithUsersQuery[]) => dayFines.reduce((batches, fine) => {
+    const last = batches[batches.length - 1];
+    if (fine.batch_id && last && last[0].batch_id === fine.batch_id) {
+      last.push(fine);
+    } else {
+      batches.push([fine]);
+    }
+    return batches;
+  }, [] as FineWithUsersQuery[][]);
+
+  const getSubjectName = (fine: FineWithUsersQuery) =>
+    fine.subject && typeof fine.subject === 'object' && 'name' in fine.subject ? fine.subject.name : 'Unknown';
+
+  const getFineTextColor = (fine: FineWithUsersQuery) =>
+    fine.is_void ? 'text-gray-400 line-through' : fine.status === 'rejected' ? 'text-gray-400' : 'text-gray-900';
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const today = new Date();
@@ -330,14 +670,6 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
     );
   }
 
-  if (error) {
-    return (
-      <div className="flex items-center justify-center h-screen">
-        <div className="text-red-500">Error: {error}</div>
-      </div>
-    );
-  }
-
   return (
     <div className="flex flex-col bg-white">
       {/* Header */}
@@ -348,18 +680,77 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
           </div>
           <h1 className="text-lg font-semibold">Fines</h1>
         </div>
-        <input
-          type="text"
-          placeholder="Filter player..."
-          value={filterPlayer}
-          onChange={(e) => setFilterPlayer(e.target.value)}
-          className="bg-gray-700 text-white px-3 py-1 rounded border border-gray-600 focus:outline-none focus:border-blue-500"
-        />
+        <div className="flex items-center space-x-2">
+          {user && (
+            <button
+              onClick={() => setShowSaved(saved => !saved)}
+              aria-pressed={showSaved}
+              className={`flex items-center space-x-1 px-3 py-1 rounded border text-sm transition-colors ${
+                showSaved ? 'bg-amber-500 border-amber-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600'
+              }`}
+            >
+              <Bookmark size={14} fill={showSaved ? 'currentColor' : 'none'} />
+              <span>Saved</span>
+            </button>
+          )}
+          <button
+            onClick={() => setShowFilters(open => !open)}
+            aria-expanded={showFilters}
+            className={`flex items-center space-x-1 px-3 py-1 rounded border text-sm transition-colors ${
+              showFilters || activeFilterCount > 0 ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600'
+            }`}
+          >
+            <SlidersHorizontal size={14} />
+            <span>Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}</span>
+          </button>
+          <ExportMenu
+            label="fines"
+            onExport={handleExport}
+            buttonClassName="bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600"
+          />
+        </div>
       </div>
 
+      {showFilters && (
+        <FineFeedFilterBar filters={filters} onChange={setFilters} players={players} />
+      )}
+      <FineFilterChips filters={filters} onChange={setFilters} players={players} />
+
       {/* Messages Container */}
-      <div className="overflow-y-auto p-4 space-y-1 max-h-[520px]">
-        {Object.entries(groupedFines).map(([date, fines]) => (
+      <div
+        ref={scrollerRef}
+        aria-busy={refreshing}
+        onScroll={handleFeedScroll}
+        className={`overflow-y-auto p-4 space-y-1 max-h-[520px] transition-opacity ${refreshing ? 'opacity-60' : ''}`}
+      >
+        {/* Older fines load as this comes into view; the button is there for keyboards and as a fallback */}
+        {hasMore && (
+          <div ref={sentinelRef} className="flex justify-center py-3">
+            <button
+              onClick={loadOlderFines}
+              disabled={loadingMore}
+              className="text-xs text-gray-500 hover:text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+            >
+              {loadingMore ? 'Loading older fines...' : 'Load older fines'}
+            </button>
+          </div>
+        )}
+        {/* Shown in the feed so the filters stay usable, e.g. to undo the change that failed */}
+        {error && (
+          <div role="alert" className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+            Error: {error}
+          </div>
+        )}
+        {fines.length === 0 && !hasMore && !error && (
+          <p className="py-8 text-center text-sm text-gray-500">
+            {showSaved
+              ? 'No saved fines yet. Use the bookmark on a fine to keep track of it here.'
+              : activeFilterCount > 0
+                ? 'No fines match these filters.'
+                : 'No fines yet.'}
+          </p>
+        )}
+        {Object.entries(groupedFines).reverse().map(([date, fines]) => (
           <div key={date}>
             {/* Date Divider */}
             <div className="flex items-center justify-center mb-2">
@@ -369,12 +760,18 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
             </div>
 
             {/* Messages for this date */}
-            {fines.map((fine) => {
+            {groupBatches(fines).reverse().map((batch) => {
+              // A bulk entry's comments hang off its first fine
+              const fine = batch[0];
+              const isBatch = batch.length > 1;
               const proposerName = fine.proposer && typeof fine.proposer === 'object' && 'name' in fine.proposer ? fine.proposer.name : 'Unknown';
-              const subjectName = fine.subject && typeof fine.subject === 'object' && 'name' in fine.subject ? fine.subject.name : 'Unknown';
+              const subjectName = getSubjectName(fine);
+              const fineReactions = summarizeReactions(reactions, { fineId: fine.id }, user?.id);
+              const canReact = !readOnly && Boolean(user);
+              const saved = isBookmarked(fine.id);
 
               return (
-                <div key={fine.id} className={`group hover:bg-gray-50 -mx-4 px-4 py-1 rounded border-b border-gray-300 ${
+                <div key={fine.id} id={`fine-${fine.id}`} className={`group hover:bg-gray-50 -mx-4 px-4 py-1 rounded border-b border-gray-300 ${
                   expandedComments.has(fine.id) ? 'bg-blue-50 border-blue-200' : ''
                 }`}>
                   <div className="flex space-x-3">
@@ -387,8 +784,11 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
                     <div className="flex-1 min-w-0">
                       {/* Header */}
                       <div className="flex items-baseline space-x-2">
-                        <span className="font-semibold text-gray-900">{proposerName}</span>
+                        <PlayerLink playerId={fine.proposer_id} className="font-semibold text-gray-900">{proposerName}</PlayerLink>
                         <span className="text-xs text-gray-500">{formatTimestamp(fine.date)}</span>
+                        {saved && (
+                          <Bookmark size={12} className="self-center text-amber-500" fill="currentColor" aria-label="Saved" />
+                        )}
                       </div>
 
                       {/* Fine Details */}
@@ -398,27 +798,93 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
                             {getTypeEmoji(fine.fine_type)} {fine.fine_type}
                           </span>
                           <span className="text-sm font-semibold text-gray-900">
-                            ${(fine.amount).toFixed(2)}
+                            {formatMoney(fine.amount)}
                           </span>
                           <span className="text-sm text-gray-600">→</span>
                           <span className="text-sm font-medium text-gray-900">{subjectName}</span>
                         </div> */}
 
-                        <div className="text-sm text-gray-900 leading-tight">
-                          {fine.amount === 0
-                            ? "Fine Warning"
-                            : fine.fine_type === "Credit"
-                              ? `FC $${fine.amount}`
-                              : `$${fine.amount}`
-                          } {subjectName} - {fine.description}
-                        </div>
+                        {isBatch ? (
+                          <>
+                            <div className="text-sm leading-tight text-gray-900">
+                              {fine.fine_type === "Warning" ? "Warned" : fine.fine_type === "Credit" ? "Credited" : "Fined"} {batch.length} players - {fine.description}
+                            </div>
+                            <ul className="mt-1 space-y-1 border-l-2 border-gray-200 pl-3">
+                              {batch.map((member) => (
+                                <li key={member.id} className="flex flex-wrap items-center gap-x-2 text-sm">
+                                  <span className={getFineTextColor(member)}>
+                                    {member.amount === 0 ? "" : `${formatMoney(member.amount)} `}<PlayerLink playerId={member.subject_id}>{getSubjectName(member)}</PlayerLink>
+                                  </span>
+                                  {member.is_void && (
+                                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-gray-600 bg-gray-100">
+                                      Voided
+                                    </span>
+                                  )}
+                                  <FineVoteBar
+                                    fine={member}
+                                    currentUser={user}
+                                    token={token}
+                                    myVote={myVotes[member.id]}
+                                    threshold={approvalThreshold}
+                                    readOnly={readOnly}
+                                    onVoteChange={handleVoteChange}
+                                    onFineChanged={() => setReloadKey((key) => key + 1)}
+                                  />
+                                  <FineActionsMenu
+                                    fine={member}
+                                    currentUser={user}
+                                    token={token}
+                                    readOnly={readOnly}
+                                    onFineChanged={() => setReloadKey((key) => key + 1)}
+                                  />
+                                </li>
+                              ))}
+                            </ul>
+                          </>
+                        ) : (
+                          <>
+                            <div className={`text-sm leading-tight ${getFineTextColor(fine)}`}>
+                              {fine.amount === 0
+                                ? "Fine Warning"
+                                : fine.fine_type === "Credit"
+                                  ? `FC ${formatMoney(fine.amount)}`
+                                  : formatMoney(fine.amount)
+                              } <PlayerLink playerId={fine.subject_id}>{subjectName}</PlayerLink> - {fine.description}
+                            </div>
+                            {fine.is_void && (
+                              <span className="inline-flex items-center mt-1 px-2 py-0.5 rounded-full text-xs font-medium text-gray-600 bg-gray-100">
+                                Voided
+                              </span>
+                            )}
+                            <FineVoteBar
+                              fine={fine}
+                              currentUser={user}
+                              token={token}
+                              myVote={myVotes[fine.id]}
+                              threshold={approvalThreshold}
+                              readOnly={readOnly}
+                              onVoteChange={handleVoteChange}
+                              onFineChanged={() => setReloadKey((key) => key + 1)}
+                            />
+                          </>
+                        )}
                       </div>
 
+                      {/* Reactions */}
+                      <ReactionChips
+                        reactions={fineReactions}
+                        onToggle={canReact ? (emoji) => handleToggleReaction(fine.id, emoji) : undefined}
+                        className="mt-1"
+                      />
+
                       {/* Message Actions */}
                       <div className="flex items-center space-x-1 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <button className="p-1 rounded hover:bg-gray-200 text-gray-500">
-                          <Smile size={16} />
-                        </button>
+                        {canReact && (
+                          <EmojiPicker
+                            onSelect={(emoji) => handleToggleReaction(fine.id, emoji)}
+                            selected={fineReactions.filter(reaction => reaction.reactedByMe).map(reaction => reaction.emoji)}
+                          />
+                        )}
                         <button 
                           className="p-1 rounded hover:bg-gray-200 text-gray-500"
                           onClick={() => toggleComments(fine.id)}
@@ -429,12 +895,25 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
                         <button className="p-1 rounded hover:bg-gray-200 text-gray-500">
                           <Reply size={16} />
                         </button>
-                        <button className="p-1 rounded hover:bg-gray-200 text-gray-500">
-                          <Bookmark size={16} />
-                        </button>
-                        <button className="p-1 rounded hover:bg-gray-200 text-gray-500">
-                          <MoreVertical size={16} />
-                        </button>
+                        {user && (
+                          <button
+                            className={`p-1 rounded hover:bg-gray-200 ${saved ? 'text-amber-500' : 'text-gray-500'}`}
+                            onClick={() => handleToggleBookmark(fine.id)}
+                            aria-pressed={saved}
+                            title={saved ? 'Remove from saved' : 'Save fine'}
+                          >
+                            <Bookmark size={16} fill={saved ? 'currentColor' : 'none'} />
+                          </button>
+                        )}
+                        {!isBatch && (
+                          <FineActionsMenu
+                            fine={fine}
+                            currentUser={user}
+                            token={token}
+                            readOnly={readOnly}
+                            onFineChanged={() => setReloadKey((key) => key + 1)}
+                          />
+                        )}
                       </div>
 
                       {/* Comments indicator */}
@@ -464,7 +943,7 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
                       )}
 
                       {/* Add comment button for fines without comments */}
-                      {(commentCounts[fine.id] || 0) === 0 && (
+                      {!readOnly && (commentCounts[fine.id] || 0) === 0 && (
                         <button
                           onClick={() => toggleComments(fine.id)}
                           className="mt-1 text-xs text-gray-500 hover:text-blue-600 hover:underline cursor-pointer opacity-0 group-hover:opacity-100 transition-opacity"
@@ -481,10 +960,13 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
                       <CommentsSection
                         fineId={fine.id}
                         currentUserId={user?.id}
+                        currentUserRole={user?.role}
                         currentUserName={user?.name || 'Unknown User'}
-                        currentUserUsername={user?.id || 'unknown'}
+                        currentUserUsername={user?.username || 'unknown'}
                         canEdit={true}
+                        readOnly={readOnly}
                         enableRealtime={true}
+                        focusCommentId={focusCommentId}
                         className="bg-gray-50 rounded-lg p-4 border border-gray-200"
                       />
                     </div>
@@ -494,6 +976,7 @@ const FinesSlackInterface = ({ refreshKey }: FinesSlackInterfaceProps) => {
             })}
           </div>
         ))}
+
       </div>
 
       {/* Message Input */}
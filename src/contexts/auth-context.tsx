@@ -1,19 +1,24 @@
 "use client"
 
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
+import { getSession, signOut } from '@/lib/api/auth';
+import type { AuthSession, SessionUser } from '@/types/models';
 
-interface User {
-  id: string;
-  name: string;
-  role: string;
-}
+// Only the signed session token is persisted; the user is always resolved server-side
+const SESSION_STORAGE_KEY = 'session_token';
+
+type User = SessionUser;
 
 interface AuthContextType {
   user: User | null;
+  // The signed session token, for database calls that check who is asking
+  token: string | null;
   loading: boolean;
-  login: (userData: User) => void;
+  login: (session: AuthSession) => void;
   logout: () => void;
+  // Re-reads the signed-in user, e.g. after they change their name in settings
+  refreshUser: () => Promise<void>;
   isAuthenticated: boolean;
 }
 
@@ -21,32 +26,80 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
 
   useEffect(() => {
+    // Drop the unsigned user blob written by earlier versions
+    localStorage.removeItem('user');
+
     // Check for existing user session on app load
-    const storedUser = localStorage.getItem('user');
-    if (storedUser) {
-      try {
-        const userData = JSON.parse(storedUser);
-        setUser(userData);
-      } catch (error) {
-        console.error('Error parsing stored user data:', error);
-        localStorage.removeItem('user');
-      }
+    const storedToken = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!storedToken) {
+      setLoading(false);
+      return;
     }
-    setLoading(false);
+
+    getSession(storedToken)
+      .then((result) => {
+        if (result.data) {
+          setUser(result.data.user);
+          setToken(result.data.token);
+          setExpiresAt(result.data.expires_at);
+        } else {
+          localStorage.removeItem(SESSION_STORAGE_KEY);
+        }
+      })
+      .finally(() => setLoading(false));
   }, []);
 
-  const login = (userData: User) => {
-    setUser(userData);
-    localStorage.setItem('user', JSON.stringify(userData));
+  const clearSession = () => {
+    setUser(null);
+    setToken(null);
+    setExpiresAt(null);
+    localStorage.removeItem(SESSION_STORAGE_KEY);
   };
 
+  // Sign out locally once the session token expires
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const remaining = new Date(expiresAt).getTime() - Date.now();
+    // setTimeout overflows past ~24.8 days; the token is revalidated on next load anyway
+    if (remaining > 2147483647) return;
+
+    const timer = setTimeout(() => {
+      clearSession();
+      router.push('/login');
+    }, Math.max(remaining, 0));
+
+    return () => clearTimeout(timer);
+  }, [expiresAt, router]);
+
+  const login = (session: AuthSession) => {
+    setUser(session.user);
+    setToken(session.token);
+    setExpiresAt(session.expires_at);
+    localStorage.setItem(SESSION_STORAGE_KEY, session.token);
+  };
+
+  const refreshUser = useCallback(async () => {
+    if (!token) return;
+
+    const result = await getSession(token);
+    if (result.data) {
+      setUser(result.data.user);
+      setExpiresAt(result.data.expires_at);
+    }
+  }, [token]);
+
   const logout = () => {
-    setUser(null);
-    localStorage.removeItem('user');
+    if (token) {
+      signOut(token);
+    }
+    clearSession();
     router.push('/login');
   };
 
@@ -55,9 +108,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   return (
     <AuthContext.Provider value={{
       user,
+      token,
       loading,
       login,
       logout,
+      refreshUser,
       isAuthenticated
     }}>
       {children}
@@ -0,0 +1,71 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { getSeasons, isSeasonClosed } from '@/lib/api/seasons';
+import type { Season } from '@/types/models';
+
+// Remembers which season the user was looking at between visits
+const SELECTED_SEASON_KEY = 'selected_season_id';
+
+interface SeasonContextType {
+  seasons: Season[];
+  currentSeason: Season | null;
+  loading: boolean;
+  // Closed seasons are archives: everything is shown but nothing can change
+  isReadOnly: boolean;
+  selectSeason: (seasonId: string) => void;
+  refreshSeasons: () => Promise<void>;
+}
+
+const SeasonContext = createContext<SeasonContextType | undefined>(undefined);
+
+export function SeasonProvider({ children }: { children: ReactNode }) {
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refreshSeasons = useCallback(async () => {
+    const result = await getSeasons();
+    if (result.data) {
+      setSeasons(result.data);
+    }
+  }, []);
+
+  useEffect(() => {
+    setSelectedId(localStorage.getItem(SELECTED_SEASON_KEY));
+    refreshSeasons().finally(() => setLoading(false));
+  }, [refreshSeasons]);
+
+  const selectSeason = (seasonId: string) => {
+    setSelectedId(seasonId);
+    localStorage.setItem(SELECTED_SEASON_KEY, seasonId);
+  };
+
+  // Fall back to the active season, then the most recent one
+  const currentSeason =
+    seasons.find((season) => season.id === selectedId) ||
+    seasons.find((season) => season.is_active) ||
+    seasons[0] ||
+    null;
+
+  return (
+    <SeasonContext.Provider value={{
+      seasons,
+      currentSeason,
+      loading,
+      isReadOnly: isSeasonClosed(currentSeason),
+      selectSeason,
+      refreshSeasons
+    }}>
+      {children}
+    </SeasonContext.Provider>
+  );
+}
+
+export function useSeason() {
+  const context = useContext(SeasonContext);
+  if (context === undefined) {
+    throw new Error('useSeason must be used within a SeasonProvider');
+  }
+  return context;
+}
@@ -0,0 +1,76 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useBookmarks } from '../use-bookmarks';
+import { getBookmarkedFineIds, addBookmark, removeBookmark } from '@/lib/api/bookmarks';
+
+jest.mock('@/lib/api/bookmarks', () => ({
+    getBookmarkedFineIds: jest.fn(),
+    addBookmark: jest.fn(),
+    removeBookmark: jest.fn()
+}));
+
+const mockGetBookmarkedFineIds = getBookmarkedFineIds as jest.MockedFunction<typeof getBookmarkedFineIds>;
+const mockAddBookmark = addBookmark as jest.MockedFunction<typeof addBookmark>;
+const mockRemoveBookmark = removeBookmark as jest.MockedFunction<typeof removeBookmark>;
+
+describe('useBookmarks', () => {
+    beforeEach(() => {
+        mockGetBookmarkedFineIds.mockResolvedValue({ data: ['fine-1'], error: null });
+        mockAddBookmark.mockResolvedValue({ data: null, error: null });
+        mockRemoveBookmark.mockResolvedValue({ data: null, error: null });
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('loads the player\'s saved fines', async () => {
+        const { result } = renderHook(() => useBookmarks('token-1'));
+
+        await waitFor(() => expect(result.current.isBookmarked('fine-1')).toBe(true));
+        expect(mockGetBookmarkedFineIds).toHaveBeenCalledWith('token-1');
+        expect(result.current.isBookmarked('fine-2')).toBe(false);
+    });
+
+    it('saves and unsaves a fine', async () => {
+        const { result } = renderHook(() => useBookmarks('token-1'));
+        await waitFor(() => expect(result.current.isBookmarked('fine-1')).toBe(true));
+
+        await act(async () => {
+            await result.current.toggleBookmark('fine-2');
+        });
+        expect(mockAddBookmark).toHaveBeenCalledWith('token-1', 'fine-2');
+        expect(result.current.isBookmarked('fine-2')).toBe(true);
+
+        await act(async () => {
+            await result.current.toggleBookmark('fine-1');
+        });
+        expect(mockRemoveBookmark).toHaveBeenCalledWith('token-1', 'fine-1');
+        expect(result.current.isBookmarked('fine-1')).toBe(false);
+    });
+
+    it('rolls back when saving fails', async () => {
+        mockAddBookmark.mockResolvedValue({ data: null, error: 'Network error' });
+        const { result } = renderHook(() => useBookmarks('token-1'));
+        await waitFor(() => expect(result.current.isBookmarked('fine-1')).toBe(true));
+
+        let error: string | null = null;
+        await act(async () => {
+            error = await result.current.toggleBookmark('fine-2');
+        });
+
+        expect(error).toBe('Network error');
+        expect(result.current.isBookmarked('fine-2')).toBe(false);
+    });
+
+    it('does nothing when signed out', async () => {
+        const { result } = renderHook(() => useBookmarks(null));
+
+        await act(async () => {
+            await result.current.toggleBookmark('fine-1');
+        });
+
+        expect(mockGetBookmarkedFineIds).not.toHaveBeenCalled();
+        expect(mockAddBookmark).not.toHaveBeenCalled();
+        expect(result.current.bookmarkedFineIds.size).toBe(0);
+    });
+});
@@ -0,0 +1,74 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react";
+import { getBookmarkedFineIds, addBookmark, removeBookmark } from "@/lib/api/bookmarks";
+
+export interface UseBookmarksReturn {
+    bookmarkedFineIds: Set<string>;
+    isBookmarked: (fineId: string) => boolean;
+    toggleBookmark: (fineId: string) => Promise<string | null>;
+}
+
+/**
+ * Loads the fines the signed-in player has saved and lets them save or unsave a fine
+ */
+export function useBookmarks(token?: string | null): UseBookmarksReturn {
+    const [bookmarkedFineIds, setBookmarkedFineIds] = useState<Set<string>>(new Set());
+
+    useEffect(() => {
+        if (!token) {
+            setBookmarkedFineIds(new Set());
+            return;
+        }
+
+        let cancelled = false;
+        getBookmarkedFineIds(token).then(({ data }) => {
+            if (!cancelled) {
+                setBookmarkedFineIds(new Set(data || []));
+            }
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [token]);
+
+    const isBookmarked = useCallback((fineId: string) => bookmarkedFineIds.has(fineId), [bookmarkedFineIds]);
+
+    const setBookmarked = useCallback((fineId: string, saved: boolean) => {
+        setBookmarkedFineIds(prev => {
+            const next = new Set(prev);
+            if (saved) {
+                next.add(fineId);
+            } else {
+                next.delete(fineId);
+            }
+            return next;
+        });
+    }, []);
+
+    // Optimistic; rolled back if the save fails
+    // Returns an error message, or null on success
+    const toggleBookmark = useCallback(async (fineId: string) => {
+        if (!token) {
+            return null;
+        }
+
+        const saving = !bookmarkedFineIds.has(fineId);
+        setBookmarked(fineId, saving);
+
+        const { error } = saving
+            ? await addBookmark(token, fineId)
+            : await removeBookmark(token, fineId);
+        if (error) {
+            setBookmarked(fineId, !saving);
+        }
+        return error;
+    }, [token, bookmarkedFineIds, setBookmarked]);
+
+    return {
+        bookmarkedFineIds,
+        isBookmarked,
+        toggleBookmark
+    };
+}
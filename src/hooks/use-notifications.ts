@@ -0,0 +1,111 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react";
+import { createClient } from "@/lib/supabase/client";
+import {
+    getNotifications,
+    getUnreadNotificationCount,
+    markNotificationRead,
+    markAllNotificationsRead
+} from "@/lib/api/notifications";
+import type { NotificationWithDetails } from "@/types/models";
+
+export interface UseNotificationsReturn {
+    notifications: NotificationWithDetails[];
+    unreadCount: number;
+    isLoading: boolean;
+    markRead: (notificationId: string) => Promise<void>;
+    markAllRead: () => Promise<void>;
+}
+
+/**
+ * Loads the signed-in player's notifications and keeps them live. The rows
+ * themselves aren't streamed (only their recipient may read them), so the
+ * list is refreshed when fines or comments change, since those create
+ * notifications, and when the window regains focus, to pick up reads made
+ * on another device.
+ */
+export function useNotifications(token?: string | null): UseNotificationsReturn {
+    const [notifications, setNotifications] = useState<NotificationWithDetails[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const refresh = useCallback(async () => {
+        if (!token) return;
+        const [list, count] = await Promise.all([
+            getNotifications(token),
+            getUnreadNotificationCount(token)
+        ]);
+        if (list.data) {
+            setNotifications(list.data);
+        }
+        if (count.data !== null) {
+            setUnreadCount(count.data);
+        }
+    }, [token]);
+
+    useEffect(() => {
+        if (!token) {
+            setNotifications([]);
+            setUnreadCount(0);
+            setIsLoading(false);
+            return;
+        }
+
+        const load = async () => {
+            setIsLoading(true);
+            await refresh();
+            setIsLoading(false);
+        };
+
+        load();
+
+        const supabase = createClient();
+        const channel = supabase
+            .channel('notifications-sources')
+            .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'fines' }, () => refresh())
+            .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'comments' }, () => refresh())
+            // Edits can add mentions
+            .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'comments' }, () => refresh())
+            .subscribe();
+
+        const handleFocus = () => refresh();
+        window.addEventListener('focus', handleFocus);
+
+        return () => {
+            supabase.removeChannel(channel);
+            window.removeEventListener('focus', handleFocus);
+        };
+    }, [token, refresh]);
+
+    const markRead = useCallback(async (notificationId: string) => {
+        const target = notifications.find(n => n.id === notificationId);
+        if (!token || !target || target.read_at) return;
+
+        const { error } = await markNotificationRead(token, notificationId);
+        if (error) return;
+
+        const readAt = new Date().toISOString();
+        setNotifications(prev => prev.map(n => n.id === notificationId ? { ...n, read_at: readAt } : n));
+        setUnreadCount(count => Math.max(0, count - 1));
+    }, [notifications, token]);
+
+    const markAllRead = useCallback(async () => {
+        if (!token) return;
+
+        const { error } = await markAllNotificationsRead(token);
+        if (error) return;
+
+        const readAt = new Date().toISOString();
+        setNotifications(prev => prev.map(n => n.read_at ? n : { ...n, read_at: readAt }));
+        setUnreadCount(0);
+    }, [token]);
+
+    return {
+        notifications,
+        unreadCount,
+        isLoading,
+        markRead,
+        markAllRead
+    };
+}
@@ -0,0 +1,100 @@
+"use client"
+
+import { useState, useCallback } from "react";
+import {
+    getReactions,
+    getReaction,
+    addReaction,
+    removeReaction,
+    findReaction,
+    applyReactionChange,
+    type ReactionChange,
+    type ReactionTarget
+} from "@/lib/api/reactions";
+import type { Reaction, ReactionWithUser } from "@/types/models";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+
+export type RealtimeReactionPayload = RealtimePostgresChangesPayload<Reaction>;
+
+export interface UseReactionsReturn {
+    reactions: ReactionWithUser[];
+    loadReactions: (fineIds: string[], append?: boolean) => Promise<void>;
+    toggleReaction: (target: ReactionTarget, emoji: string) => Promise<string | null>;
+    handleRealtimeChange: (payload: RealtimeReactionPayload) => Promise<void>;
+}
+
+/**
+ * Keeps the reactions for a set of fines (and their comments) in state.
+ * Realtime events are fed in by whichever component owns the channel.
+ * Reacting needs the member's session token; the database takes the member from it.
+ */
+export function useReactions(currentUserId?: string, token?: string | null): UseReactionsReturn {
+    const [reactions, setReactions] = useState<ReactionWithUser[]>([]);
+
+    const applyChange = useCallback((change: ReactionChange) => {
+        setReactions(prev => applyReactionChange(prev, change));
+    }, []);
+
+    // Replaces what is loaded, or with append adds these fines' reactions, e.g. for the next page of a feed
+    const loadReactions = useCallback(async (fineIds: string[], append = false) => {
+        if (fineIds.length === 0) {
+            if (!append) {
+                setReactions([]);
+            }
+            return;
+        }
+
+        const { data } = await getReactions(fineIds);
+        if (append) {
+            setReactions(prev => [...prev.filter(reaction => !fineIds.includes(reaction.fine_id)), ...(data || [])]);
+        } else {
+            setReactions(data || []);
+        }
+    }, []);
+
+    // Adds the emoji, or takes it back if the user had already used it
+    // Returns an error message, or null on success
+    const toggleReaction = useCallback(async (target: ReactionTarget, emoji: string) => {
+        if (!currentUserId) {
+            return null;
+        }
+        if (!token) {
+            return 'Your session has expired. Sign in again.';
+        }
+
+        const existing = findReaction(reactions, target, currentUserId, emoji);
+
+        if (existing) {
+            const { error } = await removeReaction(token, existing.id);
+            if (!error) {
+                applyChange({ type: 'DELETE', reaction: existing });
+            }
+            return error;
+        }
+
+        const { data, error } = await addReaction(token, target, emoji);
+        if (data) {
+            applyChange({ type: 'INSERT', reaction: data });
+        }
+        return error;
+    }, [currentUserId, token, reactions, applyChange]);
+
+    // Inserts arrive as bare rows, so the reacting member is looked up before adding
+    const handleRealtimeChange = useCallback(async (payload: RealtimeReactionPayload) => {
+        if (payload.eventType === 'INSERT') {
+            const { data } = await getReaction(payload.new.id);
+            if (data) {
+                applyChange({ type: 'INSERT', reaction: data });
+            }
+        } else if (payload.eventType === 'DELETE' && payload.old.id) {
+            applyChange({ type: 'DELETE', reaction: { id: payload.old.id } });
+        }
+    }, [applyChange]);
+
+    return {
+        reactions,
+        loadReactions,
+        toggleReaction,
+        handleRealtimeChange
+    };
+}
@@ -5,6 +5,7 @@ import { createClient } from "@/lib/supabase/client";
 import { buildCommentHierarchy } from "@/lib/api/comments";
 import type { CommentWithAuthor, CommentWithReplies } from "@/types/models";
 import type { RealtimeChannel, RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import type { RealtimeReactionPayload } from "./use-reactions";
 
 export interface RealtimeCommentUpdate {
     type: 'INSERT' | 'UPDATE' | 'DELETE';
@@ -15,6 +16,8 @@ export interface RealtimeCommentUpdate {
 export interface UseRealtimeCommentsOptions {
     fineId: string;
     onCommentChange?: (update: RealtimeCommentUpdate) => void;
+    // Reactions on the fine and its comments share the comments channel
+    onReactionChange?: (payload: RealtimeReactionPayload) => void;
     onError?: (error: Error) => void;
     enabled?: boolean;
 }
@@ -32,6 +35,7 @@ export interface UseRealtimeCommentsReturn {
 export function useRealtimeComments({
     fineId,
     onCommentChange,
+    onReactionChange,
     onError,
     enabled = true
 }: UseRealtimeCommentsOptions): UseRealtimeCommentsReturn {
@@ -60,7 +64,7 @@ export function useRealtimeComments({
                 if (newRecord) {
                     const { data: authorData, error: authorError } = await supabaseRef.current
                         .from('users')
-                        .select('user_id, username, name')
+                        .select('user_id, username, name, avatar_color, avatar_initials')
                         .eq('user_id', newRecord.author_id)
                         .single();
 
@@ -100,7 +104,7 @@ export function useRealtimeComments({
                 // For hard deletes, we need to construct from old record
                 const { data: authorData } = await supabaseRef.current
                     .from('users')
-                    .select('user_id, username, name')
+                    .select('user_id, username, name, avatar_color, avatar_initials')
                     .eq('user_id', (oldRecord as { author_id: string }).author_id)
                     .single();
 
@@ -143,7 +147,7 @@ export function useRealtimeComments({
 
                 const { data: oldAuthorData } = await supabaseRef.current
                     .from('users')
-                    .select('user_id, username, name')
+                    .select('user_id, username, name, avatar_color, avatar_initials')
                     .eq('user_id', oldRecordForUpdate.author_id)
                     .single();
 
@@ -175,6 +179,16 @@ export function useRealtimeComments({
         }
     }, [fineId, onCommentChange, onError]);
 
+    // Handle reactions being added or removed on this fine or its comments
+    const handleReactionChange = useCallback((payload: RealtimeReactionPayload) => {
+        const record = payload.eventType === 'DELETE' ? payload.old : payload.new;
+        if (record?.fine_id !== fineId || !onReactionChange) {
+            return;
+        }
+
+        onReactionChange(payload);
+    }, [fineId, onReactionChange]);
+
     // Subscribe to real-time changes
     const subscribe = useCallback(() => {
         if (!enabled || isSubscribedRef.current || !fineId) {
@@ -197,6 +211,16 @@ export function useRealtimeComments({
                     },
                     handleRealtimeChange
                 )
+                // Deletes can't be filtered server-side, so the handler checks the fine
+                .on(
+                    'postgres_changes',
+                    {
+                        event: '*',
+                        schema: 'public',
+                        table: 'reactions'
+                    },
+                    handleReactionChange
+                )
                 .subscribe((status) => {
                     if (status === 'SUBSCRIBED') {
                         isSubscribedRef.current = true;
@@ -217,7 +241,7 @@ export function useRealtimeComments({
                 onError(error instanceof Error ? error : new Error('Failed to setup real-time subscription'));
             }
         }
-    }, [enabled, fineId, handleRealtimeChange, onError]);
+    }, [enabled, fineId, handleRealtimeChange, handleReactionChange, onError]);
 
     // Unsubscribe from real-time changes
     const unsubscribe = useCallback(() => {
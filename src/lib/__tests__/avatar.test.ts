@@ -0,0 +1,21 @@
+import { avatarColorClass, avatarInitials, defaultAvatarColor, isAvatarColor } from '../avatar';
+
+describe('avatar', () => {
+  it('derives initials and a stable colour from the name', () => {
+    expect(avatarInitials({ name: 'Bob Smith' })).toBe('BS');
+    expect(avatarColorClass({ name: 'Bob Smith' })).toBe(avatarColorClass({ name: 'Bob Smith', avatar_color: null }));
+    expect(defaultAvatarColor('Bob Smith')).toBe(defaultAvatarColor('Bob Smith'));
+  });
+
+  it("uses the player's own choices when set", () => {
+    const user = { name: 'Bob Smith', avatar_color: 'teal', avatar_initials: 'B7' };
+
+    expect(avatarInitials(user)).toBe('B7');
+    expect(avatarColorClass(user)).toBe('bg-teal-500');
+  });
+
+  it('ignores a colour outside the palette', () => {
+    expect(isAvatarColor('chartreuse')).toBe(false);
+    expect(avatarColorClass({ name: 'Bob', avatar_color: 'chartreuse' })).toBe(avatarColorClass({ name: 'Bob' }));
+  });
+});
@@ -0,0 +1,44 @@
+import { diffWords } from "../diff";
+
+describe("diffWords", () => {
+  it("returns the text unchanged when nothing was edited", () => {
+    expect(diffWords("Late again", "Late again")).toEqual([{ type: "same", text: "Late again" }]);
+  });
+
+  it("shows a replaced word as removed then added", () => {
+    expect(diffWords("the cat sat", "the dog sat")).toEqual([
+      { type: "same", text: "the " },
+      { type: "removed", text: "cat" },
+      { type: "added", text: "dog" },
+      { type: "same", text: " sat" },
+    ]);
+  });
+
+  it("groups consecutive added words into one segment", () => {
+    expect(diffWords("Pay up", "Pay up by Friday please")).toEqual([
+      { type: "same", text: "Pay up" },
+      { type: "added", text: " by Friday please" },
+    ]);
+  });
+
+  it("handles text removed from the start", () => {
+    expect(diffWords("Well, fair enough", "fair enough")).toEqual([
+      { type: "removed", text: "Well, " },
+      { type: "same", text: "fair enough" },
+    ]);
+  });
+
+  it("handles empty text on either side", () => {
+    expect(diffWords("", "New")).toEqual([{ type: "added", text: "New" }]);
+    expect(diffWords("Old", "")).toEqual([{ type: "removed", text: "Old" }]);
+    expect(diffWords("", "")).toEqual([]);
+  });
+
+  it("keeps line breaks as part of the text", () => {
+    expect(diffWords("one\ntwo", "one\nthree")).toEqual([
+      { type: "same", text: "one\n" },
+      { type: "removed", text: "two" },
+      { type: "added", text: "three" },
+    ]);
+  });
+});
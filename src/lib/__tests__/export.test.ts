@@ -0,0 +1,112 @@
+import { exportFilename, finesExportTable, toCsv, toJson, totalsExportTable } from '../export';
+import type { FineWithUsersQuery } from '@/types/api';
+import type { PlayerBalance } from '@/types/models';
+
+const fines: FineWithUsersQuery[] = [
+  {
+    id: 'fine-1',
+    date: '2024-03-02T10:00:00+00:00',
+    fine_type: 'Fine',
+    description: 'Late to training',
+    amount: 1250,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 0,
+    reject_votes: 0,
+    subject_id: 'user-2',
+    proposer_id: 'user-1',
+    subject: { name: 'Bob' },
+    proposer: [{ name: 'Alice' }]
+  },
+  {
+    id: 'fine-2',
+    date: '2024-03-02T10:00:00+00:00',
+    fine_type: 'Warning',
+    description: 'Late to training',
+    amount: 0,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 0,
+    reject_votes: 0,
+    subject_id: 'user-3',
+    proposer_id: 'user-1',
+    subject: null,
+    proposer: [{ name: 'Alice' }]
+  }
+];
+
+const balances: PlayerBalance[] = [
+  { player_id: 'user-1', name: 'Alice', fined: 1000, credited: 200, paid: 500, outstanding: 300 },
+  { player_id: 'user-2', name: 'Bob', fined: 1250, credited: 0, paid: 0, outstanding: 1250 }
+];
+
+describe('export', () => {
+  describe('finesExportTable', () => {
+    it('writes each fine with its players, amount and comment count', () => {
+      const csv = toCsv(finesExportTable(fines, { 'fine-1': 3 }));
+
+      expect(csv.split('\r\n')).toEqual([
+        'Date,Subject,Proposer,Type,Amount,Description,Status,Void,Comments',
+        '2024-03-02T10:00:00+00:00,Bob,Alice,Fine,12.50,Late to training,approved,false,3',
+        '2024-03-02T10:00:00+00:00,Unknown,Alice,Warning,0.00,Late to training,approved,false,0',
+        ''
+      ]);
+    });
+
+    it('writes amounts as numbers in JSON', () => {
+      const json = JSON.parse(toJson(finesExportTable([fines[0]], {})));
+
+      expect(json).toEqual({
+        rows: [{
+          date: '2024-03-02T10:00:00+00:00',
+          subject: 'Bob',
+          proposer: 'Alice',
+          type: 'Fine',
+          amount: 12.5,
+          description: 'Late to training',
+          status: 'approved',
+          void: false,
+          comments: 0
+        }]
+      });
+    });
+  });
+
+  describe('totalsExportTable', () => {
+    it('adds a totals row to the CSV and a totals object to the JSON', () => {
+      const table = totalsExportTable(balances);
+
+      expect(toCsv(table).split('\r\n').slice(-2)).toEqual(['Total,22.50,2.00,5.00,15.50', '']);
+      expect(JSON.parse(toJson(table)).totals).toEqual({
+        player: 'Total',
+        fined: 22.5,
+        credited: 2,
+        paid: 5,
+        outstanding: 15.5
+      });
+    });
+  });
+
+  describe('toCsv', () => {
+    it('quotes commas, quotes and line breaks', () => {
+      const csv = toCsv(finesExportTable([{ ...fines[0], description: 'Said "it\'s fine",\nthen left' }], {}));
+
+      expect(csv).toContain('"Said ""it\'s fine"",\nthen left"');
+    });
+
+    it('keeps text a spreadsheet would treat as a formula from running', () => {
+      const csv = toCsv(finesExportTable([{ ...fines[0], description: '=HYPERLINK("http://evil")' }], {}));
+
+      expect(csv).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    });
+  });
+
+  describe('exportFilename', () => {
+    it('names the export, season and day', () => {
+      expect(exportFilename('fines', 'csv', undefined, new Date(2024, 5, 1))).toBe('fines-2024-06-01.csv');
+      expect(exportFilename('totals', 'json', '2024/25 Season', new Date(2024, 5, 1))).toBe('totals-2024-25-season-2024-06-01.json');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { getFilterChips, hasActiveFilters, matchesNewFine, removeFilter } from '../fine-filters';
+import type { FineWithUsersQuery } from '@/types/api';
+import type { FineFeedFilters } from '@/types/common';
+
+const players = [
+  { user_id: 'user-1', username: 'alice', name: 'Alice' },
+  { user_id: 'user-2', username: 'bob', name: '' }
+];
+
+describe('fine filters', () => {
+  describe('getFilterChips', () => {
+    it('has no chips for empty or cleared filters', () => {
+      expect(getFilterChips({})).toEqual([]);
+      expect(getFilterChips({ fineTypes: [], minAmount: null, maxAmount: null, playerId: null, hasComments: false, playerRole: 'proposer' })).toEqual([]);
+      expect(hasActiveFilters({ dateRange: { from: undefined, to: undefined } })).toBe(false);
+    });
+
+    it('describes each active filter', () => {
+      const filters: FineFeedFilters = {
+        fineTypes: ['Fine', 'Credit'],
+        dateRange: { from: new Date(2024, 2, 1), to: new Date(2024, 2, 31) },
+        minAmount: 500,
+        maxAmount: 2000,
+        playerId: 'user-1',
+        hasComments: true
+      };
+
+      expect(getFilterChips(filters, players)).toEqual([
+        { key: 'fineTypes', label: 'Type: Fine, Credit' },
+        { key: 'dateRange', label: 'Mar 1, 2024 – Mar 31, 2024' },
+        { key: 'amount', label: '$5.00 – $20.00' },
+        { key: 'player', label: 'Fined: Alice' },
+        { key: 'hasComments', label: 'Has comments' }
+      ]);
+      expect(hasActiveFilters(filters)).toBe(true);
+    });
+
+    it('describes open-ended ranges and who did the fining', () => {
+      expect(getFilterChips({
+        dateRange: { from: new Date(2024, 2, 1), to: undefined },
+        minAmount: 500,
+        playerId: 'user-2',
+        playerRole: 'proposer'
+      }, players).map(chip => chip.label)).toEqual(['From Mar 1, 2024', '$5.00 or more', 'Fined by: bob']);
+
+      expect(getFilterChips({
+        dateRange: { from: undefined, to: new Date(2024, 2, 31) },
+        maxAmount: 2000,
+        playerId: 'user-9'
+      }).map(chip => chip.label)).toEqual(['Until Mar 31, 2024', 'Up to $20.00', 'Fined: Unknown player']);
+    });
+  });
+
+  describe('removeFilter', () => {
+    const filters: FineFeedFilters = {
+      fineTypes: ['Warning'],
+      minAmount: 0,
+      maxAmount: 1000,
+      playerId: 'user-1',
+      playerRole: 'proposer',
+      hasComments: true
+    };
+
+    it('clears just the chip\'s filter', () => {
+      expect(getFilterChips(removeFilter(filters, 'amount')).map(chip => chip.key)).toEqual(['fineTypes', 'player', 'hasComments']);
+      expect(getFilterChips(removeFilter(filters, 'fineTypes')).map(chip => chip.key)).toEqual(['amount', 'player', 'hasComments']);
+      expect(getFilterChips(removeFilter(filters, 'hasComments')).map(chip => chip.key)).toEqual(['fineTypes', 'amount', 'player']);
+    });
+
+    it('keeps the player role when removing the player', () => {
+      expect(removeFilter(filters, 'player')).toEqual({ ...filters, playerId: null });
+    });
+  });
+
+  describe('matchesNewFine', () => {
+    const fine: FineWithUsersQuery = {
+      id: 'fine-1',
+      date: new Date(2024, 2, 15, 18).toISOString(),
+      fine_type: 'Fine',
+      description: 'Late to practice',
+      amount: 500,
+      replies: 0,
+      is_void: false,
+      status: 'pending',
+      approve_votes: 0,
+      reject_votes: 0,
+      subject_id: 'user-1',
+      proposer_id: 'user-2',
+      subject: { name: 'Alice' },
+      proposer: { name: 'Bob' }
+    };
+
+    it('matches when every set filter does', () => {
+      expect(matchesNewFine(fine, {})).toBe(true);
+      expect(matchesNewFine(fine, {
+        fineTypes: ['Fine'],
+        dateRange: { from: new Date(2024, 2, 15, 20), to: new Date(2024, 2, 15) },
+        minAmount: 500,
+        maxAmount: 500,
+        playerId: 'user-2',
+        playerRole: 'proposer'
+      })).toBe(true);
+    });
+
+    it('rejects a fine outside any filter', () => {
+      expect(matchesNewFine(fine, { fineTypes: ['Credit'] })).toBe(false);
+      expect(matchesNewFine(fine, { dateRange: { from: new Date(2024, 2, 16), to: undefined } })).toBe(false);
+      expect(matchesNewFine(fine, { minAmount: 501 })).toBe(false);
+      expect(matchesNewFine(fine, { playerId: 'user-2' })).toBe(false);
+    });
+
+    it('leaves new fines out of the comments and saved views', () => {
+      expect(matchesNewFine(fine, { hasComments: true })).toBe(false);
+      expect(matchesNewFine(fine, { savedWithToken: 'token-1' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { parseInline, parseMarkdown, safeHref } from "../markdown";
+
+const ALICE = "11111111-1111-4111-8111-111111111111";
+
+describe("markdown", () => {
+  describe("safeHref", () => {
+    it("allows http, https and mailto links", () => {
+      expect(safeHref("https://example.com/a?b=1")).toBe("https://example.com/a?b=1");
+      expect(safeHref("http://example.com")).toBe("http://example.com/");
+      expect(safeHref("mailto:coach@example.com")).toBe("mailto:coach@example.com");
+    });
+
+    it("rejects scripts, data and relative URLs", () => {
+      expect(safeHref("javascript:alert(1)")).toBeNull();
+      expect(safeHref("JavaScript:alert(1)")).toBeNull();
+      expect(safeHref("data:text/html,<script>alert(1)</script>")).toBeNull();
+      expect(safeHref("/dashboard")).toBeNull();
+    });
+  });
+
+  describe("parseInline", () => {
+    it("leaves plain text alone", () => {
+      expect(parseInline("Late again, 5 * 3 * 2 laps")).toEqual([
+        { type: "text", text: "Late again, 5 * 3 * 2 laps" },
+      ]);
+      expect(parseInline("see snake_case_name")).toEqual([{ type: "text", text: "see snake_case_name" }]);
+    });
+
+    it("parses bold, italic and code", () => {
+      expect(parseInline("**very** *quite* _rather_ `x < y`")).toEqual([
+        { type: "strong", children: [{ type: "text", text: "very" }] },
+        { type: "text", text: " " },
+        { type: "em", children: [{ type: "text", text: "quite" }] },
+        { type: "text", text: " " },
+        { type: "em", children: [{ type: "text", text: "rather" }] },
+        { type: "text", text: " " },
+        { type: "code", text: "x < y" },
+      ]);
+    });
+
+    it("does not format inside code", () => {
+      expect(parseInline("`**not bold**`")).toEqual([{ type: "code", text: "**not bold**" }]);
+    });
+
+    it("parses links and bare URLs", () => {
+      expect(parseInline("[the rules](https://example.com/rules) or https://example.com.")).toEqual([
+        { type: "link", href: "https://example.com/rules", children: [{ type: "text", text: "the rules" }] },
+        { type: "text", text: " or " },
+        { type: "link", href: "https://example.com/", children: [{ type: "text", text: "https://example.com" }] },
+        { type: "text", text: "." },
+      ]);
+    });
+
+    it("shows unsafe links as their text", () => {
+      expect(parseInline("[click me](javascript:alert%281%29)")).toEqual([
+        { type: "text", text: "click me" },
+      ]);
+    });
+
+    it("keeps mentions apart from links, including inside formatting", () => {
+      expect(parseInline(`**@[Alice](${ALICE}) owes**`)).toEqual([
+        {
+          type: "strong",
+          children: [
+            { type: "mention", userId: ALICE, label: "Alice" },
+            { type: "text", text: " owes" },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe("parseMarkdown", () => {
+    it("keeps plain comments as one block with their line breaks", () => {
+      expect(parseMarkdown("First line\n\nThird line <b>not html</b>")).toEqual([
+        { type: "text", children: [{ type: "text", text: "First line\n\nThird line <b>not html</b>" }] },
+      ]);
+    });
+
+    it("parses lists between text", () => {
+      expect(parseMarkdown("Owed:\n- kit\n- *boots*\n\n1. first\n2. second\nThanks")).toEqual([
+        { type: "text", children: [{ type: "text", text: "Owed:" }] },
+        {
+          type: "list",
+          ordered: false,
+          items: [
+            [{ type: "text", text: "kit" }],
+            [{ type: "em", children: [{ type: "text", text: "boots" }] }],
+          ],
+        },
+        {
+          type: "list",
+          ordered: true,
+          items: [[{ type: "text", text: "first" }], [{ type: "text", text: "second" }]],
+        },
+        { type: "text", children: [{ type: "text", text: "Thanks" }] },
+      ]);
+    });
+
+    it("parses fenced code and quotes", () => {
+      expect(parseMarkdown("```\nconst **x** = 1;\n```\n> said\n> twice")).toEqual([
+        { type: "code", text: "const **x** = 1;" },
+        { type: "quote", children: [{ type: "text", text: "said\ntwice" }] },
+      ]);
+    });
+
+    it("runs an unclosed fence to the end", () => {
+      expect(parseMarkdown("```\ncode")).toEqual([{ type: "code", text: "code" }]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  encodeMentions,
+  findMentionQuery,
+  formatMention,
+  getMentions,
+  mentionFor,
+  mentionsToText,
+  splitMentions,
+} from "../mentions";
+
+const ALICE = "11111111-1111-4111-8111-111111111111";
+const ALICE_SMITH = "22222222-2222-4222-8222-222222222222";
+
+describe("mentions", () => {
+  describe("formatMention / mentionFor", () => {
+    it("stores the display name and user ID", () => {
+      expect(formatMention({ userId: ALICE, label: "Alice" })).toBe(`@[Alice](${ALICE})`);
+    });
+
+    it("strips brackets that would break the stored form", () => {
+      expect(mentionFor({ user_id: ALICE, username: "alice", name: "Alice [Captain]" }).label).toBe("Alice Captain");
+    });
+
+    it("falls back to the username", () => {
+      expect(mentionFor({ user_id: ALICE, username: "alice", name: "" }).label).toBe("alice");
+    });
+  });
+
+  describe("splitMentions", () => {
+    it("splits text and mentions in order", () => {
+      expect(splitMentions(`Nice one @[Alice](${ALICE})!`)).toEqual([
+        { type: "text", text: "Nice one " },
+        { type: "mention", label: "Alice", userId: ALICE },
+        { type: "text", text: "!" },
+      ]);
+    });
+
+    it("leaves look-alike text alone", () => {
+      expect(splitMentions("@[Alice](not-an-id)")).toEqual([{ type: "text", text: "@[Alice](not-an-id)" }]);
+    });
+  });
+
+  it("lists each mentioned player once", () => {
+    const content = `@[Alice](${ALICE}) and @[Alice](${ALICE}) again`;
+    expect(getMentions(content)).toEqual([{ userId: ALICE, label: "Alice" }]);
+  });
+
+  it("shows stored mentions as plain @names", () => {
+    expect(mentionsToText(`hey @[Alice](${ALICE})`)).toBe("hey @Alice");
+  });
+
+  describe("encodeMentions", () => {
+    it("round-trips through mentionsToText", () => {
+      const stored = `@[Alice](${ALICE}) owes @[Alice Smith](${ALICE_SMITH}) a drink`;
+      expect(encodeMentions(mentionsToText(stored), getMentions(stored))).toBe(stored);
+    });
+
+    it("prefers the longest matching name", () => {
+      const mentions = [{ userId: ALICE, label: "Alice" }, { userId: ALICE_SMITH, label: "Alice Smith" }];
+      expect(encodeMentions("@Alice Smith", mentions)).toBe(`@[Alice Smith](${ALICE_SMITH})`);
+    });
+
+    it("leaves a mention that was edited away as text", () => {
+      expect(encodeMentions("@Alicia", [{ userId: ALICE, label: "Alice" }])).toBe("@Alicia");
+    });
+  });
+
+  describe("findMentionQuery", () => {
+    it("finds the partial name before the caret", () => {
+      expect(findMentionQuery("thanks @al", 10)).toEqual({ query: "al", start: 7 });
+    });
+
+    it("opens on a bare @", () => {
+      expect(findMentionQuery("@", 1)).toEqual({ query: "", start: 0 });
+    });
+
+    it("ignores @ inside words such as email addresses", () => {
+      expect(findMentionQuery("mail me@home", 12)).toBeNull();
+    });
+
+    it("closes once a space is typed", () => {
+      expect(findMentionQuery("@alice ", 7)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { centsToInput, currencySymbol, formatMoney, parseMoney, toCents } from '../money';
+
+describe('money', () => {
+  describe('formatMoney', () => {
+    it('formats cents in the configured currency', () => {
+      expect(formatMoney(1250)).toBe('$12.50');
+      expect(formatMoney(0)).toBe('$0.00');
+      expect(formatMoney(123456)).toBe('$1,234.56');
+    });
+
+    it('keeps or drops the sign of negative amounts', () => {
+      expect(formatMoney(-500)).toBe('-$5.00');
+      expect(formatMoney(-500, { signed: false })).toBe('$5.00');
+    });
+
+    it('uses the minor units of other currencies', () => {
+      expect(formatMoney(1250, { currency: 'EUR' })).toBe('€12.50');
+      expect(formatMoney(1250, { currency: 'JPY' })).toBe('¥1,250');
+    });
+  });
+
+  describe('parseMoney', () => {
+    it('parses whole and decimal amounts into cents', () => {
+      expect(parseMoney('12')).toBe(1200);
+      expect(parseMoney('12.5')).toBe(1250);
+      expect(parseMoney('0.07')).toBe(7);
+      expect(parseMoney('.5')).toBe(50);
+    });
+
+    it('accepts currency symbols and thousands separators', () => {
+      expect(parseMoney(' $1,250.00 ')).toBe(125000);
+    });
+
+    it('reads the separators of the configured locale', () => {
+      expect(parseMoney('12,50', 'EUR', 'de-DE')).toBe(1250);
+      expect(parseMoney('1.250,00 €', 'EUR', 'de-DE')).toBe(125000);
+      expect(parseMoney('1.250', 'EUR', 'de-DE')).toBe(125000);
+      // Number inputs always use a decimal point
+      expect(parseMoney('12.5', 'EUR', 'de-DE')).toBe(1250);
+    });
+
+    it('does not treat a misplaced comma as a thousands separator', () => {
+      expect(parseMoney('12,50')).toBeNull();
+    });
+
+    it('avoids floating point drift', () => {
+      expect(parseMoney('19.99')).toBe(1999);
+      expect(parseMoney('0.29')).toBe(29);
+    });
+
+    it('rejects input that is not an amount', () => {
+      expect(parseMoney('')).toBeNull();
+      expect(parseMoney('abc')).toBeNull();
+      expect(parseMoney('1.234')).toBeNull();
+      expect(parseMoney('.')).toBeNull();
+    });
+  });
+
+  describe('conversions', () => {
+    it('converts dollars to cents and back to an input value', () => {
+      expect(toCents(12.345)).toBe(1235);
+      expect(toCents(-1.005)).toBe(-100);
+      expect(centsToInput(1250)).toBe('12.50');
+      expect(centsToInput(0)).toBe('');
+    });
+
+    it('exposes the currency symbol for labels', () => {
+      expect(currencySymbol()).toBe('$');
+    });
+  });
+});
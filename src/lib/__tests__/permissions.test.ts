@@ -0,0 +1,108 @@
+import { can, isAdmin } from '../permissions';
+
+const member = { id: 'user-1', role: 'User' };
+const otherMember = { id: 'user-2', role: 'User' };
+const admin = { id: 'admin-1', role: 'Admin' };
+
+describe('permissions', () => {
+  describe('isAdmin', () => {
+    it('detects the Admin role', () => {
+      expect(isAdmin(admin)).toBe(true);
+      expect(isAdmin(member)).toBe(false);
+      expect(isAdmin(null)).toBe(false);
+    });
+  });
+
+  it('denies everything to signed-out users', () => {
+    expect(can(null, 'view', { type: 'fine' })).toBe(false);
+    expect(can(undefined, 'create', { type: 'comment' })).toBe(false);
+    expect(can({ id: '', role: 'Admin' }, 'manage', { type: 'user' })).toBe(false);
+  });
+
+  describe('fines', () => {
+    it('lets any member create fines', () => {
+      expect(can(member, 'create', { type: 'fine' })).toBe(true);
+    });
+
+    it('lets the proposer or an admin edit a fine', () => {
+      expect(can(member, 'edit', { type: 'fine', proposerId: 'user-1' })).toBe(true);
+      expect(can(otherMember, 'edit', { type: 'fine', proposerId: 'user-1' })).toBe(false);
+      expect(can(admin, 'edit', { type: 'fine', proposerId: 'user-1' })).toBe(true);
+    });
+
+    it('lets members vote on fines except their own', () => {
+      expect(can(otherMember, 'vote', { type: 'fine', subjectId: 'user-1' })).toBe(true);
+      expect(can(member, 'vote', { type: 'fine', subjectId: 'user-1' })).toBe(false);
+    });
+
+    it('only lets admins void fines', () => {
+      expect(can(member, 'void', { type: 'fine', proposerId: 'user-1' })).toBe(false);
+      expect(can(admin, 'void', { type: 'fine', proposerId: 'user-1' })).toBe(true);
+    });
+  });
+
+  describe('comments', () => {
+    const comment = { type: 'comment' as const, authorId: 'user-1', isDeleted: false };
+
+    it('lets only the author edit a comment', () => {
+      expect(can(member, 'edit', comment)).toBe(true);
+      expect(can(otherMember, 'edit', comment)).toBe(false);
+      expect(can(admin, 'edit', comment)).toBe(false);
+    });
+
+    it('lets the author or an admin delete a comment', () => {
+      expect(can(member, 'delete', comment)).toBe(true);
+      expect(can(otherMember, 'delete', comment)).toBe(false);
+      expect(can(admin, 'delete', comment)).toBe(true);
+    });
+
+    it('only lets admins moderate', () => {
+      expect(can(member, 'moderate', comment)).toBe(false);
+      expect(can(admin, 'moderate', comment)).toBe(true);
+    });
+
+    it('blocks changes to deleted comments', () => {
+      const deleted = { ...comment, isDeleted: true };
+      expect(can(member, 'edit', deleted)).toBe(false);
+      expect(can(admin, 'delete', deleted)).toBe(false);
+    });
+  });
+
+  describe('payments', () => {
+    it('lets everyone view but only admins record payments', () => {
+      expect(can(member, 'view', { type: 'payment' })).toBe(true);
+      expect(can(member, 'create', { type: 'payment' })).toBe(false);
+      expect(can(admin, 'create', { type: 'payment' })).toBe(true);
+    });
+  });
+
+  describe('seasons', () => {
+    it('only lets admins create and close seasons', () => {
+      expect(can(member, 'view', { type: 'season' })).toBe(true);
+      expect(can(member, 'manage', { type: 'season' })).toBe(false);
+      expect(can(admin, 'create', { type: 'season' })).toBe(true);
+      expect(can(admin, 'manage', { type: 'season' })).toBe(true);
+    });
+  });
+
+  describe('rule book', () => {
+    it('lets everyone read the rule book but only admins maintain it', () => {
+      expect(can(member, 'view', { type: 'rule' })).toBe(true);
+      expect(can(member, 'create', { type: 'rule' })).toBe(false);
+      expect(can(admin, 'create', { type: 'rule' })).toBe(true);
+      expect(can(admin, 'manage', { type: 'rule' })).toBe(true);
+    });
+  });
+
+  describe('users', () => {
+    it('only lets admins manage users', () => {
+      expect(can(member, 'manage', { type: 'user' })).toBe(false);
+      expect(can(admin, 'manage', { type: 'user' })).toBe(true);
+    });
+
+    it('lets users edit their own account', () => {
+      expect(can(member, 'edit', { type: 'user', userId: 'user-1' })).toBe(true);
+      expect(can(member, 'edit', { type: 'user', userId: 'user-2' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { signIn, getSession, signOut } from '../auth';
+import { createClient } from '@/lib/supabase/client';
+
+jest.mock('@/lib/supabase/client', () => ({
+  createClient: jest.fn()
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+describe('auth API', () => {
+  let mockRpc: jest.Mock;
+
+  beforeEach(() => {
+    mockRpc = jest.fn();
+    mockCreateClient.mockReturnValue({ rpc: mockRpc } as unknown as ReturnType<typeof createClient>);
+  });
+
+  describe('signIn', () => {
+    it('returns the session for valid credentials', async () => {
+      mockRpc.mockResolvedValue({
+        data: [{
+          user_id: 'user-1',
+          username: 'sam',
+          name: 'Sam Feldman',
+          role: 'Admin',
+          session_token: 'session.123.abc',
+          expires_at: '2025-09-01T00:00:00Z'
+        }],
+        error: null
+      });
+
+      const result = await signIn('sam', 'secret');
+
+      expect(mockRpc).toHaveBeenCalledWith('authenticate_user', { p_username: 'sam', p_password: 'secret' });
+      expect(result.error).toBeNull();
+      expect(result.data).toEqual({
+        user: { id: 'user-1', username: 'sam', name: 'Sam Feldman', role: 'Admin' },
+        token: 'session.123.abc',
+        expires_at: '2025-09-01T00:00:00Z'
+      });
+    });
+
+    it('returns an error when no user matches', async () => {
+      mockRpc.mockResolvedValue({ data: [], error: null });
+
+      const result = await signIn('sam', 'wrong');
+
+      expect(result.data).toBeNull();
+      expect(result.error).toBe('Invalid username or password');
+    });
+
+    it('never exposes the password hash', async () => {
+      mockRpc.mockResolvedValue({
+        data: [{
+          user_id: 'user-1',
+          username: 'sam',
+          name: 'Sam Feldman',
+          role: 'User',
+          session_token: 'session.123.abc',
+          expires_at: '2025-09-01T00:00:00Z',
+          password_hash: '$2a$10$should-not-leak'
+        }],
+        error: null
+      });
+
+      const result = await signIn('sam', 'secret');
+
+      expect(JSON.stringify(result)).not.toContain('password_hash');
+    });
+
+    it('returns the database error message', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'connection refused' } });
+
+      const result = await signIn('sam', 'secret');
+
+      expect(result).toEqual({ data: null, error: 'connection refused' });
+    });
+  });
+
+  describe('getSession', () => {
+    it('resolves a valid token to its user', async () => {
+      mockRpc.mockResolvedValue({
+        data: [{
+          user_id: 'user-1',
+          username: 'sam',
+          name: 'Sam Feldman',
+          role: 'User',
+          expires_at: '2025-09-01T00:00:00Z'
+        }],
+        error: null
+      });
+
+      const result = await getSession('session.123.abc');
+
+      expect(mockRpc).toHaveBeenCalledWith('validate_session', { p_token: 'session.123.abc' });
+      expect(result.data?.user.id).toBe('user-1');
+      expect(result.data?.token).toBe('session.123.abc');
+    });
+
+    it('rejects an invalid or forged token', async () => {
+      mockRpc.mockResolvedValue({ data: [], error: null });
+
+      const result = await getSession('forged');
+
+      expect(result.data).toBeNull();
+      expect(result.error).toBe('Session expired');
+    });
+  });
+
+  describe('signOut', () => {
+    it('revokes the session token', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: null });
+
+      const result = await signOut('session.123.abc');
+
+      expect(mockRpc).toHaveBeenCalledWith('revoke_session', { p_token: 'session.123.abc' });
+      expect(result.error).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { getAllFines, getFinesPage } from '../fines';
+import { createClient } from '@/lib/supabase/client';
+import type { FineWithUsersQuery } from '@/types/api';
+
+jest.mock('@/lib/supabase/client', () => ({
+  createClient: jest.fn()
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+// Mock data for testing, newest first
+const mockFines: FineWithUsersQuery[] = [
+  {
+    id: 'c',
+    date: '2024-03-03T10:00:00+00:00',
+    fine_type: 'Fine',
+    description: 'Late to training',
+    amount: 500,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 0,
+    reject_votes: 0,
+    subject_id: 'user-1',
+    proposer_id: 'user-2',
+    subject: { name: 'Alice' },
+    proposer: { name: 'Bob' }
+  },
+  {
+    id: 'b',
+    date: '2024-03-02T10:00:00+00:00',
+    fine_type: 'Fine',
+    description: 'Forgot the bibs',
+    amount: 500,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 0,
+    reject_votes: 0,
+    subject_id: 'user-1',
+    proposer_id: 'user-2',
+    subject: { name: 'Alice' },
+    proposer: { name: 'Bob' }
+  },
+  {
+    id: 'a',
+    date: '2024-03-01T10:00:00+00:00',
+    fine_type: 'Fine',
+    description: 'Missed the bus',
+    amount: 500,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 0,
+    reject_votes: 0,
+    subject_id: 'user-1',
+    proposer_id: 'user-2',
+    subject: { name: 'Alice' },
+    proposer: { name: 'Bob' }
+  }
+];
+
+// select → [filters] → [or] → order → order → limit → overrideTypes
+const mockFinesQuery = (rows: unknown[]) => {
+  const query: Record<string, jest.Mock> = {};
+  query.select = jest.fn(() => query);
+  query.eq = jest.fn(() => query);
+  query.in = jest.fn(() => query);
+  query.gte = jest.fn(() => query);
+  query.lte = jest.fn(() => query);
+  query.or = jest.fn(() => query);
+  query.order = jest.fn(() => query);
+  query.limit = jest.fn(() => query);
+  query.overrideTypes = jest.fn().mockResolvedValue({ data: rows, error: null });
+  query.rpc = jest.fn().mockResolvedValue({ data: [], error: null });
+  mockCreateClient.mockReturnValue({ from: jest.fn(() => query), rpc: query.rpc } as unknown as ReturnType<typeof createClient>);
+  return query;
+};
+
+describe('fines API', () => {
+  describe('getFinesPage', () => {
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('returns the first page newest first, with a cursor when there is more', async () => {
+      const query = mockFinesQuery(mockFines);
+
+      const result = await getFinesPage({ limit: 2 }, 'season-1');
+
+      expect(query.eq).toHaveBeenCalledWith('season_id', 'season-1');
+      expect(query.or).not.toHaveBeenCalled();
+      expect(query.order).toHaveBeenNthCalledWith(1, 'date', { ascending: false });
+      expect(query.order).toHaveBeenNthCalledWith(2, 'id', { ascending: false });
+      expect(query.limit).toHaveBeenCalledWith(3);
+      expect(result.error).toBeNull();
+      expect(result.data?.data.map(row => row.id)).toEqual(['c', 'b']);
+      expect(result.data?.hasMore).toBe(true);
+      expect(result.data?.nextCursor).toEqual({ date: '2024-03-02T10:00:00+00:00', id: 'b' });
+    });
+
+    it('continues strictly before the cursor, breaking date ties by id', async () => {
+      const query = mockFinesQuery([mockFines[2]]);
+
+      const result = await getFinesPage({ limit: 2, cursor: { date: '2024-03-02T10:00:00+00:00', id: 'b' } });
+
+      expect(query.eq).not.toHaveBeenCalled();
+      expect(query.or).toHaveBeenCalledWith(
+        'date.lt."2024-03-02T10:00:00+00:00",and(date.eq."2024-03-02T10:00:00+00:00",id.lt.b)'
+      );
+      expect(result.data?.hasMore).toBe(false);
+      expect(result.data?.nextCursor).toBeNull();
+    });
+
+    it('applies the feed filters in the query', async () => {
+      const query = mockFinesQuery([]);
+
+      await getFinesPage({ limit: 50 }, undefined, {
+        fineTypes: ['Fine', 'Warning'],
+        dateRange: { from: new Date(2024, 2, 1, 15), to: new Date(2024, 2, 31) },
+        minAmount: 500,
+        maxAmount: 2000,
+        playerId: 'user-2',
+        playerRole: 'proposer',
+        hasComments: true
+      });
+
+      expect(query.select).toHaveBeenCalledWith(expect.stringContaining('comments!inner(id)'));
+      expect(query.in).toHaveBeenCalledWith('fine_type', ['Fine', 'Warning']);
+      expect(query.gte).toHaveBeenCalledWith('date', new Date(2024, 2, 1).toISOString());
+      expect(query.lte).toHaveBeenCalledWith('date', new Date(2024, 2, 31, 23, 59, 59, 999).toISOString());
+      expect(query.gte).toHaveBeenCalledWith('amount', 500);
+      expect(query.lte).toHaveBeenCalledWith('amount', 2000);
+      expect(query.eq).toHaveBeenCalledWith('proposer_id', 'user-2');
+      expect(query.eq).toHaveBeenCalledWith('comments.is_deleted', false);
+    });
+
+    it('filters on the fined player by default and skips unset filters', async () => {
+      const query = mockFinesQuery([]);
+
+      await getFinesPage({ limit: 50 }, undefined, { fineTypes: [], minAmount: null, playerId: 'user-2' });
+
+      expect(query.select).toHaveBeenCalledWith(expect.not.stringContaining('comments'));
+      expect(query.in).not.toHaveBeenCalled();
+      expect(query.gte).not.toHaveBeenCalled();
+      expect(query.eq).toHaveBeenCalledWith('subject_id', 'user-2');
+    });
+
+    it('keeps to the fines a player has saved', async () => {
+      const query = mockFinesQuery([mockFines[1]]);
+      query.rpc.mockResolvedValue({ data: ['b', 'c'], error: null });
+
+      const result = await getFinesPage({ limit: 50 }, 'season-1', { savedWithToken: 'token-1' });
+
+      expect(query.rpc).toHaveBeenCalledWith('get_my_saved_fine_ids', { p_token: 'token-1' });
+      expect(query.in).toHaveBeenCalledWith('id', ['b', 'c']);
+      expect(result.data?.data.map(row => row.id)).toEqual(['b']);
+    });
+
+    it('returns an empty page without querying when nothing is saved', async () => {
+      const query = mockFinesQuery([]);
+
+      const result = await getFinesPage({ limit: 50 }, 'season-1', { savedWithToken: 'token-1' });
+
+      expect(query.overrideTypes).not.toHaveBeenCalled();
+      expect(result).toEqual({ data: { data: [], nextCursor: null, hasMore: false }, error: null });
+    });
+
+    it('returns the error message when the query fails', async () => {
+      const query = mockFinesQuery([]);
+      query.overrideTypes.mockResolvedValue({ data: null, error: { message: 'timeout' } });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await getFinesPage({ limit: 50 });
+
+      expect(result).toEqual({ data: null, error: 'timeout' });
+    });
+  });
+
+  describe('getAllFines', () => {
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('walks every page with the same season and filters', async () => {
+      const firstPage = Array.from({ length: 501 }, (_, i) => ({ ...mockFines[1], id: `f${1000 - i}` }));
+      const query = mockFinesQuery([]);
+      query.overrideTypes
+        .mockResolvedValueOnce({ data: firstPage, error: null })
+        .mockResolvedValueOnce({ data: [mockFines[2]], error: null });
+
+      const result = await getAllFines('season-1', { fineTypes: ['Credit'] });
+
+      expect(result.error).toBeNull();
+      expect(result.data).toHaveLength(501);
+      expect(result.data?.[500].id).toBe('a');
+      expect(query.limit).toHaveBeenCalledTimes(2);
+      expect(query.in).toHaveBeenCalledTimes(2);
+      expect(query.or).toHaveBeenCalledTimes(1);
+      expect(query.or).toHaveBeenCalledWith(expect.stringContaining('id.lt.f501'));
+    });
+
+    it('stops at the first failed page', async () => {
+      const query = mockFinesQuery([]);
+      query.overrideTypes.mockResolvedValue({ data: null, error: { message: 'timeout' } });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await getAllFines();
+
+      expect(result).toEqual({ data: null, error: 'timeout' });
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describeNotification, getNotifications, markAllNotificationsRead } from '../notifications';
+import { createClient } from '@/lib/supabase/client';
+import type { NotificationWithDetails } from '@/types/models';
+
+jest.mock('@/lib/supabase/client', () => ({
+  createClient: jest.fn()
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+// Mock data for testing
+const mockNotification: NotificationWithDetails = {
+  id: 'notification-1',
+  user_id: 'user-2',
+  actor_id: 'user-1',
+  type: 'fine',
+  fine_id: 'fine-1',
+  comment_id: null,
+  read_at: null,
+  created_at: '2024-01-01T10:00:00Z',
+  actor: { user_id: 'user-1', username: 'alice', name: 'Alice' },
+  fine: { id: 'fine-1', description: 'Late to training', fine_type: 'Fine', amount: 500 }
+};
+
+describe('notifications API', () => {
+  describe('describeNotification', () => {
+    it('describes fines, credits and warnings', () => {
+      expect(describeNotification(mockNotification)).toBe('Alice fined you $5.00');
+      expect(describeNotification({
+        ...mockNotification,
+        fine: { id: 'fine-1', description: 'Man of the match', fine_type: 'Credit', amount: 1000 }
+      })).toBe('Alice credited you $10.00');
+      expect(describeNotification({
+        ...mockNotification,
+        fine: { id: 'fine-1', description: 'Offside again', fine_type: 'Warning', amount: 0 }
+      })).toBe('Alice gave you a warning');
+    });
+
+    it('describes comments, replies and mentions', () => {
+      expect(describeNotification({ ...mockNotification, type: 'comment' })).toBe('Alice commented on your fine');
+      expect(describeNotification({ ...mockNotification, type: 'reply' })).toBe('Alice replied to your comment');
+      expect(describeNotification({ ...mockNotification, type: 'mention' })).toBe('Alice mentioned you in a comment');
+    });
+
+    it('falls back when the actor has been removed', () => {
+      expect(describeNotification({ ...mockNotification, type: 'reply', actor: null })).toBe('Someone replied to your comment');
+    });
+  });
+
+  describe('getNotifications', () => {
+    it('reads the player\'s notifications through the session-checked RPC', async () => {
+      const overrideTypes = jest.fn().mockResolvedValue({ data: [mockNotification], error: null });
+      const select = jest.fn(() => ({ overrideTypes }));
+      const rpc = jest.fn(() => ({ select }));
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+
+      const result = await getNotifications('token-2', 5);
+
+      expect(rpc).toHaveBeenCalledWith('get_my_notifications', { p_token: 'token-2', p_limit: 5 });
+      expect(select).toHaveBeenCalledWith(expect.stringContaining('actor:users'));
+      expect(result).toEqual({ data: [mockNotification], error: null });
+    });
+  });
+
+  describe('markAllNotificationsRead', () => {
+    it('marks them read through the session-checked RPC', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: null, error: null });
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+
+      const result = await markAllNotificationsRead('token-2');
+
+      expect(rpc).toHaveBeenCalledWith('mark_all_my_notifications_read', { p_token: 'token-2' });
+      expect(result).toEqual({ data: null, error: null });
+    });
+
+    it('returns the error when the session has expired', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: null, error: { message: 'Your session has expired. Sign in again.' } });
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+
+      const result = await markAllNotificationsRead('expired');
+
+      expect(result).toEqual({ data: null, error: 'Your session has expired. Sign in again.' });
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { deletePayment, recordPayment } from '../payments';
+import { createClient } from '@/lib/supabase/client';
+
+jest.mock('@/lib/supabase/client', () => ({
+  createClient: jest.fn()
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+describe('payments API', () => {
+  describe('recordPayment', () => {
+    it('records the payment through the admin-checked RPC', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: { id: 'payment-1' }, error: null });
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+
+      const result = await recordPayment(
+        'token-1',
+        { player_id: 'user-1', amount: 2500, method: 'Cash', paid_at: '2025-09-01', note: '  ' },
+        'season-1'
+      );
+
+      expect(rpc).toHaveBeenCalledWith('record_payment', {
+        p_token: 'token-1',
+        p_player_id: 'user-1',
+        p_amount: 2500,
+        p_method: 'Cash',
+        p_paid_at: '2025-09-01',
+        p_note: undefined,
+        p_season_id: 'season-1'
+      });
+      expect(result).toEqual({ data: { id: 'payment-1' }, error: null });
+    });
+
+    it('returns the database error message', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: null, error: { message: 'Only admins can do that' } });
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+
+      const result = await recordPayment(
+        'token-1',
+        { player_id: 'user-1', amount: 2500, method: 'Cash', paid_at: '2025-09-01' }
+      );
+
+      expect(result).toEqual({ data: null, error: 'Only admins can do that' });
+    });
+  });
+
+  describe('deletePayment', () => {
+    it('removes the payment through the admin-checked RPC', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: null, error: null });
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+
+      const result = await deletePayment('token-1', 'payment-1');
+
+      expect(rpc).toHaveBeenCalledWith('delete_payment', { p_token: 'token-1', p_payment_id: 'payment-1' });
+      expect(result).toEqual({ data: null, error: null });
+    });
+  });
+});
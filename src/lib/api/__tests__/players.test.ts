@@ -0,0 +1,177 @@
+import { buildBalanceTimeline, getPlayerFines, summarizePlayerFines } from '../players';
+import { createClient } from '@/lib/supabase/client';
+import type { FineWithUsersQuery } from '@/types/api';
+
+jest.mock('@/lib/supabase/client', () => ({
+  createClient: jest.fn()
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+// Mock data for testing
+const fines: FineWithUsersQuery[] = [
+  {
+    id: 'fine',
+    date: '2024-03-01T10:00:00Z',
+    fine_type: 'Fine',
+    description: 'Late to training',
+    amount: 500,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 1,
+    reject_votes: 0,
+    subject_id: 'bob',
+    proposer_id: 'alice',
+    subject: { name: 'Bob' },
+    proposer: { name: 'Alice' }
+  },
+  {
+    id: 'credit',
+    date: '2024-03-03T10:00:00Z',
+    fine_type: 'Credit',
+    description: 'Late to training',
+    amount: 200,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 1,
+    reject_votes: 0,
+    subject_id: 'bob',
+    proposer_id: 'alice',
+    subject: { name: 'Bob' },
+    proposer: { name: 'Alice' }
+  },
+  {
+    id: 'warning',
+    date: '2024-03-01T10:00:00Z',
+    fine_type: 'Warning',
+    description: 'Late to training',
+    amount: 0,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 1,
+    reject_votes: 0,
+    subject_id: 'bob',
+    proposer_id: 'alice',
+    subject: { name: 'Bob' },
+    proposer: { name: 'Alice' }
+  },
+  {
+    id: 'pending',
+    date: '2024-03-01T10:00:00Z',
+    fine_type: 'Fine',
+    description: 'Late to training',
+    amount: 1000,
+    replies: 0,
+    is_void: false,
+    status: 'pending',
+    approve_votes: 1,
+    reject_votes: 0,
+    subject_id: 'bob',
+    proposer_id: 'alice',
+    subject: { name: 'Bob' },
+    proposer: { name: 'Alice' }
+  },
+  {
+    id: 'void',
+    date: '2024-03-01T10:00:00Z',
+    fine_type: 'Fine',
+    description: 'Late to training',
+    amount: 1000,
+    replies: 0,
+    is_void: true,
+    status: 'approved',
+    approve_votes: 1,
+    reject_votes: 0,
+    subject_id: 'bob',
+    proposer_id: 'alice',
+    subject: { name: 'Bob' },
+    proposer: { name: 'Alice' }
+  },
+  {
+    id: 'proposed',
+    date: '2024-03-01T10:00:00Z',
+    fine_type: 'Fine',
+    description: 'Late to training',
+    amount: 500,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 1,
+    reject_votes: 0,
+    subject_id: 'carol',
+    proposer_id: 'bob',
+    subject: { name: 'Carol' },
+    proposer: { name: 'Bob' }
+  },
+  {
+    id: 'self',
+    date: '2024-03-05T10:00:00Z',
+    fine_type: 'Fine',
+    description: 'Late to training',
+    amount: 100,
+    replies: 0,
+    is_void: false,
+    status: 'approved',
+    approve_votes: 1,
+    reject_votes: 0,
+    subject_id: 'bob',
+    proposer_id: 'bob',
+    subject: { name: 'Bob' },
+    proposer: { name: 'Bob' }
+  }
+];
+
+describe('players API', () => {
+  describe('getPlayerFines', () => {
+    it('fetches fines the player was given or proposed in the season', async () => {
+      const query: Record<string, jest.Mock> = {};
+      query.select = jest.fn(() => query);
+      query.or = jest.fn(() => query);
+      query.eq = jest.fn(() => query);
+      query.order = jest.fn(() => query);
+      query.overrideTypes = jest.fn().mockResolvedValue({ data: [fines[0]], error: null });
+      mockCreateClient.mockReturnValue({ from: jest.fn(() => query) } as unknown as ReturnType<typeof createClient>);
+
+      const result = await getPlayerFines('bob', 'season-1');
+
+      expect(query.or).toHaveBeenCalledWith('subject_id.eq.bob,proposer_id.eq.bob');
+      expect(query.eq).toHaveBeenCalledWith('season_id', 'season-1');
+      expect(query.order).toHaveBeenCalledWith('date', { ascending: false });
+      expect(result.data).toHaveLength(1);
+    });
+  });
+
+  describe('summarizePlayerFines', () => {
+    it('splits received fines by type and totals only approved, non-void ones', () => {
+      const summary = summarizePlayerFines(fines, 'bob');
+
+      expect(summary.fines.map(f => f.id)).toEqual(['fine', 'pending', 'void', 'self']);
+      expect(summary.credits.map(f => f.id)).toEqual(['credit']);
+      expect(summary.warnings.map(f => f.id)).toEqual(['warning']);
+      expect(summary.proposed.map(f => f.id)).toEqual(['proposed']);
+      expect(summary.fined).toBe(600);
+      expect(summary.credited).toBe(200);
+    });
+  });
+
+  describe('buildBalanceTimeline', () => {
+    it('runs the balance through fines, credits and payments in date order', () => {
+      const timeline = buildBalanceTimeline(
+        fines,
+        [{ amount: 300, paid_at: '2024-03-04', method: 'Cash' }],
+        'bob'
+      );
+
+      expect(timeline.map(point => [point.change, point.balance])).toEqual([
+        [500, 500],
+        [-200, 300],
+        [-300, 0],
+        [100, 100]
+      ]);
+      expect(timeline[2].label).toBe('Payment (Cash)');
+    });
+  });
+});
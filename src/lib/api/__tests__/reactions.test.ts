@@ -0,0 +1,131 @@
+import { addReaction, applyReactionChange, findReaction, removeReaction, summarizeReactions } from '../reactions';
+import { createClient } from '@/lib/supabase/client';
+import type { ReactionWithUser } from '@/types/models';
+
+jest.mock('@/lib/supabase/client', () => ({
+  createClient: jest.fn()
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+// Mock data for testing
+const mockReactions: ReactionWithUser[] = [
+  {
+    id: 'reaction-1',
+    fine_id: 'fine-1',
+    comment_id: null,
+    user_id: 'user-1',
+    emoji: '👍',
+    created_at: '2024-01-01T10:00:00Z',
+    user: { user_id: 'user-1', username: 'alice', name: 'Alice' }
+  },
+  {
+    id: 'reaction-2',
+    fine_id: 'fine-1',
+    comment_id: null,
+    user_id: 'user-2',
+    emoji: '👍',
+    created_at: '2024-01-01T11:00:00Z',
+    user: { user_id: 'user-2', username: 'bob', name: 'Bob' }
+  },
+  {
+    id: 'reaction-3',
+    fine_id: 'fine-1',
+    comment_id: null,
+    user_id: 'user-2',
+    emoji: '😂',
+    created_at: '2024-01-01T12:00:00Z',
+    user: { user_id: 'user-2', username: 'bob', name: 'Bob' }
+  },
+  {
+    id: 'reaction-4',
+    fine_id: 'fine-1',
+    comment_id: 'comment-1',
+    user_id: 'user-1',
+    emoji: '🔥',
+    created_at: '2024-01-01T10:30:00Z',
+    user: { user_id: 'user-1', username: 'alice', name: 'Alice' }
+  },
+  {
+    id: 'reaction-5',
+    fine_id: 'fine-2',
+    comment_id: null,
+    user_id: 'user-1',
+    emoji: '👍',
+    created_at: '2024-01-01T10:00:00Z',
+    user: { user_id: 'user-1', username: 'alice', name: 'Alice' }
+  }
+];
+
+describe('reactions API', () => {
+  describe('addReaction', () => {
+    it('adds a comment reaction as the signed-in member', async () => {
+      const single = jest.fn().mockResolvedValue({ data: mockReactions[3], error: null });
+      const select = jest.fn(() => ({ single }));
+      const rpc = jest.fn(() => ({ select }));
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+
+      const result = await addReaction('token-1', { fineId: 'fine-1', commentId: 'comment-1' }, '🔥');
+
+      expect(rpc).toHaveBeenCalledWith('add_reaction', { p_token: 'token-1', p_fine_id: 'fine-1', p_emoji: '🔥', p_comment_id: 'comment-1' });
+      expect(select).toHaveBeenCalledWith(expect.stringContaining('user:users'));
+      expect(result).toEqual({ data: mockReactions[3], error: null });
+    });
+  });
+
+  describe('removeReaction', () => {
+    it('removes the reaction through the session-checked RPC', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: null, error: null });
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+
+      const result = await removeReaction('token-1', 'reaction-4');
+
+      expect(rpc).toHaveBeenCalledWith('remove_reaction', { p_token: 'token-1', p_reaction_id: 'reaction-4' });
+      expect(result).toEqual({ data: null, error: null });
+    });
+  });
+
+  describe('summarizeReactions', () => {
+    it('groups reactions on the fine by emoji in first-used order', () => {
+      const reactions = [mockReactions[2], mockReactions[0], mockReactions[1]];
+
+      expect(summarizeReactions(reactions, { fineId: 'fine-1' }, 'user-2')).toEqual([
+        { emoji: '👍', count: 2, names: ['Alice', 'Bob'], reactedByMe: true },
+        { emoji: '😂', count: 1, names: ['Bob'], reactedByMe: true },
+      ]);
+    });
+
+    it('keeps fine and comment reactions apart', () => {
+      const reactions = [mockReactions[0], mockReactions[3], mockReactions[4]];
+
+      expect(summarizeReactions(reactions, { fineId: 'fine-1' }).map(summary => summary.emoji)).toEqual(['👍']);
+      expect(summarizeReactions(reactions, { fineId: 'fine-1', commentId: 'comment-1' })).toEqual([
+        { emoji: '🔥', count: 1, names: ['Alice'], reactedByMe: false },
+      ]);
+    });
+  });
+
+  describe('findReaction', () => {
+    it('finds the member\'s reaction with that emoji on the target', () => {
+      expect(findReaction(mockReactions, { fineId: 'fine-1' }, 'user-1', '👍')?.id).toBe('reaction-1');
+      expect(findReaction(mockReactions, { fineId: 'fine-1', commentId: 'comment-1' }, 'user-1', '🔥')?.id).toBe('reaction-4');
+      expect(findReaction(mockReactions, { fineId: 'fine-1' }, 'user-1', '🔥')).toBeUndefined();
+      expect(findReaction(mockReactions, { fineId: 'fine-1' }, 'user-1', '😂')).toBeUndefined();
+    });
+  });
+
+  describe('applyReactionChange', () => {
+    it('does not add the same reaction twice', () => {
+      const once = applyReactionChange([], { type: 'INSERT', reaction: mockReactions[0] });
+      const twice = applyReactionChange(once, { type: 'INSERT', reaction: mockReactions[0] });
+
+      expect(twice).toHaveLength(1);
+    });
+
+    it('removes a reaction by ID', () => {
+      const result = applyReactionChange([mockReactions[0], mockReactions[1]], { type: 'DELETE', reaction: { id: 'reaction-1' } });
+
+      expect(result.map(r => r.id)).toEqual(['reaction-2']);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { searchFines, searchResultHref, splitSnippet } from '../search';
+import { createClient } from '@/lib/supabase/client';
+
+jest.mock('@/lib/supabase/client', () => ({
+  createClient: jest.fn()
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+describe('search API', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('searchFines', () => {
+    it('searches the season through the search_fines RPC', async () => {
+      const results = [{ fine_id: 'fine-1', comment_id: null, snippet: '<mark>Late</mark> again' }];
+      const rpc = jest.fn().mockResolvedValue({ data: results, error: null });
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+
+      const result = await searchFines('  late  ', 'season-1');
+
+      expect(rpc).toHaveBeenCalledWith('search_fines', { p_query: 'late', p_season_id: 'season-1', p_limit: 20 });
+      expect(result).toEqual({ data: results, error: null });
+    });
+
+    it('does not query for a blank search', async () => {
+      const result = await searchFines('   ');
+
+      expect(mockCreateClient).not.toHaveBeenCalled();
+      expect(result).toEqual({ data: [], error: null });
+    });
+
+    it('returns the error message when the search fails', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: null, error: { message: 'syntax error in tsquery' } });
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await searchFines('late');
+
+      expect(result).toEqual({ data: null, error: 'syntax error in tsquery' });
+    });
+  });
+
+  describe('splitSnippet', () => {
+    it('splits a snippet into plain and highlighted parts', () => {
+      expect(splitSnippet('Was <mark>late</mark> to <mark>training</mark> again')).toEqual([
+        { text: 'Was ', highlighted: false },
+        { text: 'late', highlighted: true },
+        { text: ' to ', highlighted: false },
+        { text: 'training', highlighted: true },
+        { text: ' again', highlighted: false }
+      ]);
+    });
+
+    it('keeps any other markup as plain text', () => {
+      expect(splitSnippet('<b>bold</b> <mark>late</mark>')).toEqual([
+        { text: '<b>bold</b> ', highlighted: false },
+        { text: 'late', highlighted: true }
+      ]);
+    });
+  });
+
+  describe('searchResultHref', () => {
+    it('opens the fine, and the comment for a comment hit', () => {
+      expect(searchResultHref({ fine_id: 'fine-1', comment_id: null })).toBe('/dashboard?fine=fine-1');
+      expect(searchResultHref({ fine_id: 'fine-1', comment_id: 'comment-1' })).toBe('/dashboard?fine=fine-1&comment=comment-1');
+    });
+  });
+});
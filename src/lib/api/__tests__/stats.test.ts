@@ -0,0 +1,85 @@
+import {
+  activityGrid,
+  getFineActivityStats,
+  getMostCommentedFines,
+  getWeeklyFineStats,
+  topPlayers
+} from '../stats';
+import { createClient } from '@/lib/supabase/client';
+import type { PlayerFineStat } from '@/types/models';
+
+jest.mock('@/lib/supabase/client', () => ({
+  createClient: jest.fn()
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+describe('stats API', () => {
+  const rpc = jest.fn();
+
+  beforeEach(() => {
+    rpc.mockReset();
+    mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+  });
+
+  it('asks for weekly stats in the given time zone', async () => {
+    rpc.mockResolvedValue({ data: [], error: null });
+
+    const result = await getWeeklyFineStats('season-1', 'Europe/London');
+
+    expect(rpc).toHaveBeenCalledWith('get_fine_weekly_stats', { p_season_id: 'season-1', p_time_zone: 'Europe/London' });
+    expect(result).toEqual({ data: [], error: null });
+  });
+
+  it("defaults the activity time zone to the viewer's", async () => {
+    rpc.mockResolvedValue({ data: [], error: null });
+
+    await getFineActivityStats('season-1');
+
+    expect(rpc).toHaveBeenCalledWith('get_fine_activity_stats', {
+      p_season_id: 'season-1',
+      p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    });
+  });
+
+  it('returns the error message when a query fails', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await getMostCommentedFines('season-1', 5);
+
+    expect(rpc).toHaveBeenCalledWith('get_most_commented_fines', { p_season_id: 'season-1', p_limit: 5 });
+    expect(result).toEqual({ data: null, error: 'permission denied' });
+  });
+
+  describe('topPlayers', () => {
+    const player = (name: string, fines_received: number, fines_proposed: number): PlayerFineStat => ({
+      user_id: name.toLowerCase(),
+      name,
+      fines_received,
+      amount_received: fines_received * 500,
+      fines_proposed
+    });
+
+    it('ranks by the chosen stat, breaking ties by name and skipping zeros', () => {
+      const stats = [player('Carol', 2, 0), player('Bob', 3, 1), player('Alice', 2, 4), player('Dave', 0, 1)];
+
+      expect(topPlayers(stats, 'fines_received').map(p => p.name)).toEqual(['Bob', 'Alice', 'Carol']);
+      expect(topPlayers(stats, 'fines_proposed', 2).map(p => p.name)).toEqual(['Alice', 'Bob']);
+    });
+  });
+
+  describe('activityGrid', () => {
+    it('puts Sunday on the last row and fills empty slots with zero', () => {
+      const grid = activityGrid([
+        { day_of_week: 0, hour: 21, fine_count: 4 },
+        { day_of_week: 1, hour: 9, fine_count: 2 }
+      ]);
+
+      expect(grid).toHaveLength(7);
+      expect(grid[6][21]).toBe(4);
+      expect(grid[0][9]).toBe(2);
+      expect(grid.flat().reduce((sum, count) => sum + count, 0)).toBe(6);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { applyFineChange, applyPaymentChange, getPlayerTotals, mergePlayerTotals } from '../totals';
+import { createClient } from '@/lib/supabase/client';
+import type { Fine, PlayerBalance } from '@/types/models';
+
+jest.mock('@/lib/supabase/client', () => ({
+  createClient: jest.fn()
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+// Mock data for testing
+const mockBalance: PlayerBalance = {
+  player_id: 'user-1',
+  name: 'Alice',
+  fined: 20,
+  credited: 5,
+  paid: 10,
+  outstanding: 5
+};
+
+const mockOtherBalances: PlayerBalance[] = [
+  { player_id: 'user-2', name: 'Bob', fined: 20, credited: 5, paid: 10, outstanding: 5 },
+  { player_id: 'user-3', name: 'Carol', fined: 20, credited: 5, paid: 10, outstanding: 5 }
+];
+
+const mockFine: Pick<Fine, 'subject_id' | 'amount' | 'fine_type' | 'is_void' | 'status' | 'season_id'> = {
+  subject_id: 'user-1',
+  amount: 4,
+  fine_type: 'Fine',
+  is_void: false,
+  status: 'approved',
+  season_id: 'season-1'
+};
+
+describe('totals API', () => {
+  describe('getPlayerTotals', () => {
+    it('calls get_player_totals for the season and player', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: [mockBalance], error: null });
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+
+      const result = await getPlayerTotals('season-1', 'user-1');
+
+      expect(rpc).toHaveBeenCalledWith('get_player_totals', { p_season_id: 'season-1', p_player_id: 'user-1' });
+      expect(result).toEqual({ data: [mockBalance], error: null });
+    });
+
+    it('returns the database error message', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: null, error: { message: 'rpc failed' } });
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+
+      const result = await getPlayerTotals('season-1');
+
+      expect(rpc).toHaveBeenCalledWith('get_player_totals', { p_season_id: 'season-1' });
+      expect(result).toEqual({ data: null, error: 'rpc failed' });
+    });
+  });
+
+  describe('applyFineChange', () => {
+    it('adds a newly approved fine to the subject', () => {
+      const { balances } = applyFineChange([mockBalance], { old: { ...mockFine, status: 'pending' }, new: mockFine }, 'season-1');
+
+      expect(balances[0]).toMatchObject({ fined: 24, outstanding: 9 });
+    });
+
+    it('moves the amount when an approved fine is edited', () => {
+      const { balances } = applyFineChange([mockBalance], { old: mockFine, new: { ...mockFine, amount: 10 } }, 'season-1');
+
+      expect(balances[0]).toMatchObject({ fined: 26, outstanding: 11 });
+    });
+
+    it('removes a fine that is voided and counts credits separately', () => {
+      const voided = applyFineChange([mockBalance], { old: mockFine, new: { ...mockFine, is_void: true } }, 'season-1');
+      const credit = applyFineChange([mockBalance], { new: { ...mockFine, fine_type: 'Credit', amount: 3 } }, 'season-1');
+
+      expect(voided.balances[0]).toMatchObject({ fined: 16, outstanding: 1 });
+      expect(credit.balances[0]).toMatchObject({ credited: 8, outstanding: 2 });
+    });
+
+    it('ignores fines from other seasons', () => {
+      const current = [mockBalance];
+      const { balances } = applyFineChange(current, { new: { ...mockFine, season_id: 'season-2' } }, 'season-1');
+
+      expect(balances).toBe(current);
+    });
+
+    it('reports players that have no row yet', () => {
+      const { balances, missingPlayerIds } = applyFineChange([mockBalance], { new: { ...mockFine, subject_id: 'user-2' } }, 'season-1');
+
+      expect(balances).toEqual([mockBalance]);
+      expect(missingPlayerIds).toEqual(['user-2']);
+    });
+  });
+
+  describe('applyPaymentChange', () => {
+    it('subtracts a deleted payment', () => {
+      const { balances } = applyPaymentChange(
+        [mockBalance],
+        { old: { player_id: 'user-1', amount: 10, season_id: 'season-1' }, new: {} },
+        'season-1'
+      );
+
+      expect(balances[0]).toMatchObject({ paid: 0, outstanding: 15 });
+    });
+  });
+
+  describe('mergePlayerTotals', () => {
+    it('replaces existing rows and keeps the list sorted by name', () => {
+      const merged = mergePlayerTotals(
+        [mockBalance, mockOtherBalances[1]],
+        [mockOtherBalances[0], { ...mockBalance, paid: 20, outstanding: -5 }]
+      );
+
+      expect(merged.map((row) => row.name)).toEqual(['Alice', 'Bob', 'Carol']);
+      expect(merged[0].paid).toBe(20);
+    });
+  });
+});
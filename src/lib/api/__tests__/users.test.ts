@@ -0,0 +1,72 @@
+import { createUser, getUsers, setUserActive } from '../users';
+import { createClient } from '@/lib/supabase/client';
+
+jest.mock('@/lib/supabase/client', () => ({
+  createClient: jest.fn()
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+describe('users API', () => {
+  describe('getUsers', () => {
+    const query: Record<string, jest.Mock> = {};
+
+    beforeEach(() => {
+      query.select = jest.fn(() => query);
+      query.is = jest.fn(() => query);
+      query.order = jest.fn().mockResolvedValue({
+        data: [{ user_id: 'alice', username: 'alice', name: 'Alice' }],
+        error: null
+      });
+      mockCreateClient.mockReturnValue({ from: jest.fn(() => query) } as unknown as ReturnType<typeof createClient>);
+    });
+
+    it('leaves deactivated players out by default', async () => {
+      const users = await getUsers();
+
+      expect(query.is).toHaveBeenCalledWith('deactivated_at', null);
+      expect(users).toHaveLength(1);
+    });
+
+    it('includes deactivated players when asked', async () => {
+      await getUsers(true);
+
+      expect(query.is).not.toHaveBeenCalled();
+      expect(query.order).toHaveBeenCalledWith('username');
+    });
+  });
+
+  describe('admin calls', () => {
+    const rpc = jest.fn();
+
+    beforeEach(() => {
+      rpc.mockReset();
+      mockCreateClient.mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>);
+    });
+
+    it('creates a user with the trimmed details and the admin token', async () => {
+      rpc.mockResolvedValue({ data: 'new-user', error: null });
+
+      const result = await createUser('token-1', { username: ' dave ', name: ' Dave ', role: 'User' }, 'correct horse');
+
+      expect(rpc).toHaveBeenCalledWith('admin_create_user', {
+        p_token: 'token-1',
+        p_username: 'dave',
+        p_name: 'Dave',
+        p_role: 'User',
+        p_password: 'correct horse'
+      });
+      expect(result).toEqual({ data: 'new-user', error: null });
+    });
+
+    it('passes on the database refusal', async () => {
+      rpc.mockResolvedValue({ data: null, error: { message: 'The team needs at least one active admin' } });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await setUserActive('token-1', 'alice', false);
+
+      expect(rpc).toHaveBeenCalledWith('admin_set_user_active', { p_token: 'token-1', p_user_id: 'alice', p_active: false });
+      expect(result).toEqual({ data: null, error: 'The team needs at least one active admin' });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { createClient } from "@/lib/supabase/client";
+import type { AuthSession, SessionUser } from "@/types/models";
+import type { SupabaseResponse } from "@/types/api";
+
+/**
+ * Verifies a username/password pair in the database and opens a new session.
+ * The password hash never leaves the database; only the signed token is returned.
+ * @param username - The username to sign in as
+ * @param password - The plaintext password entered by the user
+ * @returns Promise<SupabaseResponse<AuthSession>> - error is set when the credentials are invalid
+ */
+export async function signIn(username: string, password: string): Promise<SupabaseResponse<AuthSession>> {
+    try {
+        const supabase = createClient();
+
+        const { data, error } = await supabase.rpc('authenticate_user', {
+            p_username: username,
+            p_password: password
+        });
+
+        if (error) {
+            console.error('Error authenticating user:', error);
+            return { data: null, error: error.message };
+        }
+
+        const row = data?.[0];
+        if (!row) {
+            return { data: null, error: 'Invalid username or password' };
+        }
+
+        return {
+            data: {
+                user: {
+                    id: row.user_id,
+                    name: row.name,
+                    username: row.username,
+                    role: row.role,
+                    avatar_color: row.avatar_color,
+                    avatar_initials: row.avatar_initials
+                },
+                token: row.session_token,
+                expires_at: row.expires_at
+            },
+            error: null
+        };
+    } catch (error) {
+        console.error('Failed to sign in:', error);
+        return {
+            data: null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+    }
+}
+
+/**
+ * Resolves a stored session token to its user
+ * @param token - The signed session token
+ * @returns Promise<SupabaseResponse<AuthSession>> - error is set when the token is invalid, expired or revoked
+ */
+export async function getSession(token: string): Promise<SupabaseResponse<AuthSession>> {
+    try {
+        const supabase = createClient();
+
+        const { data, error } = await supabase.rpc('validate_session', { p_token: token });
+
+        if (error) {
+            console.error('Error validating session:', error);
+            return { data: null, error: error.message };
+        }
+
+        const row = data?.[0];
+        if (!row) {
+            return { data: null, error: 'Session expired' };
+        }
+
+        const user: SessionUser = {
+            id: row.user_id,
+            name: row.name,
+            username: row.username,
+            role: row.role,
+            avatar_color: row.avatar_color,
+            avatar_initials: row.avatar_initials
+        };
+
+        return { data: { user, token, expires_at: row.expires_at }, error: null };
+    } catch (error) {
+        console.error('Failed to validate session:', error);
+        return {
+            data: null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+    }
+}
+
+/**
+ * Revokes a session token so it can no longer be used
+ * @param token - The signed session token
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function signOut(token: string): Promise<SupabaseResponse<null>> {
+    try {
+        const supabase = createClient();
+
+        const { error } = await supabase.rpc('revoke_session', { p_token: token });
+
+        if (error) {
+            console.error('Error revoking session:', error);
+            return { data: null, error: error.message };
+        }
+
+        return { data: null, error: null };
+    } catch (error) {
+        console.error('Failed to sign out:', error);
+        return {
+            data: null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+    }
+}
+
+/**
+ * Changes the signed-in user's password. The database checks the current
+ * password and signs out the user's other sessions; this one stays valid.
+ * @param token - The signed session token
+ * @param currentPassword - The password the user signs in with now
+ * @param newPassword - The password to switch to
+ * @returns Promise<SupabaseResponse<null>> - error is set when the current password is wrong
+ */
+export async function changePassword(token: string, currentPassword: string, newPassword: string): Promise<SupabaseResponse<null>> {
+    try {
+        const supabase = createClient();
+
+        const { error } = await supabase.rpc('change_own_password', {
+            p_token: token,
+            p_current_password: currentPassword,
+            p_new_password: newPassword
+        });
+
+        if (error) {
+            console.error('Error changing password:', error);
+            return { data: null, error: error.message };
+        }
+
+        return { data: null, error: null };
+    } catch (error) {
+        console.error('Failed to change password:', error);
+        return {
+            data: null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+    }
+}
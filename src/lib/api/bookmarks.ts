@@ -0,0 +1,82 @@
+import { createClient } from "@/lib/supabase/client";
+import type { SupabaseResponse } from "@/types/api";
+
+/**
+ * Fetches the fines the signed-in player has saved, most recently saved first
+ * @param token - The player's session token
+ * @returns Promise<SupabaseResponse<string[]>> - The saved fine IDs
+ */
+export async function getBookmarkedFineIds(token: string): Promise<SupabaseResponse<string[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('get_my_bookmarked_fine_ids', { p_token: token });
+
+    if (error) {
+      console.error('Error fetching bookmarks:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch bookmarks:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Saves a fine for the signed-in player. Saving it twice is not an error.
+ * @param token - The player's session token
+ * @param fineId - The fine to save
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function addBookmark(token: string, fineId: string): Promise<SupabaseResponse<null>> {
+  try {
+    const supabase = createClient();
+
+    const { error } = await supabase.rpc('add_my_bookmark', { p_token: token, p_fine_id: fineId });
+
+    if (error) {
+      console.error('Error adding bookmark:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to add bookmark:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Removes a fine from the signed-in player's saved fines
+ * @param token - The player's session token
+ * @param fineId - The fine to remove
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function removeBookmark(token: string, fineId: string): Promise<SupabaseResponse<null>> {
+  try {
+    const supabase = createClient();
+
+    const { error } = await supabase.rpc('remove_my_bookmark', { p_token: token, p_fine_id: fineId });
+
+    if (error) {
+      console.error('Error removing bookmark:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to remove bookmark:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
@@ -2,13 +2,16 @@ import { createClient } from "@/lib/supabase/client";
 import type {
     Comment,
     CommentInsert,
+    CommentRevision,
     CommentUpdate,
     CommentWithAuthor,
     CommentWithReplies,
     CommentsResponse,
-    UserSelect
+    UserWithAvatar
 } from "@/types/models";
 import type { SupabaseResponse } from "@/types/api";
+import { can } from "@/lib/permissions";
+import { mentionsToText } from "@/lib/mentions";
 
 /**
  * Fetches all comments for a specific fine with author information
@@ -32,7 +35,7 @@ export async function getCommentsByFineId(fineId: string): Promise<SupabaseRespo
         created_at,
         updated_at,
         is_deleted,
-        author:users!comments_author_id_fkey(user_id, username, name)
+        author:users!comments_author_id_fkey(user_id, username, name, avatar_color, avatar_initials)
       `)
             .eq('fine_id', fineId)
             .eq('is_deleted', false)
@@ -55,7 +58,7 @@ export async function getCommentsByFineId(fineId: string): Promise<SupabaseRespo
         created_at,
         updated_at,
         is_deleted,
-        author:users!comments_author_id_fkey(user_id, username, name)
+        author:users!comments_author_id_fkey(user_id, username, name, avatar_color, avatar_initials)
       `)
             .eq('fine_id', fineId)
             .eq('is_deleted', true);
@@ -191,6 +194,37 @@ export async function deleteComment(commentId: string): Promise<SupabaseResponse
         };
     }
 }
+
+/**
+ * Fetches the earlier versions of an edited comment, oldest first.
+ * The comment itself holds the current version.
+ * @param commentId - The ID of the comment
+ * @returns Promise<SupabaseResponse<CommentRevision[]>>
+ */
+export async function getCommentRevisions(commentId: string): Promise<SupabaseResponse<CommentRevision[]>> {
+    try {
+        const supabase = createClient();
+
+        const { data, error } = await supabase
+            .from('comment_revisions')
+            .select('*')
+            .eq('comment_id', commentId)
+            .order('replaced_at', { ascending: true });
+
+        if (error) {
+            console.error('Error fetching comment revisions:', error);
+            return { data: null, error: error.message };
+        }
+
+        return { data: data || [], error: null };
+    } catch (error) {
+        console.error('Failed to fetch comment revisions:', error);
+        return {
+            data: null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+    }
+}
 /**
  *
  Builds a hierarchical comment structure from flat comment array
@@ -266,6 +300,46 @@ export async function getCommentsHierarchy(fineId: string): Promise<SupabaseResp
     };
 }
 
+// Fine ids per request, keeping the `in` filter well inside URL limits
+const COMMENT_COUNT_BATCH_SIZE = 200;
+
+/**
+ * Counts the comments on each fine, leaving out deleted ones
+ * @param fineIds - The fines to count; each gets an entry, zero when it has no comments
+ * @returns Promise<SupabaseResponse<Record<string, number>>>
+ */
+export async function getCommentCounts(fineIds: string[]): Promise<SupabaseResponse<Record<string, number>>> {
+    try {
+        const supabase = createClient();
+        const counts: Record<string, number> = Object.fromEntries(fineIds.map(fineId => [fineId, 0]));
+
+        for (let start = 0; start < fineIds.length; start += COMMENT_COUNT_BATCH_SIZE) {
+            const { data, error } = await supabase
+                .from('comments')
+                .select('fine_id')
+                .in('fine_id', fineIds.slice(start, start + COMMENT_COUNT_BATCH_SIZE))
+                .eq('is_deleted', false);
+
+            if (error) {
+                console.error('Error counting comments:', error);
+                return { data: null, error: error.message };
+            }
+
+            data?.forEach(comment => {
+                counts[comment.fine_id] = (counts[comment.fine_id] || 0) + 1;
+            });
+        }
+
+        return { data: counts, error: null };
+    } catch (error) {
+        console.error('Failed to count comments:', error);
+        return {
+            data: null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+    }
+}
+
 /**
  * Counts total replies for a comment (including nested replies)
  * @param comment - The comment to count replies for
@@ -330,7 +404,9 @@ export function validateCommentContent(content: string): CommentValidationResult
     }
 
     // Check content length (minimum 1 character, maximum 2000 characters)
-    const trimmedContent = content.trim();
+    // Measured on the markdown source as typed, so "**" and link URLs count
+    // towards the limit; a mention counts as the "@Name" typed, not its stored form
+    const trimmedContent = mentionsToText(content).trim();
     if (trimmedContent.length > 2000) {
         errors.push({
             field: 'content',
@@ -382,20 +458,30 @@ export function validateCommentFormData(formData: { content: string; fine_id: st
  * Checks if a user can edit a comment
  * @param comment - The comment to check
  * @param userId - The ID of the user attempting to edit
+ * @param role - The role of the user attempting to edit
  * @returns boolean
  */
-export function canUserEditComment(comment: Comment, userId: string): boolean {
-    return comment.author_id === userId && !comment.is_deleted;
+export function canUserEditComment(comment: Comment, userId: string, role?: string): boolean {
+    return can({ id: userId, role }, 'edit', {
+        type: 'comment',
+        authorId: comment.author_id,
+        isDeleted: comment.is_deleted
+    });
 }
 
 /**
- * Checks if a user can delete a comment
+ * Checks if a user can delete a comment (admins can delete anyone's comment)
  * @param comment - The comment to check
  * @param userId - The ID of the user attempting to delete
+ * @param role - The role of the user attempting to delete
  * @returns boolean
  */
-export function canUserDeleteComment(comment: Comment, userId: string): boolean {
-    return comment.author_id === userId && !comment.is_deleted;
+export function canUserDeleteComment(comment: Comment, userId: string, role?: string): boolean {
+    return can({ id: userId, role }, 'delete', {
+        type: 'comment',
+        authorId: comment.author_id,
+        isDeleted: comment.is_deleted
+    });
 }
 
 /**
@@ -412,8 +498,8 @@ export function canReplyToComment(comment: Comment): boolean {
  * @param comment - The comment thread to extract users from
  * @returns Array of unique users who participated in the thread
  */
-export function extractThreadUsers(comment: CommentWithReplies): UserSelect[] {
-    const users = new Map<string, UserSelect>();
+export function extractThreadUsers(comment: CommentWithReplies): UserWithAvatar[] {
+    const users = new Map<string, UserWithAvatar>();
     
     // Add the main comment author
     if (comment.author) {
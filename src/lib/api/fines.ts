@@ -1,6 +1,51 @@
-import { createClient } from "@/lib/supabase/server";
-import type { FineWithUsersQuery, GetFinesResult } from "@/types/api";
-import type { DataTableRow } from "@/types/common";
+import { createClient } from "@/lib/supabase/client";
+import type { FineWithUsersQuery, GetFinesResult, SupabaseResponse } from "@/types/api";
+import type { DataTableRow, FineFeedFilters, PageCursor, PaginatedResponse, PaginationParams } from "@/types/common";
+import type { AddBulkFinesFormData, EditFineFormData, Fine, FineEventWithActor } from "@/types/models";
+
+export const FINE_WITH_USERS_SELECT = `
+  id,
+  date,
+  fine_type,
+  description,
+  amount,
+  replies,
+  is_void,
+  status,
+  approve_votes,
+  reject_votes,
+  subject_id,
+  proposer_id,
+  batch_id,
+  subject:users!fines_subject_id_fkey(name),
+  proposer:users!fines_proposer_id_fkey(name)
+`;
+
+// An inner join on comments keeps only fines that have one
+const FINE_WITH_COMMENTS_SELECT = `
+  id,
+  date,
+  fine_type,
+  description,
+  amount,
+  replies,
+  is_void,
+  status,
+  approve_votes,
+  reject_votes,
+  subject_id,
+  proposer_id,
+  batch_id,
+  subject:users!fines_subject_id_fkey(name),
+  proposer:users!fines_proposer_id_fkey(name),
+  comments!inner(id)
+`;
+
+// Fines loaded per page of the feed
+export const FINES_PAGE_SIZE = 50;
+
+// Fines fetched per request when exporting, below PostgREST's default row cap
+const EXPORT_PAGE_SIZE = 500;
 
 /**
  * Fetches all fines from the database with related user information
@@ -8,20 +53,11 @@ import type { DataTableRow } from "@/types/common";
  */
 export async function getFines(): Promise<GetFinesResult> {
   try {
-    const supabase = await createClient();
+    const supabase = createClient();
 
     const { data, error } = await supabase
       .from('fines')
-      .select(`
-        id,
-        date,
-        fine_type,
-        description,
-        amount,
-        replies,
-        subject:users!fines_subject_id_fkey(name),
-        proposer:users!fines_proposer_id_fkey(name)
-      `);
+      .select(FINE_WITH_USERS_SELECT);
 
     if (error) {
       console.error('Error fetching fines:', error);
@@ -38,6 +74,178 @@ export async function getFines(): Promise<GetFinesResult> {
   }
 }
 
+/**
+ * Fetches one page of fines, newest first, with related user information.
+ * Pages are keyed on (date, id) rather than an offset, so fines added while
+ * someone scrolls don't shift the next page.
+ * @param params - Page size, and the cursor from the previous page
+ * @param seasonId - Only fines from this season; all fines when omitted
+ * @param filters - Feed filters, applied in the query so every page is filtered
+ * @returns Promise<SupabaseResponse<PaginatedResponse<FineWithUsersQuery>>>
+ */
+export async function getFinesPage(
+  { limit, cursor }: PaginationParams,
+  seasonId?: string,
+  filters: FineFeedFilters = {}
+): Promise<SupabaseResponse<PaginatedResponse<FineWithUsersQuery>>> {
+  try {
+    const supabase = createClient();
+
+    let query = supabase
+      .from('fines')
+      .select(filters.hasComments ? FINE_WITH_COMMENTS_SELECT : FINE_WITH_USERS_SELECT);
+
+    if (seasonId) {
+      query = query.eq('season_id', seasonId);
+    }
+
+    if (filters.fineTypes?.length) {
+      query = query.in('fine_type', filters.fineTypes);
+    }
+
+    // Whole days in the viewer's time zone
+    if (filters.dateRange?.from) {
+      const from = new Date(filters.dateRange.from);
+      from.setHours(0, 0, 0, 0);
+      query = query.gte('date', from.toISOString());
+    }
+    if (filters.dateRange?.to) {
+      const to = new Date(filters.dateRange.to);
+      to.setHours(23, 59, 59, 999);
+      query = query.lte('date', to.toISOString());
+    }
+
+    if (typeof filters.minAmount === 'number') {
+      query = query.gte('amount', filters.minAmount);
+    }
+    if (typeof filters.maxAmount === 'number') {
+      query = query.lte('amount', filters.maxAmount);
+    }
+
+    if (filters.playerId) {
+      query = query.eq(filters.playerRole === 'proposer' ? 'proposer_id' : 'subject_id', filters.playerId);
+    }
+
+    if (filters.hasComments) {
+      // Deleted comments don't count
+      query = query.eq('comments.is_deleted', false);
+    }
+
+    if (filters.savedWithToken) {
+      const { data: savedIds, error: savedError } = await supabase.rpc('get_my_saved_fine_ids', {
+        p_token: filters.savedWithToken
+      });
+
+      if (savedError) {
+        console.error('Error fetching saved fines:', savedError);
+        return { data: null, error: savedError.message };
+      }
+
+      // Nothing saved, so there is nothing to page through
+      if (!savedIds?.length) {
+        return { data: { data: [], nextCursor: null, hasMore: false }, error: null };
+      }
+      query = query.in('id', savedIds);
+    }
+
+    if (cursor) {
+      // Quoted, since timestamps contain characters PostgREST reserves
+      query = query.or(`date.lt."${cursor.date}",and(date.eq."${cursor.date}",id.lt.${cursor.id})`);
+    }
+
+    // One extra row tells us whether there is another page
+    const { data, error } = await query
+      .order('date', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1)
+      // The selects are too long for supabase-js to infer the row type
+      .overrideTypes<FineWithUsersQuery[], { merge: false }>();
+
+    if (error) {
+      console.error('Error fetching fines page:', error);
+      return { data: null, error: error.message };
+    }
+
+    const rows = data || [];
+    const page = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+    const last = page[page.length - 1];
+
+    return {
+      data: {
+        data: page,
+        nextCursor: hasMore && last ? { date: last.date, id: last.id } : null,
+        hasMore
+      },
+      error: null
+    };
+  } catch (error) {
+    console.error('Failed to fetch fines page:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Fetches a single fine with related user information
+ * @param fineId - The ID of the fine
+ * @returns Promise<SupabaseResponse<FineWithUsersQuery>>
+ */
+export async function getFine(fineId: string): Promise<SupabaseResponse<FineWithUsersQuery>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from('fines')
+      .select(FINE_WITH_USERS_SELECT)
+      .eq('id', fineId)
+      .single()
+      .overrideTypes<FineWithUsersQuery, { merge: false }>();
+
+    if (error) {
+      console.error('Error fetching fine:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to fetch fine:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Fetches every fine matching the feed filters, newest first, a page at a
+ * time. Exports use this rather than the pages the feed happens to have loaded.
+ * @param seasonId - Only fines from this season; all fines when omitted
+ * @param filters - Feed filters, as for getFinesPage
+ * @returns Promise<SupabaseResponse<FineWithUsersQuery[]>>
+ */
+export async function getAllFines(
+  seasonId?: string,
+  filters: FineFeedFilters = {}
+): Promise<SupabaseResponse<FineWithUsersQuery[]>> {
+  const fines: FineWithUsersQuery[] = [];
+  let cursor: PageCursor | undefined;
+
+  do {
+    const { data, error } = await getFinesPage({ limit: EXPORT_PAGE_SIZE, cursor }, seasonId, filters);
+    if (error || !data) {
+      return { data: null, error: error || 'Failed to fetch fines' };
+    }
+
+    fines.push(...data.data);
+    cursor = data.nextCursor ?? undefined;
+  } while (cursor);
+
+  return { data: fines, error: null };
+}
+
 /**
  * Transforms fines data from database format to DataTableRow format
  * @param fines - Array of fines from database
@@ -70,3 +278,160 @@ export async function getFinesForDataTable(): Promise<DataTableRow[]> {
   
   return transformFinesToDataTableRows(result.data || []);
 }
+
+/**
+ * Updates the editable fields of a fine; the change is written to fine_events by a database trigger.
+ * The database checks that the token belongs to the proposer or an admin and credits the change to them.
+ * @param token - The editor's session token
+ * @param fineId - The ID of the fine to update
+ * @param changes - The corrected description, amount and/or type
+ * @returns Promise<SupabaseResponse<Fine>>
+ */
+export async function updateFine(
+  token: string,
+  fineId: string,
+  changes: Partial<EditFineFormData>
+): Promise<SupabaseResponse<Fine>> {
+  // Fields left undefined are dropped from the call and keep their value
+  return writeFine('updating', (supabase) => supabase.rpc('update_fine', {
+    p_token: token,
+    p_fine_id: fineId,
+    p_description: changes.description,
+    p_amount: changes.amount,
+    p_fine_type: changes.fine_type
+  }));
+}
+
+/**
+ * Voids a fine: the row is kept for history but excluded from totals. Admins only.
+ * @param token - The acting admin's session token
+ * @param fineId - The ID of the fine to void
+ * @param reason - Optional reason shown in the audit trail
+ * @returns Promise<SupabaseResponse<Fine>>
+ */
+export async function voidFine(token: string, fineId: string, reason?: string): Promise<SupabaseResponse<Fine>> {
+  return writeFine('voiding', (supabase) => supabase.rpc('void_fine', {
+    p_token: token,
+    p_fine_id: fineId,
+    p_reason: reason?.trim() || undefined
+  }));
+}
+
+/**
+ * Restores a previously voided fine so it counts again. Admins only.
+ * @param token - The acting admin's session token
+ * @param fineId - The ID of the fine to restore
+ * @returns Promise<SupabaseResponse<Fine>>
+ */
+export async function restoreFine(token: string, fineId: string): Promise<SupabaseResponse<Fine>> {
+  return writeFine('restoring', (supabase) => supabase.rpc('restore_fine', { p_token: token, p_fine_id: fineId }));
+}
+
+/**
+ * Fines several players for the same thing in one transaction; the rows share a batch_id.
+ * The database records the token's user as the proposer.
+ * @param token - The proposer's session token
+ * @param fines - Shared description and type, plus each player's amount in cents
+ * @param seasonId - Season to record them in; the database falls back to the active season
+ * @returns Promise<SupabaseResponse<Fine[]>> - The inserted fines
+ */
+export async function addFinesBulk(
+  token: string,
+  fines: AddBulkFinesFormData,
+  seasonId?: string
+): Promise<SupabaseResponse<Fine[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('add_fines_bulk', {
+      p_token: token,
+      p_description: fines.description.trim(),
+      p_fine_type: fines.fine_type,
+      p_entries: fines.entries,
+      ...(seasonId ? { p_season_id: seasonId } : {}),
+      ...(fines.rule_id ? { p_rule_id: fines.rule_id } : {})
+    });
+
+    if (error) {
+      console.error('Error adding fines in bulk:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to add fines in bulk:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+// Runs one of the session-checked fine RPCs with the shared error handling
+async function writeFine(
+  action: string,
+  call: (supabase: ReturnType<typeof createClient>) => PromiseLike<{ data: Fine | null; error: { message: string } | null }>
+): Promise<SupabaseResponse<Fine>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await call(supabase);
+
+    if (error) {
+      console.error(`Error ${action} fine:`, error);
+      return { data: null, error: error.message };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error(`Failed ${action} fine:`, error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Fetches the audit trail for a fine, oldest first
+ * @param fineId - The ID of the fine
+ * @returns Promise<SupabaseResponse<FineEventWithActor[]>>
+ */
+export async function getFineEvents(fineId: string): Promise<SupabaseResponse<FineEventWithActor[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from('fine_events')
+      .select(`
+        id,
+        fine_id,
+        actor_id,
+        event_type,
+        old_values,
+        new_values,
+        created_at,
+        actor:users!fine_events_actor_id_fkey(user_id, username, name)
+      `)
+      .eq('fine_id', fineId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching fine history:', error);
+      return { data: null, error: error.message };
+    }
+
+    const events: FineEventWithActor[] = (data || []).map((event) => ({
+      ...event,
+      actor: Array.isArray(event.actor) ? event.actor[0] || null : event.actor || null
+    }));
+
+    return { data: events, error: null };
+  } catch (error) {
+    console.error('Failed to fetch fine history:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
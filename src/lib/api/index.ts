@@ -1,3 +1,16 @@
 // Export all API functions
 export * from './fines';
 export * from './comments';
+export * from './auth';
+export * from './votes';
+export * from './payments';
+export * from './seasons';
+export * from './totals';
+export * from './rules';
+export * from './reactions';
+export * from './users';
+export * from './notifications';
+export * from './bookmarks';
+export * from './search';
+export * from './players';
+export * from './stats';
@@ -0,0 +1,158 @@
+import { createClient } from "@/lib/supabase/client";
+import { formatMoney } from "@/lib/money";
+import type { SupabaseResponse } from "@/types/api";
+import type { NotificationWithDetails } from "@/types/models";
+
+// How many recent notifications the dropdown shows
+export const NOTIFICATION_PAGE_SIZE = 20;
+
+// Embedded on the rows get_my_notifications returns
+const NOTIFICATION_SELECT = `
+  *,
+  actor:users!notifications_actor_id_fkey(user_id, username, name),
+  fine:fines!notifications_fine_id_fkey(id, description, fine_type, amount)
+`;
+
+/**
+ * Fetches the signed-in player's most recent notifications, newest first.
+ * Notifications are private, so they are only served against a session token.
+ * @param token - The player's session token
+ * @param limit - How many to return
+ * @returns Promise<SupabaseResponse<NotificationWithDetails[]>>
+ */
+export async function getNotifications(
+  token: string,
+  limit: number = NOTIFICATION_PAGE_SIZE
+): Promise<SupabaseResponse<NotificationWithDetails[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .rpc('get_my_notifications', { p_token: token, p_limit: limit })
+      .select(NOTIFICATION_SELECT)
+      .overrideTypes<NotificationWithDetails[], { merge: false }>();
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch notifications:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Counts the signed-in player's unread notifications, including ones older than the dropdown shows
+ * @param token - The player's session token
+ * @returns Promise<SupabaseResponse<number>>
+ */
+export async function getUnreadNotificationCount(token: string): Promise<SupabaseResponse<number>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('count_my_unread_notifications', { p_token: token });
+
+    if (error) {
+      console.error('Error counting unread notifications:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data ?? 0, error: null };
+  } catch (error) {
+    console.error('Failed to count unread notifications:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Marks one of the signed-in player's notifications as read
+ * @param token - The player's session token
+ * @param notificationId - The ID of the notification
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function markNotificationRead(token: string, notificationId: string): Promise<SupabaseResponse<null>> {
+  try {
+    const supabase = createClient();
+
+    const { error } = await supabase.rpc('mark_my_notification_read', {
+      p_token: token,
+      p_notification_id: notificationId
+    });
+
+    if (error) {
+      console.error('Error marking notification read:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to mark notification read:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Marks all of the signed-in player's notifications as read
+ * @param token - The player's session token
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function markAllNotificationsRead(token: string): Promise<SupabaseResponse<null>> {
+  try {
+    const supabase = createClient();
+
+    const { error } = await supabase.rpc('mark_all_my_notifications_read', { p_token: token });
+
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to mark notifications read:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * One-line summary of a notification, e.g. "Alice fined you $5.00"
+ */
+export function describeNotification(notification: NotificationWithDetails): string {
+  const actor = notification.actor?.name || notification.actor?.username || 'Someone';
+
+  switch (notification.type) {
+    case 'fine':
+      if (notification.fine?.fine_type === 'Warning') {
+        return `${actor} gave you a warning`;
+      }
+      if (notification.fine?.fine_type === 'Credit') {
+        return `${actor} credited you ${formatMoney(notification.fine.amount)}`;
+      }
+      return notification.fine
+        ? `${actor} fined you ${formatMoney(notification.fine.amount)}`
+        : `${actor} fined you`;
+    case 'comment':
+      return `${actor} commented on your fine`;
+    case 'reply':
+      return `${actor} replied to your comment`;
+    case 'mention':
+      return `${actor} mentioned you in a comment`;
+    default:
+      return `${actor} sent you a notification`;
+  }
+}
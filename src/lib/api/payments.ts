@@ -0,0 +1,116 @@
+import { createClient } from "@/lib/supabase/client";
+import type { SupabaseResponse } from "@/types/api";
+import type { Payment, PaymentWithPlayer, RecordPaymentFormData } from "@/types/models";
+
+/**
+ * Fetches recorded payments with the paying player, newest first
+ * @param seasonId - Optional season to limit the payments to
+ * @param playerId - Optional player to limit the payments to
+ * @returns Promise<SupabaseResponse<PaymentWithPlayer[]>>
+ */
+export async function getPayments(seasonId?: string, playerId?: string): Promise<SupabaseResponse<PaymentWithPlayer[]>> {
+  try {
+    const supabase = createClient();
+
+    let query = supabase
+      .from('payments')
+      .select(`
+        *,
+        player:users!payments_player_id_fkey(user_id, username, name)
+      `);
+
+    if (seasonId) {
+      query = query.eq('season_id', seasonId);
+    }
+
+    if (playerId) {
+      query = query.eq('player_id', playerId);
+    }
+
+    const { data, error } = await query.order('paid_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching payments:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch payments:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Records a payment made by a player. The database checks that the token
+ * belongs to an admin and records them as the one who took the payment.
+ * @param token - The acting admin's session token
+ * @param payment - Player, amount, method and date of the payment
+ * @param seasonId - Season to record it in; the database falls back to the active season
+ * @returns Promise<SupabaseResponse<Payment>>
+ */
+export async function recordPayment(
+  token: string,
+  payment: RecordPaymentFormData,
+  seasonId?: string
+): Promise<SupabaseResponse<Payment>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('record_payment', {
+      p_token: token,
+      p_player_id: payment.player_id,
+      p_amount: payment.amount,
+      p_method: payment.method,
+      p_paid_at: payment.paid_at,
+      p_note: payment.note?.trim() || undefined,
+      p_season_id: seasonId
+    });
+
+    if (error) {
+      console.error('Error recording payment:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to record payment:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Removes a payment recorded in error
+ * @param token - The acting admin's session token
+ * @param paymentId - The ID of the payment
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function deletePayment(token: string, paymentId: string): Promise<SupabaseResponse<null>> {
+  try {
+    const supabase = createClient();
+
+    const { error } = await supabase.rpc('delete_payment', {
+      p_token: token,
+      p_payment_id: paymentId
+    });
+
+    if (error) {
+      console.error('Error deleting payment:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to delete payment:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
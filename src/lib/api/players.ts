@@ -0,0 +1,198 @@
+import { createClient } from "@/lib/supabase/client";
+import { FINE_WITH_USERS_SELECT } from "./fines";
+import type { FineWithUsersQuery, SupabaseResponse } from "@/types/api";
+import type { Payment, PlayerComment, UserSelect } from "@/types/models";
+
+// Recent comments listed on a profile
+export const PLAYER_COMMENTS_LIMIT = 10;
+
+/**
+ * Fetches one player
+ * @param playerId - The player's user_id
+ * @returns Promise<SupabaseResponse<UserSelect>>
+ */
+export async function getPlayer(playerId: string): Promise<SupabaseResponse<UserSelect>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from('users')
+      .select('user_id, username, name')
+      .eq('user_id', playerId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching player:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to fetch player:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Fetches every fine a player was given or proposed, newest first
+ * @param playerId - The player's user_id
+ * @param seasonId - Only fines from this season; all fines when omitted
+ * @returns Promise<SupabaseResponse<FineWithUsersQuery[]>>
+ */
+export async function getPlayerFines(playerId: string, seasonId?: string): Promise<SupabaseResponse<FineWithUsersQuery[]>> {
+  try {
+    const supabase = createClient();
+
+    let query = supabase
+      .from('fines')
+      .select(FINE_WITH_USERS_SELECT)
+      .or(`subject_id.eq.${playerId},proposer_id.eq.${playerId}`);
+
+    if (seasonId) {
+      query = query.eq('season_id', seasonId);
+    }
+
+    const { data, error } = await query
+      .order('date', { ascending: false })
+      .overrideTypes<FineWithUsersQuery[], { merge: false }>();
+
+    if (error) {
+      console.error('Error fetching player fines:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch player fines:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Fetches a player's most recent comments and how many they have written
+ * @param playerId - The author's user_id
+ * @param seasonId - Only comments on this season's fines; all when omitted
+ * @param limit - How many recent comments to return
+ * @returns Promise<SupabaseResponse<{ comments: PlayerComment[]; total: number }>>
+ */
+export async function getPlayerComments(
+  playerId: string,
+  seasonId?: string,
+  limit: number = PLAYER_COMMENTS_LIMIT
+): Promise<SupabaseResponse<{ comments: PlayerComment[]; total: number }>> {
+  try {
+    const supabase = createClient();
+
+    let query = supabase
+      .from('comments')
+      .select('id, fine_id, content, created_at, fine:fines!inner(id, description, season_id)', { count: 'exact' })
+      .eq('author_id', playerId)
+      .eq('is_deleted', false);
+
+    if (seasonId) {
+      query = query.eq('fine.season_id', seasonId);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching player comments:', error);
+      return { data: null, error: error.message };
+    }
+
+    const comments = (data || []).map(({ fine, ...comment }) => {
+      const related = Array.isArray(fine) ? fine[0] : fine;
+      return { ...comment, fine: related ? { id: related.id, description: related.description } : null };
+    });
+
+    return { data: { comments, total: count ?? comments.length }, error: null };
+  } catch (error) {
+    console.error('Failed to fetch player comments:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+export type PlayerFineSummary = {
+  // Given to the player, split by type
+  fines: FineWithUsersQuery[];
+  credits: FineWithUsersQuery[];
+  warnings: FineWithUsersQuery[];
+  // Entered by the player for someone else
+  proposed: FineWithUsersQuery[];
+  // Cents from approved, non-void fines and credits, as get_player_totals counts them
+  fined: number;
+  credited: number;
+};
+
+const counts = (fine: FineWithUsersQuery) => fine.status === 'approved' && !fine.is_void;
+
+/**
+ * Splits a player's fines into what they received, by type, and what they proposed
+ */
+export function summarizePlayerFines(fines: FineWithUsersQuery[], playerId: string): PlayerFineSummary {
+  const received = fines.filter(fine => fine.subject_id === playerId);
+  const fined = received.filter(fine => fine.fine_type === 'Fine');
+  const credits = received.filter(fine => fine.fine_type === 'Credit');
+
+  return {
+    fines: fined,
+    credits,
+    warnings: received.filter(fine => fine.fine_type === 'Warning'),
+    // Fining yourself shows up as received only
+    proposed: fines.filter(fine => fine.proposer_id === playerId && fine.subject_id !== playerId),
+    fined: fined.filter(counts).reduce((sum, fine) => sum + fine.amount, 0),
+    credited: credits.filter(counts).reduce((sum, fine) => sum + fine.amount, 0)
+  };
+}
+
+export type BalancePoint = {
+  date: string;
+  // Cents added to (fines) or taken off (credits, payments) the balance
+  change: number;
+  // Outstanding cents after this change
+  balance: number;
+  label: string;
+};
+
+/**
+ * The player's outstanding balance after each fine, credit and payment, oldest
+ * first. Only approved, non-void fines count, as in get_player_totals.
+ */
+export function buildBalanceTimeline(
+  fines: FineWithUsersQuery[],
+  payments: Pick<Payment, "amount" | "paid_at" | "method">[],
+  playerId: string
+): BalancePoint[] {
+  const changes = [
+    ...fines
+      .filter(fine => fine.subject_id === playerId && counts(fine) && fine.fine_type !== 'Warning')
+      .map(fine => ({
+        date: fine.date,
+        change: fine.fine_type === 'Credit' ? -fine.amount : fine.amount,
+        label: fine.description
+      })),
+    // paid_at is a calendar date; read it as local midnight
+    ...payments.map(payment => ({
+      date: new Date(`${payment.paid_at}T00:00:00`).toISOString(),
+      change: -payment.amount,
+      label: `Payment (${payment.method})`
+    }))
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  let balance = 0;
+  return changes.map(change => {
+    balance += change.change;
+    return { ...change, balance };
+  });
+}
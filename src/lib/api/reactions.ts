@@ -0,0 +1,201 @@
+import { createClient } from "@/lib/supabase/client";
+import type { SupabaseResponse } from "@/types/api";
+import type { Reaction, ReactionSummary, ReactionWithUser } from "@/types/models";
+
+// A fine, or a comment on it when commentId is set
+export type ReactionTarget = {
+  fineId: string;
+  commentId?: string | null;
+};
+
+export type ReactionChange =
+  | { type: 'INSERT'; reaction: ReactionWithUser }
+  | { type: 'DELETE'; reaction: Pick<Reaction, 'id'> };
+
+const REACTION_SELECT = `
+  *,
+  user:users!reactions_user_id_fkey(user_id, username, name)
+`;
+
+/**
+ * Fetches reactions on a set of fines and on their comments
+ * @param fineIds - The fines to look up
+ * @returns Promise<SupabaseResponse<ReactionWithUser[]>>
+ */
+export async function getReactions(fineIds: string[]): Promise<SupabaseResponse<ReactionWithUser[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from('reactions')
+      .select(REACTION_SELECT)
+      .in('fine_id', fineIds);
+
+    if (error) {
+      console.error('Error fetching reactions:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch reactions:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Fetches a single reaction with the member who reacted, e.g. after a realtime insert
+ * @param reactionId - The ID of the reaction
+ * @returns Promise<SupabaseResponse<ReactionWithUser>>
+ */
+export async function getReaction(reactionId: string): Promise<SupabaseResponse<ReactionWithUser>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from('reactions')
+      .select(REACTION_SELECT)
+      .eq('id', reactionId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching reaction:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to fetch reaction:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Reacts to a fine or comment as the signed-in member; the database takes the member from the token
+ * @param token - The member's session token
+ * @param target - The fine, and the comment when reacting to one
+ * @param emoji - The emoji to add
+ * @returns Promise<SupabaseResponse<ReactionWithUser>>
+ */
+export async function addReaction(
+  token: string,
+  target: ReactionTarget,
+  emoji: string
+): Promise<SupabaseResponse<ReactionWithUser>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .rpc('add_reaction', {
+        p_token: token,
+        p_fine_id: target.fineId,
+        p_emoji: emoji,
+        ...(target.commentId ? { p_comment_id: target.commentId } : {})
+      })
+      .select(REACTION_SELECT)
+      .single<ReactionWithUser>();
+
+    if (error) {
+      console.error('Error adding reaction:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to add reaction:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Removes one of the signed-in member's reactions; the database refuses anyone else's
+ * @param token - The member's session token
+ * @param reactionId - The ID of the reaction
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function removeReaction(token: string, reactionId: string): Promise<SupabaseResponse<null>> {
+  try {
+    const supabase = createClient();
+
+    const { error } = await supabase.rpc('remove_reaction', {
+      p_token: token,
+      p_reaction_id: reactionId
+    });
+
+    if (error) {
+      console.error('Error removing reaction:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to remove reaction:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Finds a member's reaction with a given emoji on a fine or comment
+ */
+export function findReaction<T extends Reaction>(
+  reactions: T[],
+  target: ReactionTarget,
+  userId: string,
+  emoji: string
+): T | undefined {
+  return reactions.find(reaction =>
+    isOnTarget(reaction, target) && reaction.user_id === userId && reaction.emoji === emoji
+  );
+}
+
+/**
+ * Groups the reactions on one fine or comment into chips, in the order each emoji was first used
+ * @param reactions - Reactions on any number of fines and comments
+ * @param target - The fine, or the comment, to summarize
+ * @param currentUserId - Marks the chips the viewer has used
+ */
+export function summarizeReactions(
+  reactions: ReactionWithUser[],
+  target: ReactionTarget,
+  currentUserId?: string
+): ReactionSummary[] {
+  const summaries = new Map<string, ReactionSummary>();
+
+  reactions
+    .filter(reaction => isOnTarget(reaction, target))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(reaction => {
+      const summary = summaries.get(reaction.emoji) ?? { emoji: reaction.emoji, count: 0, names: [], reactedByMe: false };
+      summary.count += 1;
+      summary.names.push(reaction.user?.name || reaction.user?.username || 'Unknown');
+      summary.reactedByMe = summary.reactedByMe || reaction.user_id === currentUserId;
+      summaries.set(reaction.emoji, summary);
+    });
+
+  return Array.from(summaries.values());
+}
+
+/**
+ * Applies an added or removed reaction to a list. Our own changes also come back
+ * over realtime, so inserts are matched by ID and never added twice.
+ */
+export function applyReactionChange(reactions: ReactionWithUser[], change: ReactionChange): ReactionWithUser[] {
+  const others = reactions.filter(reaction => reaction.id !== change.reaction.id);
+  return change.type === 'INSERT' ? [...others, change.reaction] : others;
+}
+
+function isOnTarget(reaction: Reaction, target: ReactionTarget): boolean {
+  return reaction.fine_id === target.fineId && (reaction.comment_id ?? null) === (target.commentId ?? null);
+}
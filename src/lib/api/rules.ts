@@ -0,0 +1,149 @@
+import { createClient } from "@/lib/supabase/client";
+import type { SupabaseResponse } from "@/types/api";
+import type { FineRule, FineRuleFormData, FineRuleStat } from "@/types/models";
+
+/**
+ * Fetches the rule book, ordered by code
+ * @param includeRetired - Also return rules that are no longer offered
+ * @returns Promise<SupabaseResponse<FineRule[]>>
+ */
+export async function getFineRules(includeRetired = false): Promise<SupabaseResponse<FineRule[]>> {
+  try {
+    const supabase = createClient();
+
+    let query = supabase
+      .from('fine_rules')
+      .select('*');
+
+    if (!includeRetired) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query.order('code');
+
+    if (error) {
+      console.error('Error fetching fine rules:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch fine rules:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Adds a rule to the rule book
+ * @param token - The acting admin's session token
+ * @param rule - Code, title and the default amount (cents) and type
+ * @returns Promise<SupabaseResponse<FineRule>>
+ */
+export async function createFineRule(token: string, rule: FineRuleFormData): Promise<SupabaseResponse<FineRule>> {
+  try {
+    const supabase = createClient();
+    const normalized = normalizeRule(rule);
+
+    const { data, error } = await supabase.rpc('create_fine_rule', {
+      p_token: token,
+      p_code: normalized.code,
+      p_title: normalized.title,
+      p_default_amount: normalized.default_amount,
+      p_default_type: normalized.default_type
+    });
+
+    if (error) {
+      console.error('Error creating fine rule:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to create fine rule:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Updates a rule; fines already given keep their own description and amount
+ * @param token - The acting admin's session token
+ * @param ruleId - The ID of the rule
+ * @param changes - Fields to change, including `is_active` to retire or restore it
+ * @returns Promise<SupabaseResponse<FineRule>>
+ */
+export async function updateFineRule(
+  token: string,
+  ruleId: string,
+  changes: Partial<FineRuleFormData> & { is_active?: boolean }
+): Promise<SupabaseResponse<FineRule>> {
+  try {
+    const supabase = createClient();
+    const normalized = normalizeRule(changes);
+
+    // Fields left undefined are dropped from the call and keep their value
+    const { data, error } = await supabase.rpc('update_fine_rule', {
+      p_token: token,
+      p_rule_id: ruleId,
+      p_code: normalized.code,
+      p_title: normalized.title,
+      p_default_amount: normalized.default_amount,
+      p_default_type: normalized.default_type,
+      p_is_active: normalized.is_active
+    });
+
+    if (error) {
+      console.error('Error updating fine rule:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to update fine rule:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Counts approved fines per rule for a season, most common offence first
+ * @param seasonId - The season to count
+ * @returns Promise<SupabaseResponse<FineRuleStat[]>>
+ */
+export async function getRuleStats(seasonId: string): Promise<SupabaseResponse<FineRuleStat[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('get_rule_stats', { p_season_id: seasonId });
+
+    if (error) {
+      console.error('Error fetching rule stats:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch rule stats:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+// Codes are stored upper-case, e.g. "late" → "LATE"
+function normalizeRule<T extends Partial<FineRuleFormData>>(rule: T): T {
+  return {
+    ...rule,
+    ...(rule.code !== undefined ? { code: rule.code.trim().toUpperCase() } : {}),
+    ...(rule.title !== undefined ? { title: rule.title.trim() } : {}),
+    ...(rule.default_type === 'Warning' ? { default_amount: 0 } : {})
+  };
+}
@@ -0,0 +1,86 @@
+import { createClient } from "@/lib/supabase/client";
+import type { SupabaseResponse } from "@/types/api";
+import type { SearchResult } from "@/types/models";
+
+// How many results the search box shows
+export const SEARCH_RESULT_LIMIT = 20;
+
+export type SnippetPart = {
+  text: string;
+  highlighted: boolean;
+};
+
+/**
+ * Searches fine descriptions and comments, best match first. The query takes
+ * web-search syntax: words, "exact phrases", `or` and `-excluded`.
+ * @param query - What to search for
+ * @param seasonId - Only search this season's fines
+ * @param limit - How many results to return
+ * @returns Promise<SupabaseResponse<SearchResult[]>>
+ */
+export async function searchFines(
+  query: string,
+  seasonId?: string,
+  limit: number = SEARCH_RESULT_LIMIT
+): Promise<SupabaseResponse<SearchResult[]>> {
+  if (!query.trim()) {
+    return { data: [], error: null };
+  }
+
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('search_fines', {
+      p_query: query.trim(),
+      p_season_id: seasonId,
+      p_limit: limit
+    });
+
+    if (error) {
+      console.error('Error searching fines:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to search fines:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Splits a search snippet on its <mark>…</mark> markers. Everything else in
+ * the snippet is user text and must be rendered as text, never as HTML.
+ */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let last = 0;
+
+  for (const match of snippet.matchAll(/<mark>([\s\S]*?)<\/mark>/g)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      parts.push({ text: snippet.slice(last, index), highlighted: false });
+    }
+    if (match[1]) {
+      parts.push({ text: match[1], highlighted: true });
+    }
+    last = index + match[0].length;
+  }
+
+  if (last < snippet.length) {
+    parts.push({ text: snippet.slice(last), highlighted: false });
+  }
+  return parts;
+}
+
+/**
+ * Where a result opens in the feed: its fine, and the comment for a comment hit
+ */
+export function searchResultHref(result: Pick<SearchResult, "fine_id" | "comment_id">): string {
+  return result.comment_id
+    ? `/dashboard?fine=${result.fine_id}&comment=${result.comment_id}`
+    : `/dashboard?fine=${result.fine_id}`;
+}
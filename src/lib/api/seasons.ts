@@ -0,0 +1,126 @@
+import { createClient } from "@/lib/supabase/client";
+import type { SupabaseResponse } from "@/types/api";
+import type { Season, SeasonFormData } from "@/types/models";
+
+/**
+ * Fetches all seasons, most recent first
+ * @returns Promise<SupabaseResponse<Season[]>>
+ */
+export async function getSeasons(): Promise<SupabaseResponse<Season[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from('seasons')
+      .select('*')
+      .order('start_date', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching seasons:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch seasons:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Creates a new season; it only takes new fines once activated
+ * @param token - The acting admin's session token
+ * @param season - Name and date range of the season
+ * @returns Promise<SupabaseResponse<Season>>
+ */
+export async function createSeason(token: string, season: SeasonFormData): Promise<SupabaseResponse<Season>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('create_season', {
+      p_token: token,
+      p_name: season.name.trim(),
+      p_start_date: season.start_date,
+      p_end_date: season.end_date
+    });
+
+    if (error) {
+      console.error('Error creating season:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to create season:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Makes a season the one new fines and payments are recorded in
+ * @param token - The acting admin's session token
+ * @param seasonId - The ID of the season
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function activateSeason(token: string, seasonId: string): Promise<SupabaseResponse<null>> {
+  try {
+    const supabase = createClient();
+
+    const { error } = await supabase.rpc('activate_season', { p_token: token, p_season_id: seasonId });
+
+    if (error) {
+      console.error('Error activating season:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to activate season:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Closes a season, archiving its fines, payments and comments as read-only
+ * @param token - The acting admin's session token
+ * @param seasonId - The ID of the season
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function closeSeason(token: string, seasonId: string): Promise<SupabaseResponse<null>> {
+  try {
+    const supabase = createClient();
+
+    const { error } = await supabase.rpc('close_season', { p_token: token, p_season_id: seasonId });
+
+    if (error) {
+      console.error('Error closing season:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to close season:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Checks whether a season has been closed and archived
+ * @param season - The season to check
+ * @returns boolean
+ */
+export function isSeasonClosed(season: Pick<Season, "closed_at"> | null | undefined): boolean {
+  return !!season?.closed_at;
+}
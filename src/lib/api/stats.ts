@@ -0,0 +1,196 @@
+import { createClient } from "@/lib/supabase/client";
+import type { SupabaseResponse } from "@/types/api";
+import type {
+  CommentedFineStat,
+  FineActivityStat,
+  FineTypeStat,
+  PlayerFineStat,
+  WeeklyFineStat
+} from "@/types/models";
+
+// Fines listed under "Most commented"
+export const MOST_COMMENTED_LIMIT = 10;
+
+/**
+ * The browser's IANA time zone, so weekly and hourly buckets follow the viewer's clock
+ */
+export function viewerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Fetches fines per week of a season with running totals
+ * @param seasonId - The season to chart
+ * @param timeZone - IANA time zone the weeks start in
+ * @returns Promise<SupabaseResponse<WeeklyFineStat[]>>
+ */
+export async function getWeeklyFineStats(
+  seasonId: string,
+  timeZone: string = viewerTimeZone()
+): Promise<SupabaseResponse<WeeklyFineStat[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('get_fine_weekly_stats', {
+      p_season_id: seasonId,
+      p_time_zone: timeZone
+    });
+
+    if (error) {
+      console.error('Error fetching weekly fine stats:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch weekly fine stats:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Fetches how many fines, credits and warnings a season had and their totals
+ * @param seasonId - The season to break down
+ * @returns Promise<SupabaseResponse<FineTypeStat[]>>
+ */
+export async function getFineTypeStats(seasonId: string): Promise<SupabaseResponse<FineTypeStat[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('get_fine_type_stats', { p_season_id: seasonId });
+
+    if (error) {
+      console.error('Error fetching fine type stats:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch fine type stats:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Fetches each player's fines received and proposed in a season
+ * @param seasonId - The season to count
+ * @returns Promise<SupabaseResponse<PlayerFineStat[]>>
+ */
+export async function getPlayerFineStats(seasonId: string): Promise<SupabaseResponse<PlayerFineStat[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('get_player_fine_stats', { p_season_id: seasonId });
+
+    if (error) {
+      console.error('Error fetching player fine stats:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch player fine stats:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Fetches the season's fines with the most comments
+ * @param seasonId - The season to search
+ * @param limit - How many fines to return
+ * @returns Promise<SupabaseResponse<CommentedFineStat[]>>
+ */
+export async function getMostCommentedFines(
+  seasonId: string,
+  limit: number = MOST_COMMENTED_LIMIT
+): Promise<SupabaseResponse<CommentedFineStat[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('get_most_commented_fines', {
+      p_season_id: seasonId,
+      p_limit: limit
+    });
+
+    if (error) {
+      console.error('Error fetching most commented fines:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch most commented fines:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Fetches how many fines were given per weekday and hour
+ * @param seasonId - The season to count
+ * @param timeZone - IANA time zone the days and hours are read in
+ * @returns Promise<SupabaseResponse<FineActivityStat[]>>
+ */
+export async function getFineActivityStats(
+  seasonId: string,
+  timeZone: string = viewerTimeZone()
+): Promise<SupabaseResponse<FineActivityStat[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('get_fine_activity_stats', {
+      p_season_id: seasonId,
+      p_time_zone: timeZone
+    });
+
+    if (error) {
+      console.error('Error fetching fine activity stats:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch fine activity stats:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * The players with the highest value of a stat, skipping those at zero
+ */
+export function topPlayers(
+  stats: PlayerFineStat[],
+  key: 'fines_received' | 'amount_received' | 'fines_proposed',
+  limit: number = 5
+): PlayerFineStat[] {
+  return stats
+    .filter(stat => stat[key] > 0)
+    .sort((a, b) => b[key] - a[key] || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/**
+ * Spreads activity buckets over a weekday by hour grid, zeros included.
+ * Rows start on Monday, like the weeks in get_fine_weekly_stats.
+ */
+export function activityGrid(stats: FineActivityStat[]): number[][] {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  for (const stat of stats) {
+    grid[(stat.day_of_week + 6) % 7][stat.hour] += stat.fine_count;
+  }
+  return grid;
+}
@@ -0,0 +1,134 @@
+import { createClient } from "@/lib/supabase/client";
+import type { SupabaseResponse } from "@/types/api";
+import type { Fine, Payment, PlayerBalance } from "@/types/models";
+
+/**
+ * Fetches per-player fined/credited/paid/outstanding totals, aggregated in the database
+ * @param seasonId - The season to total
+ * @param playerId - Optional player to limit the result to
+ * @returns Promise<SupabaseResponse<PlayerBalance[]>> - Sorted by player name
+ */
+export async function getPlayerTotals(seasonId: string, playerId?: string): Promise<SupabaseResponse<PlayerBalance[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('get_player_totals', {
+      p_season_id: seasonId,
+      ...(playerId ? { p_player_id: playerId } : {})
+    });
+
+    if (error) {
+      console.error('Error fetching player totals:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch player totals:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+type Delta = { player_id: string; fined: number; credited: number; paid: number };
+
+type FineRow = Partial<Pick<Fine, "subject_id" | "amount" | "fine_type" | "is_void" | "status" | "season_id">>;
+type PaymentRow = Partial<Pick<Payment, "player_id" | "amount" | "season_id">>;
+
+// What a single fine adds to its subject's totals, mirroring get_player_totals
+function fineContribution(fine: FineRow | null | undefined, seasonId: string): Delta | null {
+  if (!fine?.subject_id || fine.season_id !== seasonId || fine.status !== 'approved' || fine.is_void) {
+    return null;
+  }
+
+  const amount = Number(fine.amount) || 0;
+  return fine.fine_type === 'Credit'
+    ? { player_id: fine.subject_id, fined: 0, credited: amount, paid: 0 }
+    : { player_id: fine.subject_id, fined: amount, credited: 0, paid: 0 };
+}
+
+function paymentContribution(payment: PaymentRow | null | undefined, seasonId: string): Delta | null {
+  if (!payment?.player_id || payment.season_id !== seasonId) {
+    return null;
+  }
+
+  return { player_id: payment.player_id, fined: 0, credited: 0, paid: Number(payment.amount) || 0 };
+}
+
+function applyDeltas(
+  balances: PlayerBalance[],
+  removed: Delta | null,
+  added: Delta | null
+): { balances: PlayerBalance[]; missingPlayerIds: string[] } {
+  const missingPlayerIds: string[] = [];
+  let next = balances;
+
+  const apply = (delta: Delta | null, sign: 1 | -1) => {
+    if (!delta) return;
+
+    if (!next.some((balance) => balance.player_id === delta.player_id)) {
+      // No row yet for this player: the caller fetches it, already including this change
+      if (sign === 1) missingPlayerIds.push(delta.player_id);
+      return;
+    }
+
+    next = next.map((balance) => {
+      if (balance.player_id !== delta.player_id) return balance;
+
+      const fined = balance.fined + sign * delta.fined;
+      const credited = balance.credited + sign * delta.credited;
+      const paid = balance.paid + sign * delta.paid;
+      return { ...balance, fined, credited, paid, outstanding: fined - credited - paid };
+    });
+  };
+
+  apply(removed, -1);
+  apply(added, 1);
+
+  return { balances: next, missingPlayerIds };
+}
+
+/**
+ * Applies a realtime fine change to the totals without refetching the season.
+ * Relies on the fines table using REPLICA IDENTITY FULL so the old row is complete.
+ * @param balances - Current totals
+ * @param change - The row before (UPDATE/DELETE) and after (INSERT/UPDATE) the change
+ * @param seasonId - The season being totalled
+ * @returns The adjusted totals and any players that need their row fetched
+ */
+export function applyFineChange(
+  balances: PlayerBalance[],
+  change: { old?: FineRow | null; new?: FineRow | null },
+  seasonId: string
+): { balances: PlayerBalance[]; missingPlayerIds: string[] } {
+  return applyDeltas(balances, fineContribution(change.old, seasonId), fineContribution(change.new, seasonId));
+}
+
+/**
+ * Applies a realtime payment change to the totals without refetching the season
+ * @param balances - Current totals
+ * @param change - The row before (UPDATE/DELETE) and after (INSERT/UPDATE) the change
+ * @param seasonId - The season being totalled
+ * @returns The adjusted totals and any players that need their row fetched
+ */
+export function applyPaymentChange(
+  balances: PlayerBalance[],
+  change: { old?: PaymentRow | null; new?: PaymentRow | null },
+  seasonId: string
+): { balances: PlayerBalance[]; missingPlayerIds: string[] } {
+  return applyDeltas(balances, paymentContribution(change.old, seasonId), paymentContribution(change.new, seasonId));
+}
+
+/**
+ * Replaces (or adds) freshly fetched player rows, keeping the list sorted by name
+ * @param balances - Current totals
+ * @param rows - Rows returned by getPlayerTotals
+ * @returns PlayerBalance[]
+ */
+export function mergePlayerTotals(balances: PlayerBalance[], rows: PlayerBalance[]): PlayerBalance[] {
+  const ids = new Set(rows.map((row) => row.player_id));
+  return [...balances.filter((balance) => !ids.has(balance.player_id)), ...rows]
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,228 @@
+import { createClient } from "@/lib/supabase/client";
+import type { SupabaseResponse } from "@/types/api";
+import type { ProfileFormData, UserAccount, UserFormData, UserSelect } from "@/types/models";
+
+/**
+ * Fetches everyone on the team, for player pickers and @mentions
+ * @param includeDeactivated - Also return deactivated players, e.g. to filter their history
+ * @returns Promise<UserSelect[]> - empty when the list can't be loaded
+ */
+export async function getUsers(includeDeactivated = false): Promise<UserSelect[]> {
+  try {
+    const supabase = createClient();
+
+    let query = supabase
+      .from('users')
+      .select('user_id, username, name');
+
+    if (!includeDeactivated) {
+      query = query.is('deactivated_at', null);
+    }
+
+    const { data, error } = await query.order('username');
+
+    if (error) {
+      console.error('Error fetching users:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Failed to fetch users:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetches every account with its role and status, for the admin console
+ * @returns Promise<SupabaseResponse<UserAccount[]>>
+ */
+export async function getUserAccounts(): Promise<SupabaseResponse<UserAccount[]>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from('users')
+      .select('user_id, username, name, role, created_at, deactivated_at')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching user accounts:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('Failed to fetch user accounts:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Creates an account. The database checks that the token belongs to an admin
+ * and hashes the password.
+ * @param token - The acting admin's session token
+ * @param user - Username, name and role
+ * @param password - The new user's first password
+ * @returns Promise<SupabaseResponse<string>> - the new user_id
+ */
+export async function createUser(token: string, user: UserFormData, password: string): Promise<SupabaseResponse<string>> {
+  try {
+    const supabase = createClient();
+
+    const { data, error } = await supabase.rpc('admin_create_user', {
+      p_token: token,
+      p_username: user.username.trim(),
+      p_name: user.name.trim(),
+      p_role: user.role,
+      p_password: password
+    });
+
+    if (error) {
+      console.error('Error creating user:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Failed to create user:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Changes a user's username, name or role
+ * @param token - The acting admin's session token
+ * @param userId - The user to change
+ * @param user - Their new username, name and role
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function updateUser(token: string, userId: string, user: UserFormData): Promise<SupabaseResponse<null>> {
+  try {
+    const supabase = createClient();
+
+    const { error } = await supabase.rpc('admin_update_user', {
+      p_token: token,
+      p_user_id: userId,
+      p_username: user.username.trim(),
+      p_name: user.name.trim(),
+      p_role: user.role
+    });
+
+    if (error) {
+      console.error('Error updating user:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to update user:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Sets a new password for a user and signs them out everywhere
+ * @param token - The acting admin's session token
+ * @param userId - The user whose password is reset
+ * @param password - Their new password
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function resetUserPassword(token: string, userId: string, password: string): Promise<SupabaseResponse<null>> {
+  try {
+    const supabase = createClient();
+
+    const { error } = await supabase.rpc('admin_reset_password', {
+      p_token: token,
+      p_user_id: userId,
+      p_password: password
+    });
+
+    if (error) {
+      console.error('Error resetting password:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to reset password:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Deactivates or reactivates an account. Deactivated users can't sign in and
+ * are left out of the player pickers; their history stays.
+ * @param token - The acting admin's session token
+ * @param userId - The user to change
+ * @param active - Whether the account should be usable
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function setUserActive(token: string, userId: string, active: boolean): Promise<SupabaseResponse<null>> {
+  try {
+    const supabase = createClient();
+
+    const { error } = await supabase.rpc('admin_set_user_active', {
+      p_token: token,
+      p_user_id: userId,
+      p_active: active
+    });
+
+    if (error) {
+      console.error('Error changing user status:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to change user status:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Updates the signed-in user's display name and avatar
+ * @param token - The user's session token
+ * @param profile - Their name, and avatar colour and initials (null to derive them from the name)
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function updateOwnProfile(token: string, profile: ProfileFormData): Promise<SupabaseResponse<null>> {
+  try {
+    const supabase = createClient();
+
+    const { error } = await supabase.rpc('update_own_profile', {
+      p_token: token,
+      p_name: profile.name.trim(),
+      p_avatar_color: profile.avatar_color ?? undefined,
+      p_avatar_initials: profile.avatar_initials?.trim().toUpperCase() || undefined
+    });
+
+    if (error) {
+      console.error('Error updating profile:', error);
+      return { data: null, error: error.message };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Failed to update profile:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
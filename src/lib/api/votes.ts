@@ -0,0 +1,193 @@
+import { createClient } from "@/lib/supabase/client";
+import type { FineApprovalSettings, FineStatus, FineVote, VoteChoice } from "@/types/models";
+import type { SupabaseResponse } from "@/types/api";
+
+// Used when the settings row can't be read
+export const DEFAULT_APPROVAL_THRESHOLD = 3;
+
+/**
+ * Casts or changes the signed-in user's vote on a proposed fine.
+ * The database takes the voter from the token and refuses votes on your own fine;
+ * tallies and status are recomputed by a database trigger.
+ * @param token - The voter's session token
+ * @param fineId - The ID of the fine being voted on
+ * @param vote - approve or reject
+ * @returns Promise<SupabaseResponse<FineVote>>
+ */
+export async function castVote(token: string, fineId: string, vote: VoteChoice): Promise<SupabaseResponse<FineVote>> {
+    try {
+        const supabase = createClient();
+
+        const { data, error } = await supabase.rpc('cast_fine_vote', {
+            p_token: token,
+            p_fine_id: fineId,
+            p_vote: vote
+        });
+
+        if (error) {
+            console.error('Error casting vote:', error);
+            return { data: null, error: error.message };
+        }
+
+        return { data, error: null };
+    } catch (error) {
+        console.error('Failed to cast vote:', error);
+        return {
+            data: null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+    }
+}
+
+/**
+ * Removes the signed-in user's vote on a fine
+ * @param token - The voter's session token
+ * @param fineId - The ID of the fine
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function retractVote(token: string, fineId: string): Promise<SupabaseResponse<null>> {
+    try {
+        const supabase = createClient();
+
+        const { error } = await supabase.rpc('retract_fine_vote', {
+            p_token: token,
+            p_fine_id: fineId
+        });
+
+        if (error) {
+            console.error('Error retracting vote:', error);
+            return { data: null, error: error.message };
+        }
+
+        return { data: null, error: null };
+    } catch (error) {
+        console.error('Failed to retract vote:', error);
+        return {
+            data: null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+    }
+}
+
+/**
+ * Fetches a user's votes for a set of fines
+ * @param fineIds - The fines to look up
+ * @param voterId - The voting user
+ * @returns Promise<SupabaseResponse<Record<string, VoteChoice>>> - vote keyed by fine ID
+ */
+export async function getVotesByUser(fineIds: string[], voterId: string): Promise<SupabaseResponse<Record<string, VoteChoice>>> {
+    try {
+        const supabase = createClient();
+
+        const { data, error } = await supabase
+            .from('fine_votes')
+            .select('fine_id, vote')
+            .in('fine_id', fineIds)
+            .eq('voter_id', voterId);
+
+        if (error) {
+            console.error('Error fetching votes:', error);
+            return { data: null, error: error.message };
+        }
+
+        const votes: Record<string, VoteChoice> = {};
+        (data as Pick<FineVote, 'fine_id' | 'vote'>[] | null)?.forEach((row) => {
+            votes[row.fine_id] = row.vote;
+        });
+
+        return { data: votes, error: null };
+    } catch (error) {
+        console.error('Failed to fetch votes:', error);
+        return {
+            data: null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+    }
+}
+
+/**
+ * Settles a proposal by admin decision; later votes no longer change its status.
+ * The database checks that the token belongs to an admin and records them as the decider.
+ * @param token - The acting admin's session token
+ * @param fineId - The ID of the fine
+ * @param status - The final status
+ * @returns Promise<SupabaseResponse<null>>
+ */
+export async function decideFine(
+    token: string,
+    fineId: string,
+    status: Extract<FineStatus, 'approved' | 'rejected'>
+): Promise<SupabaseResponse<null>> {
+    try {
+        const supabase = createClient();
+
+        const { error } = await supabase.rpc('decide_fine', {
+            p_token: token,
+            p_fine_id: fineId,
+            p_status: status
+        });
+
+        if (error) {
+            console.error('Error deciding fine:', error);
+            return { data: null, error: error.message };
+        }
+
+        return { data: null, error: null };
+    } catch (error) {
+        console.error('Failed to decide fine:', error);
+        return {
+            data: null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+    }
+}
+
+/**
+ * Fetches the number of matching votes needed to settle a proposal
+ * @returns Promise<SupabaseResponse<FineApprovalSettings>>
+ */
+export async function getApprovalSettings(): Promise<SupabaseResponse<FineApprovalSettings>> {
+    try {
+        const supabase = createClient();
+
+        const { data, error } = await supabase
+            .from('fine_approval_settings')
+            .select('id, approval_threshold')
+            .single();
+
+        if (error) {
+            console.error('Error fetching approval settings:', error);
+            return { data: null, error: error.message };
+        }
+
+        return { data, error: null };
+    } catch (error) {
+        console.error('Failed to fetch approval settings:', error);
+        return {
+            data: null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+    }
+}
+
+/**
+ * Applies a vote change to a fine's tallies locally, before the realtime update arrives
+ * @param tallies - Current approve/reject counts
+ * @param previous - The user's previous vote, if any
+ * @param next - The user's new vote, or null when retracting
+ * @returns The adjusted counts
+ */
+export function applyVoteToTallies(
+    tallies: { approve_votes: number; reject_votes: number },
+    previous: VoteChoice | null | undefined,
+    next: VoteChoice | null
+): { approve_votes: number; reject_votes: number } {
+    let { approve_votes, reject_votes } = tallies;
+
+    if (previous === 'approve') approve_votes = Math.max(approve_votes - 1, 0);
+    if (previous === 'reject') reject_votes = Math.max(reject_votes - 1, 0);
+    if (next === 'approve') approve_votes += 1;
+    if (next === 'reject') reject_votes += 1;
+
+    return { approve_votes, reject_votes };
+}
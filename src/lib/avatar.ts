@@ -0,0 +1,60 @@
+/**
+ * Avatar colours and initials. Players can pick their own in settings;
+ * otherwise both are derived from their name.
+ */
+
+// Keys are stored in users.avatar_color; the database checks against the same list
+export const AVATAR_COLORS = {
+  purple: "bg-purple-500",
+  blue: "bg-blue-500",
+  green: "bg-green-500",
+  yellow: "bg-yellow-500",
+  red: "bg-red-500",
+  indigo: "bg-indigo-500",
+  pink: "bg-pink-500",
+  teal: "bg-teal-500",
+} as const;
+
+export type AvatarColor = keyof typeof AVATAR_COLORS;
+
+export const AVATAR_COLOR_NAMES = Object.keys(AVATAR_COLORS) as AvatarColor[];
+
+// Anything with a name and, optionally, the user's chosen overrides
+export type AvatarSubject = {
+  name: string;
+  avatar_color?: string | null;
+  avatar_initials?: string | null;
+};
+
+export function isAvatarColor(value: string | null | undefined): value is AvatarColor {
+  return !!value && value in AVATAR_COLORS;
+}
+
+/**
+ * The colour a name gets when its owner hasn't picked one
+ */
+export function defaultAvatarColor(name: string): AvatarColor {
+  const hash = name.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
+  return AVATAR_COLOR_NAMES[hash % AVATAR_COLOR_NAMES.length];
+}
+
+/**
+ * The initials a name gets when its owner hasn't set their own, e.g. "Bob Smith" → "BS"
+ */
+export function defaultAvatarInitials(name: string): string {
+  return name.split(' ').map(n => n[0]).join('').toUpperCase();
+}
+
+/**
+ * Tailwind background class for a user's avatar
+ */
+export function avatarColorClass(user: AvatarSubject): string {
+  return AVATAR_COLORS[isAvatarColor(user.avatar_color) ? user.avatar_color : defaultAvatarColor(user.name)];
+}
+
+/**
+ * The initials shown in a user's avatar
+ */
+export function avatarInitials(user: AvatarSubject): string {
+  return user.avatar_initials || defaultAvatarInitials(user.name);
+}
@@ -0,0 +1,183 @@
+/**
+ * CSV and JSON exports of the fines ledger and player totals. Exports are
+ * built and downloaded in the browser, so they work in the static build.
+ * Amounts stay in cents until written out: CSV gets a fixed-decimal string a
+ * spreadsheet reads as a number, JSON gets the major-unit number.
+ */
+import { currencyDigits, fromCents } from "./money";
+import type { FineWithUsersQuery } from "@/types/api";
+import type { PlayerBalance } from "@/types/models";
+
+export type ExportFormat = "csv" | "json";
+
+export type ExportValue = string | number | boolean | null;
+
+export type ExportRow = Record<string, ExportValue>;
+
+export type ExportColumn = {
+  key: string;
+  label: string;
+  // Values are cents
+  money?: boolean;
+};
+
+export type ExportTable = {
+  columns: ExportColumn[];
+  rows: ExportRow[];
+  // A summary row, written last in CSV and as `totals` in JSON
+  totals?: ExportRow;
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  json: "application/json",
+};
+
+const relatedName = (related: FineWithUsersQuery["subject"]) =>
+  (Array.isArray(related) ? related[0]?.name : related?.name) || "Unknown";
+
+/**
+ * One row per fine with its players, amount and comment count
+ * @param commentCounts - Comments per fine id; missing fines count as none
+ */
+export function finesExportTable(fines: FineWithUsersQuery[], commentCounts: Record<string, number>): ExportTable {
+  return {
+    columns: [
+      { key: "date", label: "Date" },
+      { key: "subject", label: "Subject" },
+      { key: "proposer", label: "Proposer" },
+      { key: "type", label: "Type" },
+      { key: "amount", label: "Amount", money: true },
+      { key: "description", label: "Description" },
+      { key: "status", label: "Status" },
+      { key: "void", label: "Void" },
+      { key: "comments", label: "Comments" },
+    ],
+    rows: fines.map((fine) => ({
+      date: fine.date,
+      subject: relatedName(fine.subject),
+      proposer: relatedName(fine.proposer),
+      type: fine.fine_type,
+      amount: fine.amount,
+      description: fine.description,
+      status: fine.status,
+      void: fine.is_void,
+      comments: commentCounts[fine.id] ?? 0,
+    })),
+  };
+}
+
+/**
+ * One row per player with their season totals, and the team's totals
+ */
+export function totalsExportTable(balances: PlayerBalance[]): ExportTable {
+  const sum = (key: "fined" | "credited" | "paid" | "outstanding") =>
+    balances.reduce((total, balance) => total + balance[key], 0);
+
+  return {
+    columns: [
+      { key: "player", label: "Player" },
+      { key: "fined", label: "Fined", money: true },
+      { key: "credited", label: "Credited", money: true },
+      { key: "paid", label: "Paid", money: true },
+      { key: "outstanding", label: "Outstanding", money: true },
+    ],
+    rows: balances.map((balance) => ({
+      player: balance.name,
+      fined: balance.fined,
+      credited: balance.credited,
+      paid: balance.paid,
+      outstanding: balance.outstanding,
+    })),
+    totals: {
+      player: "Total",
+      fined: sum("fined"),
+      credited: sum("credited"),
+      paid: sum("paid"),
+      outstanding: sum("outstanding"),
+    },
+  };
+}
+
+// Text a spreadsheet would run as a formula is prefixed so it shows as typed
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: ExportValue, money = false): string {
+  if (value === null) return "";
+
+  let text: string;
+  if (money && typeof value === "number") {
+    text = fromCents(value).toFixed(currencyDigits());
+  } else if (typeof value === "string") {
+    text = FORMULA_START.test(value) ? `'${value}` : value;
+  } else {
+    text = String(value);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The table as CSV, with a header row and CRLF line endings (RFC 4180)
+ */
+export function toCsv(table: ExportTable): string {
+  const rows = table.totals ? [...table.rows, table.totals] : table.rows;
+  const lines = [
+    table.columns.map((column) => csvCell(column.label)).join(","),
+    ...rows.map((row) => table.columns.map((column) => csvCell(row[column.key] ?? null, column.money)).join(",")),
+  ];
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * The table as a JSON document: `{ rows }`, plus `totals` when it has them
+ */
+export function toJson(table: ExportTable): string {
+  const toMajorUnits = (row: ExportRow): ExportRow =>
+    Object.fromEntries(
+      table.columns.map((column) => {
+        const value = row[column.key] ?? null;
+        return [column.key, column.money && typeof value === "number" ? fromCents(value) : value];
+      })
+    );
+
+  return JSON.stringify(
+    {
+      rows: table.rows.map(toMajorUnits),
+      ...(table.totals ? { totals: toMajorUnits(table.totals) } : {}),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * A file name such as "fines-2024-25-2024-06-01.csv"
+ * @param name - What was exported, e.g. "fines" or "totals"
+ * @param seasonName - Included when the export is for one season
+ */
+export function exportFilename(name: string, format: ExportFormat, seasonName?: string, date: Date = new Date()): string {
+  const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+  const parts = [name, seasonName, day]
+    .filter((part): part is string => Boolean(part))
+    .map((part) => part.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, ""));
+  return `${parts.filter(Boolean).join("-")}.${format}`;
+}
+
+/**
+ * Writes the table in the format and starts the download
+ */
+export function downloadExport(table: ExportTable, format: ExportFormat, filename: string): void {
+  const content = format === "csv" ? toCsv(table) : toJson(table);
+  // A byte-order mark so Excel reads the CSV as UTF-8
+  const blob = new Blob([format === "csv" ? `\uFEFF${content}` : content], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
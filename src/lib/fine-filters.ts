@@ -0,0 +1,130 @@
+/**
+ * Helpers for the fines feed filter bar: the chips describing the active
+ * filters and removing one of them. The filters themselves are applied in the
+ * query by getFinesPage.
+ */
+import { formatMoney } from "./money";
+import type { FineWithUsersQuery } from "@/types/api";
+import type { FineFeedFilters } from "@/types/common";
+import type { UserSelect } from "@/types/models";
+
+export type FineFilterKey = "fineTypes" | "dateRange" | "amount" | "player" | "hasComments";
+
+export type FineFilterChip = {
+  key: FineFilterKey;
+  label: string;
+};
+
+const formatDay = (date: Date) => date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+const isSet = (amount: number | null | undefined): amount is number => typeof amount === "number";
+
+/**
+ * One chip per active filter, in the order the filter bar shows them
+ * @param players - Used to name the player in a player filter
+ */
+export function getFilterChips(filters: FineFeedFilters, players: UserSelect[] = []): FineFilterChip[] {
+  const chips: FineFilterChip[] = [];
+
+  if (filters.fineTypes?.length) {
+    chips.push({ key: "fineTypes", label: `Type: ${filters.fineTypes.join(", ")}` });
+  }
+
+  const { from, to } = filters.dateRange ?? {};
+  if (from && to) {
+    chips.push({ key: "dateRange", label: `${formatDay(from)} – ${formatDay(to)}` });
+  } else if (from) {
+    chips.push({ key: "dateRange", label: `From ${formatDay(from)}` });
+  } else if (to) {
+    chips.push({ key: "dateRange", label: `Until ${formatDay(to)}` });
+  }
+
+  const { minAmount, maxAmount } = filters;
+  if (isSet(minAmount) && isSet(maxAmount)) {
+    chips.push({ key: "amount", label: `${formatMoney(minAmount)} – ${formatMoney(maxAmount)}` });
+  } else if (isSet(minAmount)) {
+    chips.push({ key: "amount", label: `${formatMoney(minAmount)} or more` });
+  } else if (isSet(maxAmount)) {
+    chips.push({ key: "amount", label: `Up to ${formatMoney(maxAmount)}` });
+  }
+
+  if (filters.playerId) {
+    const player = players.find((candidate) => candidate.user_id === filters.playerId);
+    const name = player ? player.name || player.username : "Unknown player";
+    chips.push({ key: "player", label: `${filters.playerRole === "proposer" ? "Fined by" : "Fined"}: ${name}` });
+  }
+
+  if (filters.hasComments) {
+    chips.push({ key: "hasComments", label: "Has comments" });
+  }
+
+  return chips;
+}
+
+/**
+ * The filters without the one a chip stands for
+ */
+export function removeFilter(filters: FineFeedFilters, key: FineFilterKey): FineFeedFilters {
+  switch (key) {
+    case "fineTypes":
+      return { ...filters, fineTypes: [] };
+    case "dateRange":
+      return { ...filters, dateRange: undefined };
+    case "amount":
+      return { ...filters, minAmount: null, maxAmount: null };
+    case "player":
+      // The role is kept so picking another player keeps "fined" or "fined by"
+      return { ...filters, playerId: null };
+    case "hasComments":
+      return { ...filters, hasComments: false };
+  }
+}
+
+/**
+ * Whether any filter narrows the feed
+ */
+export function hasActiveFilters(filters: FineFeedFilters): boolean {
+  return getFilterChips(filters).length > 0;
+}
+
+/**
+ * Whether a fine added since the feed loaded belongs in it, checked the way
+ * getFinesPage's query would. A new fine has no comments and nobody has
+ * saved it yet.
+ */
+export function matchesNewFine(fine: FineWithUsersQuery, filters: FineFeedFilters): boolean {
+  if (filters.hasComments || filters.savedWithToken) {
+    return false;
+  }
+
+  if (filters.fineTypes?.length && !filters.fineTypes.some((type) => type === fine.fine_type)) {
+    return false;
+  }
+
+  // Whole days in the viewer's time zone
+  const date = new Date(fine.date);
+  if (filters.dateRange?.from) {
+    const from = new Date(filters.dateRange.from);
+    from.setHours(0, 0, 0, 0);
+    if (date < from) return false;
+  }
+  if (filters.dateRange?.to) {
+    const to = new Date(filters.dateRange.to);
+    to.setHours(23, 59, 59, 999);
+    if (date > to) return false;
+  }
+
+  if (isSet(filters.minAmount) && fine.amount < filters.minAmount) {
+    return false;
+  }
+  if (isSet(filters.maxAmount) && fine.amount > filters.maxAmount) {
+    return false;
+  }
+
+  if (filters.playerId) {
+    const playerId = filters.playerRole === "proposer" ? fine.proposer_id : fine.subject_id;
+    if (playerId !== filters.playerId) return false;
+  }
+
+  return true;
+}
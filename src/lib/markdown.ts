@@ -0,0 +1,173 @@
+/**
+ * A small markdown dialect for comments: **bold**, *italic*, `code`, fenced
+ * code blocks, [links](https://…), bare URLs, lists and > quotes. It parses to
+ * a tree that components render as React elements, so raw HTML in a comment
+ * is only ever shown as text. Text without markdown parses to a single text
+ * block with its line breaks intact, so plain comments look as they always did.
+ */
+import { MENTION_TOKEN_SOURCE } from "./mentions";
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "mention"; userId: string; label: string };
+
+export type MarkdownBlock =
+  | { type: "text"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "quote"; children: MarkdownInline[] };
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+/**
+ * The URL to link to, or null for anything but http(s) and mailto links
+ * (javascript:, data:, relative paths and so on are shown as plain text)
+ */
+export function safeHref(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// Alternatives in priority order; the earliest match in the text wins. Mentions
+// come before links so a stored "@[Name](id)" is never mistaken for one.
+const INLINE_SOURCE = [
+  "`([^`\\n]+)`", // 1: code
+  MENTION_TOKEN_SOURCE, // 2, 3: mention label and user id
+  "\\[([^\\]\\n]+)\\]\\(([^)\\s]+)\\)", // 4, 5: link
+  "(https?:\\/\\/[^\\s<]*[^\\s<.,:;\"')\\]!?])", // 6: bare URL
+  "\\*\\*(?=\\S)([\\s\\S]*?\\S)\\*\\*", // 7: strong
+  "(?<![\\w*])\\*(?=[^\\s*])([^*\\n]*?[^\\s*])\\*(?![\\w*])", // 8: em with *
+  "(?<!\\w)_(?=[^\\s_])([^_\\n]*?[^\\s_])_(?!\\w)", // 9: em with _
+].join("|");
+
+/**
+ * Parses a line or run of lines into inline content
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const inlines: MarkdownInline[] = [];
+  let last = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const previous = inlines[inlines.length - 1];
+    if (previous?.type === "text") {
+      previous.text += value;
+    } else {
+      inlines.push({ type: "text", text: value });
+    }
+  };
+
+  for (const match of text.matchAll(new RegExp(INLINE_SOURCE, "g"))) {
+    const index = match.index ?? 0;
+    pushText(text.slice(last, index));
+    last = index + match[0].length;
+
+    const [, code, mentionLabel, mentionUserId, linkText, linkUrl, bareUrl, strong, starEm, underscoreEm] = match;
+    if (code !== undefined) {
+      inlines.push({ type: "code", text: code });
+    } else if (mentionLabel !== undefined) {
+      inlines.push({ type: "mention", userId: mentionUserId, label: mentionLabel });
+    } else if (linkText !== undefined) {
+      const href = safeHref(linkUrl);
+      if (href) {
+        inlines.push({ type: "link", href, children: parseInline(linkText) });
+      } else {
+        pushText(linkText);
+      }
+    } else if (bareUrl !== undefined) {
+      const href = safeHref(bareUrl);
+      if (href) {
+        inlines.push({ type: "link", href, children: [{ type: "text", text: bareUrl }] });
+      } else {
+        pushText(bareUrl);
+      }
+    } else if (strong !== undefined) {
+      inlines.push({ type: "strong", children: parseInline(strong) });
+    } else {
+      inlines.push({ type: "em", children: parseInline(starEm ?? underscoreEm) });
+    }
+  }
+
+  pushText(text.slice(last));
+  return inlines;
+}
+
+const FENCE = /^\s*```/;
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+/**
+ * Parses comment content into blocks
+ */
+export function parseMarkdown(content: string): MarkdownBlock[] {
+  const lines = content.split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let textLines: string[] = [];
+
+  const flushText = () => {
+    // Blank lines around lists, quotes and code are absorbed by the block spacing
+    const text = textLines.join("\n").replace(/^\n+|\n+$/g, "");
+    if (text) {
+      blocks.push({ type: "text", children: parseInline(text) });
+    }
+    textLines = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      flushText();
+      const codeLines: string[] = [];
+      i += 1;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        codeLines.push(lines[i]);
+        i += 1;
+      }
+      blocks.push({ type: "code", text: codeLines.join("\n") });
+      i += 1; // closing fence
+      continue;
+    }
+
+    const listMatch = line.match(LIST_ITEM);
+    if (listMatch) {
+      flushText();
+      const ordered = listMatch[2] !== undefined;
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (!item || (item[2] !== undefined) !== ordered) break;
+        items.push(parseInline(item[3]));
+        i += 1;
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushText();
+      const quoteLines: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoteLines.push(lines[i].replace(QUOTE, "$1"));
+        i += 1;
+      }
+      blocks.push({ type: "quote", children: parseInline(quoteLines.join("\n")) });
+      continue;
+    }
+
+    textLines.push(line);
+    i += 1;
+  }
+
+  flushText();
+  return blocks;
+}
@@ -0,0 +1,111 @@
+/**
+ * @mention helpers. Comment content stores a mention as "@[Name](user-id)" so
+ * it keeps pointing at the player whatever text surrounds it; inputs show the
+ * plain "@Name" and only this module converts between the two. The database
+ * reads the same format to record mentions and notify the mentioned player.
+ */
+import type { UserSelect } from "@/types/models";
+
+export type Mention = {
+  userId: string;
+  label: string;
+};
+
+export type MentionSegment =
+  | { type: "text"; text: string }
+  | { type: "mention"; userId: string; label: string };
+
+const UUID = "[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}";
+// Captures the label, then the user id
+export const MENTION_TOKEN_SOURCE = `@\\[([^\\]]+)\\]\\((${UUID})\\)`;
+
+// A fresh regex per call, since global regexes carry lastIndex between uses
+const tokenPattern = () => new RegExp(MENTION_TOKEN_SOURCE, "g");
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * The name a mention shows, without characters that would break the stored token
+ */
+export function mentionFor(user: UserSelect): Mention {
+  return {
+    userId: user.user_id,
+    label: (user.name || user.username).replace(/[[\]]/g, "").trim(),
+  };
+}
+
+/**
+ * Renders a mention as stored, e.g. "@[Alice](8f0c…)"
+ */
+export function formatMention(mention: Mention): string {
+  return `@[${mention.label}](${mention.userId})`;
+}
+
+/**
+ * Splits stored content into plain text and mentions, in order
+ */
+export function splitMentions(content: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let last = 0;
+
+  for (const match of content.matchAll(tokenPattern())) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      segments.push({ type: "text", text: content.slice(last, index) });
+    }
+    segments.push({ type: "mention", label: match[1], userId: match[2] });
+    last = index + match[0].length;
+  }
+
+  if (last < content.length) {
+    segments.push({ type: "text", text: content.slice(last) });
+  }
+
+  return segments;
+}
+
+/**
+ * The distinct mentions in stored content, in the order they first appear
+ */
+export function getMentions(content: string): Mention[] {
+  const mentions = new Map<string, Mention>();
+  splitMentions(content).forEach((segment) => {
+    if (segment.type === "mention" && !mentions.has(segment.userId)) {
+      mentions.set(segment.userId, { userId: segment.userId, label: segment.label });
+    }
+  });
+  return Array.from(mentions.values());
+}
+
+/**
+ * Stored content as the user reads and types it: "@[Alice](…)" → "@Alice"
+ */
+export function mentionsToText(content: string): string {
+  return content.replace(tokenPattern(), (_, label: string) => `@${label}`);
+}
+
+/**
+ * Turns "@Name" back into stored mentions for the people picked while typing.
+ * A mention the user has since deleted or retyped is left as plain text.
+ */
+export function encodeMentions(text: string, mentions: Mention[]): string {
+  // Longest names first, so "@Al Smith" isn't claimed by "@Al"
+  return [...mentions]
+    .sort((a, b) => b.label.length - a.label.length)
+    .reduce((encoded, mention) => encoded.replace(
+      new RegExp(`@${escapeRegExp(mention.label)}(?![\\w-])`, "g"),
+      () => formatMention(mention)
+    ), text);
+}
+
+/**
+ * The partial name being typed after an "@" just before the caret, if any
+ * @returns The text after the "@" and where the "@" sits, or null when not mentioning
+ */
+export function findMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = text.slice(0, caret).match(/(^|\s)@([^\s@[\]]*)$/);
+  if (!match) {
+    return null;
+  }
+  return { query: match[2], start: caret - match[2].length - 1 };
+}
@@ -0,0 +1,114 @@
+/**
+ * Money helpers. Every amount in the database and in app state is an integer
+ * number of minor units (cents for USD); only this module converts to and from
+ * what the user reads and types.
+ */
+
+export type Cents = number;
+
+// Configured per deployment, e.g. NEXT_PUBLIC_CURRENCY=EUR NEXT_PUBLIC_LOCALE=de-DE
+export const CURRENCY = process.env.NEXT_PUBLIC_CURRENCY || "USD";
+export const LOCALE = process.env.NEXT_PUBLIC_LOCALE || "en-US";
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(currency: string): Intl.NumberFormat {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(LOCALE, { style: "currency", currency });
+    formatters.set(currency, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Number of decimal places the currency uses (2 for USD, 0 for JPY)
+ */
+export function currencyDigits(currency: string = CURRENCY): number {
+  return getFormatter(currency).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * The currency's symbol, for labels such as "Amount ($)"
+ */
+export function currencySymbol(currency: string = CURRENCY): string {
+  return getFormatter(currency).formatToParts(0).find((part) => part.type === "currency")?.value ?? currency;
+}
+
+/**
+ * Formats minor units for display, e.g. 1250 → "$12.50"
+ * @param cents - Amount in minor units
+ * @param options.signed - Prefix negative amounts with a minus sign (the default) or drop the sign
+ */
+export function formatMoney(cents: Cents, options: { signed?: boolean; currency?: string } = {}): string {
+  const { signed = true, currency = CURRENCY } = options;
+  const value = fromCents(signed ? cents : Math.abs(cents), currency);
+  return getFormatter(currency).format(value);
+}
+
+/**
+ * Converts a major-unit amount (e.g. dollars) to minor units, rounding half away from zero
+ */
+export function toCents(amount: number, currency: string = CURRENCY): Cents {
+  const scaled = amount * 10 ** currencyDigits(currency);
+  return Math.sign(scaled) * Math.round(Math.abs(scaled));
+}
+
+/**
+ * Converts minor units to a major-unit number, for arithmetic display only
+ */
+export function fromCents(cents: Cents, currency: string = CURRENCY): number {
+  return cents / 10 ** currencyDigits(currency);
+}
+
+// The locale's thousands and decimal separators, e.g. "." and "," for de-DE
+function separators(locale: string): { group: string; decimal: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1234567.5);
+  return {
+    group: parts.find((part) => part.type === "group")?.value ?? ",",
+    decimal: parts.find((part) => part.type === "decimal")?.value ?? ".",
+  };
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Parses what a user typed into an amount field. Number inputs always give a
+ * "." decimal point, so that is accepted in every locale; the locale's own
+ * decimal separator works too, and its thousands separator is dropped.
+ * @param input - e.g. "12", "12.5", "$1,250.00", or "1.250,00 €" in de-DE
+ * @returns Minor units, or null when the input isn't a valid amount
+ */
+export function parseMoney(input: string, currency: string = CURRENCY, locale: string = LOCALE): Cents | null {
+  const digits = currencyDigits(currency);
+  const { group, decimal } = separators(locale);
+  let cleaned = input.trim().replace(currencySymbol(currency), "").replace(/\s/g, "");
+
+  if (decimal !== "." && cleaned.includes(decimal)) {
+    cleaned = cleaned.split(group).join("").replace(decimal, ".");
+  } else if (new RegExp(`^-?\\d{1,3}(?:${escapeRegExp(group)}\\d{3})+(?:\\.\\d*)?$`).test(cleaned)) {
+    // Only strip separators that really group thousands, so "12.5" stays a decimal in de-DE
+    cleaned = cleaned.split(group).join("");
+  }
+
+  const match = cleaned.match(/^(-)?(\d*)(?:\.(\d*))?$/);
+
+  if (!match || (match[2] === "" && !match[3])) {
+    return null;
+  }
+
+  const [, minus, whole, fraction = ""] = match;
+  if (fraction.length > digits) {
+    return null;
+  }
+
+  const cents = Number(whole || "0") * 10 ** digits + Number(fraction.padEnd(digits, "0") || "0");
+  return minus ? -cents : cents;
+}
+
+/**
+ * Renders minor units as an input value, e.g. 1250 → "12.50"; zero renders empty
+ */
+export function centsToInput(cents: Cents, currency: string = CURRENCY): string {
+  return cents === 0 ? "" : fromCents(cents, currency).toFixed(currencyDigits(currency));
+}
@@ -0,0 +1,141 @@
+/**
+ * Role-based permissions for fines, comments, payments, seasons, the rule book and users
+ */
+
+import type { Enums } from "@/types/supabase";
+
+export type Role = Enums<"role_enum">;
+
+export type PermissionAction =
+    | 'view'
+    | 'create'
+    | 'edit'
+    | 'void'
+    | 'vote'
+    | 'delete'
+    | 'moderate'
+    | 'manage';
+
+export type PermissionResource =
+    | { type: 'fine'; proposerId?: string; subjectId?: string }
+    | { type: 'comment'; authorId?: string; isDeleted?: boolean }
+    | { type: 'payment' }
+    | { type: 'season' }
+    | { type: 'rule' }
+    | { type: 'user'; userId?: string };
+
+// Anything carrying an id and a role, e.g. the AuthProvider user
+export type PermissionSubject = {
+    id: string;
+    role?: string | null;
+} | null | undefined;
+
+/**
+ * Checks whether a user holds the Admin role
+ */
+export function isAdmin(user: PermissionSubject): boolean {
+    return user?.role === 'Admin';
+}
+
+/**
+ * Central permission check used by routes, forms and comment helpers
+ * @param user - The acting user (null/undefined when signed out)
+ * @param action - What the user wants to do
+ * @param resource - The resource being acted on
+ * @returns boolean
+ */
+export function can(
+    user: PermissionSubject,
+    action: PermissionAction,
+    resource: PermissionResource
+): boolean {
+    if (!user?.id) {
+        return false;
+    }
+
+    const admin = isAdmin(user);
+
+    switch (resource.type) {
+        case 'fine':
+            switch (action) {
+                case 'view':
+                case 'create':
+                    return true;
+                case 'edit':
+                    return admin || (!!resource.proposerId && resource.proposerId === user.id);
+                case 'vote':
+                    // The fined player doesn't get a say in their own fine
+                    return !resource.subjectId || resource.subjectId !== user.id;
+                case 'void':
+                case 'delete':
+                case 'moderate':
+                    return admin;
+                default:
+                    return false;
+            }
+
+        case 'comment': {
+            if (resource.isDeleted && action !== 'view') {
+                return false;
+            }
+            const isAuthor = !!resource.authorId && resource.authorId === user.id;
+            switch (action) {
+                case 'view':
+                case 'create':
+                    return true;
+                case 'edit':
+                    // Admins moderate by deleting; they never rewrite someone else's words
+                    return isAuthor;
+                case 'delete':
+                    return isAuthor || admin;
+                case 'moderate':
+                    return admin;
+                default:
+                    return false;
+            }
+        }
+
+        case 'payment':
+            switch (action) {
+                case 'view':
+                    return true;
+                case 'create':
+                case 'delete':
+                    // Only the treasurer (an admin) touches the ledger
+                    return admin;
+                default:
+                    return false;
+            }
+
+        case 'season':
+        case 'rule':
+            switch (action) {
+                case 'view':
+                    return true;
+                case 'create':
+                case 'manage':
+                    return admin;
+                default:
+                    return false;
+            }
+
+        case 'user': {
+            const isSelf = !!resource.userId && resource.userId === user.id;
+            switch (action) {
+                case 'view':
+                    return true;
+                case 'edit':
+                    return isSelf || admin;
+                case 'create':
+                case 'delete':
+                case 'manage':
+                    return admin;
+                default:
+                    return false;
+            }
+        }
+
+        default:
+            return false;
+    }
+}
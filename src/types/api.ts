@@ -1,3 +1,5 @@
+import type { FineStatus } from "@/types/models";
+
 // === API Types ===
 
 // Database query result types
@@ -6,8 +8,16 @@ export type FineWithUsersQuery = {
   date: string;
   fine_type: string;
   description: string;
-  amount: number;
+  amount: number; // cents
   replies: number;
+  is_void: boolean;
+  status: FineStatus;
+  approve_votes: number;
+  reject_votes: number;
+  subject_id: string;
+  proposer_id: string;
+  // Shared by fines entered together in bulk
+  batch_id?: string | null;
   subject: { name: string } | { name: string }[] | null;
   proposer: { name: string } | { name: string }[] | null;
 };
@@ -11,17 +11,24 @@ export type ApiResponse<T> = {
 export type LoadingState = "idle" | "loading" | "success" | "error";
 
 // Pagination types
+// Keyset cursor: the date and id of the last row already loaded. Rows come
+// newest first, so the next page starts strictly before it.
+export type PageCursor = {
+  date: string;
+  id: string;
+};
+
 export type PaginationParams = {
-  page: number;
   limit: number;
+  // Omitted for the first page
+  cursor?: PageCursor | null;
 };
 
 export type PaginatedResponse<T> = {
   data: T[];
-  total: number;
-  page: number;
-  limit: number;
-  totalPages: number;
+  // Pass back to fetch the next page; null on the last page
+  nextCursor: PageCursor | null;
+  hasMore: boolean;
 };
 
 // Form validation types
@@ -58,7 +65,7 @@ export type DataTableRow = {
   fine_type: string;
   subject: string;
   description: string;
-  amount: number;
+  amount: number; // cents
   proposer: string;
   replies: number | string; // Replies field - could be count or string
 };
@@ -67,7 +74,7 @@ export type DataTableRow = {
 export type FineFormValues = {
   subject_id: string;
   description: string;
-  amount: number;
+  amount: number; // cents
 };
 
 // For for adding credit
@@ -78,4 +85,21 @@ export type CreditFormValues = {
 }
 
 // For fine type
-export type FineType = "Fine" | "Credit" | "Warning";
\ No newline at end of file
+export type FineType = "Fine" | "Credit" | "Warning";
+
+// Which side of a fine a player filter matches: "fined" (the subject) or "fined by" (the proposer)
+export type FinePlayerRole = "subject" | "proposer";
+
+// Filters for the fines feed. Every field is optional and set fields combine
+export type FineFeedFilters = {
+  fineTypes?: FineType[];
+  dateRange?: DateRange;
+  minAmount?: number | null; // cents
+  maxAmount?: number | null; // cents
+  playerId?: string | null;
+  playerRole?: FinePlayerRole;
+  hasComments?: boolean;
+  // Only fines saved by the player signed in with this session token, with
+  // the rest of a saved bulk entry
+  savedWithToken?: string | null;
+};
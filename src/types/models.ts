@@ -1,36 +1,151 @@
 import type {
+  Database,
   Tables,
   TablesInsert,
-  TablesUpdate
+  TablesUpdate,
+  Enums
 } from "@/types/supabase";
 
 // === Fines ===
 export type Fine = Tables<"fines">;
 export type FineInsert = TablesInsert<"fines">;
 export type FineUpdate = TablesUpdate<"fines">;
+export type FineStatus = Enums<"fine_status_enum">;
+
+// === Fine Votes ===
+export type FineVote = Tables<"fine_votes">;
+export type FineVoteInsert = TablesInsert<"fine_votes">;
+export type VoteChoice = Enums<"fine_vote_enum">;
+export type FineApprovalSettings = Tables<"fine_approval_settings">;
+
+// === Fine Audit Events ===
+export type FineEvent = Tables<"fine_events">;
+export type FineEventType = Enums<"fine_event_type_enum">;
+
+// === Payments ===
+export type Payment = Tables<"payments">;
+export type PaymentInsert = TablesInsert<"payments">;
+export type PaymentMethod = Enums<"payment_method_enum">;
+
+// === Seasons ===
+export type Season = Tables<"seasons">;
+export type SeasonInsert = TablesInsert<"seasons">;
+
+// === Fine Rules ===
+export type FineRule = Tables<"fine_rules">;
+export type FineRuleInsert = TablesInsert<"fine_rules">;
+export type FineRuleStat = Database["public"]["Functions"]["get_rule_stats"]["Returns"][number];
 
 // === Users ===
 export type User = Tables<"users">;
 export type UserInsert = TablesInsert<"users">;
 export type UserUpdate = TablesUpdate<"users">;
+export type UserRole = Enums<"role_enum">;
 
 // === Comments ===
 export type Comment = Tables<"comments">;
 export type CommentInsert = TablesInsert<"comments">;
 export type CommentUpdate = TablesUpdate<"comments">;
+// A version of a comment that a later edit replaced
+export type CommentRevision = Tables<"comment_revisions">;
+
+// === Mentions & Notifications ===
+export type CommentMention = Tables<"comment_mentions">;
+export type Notification = Tables<"notifications">;
+export type NotificationType = Enums<"notification_type_enum">;
+
+// === Reactions ===
+export type Reaction = Tables<"reactions">;
+export type ReactionInsert = TablesInsert<"reactions">;
+
+// === Bookmarks ===
+export type Bookmark = Tables<"bookmarks">;
+
+// === Search ===
+// A fine or comment matching a search; comment_id is null for a fine hit
+export type SearchResult = Database["public"]["Functions"]["search_fines"]["Returns"][number];
+
+// === Stats ===
+// One week of the season, with running totals (get_fine_weekly_stats RPC)
+export type WeeklyFineStat = Database["public"]["Functions"]["get_fine_weekly_stats"]["Returns"][number];
+export type FineTypeStat = Database["public"]["Functions"]["get_fine_type_stats"]["Returns"][number];
+export type PlayerFineStat = Database["public"]["Functions"]["get_player_fine_stats"]["Returns"][number];
+export type CommentedFineStat = Database["public"]["Functions"]["get_most_commented_fines"]["Returns"][number];
+// Fines in one weekday (0 = Sunday) and hour bucket
+export type FineActivityStat = Database["public"]["Functions"]["get_fine_activity_stats"]["Returns"][number];
+
+// === Auth Types ===
+// The signed-in user as resolved from a server-validated session token
+export type SessionUser = {
+  id: string;
+  name: string;
+  username: string;
+  role: string;
+  avatar_color?: string | null;
+  avatar_initials?: string | null;
+};
+
+export type AuthSession = {
+  user: SessionUser;
+  token: string;
+  expires_at: string;
+};
 
 // === Extended Types for UI ===
 export type UserSelect = Pick<User, "user_id" | "username" | "name">;
 
+// A user with the avatar they picked, where the query fetched it
+export type UserWithAvatar = UserSelect & Partial<Pick<User, "avatar_color" | "avatar_initials">>;
+
+// What the admin console shows for each account; never the password hash
+export type UserAccount = Pick<User, "user_id" | "username" | "name" | "role" | "created_at" | "deactivated_at">;
+
 // === Composite Types ===
 export type FineWithUsers = Fine & {
   offender: UserSelect;
   proposedBy: UserSelect;
 };
 
+// Audit event with the user who made the change
+export type FineEventWithActor = FineEvent & {
+  actor: UserSelect | null;
+};
+
+// Payment with the paying player's details
+export type PaymentWithPlayer = Payment & {
+  player: UserSelect | null;
+};
+
+// Where a player stands once fines, credits and payments are netted off (get_player_totals RPC)
+export type PlayerBalance = Database["public"]["Functions"]["get_player_totals"]["Returns"][number];
+
+// A player's comment with the fine it was left on, for their profile
+export type PlayerComment = Pick<Comment, "id" | "fine_id" | "content" | "created_at"> & {
+  fine: Pick<Fine, "id" | "description"> | null;
+};
+
 // Comment with author information
 export type CommentWithAuthor = Comment & {
-  author: UserSelect;
+  author: UserWithAvatar;
+};
+
+// Notification with who caused it and the fine it's about
+export type NotificationWithDetails = Notification & {
+  actor: UserSelect | null;
+  fine: Pick<Fine, "id" | "description" | "fine_type" | "amount"> | null;
+};
+
+// Reaction with the member who reacted
+export type ReactionWithUser = Reaction & {
+  user: UserSelect | null;
+};
+
+// One chip under a fine or comment: an emoji, who used it and whether the viewer did
+export type ReactionSummary = {
+  emoji: string;
+  count: number;
+  names: string[];
+  reactedByMe: boolean;
 };
 
 // Hierarchical comment structure
@@ -47,12 +162,50 @@ export type AddFineFormData = {
   date: string;
 };
 
+// One player's line in a bulk entry
+export type BulkFineEntry = {
+  subject_id: string;
+  amount: number; // cents
+};
+
+export type AddBulkFinesFormData = {
+  description: string;
+  fine_type: Fine["fine_type"];
+  entries: BulkFineEntry[];
+  // Rule book entry the fines were picked from, if any
+  rule_id?: string | null;
+};
+
+// Fields a fine's proposer or an admin may correct after the fact
+export type EditFineFormData = Pick<Fine, "description" | "amount" | "fine_type">;
+
 export type AddCreditFormData = {
   recipient_id: string;
   description: string;
   amount: number;
 };
 
+export type UserFormData = {
+  username: string;
+  name: string;
+  role: UserRole;
+};
+
+// What players can change about themselves in settings
+export type ProfileFormData = Pick<User, "name" | "avatar_color" | "avatar_initials">;
+
+export type SeasonFormData = Pick<Season, "name" | "start_date" | "end_date">;
+
+export type FineRuleFormData = Pick<FineRule, "code" | "title" | "default_amount" | "default_type">;
+
+export type RecordPaymentFormData = {
+  player_id: string;
+  amount: number; // cents
+  method: PaymentMethod;
+  paid_at: string;
+  note?: string;
+};
+
 // === Comment Form Types ===
 export type CommentFormData = {
   content: string;
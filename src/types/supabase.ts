@@ -14,6 +14,107 @@ export type Database = {
   }
   public: {
     Tables: {
+      bookmarks: {
+        Row: {
+          id: string
+          user_id: string
+          fine_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          fine_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          fine_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmarks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "bookmarks_fine_id_fkey"
+            columns: ["fine_id"]
+            isOneToOne: false
+            referencedRelation: "fines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comment_mentions: {
+        Row: {
+          comment_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          comment_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          comment_id?: string
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_mentions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_mentions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      comment_revisions: {
+        Row: {
+          id: string
+          comment_id: string
+          content: string
+          written_at: string
+          replaced_at: string
+        }
+        Insert: {
+          id?: string
+          comment_id: string
+          content: string
+          written_at: string
+          replaced_at?: string
+        }
+        Update: {
+          id?: string
+          comment_id?: string
+          content?: string
+          written_at?: string
+          replaced_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_revisions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comments: {
         Row: {
           id: string
@@ -72,33 +173,72 @@ export type Database = {
       fines: {
         Row: {
           amount: number
+          approve_votes: number
+          batch_id: string | null
           date: string
+          decided_at: string | null
+          decided_by: string | null
           description: string
           fine_type: Database["public"]["Enums"]["fine_type_enum"]
           id: string
+          is_void: boolean
           proposer_id: string
+          reject_votes: number
           replies: number
+          rule_id: string | null
+          season_id: string
+          status: Database["public"]["Enums"]["fine_status_enum"]
           subject_id: string
+          updated_at: string
+          updated_by: string | null
+          void_reason: string | null
+          voided_at: string | null
         }
         Insert: {
           amount: number
+          approve_votes?: number
+          batch_id?: string | null
           date?: string
+          decided_at?: string | null
+          decided_by?: string | null
           description: string
           fine_type?: Database["public"]["Enums"]["fine_type_enum"]
           id?: string
+          is_void?: boolean
           proposer_id: string
+          reject_votes?: number
           replies: number
+          rule_id?: string | null
+          season_id?: string
+          status?: Database["public"]["Enums"]["fine_status_enum"]
           subject_id: string
+          updated_at?: string
+          updated_by?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
         }
         Update: {
           amount?: number
+          approve_votes?: number
+          batch_id?: string | null
           date?: string
+          decided_at?: string | null
+          decided_by?: string | null
           description?: string
           fine_type?: Database["public"]["Enums"]["fine_type_enum"]
           id?: string
+          is_void?: boolean
           proposer_id?: string
+          reject_votes?: number
           replies?: number
+          rule_id?: string | null
+          season_id?: string
+          status?: Database["public"]["Enums"]["fine_status_enum"]
           subject_id?: string
+          updated_at?: string
+          updated_by?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
         }
         Relationships: [
           {
@@ -115,6 +255,166 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["user_id"]
           },
+          {
+            foreignKeyName: "fines_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "fines_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "fine_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fines_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fines_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      fine_approval_settings: {
+        Row: {
+          approval_threshold: number
+          id: boolean
+        }
+        Insert: {
+          approval_threshold?: number
+          id?: boolean
+        }
+        Update: {
+          approval_threshold?: number
+          id?: boolean
+        }
+        Relationships: []
+      }
+      fine_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          event_type: Database["public"]["Enums"]["fine_event_type_enum"]
+          fine_id: string
+          id: string
+          new_values: Json | null
+          old_values: Json | null
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          event_type: Database["public"]["Enums"]["fine_event_type_enum"]
+          fine_id: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          event_type?: Database["public"]["Enums"]["fine_event_type_enum"]
+          fine_id?: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fine_events_fine_id_fkey"
+            columns: ["fine_id"]
+            isOneToOne: false
+            referencedRelation: "fines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fine_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      fine_rules: {
+        Row: {
+          code: string
+          created_at: string
+          default_amount: number
+          default_type: Database["public"]["Enums"]["fine_type_enum"]
+          id: string
+          is_active: boolean
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          default_amount?: number
+          default_type?: Database["public"]["Enums"]["fine_type_enum"]
+          id?: string
+          is_active?: boolean
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          default_amount?: number
+          default_type?: Database["public"]["Enums"]["fine_type_enum"]
+          id?: string
+          is_active?: boolean
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      fine_votes: {
+        Row: {
+          created_at: string
+          fine_id: string
+          id: string
+          vote: Database["public"]["Enums"]["fine_vote_enum"]
+          voter_id: string
+        }
+        Insert: {
+          created_at?: string
+          fine_id: string
+          id?: string
+          vote: Database["public"]["Enums"]["fine_vote_enum"]
+          voter_id: string
+        }
+        Update: {
+          created_at?: string
+          fine_id?: string
+          id?: string
+          vote?: Database["public"]["Enums"]["fine_vote_enum"]
+          voter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fine_votes_fine_id_fkey"
+            columns: ["fine_id"]
+            isOneToOne: false
+            referencedRelation: "fines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fine_votes_voter_id_fkey"
+            columns: ["voter_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
       "fines-old": {
@@ -165,9 +465,211 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          actor_id: string | null
+          type: Database["public"]["Enums"]["notification_type_enum"]
+          fine_id: string | null
+          comment_id: string | null
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          actor_id?: string | null
+          type: Database["public"]["Enums"]["notification_type_enum"]
+          fine_id?: string | null
+          comment_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          actor_id?: string | null
+          type?: Database["public"]["Enums"]["notification_type_enum"]
+          fine_id?: string | null
+          comment_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "notifications_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "notifications_fine_id_fkey"
+            columns: ["fine_id"]
+            isOneToOne: false
+            referencedRelation: "fines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          method: Database["public"]["Enums"]["payment_method_enum"]
+          note: string | null
+          paid_at: string
+          player_id: string
+          recorded_by: string | null
+          season_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method_enum"]
+          note?: string | null
+          paid_at?: string
+          player_id: string
+          recorded_by?: string | null
+          season_id?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method_enum"]
+          note?: string | null
+          paid_at?: string
+          player_id?: string
+          recorded_by?: string | null
+          season_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "payments_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "payments_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reactions: {
+        Row: {
+          id: string
+          fine_id: string
+          comment_id: string | null
+          user_id: string
+          emoji: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          fine_id: string
+          comment_id?: string | null
+          user_id: string
+          emoji: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          fine_id?: string
+          comment_id?: string | null
+          user_id?: string
+          emoji?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reactions_fine_id_fkey"
+            columns: ["fine_id"]
+            isOneToOne: false
+            referencedRelation: "fines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reactions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      seasons: {
+        Row: {
+          closed_at: string | null
+          created_at: string
+          end_date: string
+          id: string
+          is_active: boolean
+          name: string
+          start_date: string
+        }
+        Insert: {
+          closed_at?: string | null
+          created_at?: string
+          end_date: string
+          id?: string
+          is_active?: boolean
+          name: string
+          start_date: string
+        }
+        Update: {
+          closed_at?: string | null
+          created_at?: string
+          end_date?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          start_date?: string
+        }
+        Relationships: []
+      }
       users: {
         Row: {
+          avatar_color: string | null
+          avatar_initials: string | null
           created_at: string
+          deactivated_at: string | null
           name: string
           password_hash: string
           role: string
@@ -175,7 +677,10 @@ export type Database = {
           username: string
         }
         Insert: {
+          avatar_color?: string | null
+          avatar_initials?: string | null
           created_at?: string
+          deactivated_at?: string | null
           name?: string
           password_hash?: string
           role?: string
@@ -183,7 +688,10 @@ export type Database = {
           username?: string
         }
         Update: {
+          avatar_color?: string | null
+          avatar_initials?: string | null
           created_at?: string
+          deactivated_at?: string | null
           name?: string
           password_hash?: string
           role?: string
@@ -224,10 +732,324 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      activate_season: {
+        Args: { p_season_id: string; p_token: string }
+        Returns: undefined
+      }
+      add_fines_bulk: {
+        Args: {
+          p_description: string
+          p_entries: Json
+          p_fine_type: Database["public"]["Enums"]["fine_type_enum"]
+          p_rule_id?: string
+          p_season_id?: string
+          p_token: string
+        }
+        Returns: Database["public"]["Tables"]["fines"]["Row"][]
+      }
+      add_my_bookmark: {
+        Args: { p_fine_id: string; p_token: string }
+        Returns: undefined
+      }
+      add_reaction: {
+        Args: {
+          p_comment_id?: string
+          p_emoji: string
+          p_fine_id: string
+          p_token: string
+        }
+        Returns: Database["public"]["Tables"]["reactions"]["Row"]
+      }
+      admin_create_user: {
+        Args: {
+          p_name: string
+          p_password: string
+          p_role: Database["public"]["Enums"]["role_enum"]
+          p_token: string
+          p_username: string
+        }
+        Returns: string
+      }
+      admin_reset_password: {
+        Args: { p_password: string; p_token: string; p_user_id: string }
+        Returns: undefined
+      }
+      admin_set_user_active: {
+        Args: { p_active: boolean; p_token: string; p_user_id: string }
+        Returns: undefined
+      }
+      admin_update_user: {
+        Args: {
+          p_name: string
+          p_role: Database["public"]["Enums"]["role_enum"]
+          p_token: string
+          p_user_id: string
+          p_username: string
+        }
+        Returns: undefined
+      }
+      authenticate_user: {
+        Args: { p_password: string; p_username: string }
+        Returns: {
+          avatar_color: string | null
+          avatar_initials: string | null
+          expires_at: string
+          name: string
+          role: string
+          session_token: string
+          user_id: string
+          username: string
+        }[]
+      }
+      cast_fine_vote: {
+        Args: {
+          p_fine_id: string
+          p_token: string
+          p_vote: Database["public"]["Enums"]["fine_vote_enum"]
+        }
+        Returns: Database["public"]["Tables"]["fine_votes"]["Row"]
+      }
+      change_own_password: {
+        Args: {
+          p_current_password: string
+          p_new_password: string
+          p_token: string
+        }
+        Returns: undefined
+      }
+      close_season: {
+        Args: { p_season_id: string; p_token: string }
+        Returns: undefined
+      }
+      count_my_unread_notifications: {
+        Args: { p_token: string }
+        Returns: number
+      }
+      create_fine_rule: {
+        Args: {
+          p_code: string
+          p_default_amount: number
+          p_default_type: Database["public"]["Enums"]["fine_type_enum"]
+          p_title: string
+          p_token: string
+        }
+        Returns: Database["public"]["Tables"]["fine_rules"]["Row"]
+      }
+      create_season: {
+        Args: {
+          p_end_date: string
+          p_name: string
+          p_start_date: string
+          p_token: string
+        }
+        Returns: Database["public"]["Tables"]["seasons"]["Row"]
+      }
+      decide_fine: {
+        Args: {
+          p_fine_id: string
+          p_status: Database["public"]["Enums"]["fine_status_enum"]
+          p_token: string
+        }
+        Returns: undefined
+      }
+      delete_payment: {
+        Args: { p_payment_id: string; p_token: string }
+        Returns: undefined
+      }
+      get_fine_activity_stats: {
+        Args: { p_season_id: string; p_time_zone?: string }
+        Returns: {
+          day_of_week: number
+          fine_count: number
+          hour: number
+        }[]
+      }
+      get_fine_type_stats: {
+        Args: { p_season_id: string }
+        Returns: {
+          fine_count: number
+          fine_type: Database["public"]["Enums"]["fine_type_enum"]
+          total_amount: number
+        }[]
+      }
+      get_fine_weekly_stats: {
+        Args: { p_season_id: string; p_time_zone?: string }
+        Returns: {
+          cumulative_amount: number
+          cumulative_count: number
+          fine_count: number
+          total_amount: number
+          week_start: string
+        }[]
+      }
+      get_most_commented_fines: {
+        Args: { p_limit?: number; p_season_id: string }
+        Returns: {
+          amount: number
+          comment_count: number
+          description: string
+          fine_id: string
+          fine_type: Database["public"]["Enums"]["fine_type_enum"]
+          subject_name: string
+        }[]
+      }
+      get_my_bookmarked_fine_ids: {
+        Args: { p_token: string }
+        Returns: string[]
+      }
+      get_my_notifications: {
+        Args: { p_limit?: number; p_token: string }
+        Returns: Database["public"]["Tables"]["notifications"]["Row"][]
+      }
+      get_my_saved_fine_ids: {
+        Args: { p_token: string }
+        Returns: string[]
+      }
+      get_player_fine_stats: {
+        Args: { p_season_id: string }
+        Returns: {
+          amount_received: number
+          fines_proposed: number
+          fines_received: number
+          name: string
+          user_id: string
+        }[]
+      }
+      get_player_totals: {
+        Args: { p_player_id?: string; p_season_id: string }
+        Returns: {
+          credited: number
+          fined: number
+          name: string
+          outstanding: number
+          paid: number
+          player_id: string
+        }[]
+      }
+      get_rule_stats: {
+        Args: { p_season_id: string }
+        Returns: {
+          code: string
+          fine_count: number
+          player_count: number
+          rule_id: string
+          title: string
+          total_amount: number
+        }[]
+      }
+      mark_all_my_notifications_read: {
+        Args: { p_token: string }
+        Returns: undefined
+      }
+      mark_my_notification_read: {
+        Args: { p_notification_id: string; p_token: string }
+        Returns: undefined
+      }
+      record_payment: {
+        Args: {
+          p_amount: number
+          p_method: Database["public"]["Enums"]["payment_method_enum"]
+          p_note?: string
+          p_paid_at: string
+          p_player_id: string
+          p_season_id?: string
+          p_token: string
+        }
+        Returns: Database["public"]["Tables"]["payments"]["Row"]
+      }
+      remove_my_bookmark: {
+        Args: { p_fine_id: string; p_token: string }
+        Returns: undefined
+      }
+      remove_reaction: {
+        Args: { p_reaction_id: string; p_token: string }
+        Returns: undefined
+      }
+      restore_fine: {
+        Args: { p_fine_id: string; p_token: string }
+        Returns: Database["public"]["Tables"]["fines"]["Row"]
+      }
+      retract_fine_vote: {
+        Args: { p_fine_id: string; p_token: string }
+        Returns: undefined
+      }
+      revoke_session: {
+        Args: { p_token: string }
+        Returns: undefined
+      }
+      search_fines: {
+        Args: { p_limit?: number; p_query: string; p_season_id?: string }
+        Returns: {
+          amount: number
+          author_name: string | null
+          comment_id: string | null
+          fine_date: string
+          fine_id: string
+          fine_type: Database["public"]["Enums"]["fine_type_enum"]
+          rank: number
+          snippet: string
+          subject_name: string | null
+        }[]
+      }
+      search_text: {
+        Args: { p_text: string }
+        Returns: string
+      }
+      update_fine: {
+        Args: {
+          p_amount?: number
+          p_description?: string
+          p_fine_id: string
+          p_fine_type?: Database["public"]["Enums"]["fine_type_enum"]
+          p_token: string
+        }
+        Returns: Database["public"]["Tables"]["fines"]["Row"]
+      }
+      update_fine_rule: {
+        Args: {
+          p_code?: string
+          p_default_amount?: number
+          p_default_type?: Database["public"]["Enums"]["fine_type_enum"]
+          p_is_active?: boolean
+          p_rule_id: string
+          p_title?: string
+          p_token: string
+        }
+        Returns: Database["public"]["Tables"]["fine_rules"]["Row"]
+      }
+      update_own_profile: {
+        Args: {
+          p_avatar_color?: string
+          p_avatar_initials?: string
+          p_name: string
+          p_token: string
+        }
+        Returns: undefined
+      }
+      void_fine: {
+        Args: { p_fine_id: string; p_reason?: string; p_token: string }
+        Returns: Database["public"]["Tables"]["fines"]["Row"]
+      }
+      validate_session: {
+        Args: { p_token: string }
+        Returns: {
+          avatar_color: string | null
+          avatar_initials: string | null
+          expires_at: string
+          name: string
+          role: string
+          user_id: string
+          username: string
+        }[]
+      }
     }
     Enums: {
+      fine_event_type_enum: "created" | "edited" | "voided" | "restored"
+      fine_status_enum: "pending" | "approved" | "rejected" | "contested"
       fine_type_enum: "Fine" | "Credit" | "Warning"
+      fine_vote_enum: "approve" | "reject"
+      notification_type_enum: "mention" | "fine" | "comment" | "reply"
+      payment_method_enum: "Cash" | "Bank Transfer" | "Card" | "Other"
       role_enum: "User" | "Admin"
     }
     CompositeTypes: {
@@ -356,7 +1178,12 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      fine_event_type_enum: ["created", "edited", "voided", "restored"],
+      fine_status_enum: ["pending", "approved", "rejected", "contested"],
       fine_type_enum: ["Fine", "Credit", "Warning"],
+      fine_vote_enum: ["approve", "reject"],
+      notification_type_enum: ["mention", "fine", "comment", "reply"],
+      payment_method_enum: ["Cash", "Bank Transfer", "Card", "Other"],
       role_enum: ["User", "Admin"],
     },
   },